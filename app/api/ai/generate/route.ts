@@ -1,16 +1,157 @@
-// POST /api/ai/generate - Generate AI content
+// POST /api/ai/generate - Generate AI content, optionally streamed as Server-Sent Events
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/middleware/auth';
 import { rateLimit, getRateLimitHeaders } from '@/lib/middleware/rate-limit';
-import { generateWithAI, estimateTokenCost, AIAction } from '@/lib/ai-client';
+import {
+  generateWithAI,
+  streamWithAI,
+  estimateTokenCost,
+  estimateTokens,
+  getPromptTemplate,
+  resolveAIModel,
+  AIAction,
+  AIGenerateResult,
+  AI_ACTIONS,
+} from '@/lib/ai-client';
+import { AIProviderError } from '@/lib/ai';
+import { AIContext, assembleAIContext } from '@/lib/ai-context';
 import { enforceQuota, recordUsage } from '@/lib/ai-quota';
 
 interface GenerateRequest {
   action: AIAction;
   selectedText: string;
   context: string;
-  model?: 'gpt-4o-mini' | 'gpt-4o';
   specId: string;
+  // Respond with text/event-stream instead of JSON
+  stream?: boolean;
+}
+
+function formatResult(result: AIGenerateResult, context: AIContext | null) {
+  return {
+    generatedText: result.generatedText,
+    tokensUsed: result.tokensUsed,
+    model: result.model,
+    metadata: {
+      timestamp: result.metadata.timestamp.toISOString(),
+      action: result.metadata.action,
+    },
+    // Related material added to the prompt's context
+    context: context && {
+      sources: context.sources,
+      tokens: context.tokens,
+      ranking: context.ranking,
+    },
+  };
+}
+
+function aiServiceError(error: unknown) {
+  return {
+    error: {
+      code: 'AI_SERVICE_ERROR',
+      message: 'AI service is temporarily unavailable',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    },
+  };
+}
+
+// The client's context followed by the assembled related material
+function promptContext(clientContext: string | undefined, context: AIContext | null): string {
+  return [clientContext || '', context?.text ? `Related specs and references:\n\n${context.text}` : '']
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Stream the generated text as `text` events, ending with a `done` event
+ * carrying the same fields as the JSON response, or an `error` event
+ * Usage is recorded when the text is complete, when the client disconnects
+ * or cancels part way, and, estimated, when generation fails part way.
+ */
+function streamResponse(
+  request: NextRequest,
+  body: GenerateRequest,
+  context: AIContext | null,
+  userId: string,
+  headers: Record<string, string>
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const options = {
+        action: body.action,
+        selectedText: body.selectedText,
+        context: promptContext(body.context, context),
+      };
+      let streamed = '';
+      let recorded = false;
+
+      try {
+        const result = await streamWithAI(
+          options,
+          (text) => {
+            streamed += text;
+            send('text', { text });
+          },
+          abort.signal
+        );
+        recorded = true;
+        await recordUsage(userId, body.specId, body.action, result.model, result.tokensUsed);
+        send('done', formatResult(result, context));
+      } catch (error) {
+        console.error('Error streaming AI content:', error);
+
+        // The text sent before the failure was generated and counts towards the quota
+        if (streamed && !recorded) {
+          const prompt = getPromptTemplate(options.action, options.selectedText, options.context);
+          await recordUsage(
+            userId,
+            body.specId,
+            body.action,
+            resolveAIModel(body.action).model,
+            estimateTokens(prompt + streamed)
+          ).catch((usageError) => console.error('Error recording AI usage:', usageError));
+        }
+        send(
+          'error',
+          error instanceof AIProviderError
+            ? aiServiceError(error)
+            : {
+                error: {
+                  code: 'INTERNAL_ERROR',
+                  message: 'Failed to generate AI content',
+                  details: error instanceof Error ? error.message : 'Unknown error',
+                },
+              }
+        );
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Already cancelled by the client
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -34,7 +175,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body: GenerateRequest = await request.json();
-    const { action, selectedText, context, model = 'gpt-4o-mini', specId } = body;
+    const { action, selectedText, context, specId } = body;
 
     // Validate required fields
     if (!action || !selectedText || !specId) {
@@ -50,33 +191,30 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate action
-    const validActions: AIAction[] = [
-      'complete',
-      'rewrite',
-      'generate-criteria',
-      'generate-tests',
-      'summarize',
-      'extract-tasks',
-      'translate',
-    ];
-    if (!validActions.includes(action)) {
+    if (!AI_ACTIONS.includes(action)) {
       return NextResponse.json(
         {
           error: {
             code: 'VALIDATION_ERROR',
-            message: `Invalid action. Must be one of: ${validActions.join(', ')}`,
+            message: `Invalid action. Must be one of: ${AI_ACTIONS.join(', ')}`,
           },
         },
         { status: 400 }
       );
     }
 
+    // Add the spec's parents, siblings, linked specs, glossary and attachments
+    const assembled = await assembleAIContext(specId, selectedText, context || '').catch((error) => {
+      console.error('Error assembling AI context:', error);
+      return null;
+    });
+    const fullContext = promptContext(context, assembled);
+
     // Estimate token cost
     const estimatedTokens = estimateTokenCost({
       action,
       selectedText,
-      context: context || '',
-      model,
+      context: fullContext,
     });
 
     // Enforce quota
@@ -94,52 +232,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Add rate limit headers
+    const rateLimitHeaders = getRateLimitHeaders(userId, {
+      maxRequests: 20,
+      windowMs: 60000,
+    });
+
+    if (body.stream) {
+      return streamResponse(request, body, assembled, userId, rateLimitHeaders);
+    }
+
     // Generate AI content
     const result = await generateWithAI({
       action,
       selectedText,
-      context: context || '',
-      model,
+      context: fullContext,
     });
 
     // Record usage
     await recordUsage(userId, specId, action, result.model, result.tokensUsed);
 
-    // Add rate limit headers
-    const rateLimitHeaders = getRateLimitHeaders(userId, {
-      maxRequests: 20,
-      windowMs: 60000,
+    return NextResponse.json(formatResult(result, assembled), {
+      headers: rateLimitHeaders,
     });
-
-    return NextResponse.json(
-      {
-        generatedText: result.generatedText,
-        tokensUsed: result.tokensUsed,
-        model: result.model,
-        metadata: {
-          timestamp: result.metadata.timestamp.toISOString(),
-          action: result.metadata.action,
-        },
-      },
-      {
-        headers: rateLimitHeaders,
-      }
-    );
   } catch (error) {
     console.error('Error generating AI content:', error);
     
-    // Handle specific Azure OpenAI errors
-    if (error instanceof Error && error.message.includes('Azure OpenAI')) {
-      return NextResponse.json(
-        {
-          error: {
-            code: 'AI_SERVICE_ERROR',
-            message: 'AI service is temporarily unavailable',
-            details: error.message,
-          },
-        },
-        { status: 503 }
-      );
+    // Handle AI backend errors
+    if (error instanceof AIProviderError) {
+      return NextResponse.json(aiServiceError(error), { status: 503 });
     }
 
     return NextResponse.json(
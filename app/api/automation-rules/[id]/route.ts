@@ -0,0 +1,162 @@
+// API route for individual automation rules
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AutomationRuleRepository } from '@/lib/repositories/automation-rule-repository';
+import { AutomationRunRepository } from '@/lib/repositories/automation-run-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { AutomationRuleSchema, invalidateAutomationCache } from '@/lib/automation';
+
+/**
+ * GET /api/automation-rules/:id
+ * Retrieve a rule along with its most recent runs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const ruleRepo = new AutomationRuleRepository();
+    const rule = await ruleRepo.findById(id);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Automation rule not found' } },
+        { status: 404 }
+      );
+    }
+
+    const runRepo = new AutomationRunRepository();
+    const runs = await runRepo.findByRuleId(id);
+
+    return NextResponse.json({ rule, runs });
+  } catch (error) {
+    console.error('Error fetching automation rule:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch automation rule' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/automation-rules/:id
+ * Replace an automation rule
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'workflow:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage automation rules' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const input = AutomationRuleSchema.parse(body);
+
+    const ruleRepo = new AutomationRuleRepository();
+    const rule = await ruleRepo.updateRule(id, input, authResult.user.userId);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Automation rule not found' } },
+        { status: 404 }
+      );
+    }
+
+    invalidateAutomationCache();
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid automation rule',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating automation rule:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update automation rule' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/automation-rules/:id
+ * Delete an automation rule (its run history is kept)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'workflow:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage automation rules' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const ruleRepo = new AutomationRuleRepository();
+    const deleted = await ruleRepo.deleteById(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Automation rule not found' } },
+        { status: 404 }
+      );
+    }
+
+    invalidateAutomationCache();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting automation rule:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to delete automation rule' } },
+      { status: 500 }
+    );
+  }
+}
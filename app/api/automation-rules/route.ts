@@ -0,0 +1,88 @@
+// API route for workflow automation rule listing and creation
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AutomationRuleRepository } from '@/lib/repositories/automation-rule-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { AutomationRuleSchema, invalidateAutomationCache } from '@/lib/automation';
+
+/**
+ * GET /api/automation-rules
+ * List all automation rules
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const ruleRepo = new AutomationRuleRepository();
+    const rules = await ruleRepo.findAll();
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error fetching automation rules:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch automation rules' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/automation-rules
+ * Create a new automation rule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    // Automation rules are part of workflow configuration
+    if (!hasPermission(authResult.user.role, 'workflow:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage automation rules' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const input = AutomationRuleSchema.parse(body);
+
+    const ruleRepo = new AutomationRuleRepository();
+    const rule = await ruleRepo.createRule(input, authResult.user.userId);
+    invalidateAutomationCache();
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid automation rule',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating automation rule:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to create automation rule' } },
+      { status: 500 }
+    );
+  }
+}
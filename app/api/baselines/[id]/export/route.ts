@@ -0,0 +1,65 @@
+// GET /api/baselines/:id/export - Export a baseline as a zip of markdown files
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { BaselineRepository } from '@/lib/repositories/baseline-repository';
+import { exportSpecs, slugify } from '@/lib/export';
+
+/**
+ * GET /api/baselines/:id/export
+ * Download the spec versions captured in a baseline in the same layout as
+ * GET /api/export. Attachments are not versioned, so `attachments=true`
+ * adds their current files.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to export specs' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const baseline = await new BaselineRepository().findById(id);
+    if (!baseline) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Baseline not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { archive } = await exportSpecs(
+      {
+        baselineId: baseline._id,
+        attachments: request.nextUrl.searchParams.get('attachments') === 'true',
+      },
+      authResult.user
+    );
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="baseline-${slugify(baseline.name)}.zip"`,
+        'Content-Length': archive.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
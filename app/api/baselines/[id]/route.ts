@@ -0,0 +1,93 @@
+// API route for a single baseline
+import { NextRequest, NextResponse } from 'next/server';
+import { BaselineRepository } from '@/lib/repositories/baseline-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+
+/**
+ * GET /api/baselines/:id
+ * Retrieve a baseline with the spec versions it captured
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to read specs' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const baseline = await new BaselineRepository().findById(id);
+    if (!baseline) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Baseline not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ baseline });
+  } catch (error) {
+    console.error('Error fetching baseline:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch baseline' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/baselines/:id
+ * Delete a baseline; the spec versions it captured are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'baseline:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage baselines' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const deleted = await new BaselineRepository().deleteById(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Baseline not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Baseline deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting baseline:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to delete baseline' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+// API route for comparing two baselines
+import { NextRequest, NextResponse } from 'next/server';
+import { BaselineRepository } from '@/lib/repositories/baseline-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { compareBaselines } from '@/lib/baselines';
+
+/**
+ * GET /api/baselines/compare?from=<id>&to=<id>
+ * Specs added, removed and changed from one baseline to another, with a
+ * semantic diff (as in `format=semantic` revision comparisons) of each
+ * changed spec
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to read specs' } },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+    if (!fromId || !toId) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'Both from and to baselines are required' } },
+        { status: 400 }
+      );
+    }
+
+    const baselineRepo = new BaselineRepository();
+    const from = await baselineRepo.findById(fromId);
+    const to = await baselineRepo.findById(toId);
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'One or both baselines not found' } },
+        { status: 404 }
+      );
+    }
+
+    const comparison = await compareBaselines(from, to);
+
+    return NextResponse.json({ comparison });
+  } catch (error) {
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,93 @@
+// API route for named baselines of spec versions
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { BaselineRepository } from '@/lib/repositories/baseline-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { BaselineSchema, createBaseline } from '@/lib/baselines';
+
+/**
+ * GET /api/baselines
+ * List baselines (newest first) without their entries
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to read specs' } },
+        { status: 403 }
+      );
+    }
+
+    const baselines = await new BaselineRepository().findAll();
+
+    return NextResponse.json({
+      baselines: baselines.map(({ entries, ...baseline }) => ({
+        ...baseline,
+        specCount: entries.length,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching baselines:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch baselines' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/baselines
+ * Record the current version of every spec in the traceability subtree under
+ * `rootId`, or of the specs in `specIds`, as a named baseline
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'baseline:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage baselines' } },
+        { status: 403 }
+      );
+    }
+
+    const input = BaselineSchema.parse(await request.json());
+    const baseline = await createBaseline(input, authResult.user);
+
+    return NextResponse.json({ baseline }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid baseline',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
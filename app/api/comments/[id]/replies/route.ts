@@ -2,6 +2,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { CommentRepository } from '@/lib/repositories/comment-repository';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { runAutomationRules } from '@/lib/automation';
+import { resolveMentions } from '@/lib/mentions';
+import { notifyComment } from '@/lib/notifications';
+import { notifyWatchers } from '@/lib/subscriptions';
+import { emitWebhookEvent, webhookSpecData } from '@/lib/webhooks';
 import { requireAuth } from '@/lib/middleware/auth';
 import { SessionPayload } from '@/types/auth';
 
@@ -44,14 +51,16 @@ export async function POST(
     const body = await request.json();
     const validatedData = createReplySchema.parse(body);
 
-    // Extract mentions from text (e.g., @username)
-    const mentionRegex = /@(\w+)/g;
-    const textMentions = [...validatedData.text.matchAll(mentionRegex)].map(
-      (match) => match[1]
-    );
-    const allMentions = [
-      ...new Set([...validatedData.mentions, ...textMentions]),
-    ];
+    const spec = await new SpecRepository().findById(parentComment.specId);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Resolve @mentions to registered users
+    const mentioned = await resolveMentions(validatedData.text, validatedData.mentions);
 
     // Create reply with same line range as parent
     const reply = await commentRepository.createComment(
@@ -59,18 +68,37 @@ export async function POST(
       user.email,
       validatedData.text,
       parentComment.lineRange,
-      allMentions,
+      mentioned.handles,
       parentCommentId
     );
 
-    // TODO: Send email notifications to mentioned users and parent comment author
-    const notifyUsers = [...allMentions, parentComment.author];
-    if (notifyUsers.length > 0) {
-      // Email notification logic would go here
-      console.log(`Notify users: ${notifyUsers.join(', ')}`);
+    // Mentioned users get a mention; the thread author gets a reply notification
+    await notifyComment({
+      type: 'mention',
+      spec,
+      comment: reply,
+      actor: user.email,
+      recipients: mentioned.users,
+    });
+    const threadAuthor = await new UserRepository().findByEmail(parentComment.author);
+    if (threadAuthor && !mentioned.users.some((u) => u.email === threadAuthor.email)) {
+      await notifyComment({
+        type: 'reply',
+        spec,
+        comment: reply,
+        actor: user.email,
+        recipients: [threadAuthor],
+      });
     }
 
-    return NextResponse.json({ reply }, { status: 201 });
+    await notifyWatchers({ type: 'comment', spec, actor: user, message: reply.text });
+
+    await emitWebhookEvent('comment.created', { spec: webhookSpecData(spec), comment: reply }, user);
+
+    // Apply on-comment side effects
+    const automation = await runAutomationRules({ trigger: 'comment', spec, user });
+
+    return NextResponse.json({ reply, automation }, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -0,0 +1,93 @@
+// API route for comment thread status
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { CommentRepository } from '@/lib/repositories/comment-repository';
+import { requireAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { SessionPayload } from '@/types/auth';
+
+const commentRepository = new CommentRepository();
+
+// Validation schema for updating a thread's status
+const updateStatusSchema = z.object({
+  status: z.enum(['open', 'resolved', 'wont-fix']),
+});
+
+/**
+ * PATCH /api/comments/:id
+ * Resolve, mark as won't fix, or reopen a comment thread
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate user
+    const authResult = await requireAuth(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+    const user = authResult as SessionPayload;
+
+    const { id } = await params;
+
+    const comment = await commentRepository.findById(id);
+    if (!comment) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Comment not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (comment.parentCommentId) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Only top-level comments carry a thread status',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // The thread author or anyone who may update comments can change its status
+    if (comment.author !== user.email && !hasPermission(user.role, 'comment:update')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to update this thread' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { status } = updateStatusSchema.parse(body);
+
+    const updated = await commentRepository.updateStatus(id, status, user.email);
+
+    return NextResponse.json({ comment: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating comment status:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update comment status',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// GET /api/export - Export specs as a zip of markdown files
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { exportSpecs } from '@/lib/export';
+
+/**
+ * GET /api/export
+ * Download all specs, or those matching `filter` (filter query) and/or the
+ * traceability subtree under `rootId`, as a zip laid out like a markdown
+ * repository with a `manifest.json`. `attachments=false` leaves out files.
+ * The archive can be re-imported with POST /api/import.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to export specs' } },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const { archive, manifest } = await exportSpecs(
+      {
+        filter: searchParams.get('filter')?.trim() || undefined,
+        rootId: searchParams.get('rootId') || undefined,
+        attachments: searchParams.get('attachments') !== 'false',
+      },
+      authResult.user
+    );
+
+    const fileName = `specs-${manifest.exportedAt.toISOString().slice(0, 10)}.zip`;
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': archive.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
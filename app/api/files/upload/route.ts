@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/middleware/auth';
 import { uploadFile, generateSasUrl } from '@/lib/blob-storage';
 import { FileAttachmentRepository } from '@/lib/repositories/file-attachment-repository';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { notifyWatchers } from '@/lib/subscriptions';
+import { emitWebhookEvent, webhookSpecData } from '@/lib/webhooks';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
 
@@ -101,6 +104,30 @@ export async function POST(request: NextRequest) {
       authResult.user.email
     );
 
+    const spec = await new SpecRepository().findById(specId);
+    if (spec) {
+      await notifyWatchers({
+        type: 'attachment',
+        spec,
+        actor: authResult.user,
+        message: file.name,
+      });
+
+      await emitWebhookEvent(
+        'file.uploaded',
+        {
+          spec: webhookSpecData(spec),
+          file: {
+            id: attachment._id,
+            name: file.name,
+            contentType: file.type,
+            size: file.size,
+          },
+        },
+        authResult.user
+      );
+    }
+
     return NextResponse.json({
       fileId: attachment._id,
       fileName: file.name,
@@ -0,0 +1,129 @@
+// API route for resolving git sync conflicts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { GitSyncStateRepository } from '@/lib/repositories/git-sync-state-repository';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { GitError } from '@/lib/git';
+import { resolveGitSyncConflict } from '@/lib/git-sync';
+import { specDocument } from '@/lib/export';
+
+const ResolveConflictSchema = z.object({
+  keep: z.enum(['app', 'git']),
+});
+
+/**
+ * GET /api/git-sync/conflicts/:specId
+ * Both sides of a conflict: the spec document in the app and the file in git
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ specId: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'sync:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage git sync' } },
+        { status: 403 }
+      );
+    }
+
+    const { specId } = await params;
+    const state = await new GitSyncStateRepository().findBySpecId(specId);
+    const spec = await new SpecRepository().findById(specId);
+
+    if (!state?.conflict || !spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'No sync conflict for this spec' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      conflict: {
+        specId,
+        path: state.path,
+        syncedVersion: state.version,
+        detectedAt: state.conflict.detectedAt,
+        app: { version: spec.currentVersion, content: specDocument(spec) },
+        git: { commit: state.conflict.fileCommit, content: state.conflict.fileContent },
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching git sync conflict:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch git sync conflict' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/git-sync/conflicts/:specId
+ * Resolve a conflict by keeping the app's (`keep: "app"`) or git's
+ * (`keep: "git"`) version, then run a sync
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ specId: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'sync:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage git sync' } },
+        { status: 403 }
+      );
+    }
+
+    const { specId } = await params;
+    const { keep } = ResolveConflictSchema.parse(await request.json());
+
+    const report = await resolveGitSyncConflict(specId, keep);
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof GitError) {
+      console.error('Git sync failed:', error.args.join(' '), error.stderr);
+      return NextResponse.json(
+        { error: { code: 'INTERNAL_ERROR', message: error.message } },
+        { status: 502 }
+      );
+    }
+
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,101 @@
+// API routes for two-way git synchronization of specs
+import { NextRequest, NextResponse } from 'next/server';
+import { GitSyncStateRepository } from '@/lib/repositories/git-sync-state-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { GitError } from '@/lib/git';
+import { isGitSyncConfigured, syncSpecs } from '@/lib/git-sync';
+import { env } from '@/lib/env';
+
+/**
+ * GET /api/git-sync
+ * Sync configuration and unresolved conflicts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'sync:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage git sync' } },
+        { status: 403 }
+      );
+    }
+
+    const stateRepo = new GitSyncStateRepository();
+    const [tracked, conflicts] = await Promise.all([stateRepo.count(), stateRepo.findConflicts()]);
+
+    return NextResponse.json({
+      configured: isGitSyncConfigured(),
+      branch: env.gitSync.branch,
+      directory: env.gitSync.directory,
+      tracked,
+      conflicts: conflicts.map((state) => ({
+        specId: state.specId,
+        path: state.path,
+        syncedVersion: state.version,
+        specVersion: state.conflict!.specVersion,
+        fileCommit: state.conflict!.fileCommit,
+        detectedAt: state.conflict!.detectedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching git sync status:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch git sync status' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/git-sync
+ * Run a sync and return its report. Callable by users who manage sync or by
+ * a scheduler with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authorization = request.headers.get('authorization');
+    const isScheduler = Boolean(env.app.cronSecret) && authorization === `Bearer ${env.app.cronSecret}`;
+
+    if (!isScheduler) {
+      const authResult = await verifyAuth(request);
+      if (!authResult.authenticated || !authResult.user) {
+        return NextResponse.json(
+          { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+          { status: 401 }
+        );
+      }
+
+      if (!hasPermission(authResult.user.role, 'sync:manage')) {
+        return NextResponse.json(
+          { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage git sync' } },
+          { status: 403 }
+        );
+      }
+    }
+
+    const report = await syncSpecs();
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    if (error instanceof GitError) {
+      console.error('Git sync failed:', error.args.join(' '), error.stderr);
+      return NextResponse.json(
+        { error: { code: 'INTERNAL_ERROR', message: error.message } },
+        { status: 502 }
+      );
+    }
+
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
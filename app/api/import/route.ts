@@ -0,0 +1,98 @@
+// POST /api/import - Import specs from markdown files or a zip archive
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { importSpecs, normalizeImportPath, ImportSourceFile } from '@/lib/import';
+import { readZip, ZipError } from '@/lib/zip';
+
+const MAX_UPLOAD_SIZE = 20 * 1024 * 1024; // 20 MB
+const MAX_IMPORT_FILES = 500;
+
+function validationError(message: string) {
+  return NextResponse.json({ error: { code: 'VALIDATION_ERROR', message } }, { status: 400 });
+}
+
+function isZip(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+}
+
+/**
+ * POST /api/import
+ * Accepts multipart `files` (markdown files and/or zip archives of a spec
+ * folder). With `dryRun=true` (query or form field) nothing is written and
+ * the response reports what would be created, updated or rejected.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:create')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to import specs' } },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const uploads = formData.getAll('files').filter((entry): entry is File => entry instanceof File);
+    const dryRunValue = request.nextUrl.searchParams.get('dryRun') ?? formData.get('dryRun');
+    const dryRun = dryRunValue === 'true' || dryRunValue === '1';
+
+    if (uploads.length === 0) {
+      return validationError('No files provided');
+    }
+
+    const totalSize = uploads.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_UPLOAD_SIZE) {
+      return validationError(`Upload exceeds maximum size of ${MAX_UPLOAD_SIZE / 1024 / 1024} MB`);
+    }
+
+    const files: ImportSourceFile[] = [];
+    for (const upload of uploads) {
+      const buffer = Buffer.from(await upload.arrayBuffer());
+
+      if (isZip(upload)) {
+        // Archive paths are prefixed with the archive name only when several archives are uploaded
+        const prefix = uploads.length > 1 ? `${upload.name.replace(/\.zip$/i, '')}/` : '';
+        for (const entry of readZip(buffer, { maxEntries: MAX_IMPORT_FILES * 2 })) {
+          const path = normalizeImportPath(entry.path);
+          if (path) files.push({ path: `${prefix}${path}`, content: entry.data.toString('utf8') });
+        }
+      } else {
+        const path = normalizeImportPath(upload.name);
+        if (!path) {
+          return validationError(`Unsupported file "${upload.name}" (expected .md, .markdown or .zip)`);
+        }
+        files.push({ path, content: buffer.toString('utf8') });
+      }
+    }
+
+    if (files.length === 0) {
+      return validationError('No markdown files found in upload');
+    }
+    if (files.length > MAX_IMPORT_FILES) {
+      return validationError(`Import has ${files.length} files (limit ${MAX_IMPORT_FILES})`);
+    }
+
+    const report = await importSpecs(files, authResult.user, { dryRun });
+
+    return NextResponse.json(report, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    if (error instanceof ZipError) {
+      return validationError(`Invalid zip archive: ${error.message}`);
+    }
+
+    console.error('Error importing specs:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to import specs' } },
+      { status: 500 }
+    );
+  }
+}
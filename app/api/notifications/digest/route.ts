@@ -0,0 +1,52 @@
+// API route for sending email digests, called by a scheduler
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { sendDigests } from '@/lib/digests';
+import { env } from '@/lib/env';
+
+const DigestRunSchema = z.object({
+  frequency: z.enum(['hourly', 'daily']),
+});
+
+/**
+ * POST /api/notifications/digest
+ * Send pending digests of one frequency. Schedule hourly and daily calls with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authorization = request.headers.get('authorization');
+    if (!env.app.cronSecret || authorization !== `Bearer ${env.app.cronSecret}`) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Invalid scheduler credentials' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { frequency } = DigestRunSchema.parse(body);
+
+    const result = await sendDigests(frequency);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error sending digests:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to send digests' } },
+      { status: 500 }
+    );
+  }
+}
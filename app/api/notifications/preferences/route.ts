@@ -0,0 +1,88 @@
+// API route for the current user's notification preferences
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { NotificationPreferenceRepository } from '@/lib/repositories/notification-preference-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { getNotificationPreferences } from '@/lib/notifications';
+
+// Validation schema for notification preferences
+const PreferencesSchema = z.object({
+  channels: z.object({
+    inApp: z.boolean(),
+    email: z.boolean(),
+  }),
+  emailFrequency: z.enum(['immediate', 'hourly', 'daily']),
+});
+
+/**
+ * GET /api/notifications/preferences
+ * Get the current user's channels and email frequency
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const preferences = await getNotificationPreferences(authResult.user.userId);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch notification preferences' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/notifications/preferences
+ * Replace the current user's channels and email frequency
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = PreferencesSchema.parse(body);
+
+    const preferenceRepo = new NotificationPreferenceRepository();
+    const stored = await preferenceRepo.upsert(authResult.user.userId, input);
+
+    return NextResponse.json({
+      preferences: { channels: stored.channels, emailFrequency: stored.emailFrequency },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid notification preferences',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update notification preferences' } },
+      { status: 500 }
+    );
+  }
+}
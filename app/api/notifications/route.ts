@@ -0,0 +1,93 @@
+// API route for the current user's notification inbox
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { NotificationRepository } from '@/lib/repositories/notification-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+
+// Validation schema for marking notifications read
+const MarkReadSchema = z.union([
+  z.object({ ids: z.array(z.string().min(1)).min(1) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+/**
+ * GET /api/notifications?unread=true&limit=20
+ * List the current user's notifications with the unread count
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const notificationRepo = new NotificationRepository();
+    const userId = authResult.user.userId;
+    const [notifications, unreadCount] = await Promise.all([
+      notificationRepo.findByUser(userId, { unreadOnly, limit }),
+      notificationRepo.countUnread(userId),
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch notifications' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Mark notifications read: { ids: [...] } or { all: true }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = MarkReadSchema.parse(body);
+
+    const notificationRepo = new NotificationRepository();
+    const userId = authResult.user.userId;
+    const updated = await notificationRepo.markRead(userId, 'ids' in input ? input.ids : undefined);
+    const unreadCount = await notificationRepo.countUnread(userId);
+
+    return NextResponse.json({ updated, unreadCount });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update notifications' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// API route for full-text spec search
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { searchSpecs } from '@/lib/search';
+
+/**
+ * GET /api/search?q=&limit=20&offset=0
+ * Search specs by title, content, tags, comments and attachment names
+ * Supports `status:`, `type:`, `tag:` and `assignee:` filters and "exact phrases".
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to search specs' } },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const query = searchParams.get('q')?.trim() || '';
+    if (!query) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'Query parameter q is required' } },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const result = await searchSpecs(query, {
+      userEmail: authResult.user.email,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error searching specs:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to search specs' } },
+      { status: 500 }
+    );
+  }
+}
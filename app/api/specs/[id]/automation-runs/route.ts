@@ -0,0 +1,36 @@
+// API route for the automation audit trail of a spec
+import { NextRequest, NextResponse } from 'next/server';
+import { AutomationRunRepository } from '@/lib/repositories/automation-run-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+
+/**
+ * GET /api/specs/:id/automation-runs
+ * List rule runs triggered by or affecting a spec (newest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const runRepo = new AutomationRunRepository();
+    const runs = await runRepo.findBySpecId(id);
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Error fetching automation runs:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch automation runs' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// API route for AI-proposed child specs
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { proposeChildSpecs } from '@/lib/child-specs';
+
+/**
+ * POST /api/specs/:id/children/propose
+ * Propose user stories for an epic, or test cases for a user story, without
+ * saving them
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:create')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to create specs' } },
+        { status: 403 }
+      );
+    }
+
+    // Same limit as the other AI requests
+    const rateLimitResult = await rateLimit(request, authResult.user.userId, {
+      maxRequests: 20,
+      windowMs: 60000,
+    });
+    if (rateLimitResult) {
+      return rateLimitResult;
+    }
+
+    const proposals = await proposeChildSpecs(id, authResult.user);
+
+    return NextResponse.json(proposals);
+  } catch (error) {
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -0,0 +1,67 @@
+// API route for creating linked child specs
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { ChildSpecsSchema, createChildSpecs } from '@/lib/child-specs';
+
+/**
+ * POST /api/specs/:id/children
+ * Create specs as children of this one, each linked to it, all or none
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:create')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to create specs' } },
+        { status: 403 }
+      );
+    }
+
+    const input = ChildSpecsSchema.parse(await request.json());
+    const { specs, links } = await createChildSpecs(id, input, authResult.user);
+
+    return NextResponse.json(
+      {
+        specs: specs.map((spec) => ({
+          id: spec._id,
+          title: spec.title,
+          metadata: spec.metadata,
+          createdBy: spec.createdBy,
+          createdAt: spec.createdAt,
+          currentVersion: spec.currentVersion,
+        })),
+        links,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid child specs',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
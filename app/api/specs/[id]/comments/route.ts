@@ -2,6 +2,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { CommentRepository } from '@/lib/repositories/comment-repository';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { runAutomationRules } from '@/lib/automation';
+import { resolveMentions } from '@/lib/mentions';
+import { notifyComment } from '@/lib/notifications';
+import { notifyWatchers } from '@/lib/subscriptions';
+import { emitWebhookEvent, webhookSpecData } from '@/lib/webhooks';
 import { requireAuth } from '@/lib/middleware/auth';
 import { SessionPayload } from '@/types/auth';
 
@@ -17,6 +23,8 @@ const createCommentSchema = z.object({
   mentions: z.array(z.string()).optional().default([]),
 });
 
+const commentStatusSchema = z.enum(['open', 'resolved', 'wont-fix']);
+
 /**
  * POST /api/specs/:id/comments
  * Create a new comment on a spec
@@ -39,14 +47,16 @@ export async function POST(
     const body = await request.json();
     const validatedData = createCommentSchema.parse(body);
 
-    // Extract mentions from text (e.g., @username)
-    const mentionRegex = /@(\w+)/g;
-    const textMentions = [...validatedData.text.matchAll(mentionRegex)].map(
-      (match) => match[1]
-    );
-    const allMentions = [
-      ...new Set([...validatedData.mentions, ...textMentions]),
-    ];
+    const spec = await new SpecRepository().findById(specId);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Resolve @mentions to registered users
+    const mentioned = await resolveMentions(validatedData.text, validatedData.mentions);
 
     // Create comment
     const comment = await commentRepository.createComment(
@@ -54,16 +64,25 @@ export async function POST(
       user.email,
       validatedData.text,
       validatedData.lineRange,
-      allMentions
+      mentioned.handles
     );
 
-    // TODO: Send email notifications to mentioned users
-    if (allMentions.length > 0) {
-      // Email notification logic would go here
-      console.log(`Mentions detected: ${allMentions.join(', ')}`);
-    }
+    await notifyComment({
+      type: 'mention',
+      spec,
+      comment,
+      actor: user.email,
+      recipients: mentioned.users,
+    });
+
+    await notifyWatchers({ type: 'comment', spec, actor: user, message: comment.text });
 
-    return NextResponse.json({ comment }, { status: 201 });
+    await emitWebhookEvent('comment.created', { spec: webhookSpecData(spec), comment: comment }, user);
+
+    // Apply on-comment side effects
+    const automation = await runAutomationRules({ trigger: 'comment', spec, user });
+
+    return NextResponse.json({ comment, automation }, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -92,8 +111,8 @@ export async function POST(
 }
 
 /**
- * GET /api/specs/:id/comments
- * Get all comments for a spec with threaded replies
+ * GET /api/specs/:id/comments?status=open
+ * Get all comments for a spec with threaded replies, optionally by thread status
  */
 export async function GET(
   request: NextRequest,
@@ -107,6 +126,8 @@ export async function GET(
     }
 
     const { id: specId } = await params;
+    const { searchParams } = new URL(request.url);
+    const status = commentStatusSchema.optional().parse(searchParams.get('status') || undefined);
 
     // Get all comments for the spec
     const allComments = await commentRepository.findAllBySpecId(specId);
@@ -129,13 +150,26 @@ export async function GET(
         if (parent && commentWithReplies) {
           parent.replies.push(commentWithReplies);
         }
-      } else if (commentWithReplies) {
+      } else if (commentWithReplies && (!status || (comment.status || 'open') === status)) {
         topLevelComments.push(commentWithReplies);
       }
     });
 
     return NextResponse.json({ comments: topLevelComments });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid status filter',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     console.error('Error fetching comments:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,73 @@
+// GET /api/specs/:id/export - Export a spec as a PDF, Word or HTML document
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { DOCUMENT_FORMATS, isDocumentFormat, renderSpecDocument } from '@/lib/documents';
+
+/**
+ * GET /api/specs/:id/export?format=pdf|docx|html
+ * `subtree=true` adds all traceability descendants as numbered sections.
+ * `cover=false` and `toc=false` leave out the cover page and table of contents.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to export specs' } },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const format = searchParams.get('format') || 'pdf';
+    if (!isDocumentFormat(format)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `format must be one of: ${DOCUMENT_FORMATS.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const document = await renderSpecDocument(
+      id,
+      format,
+      {
+        subtree: searchParams.get('subtree') === 'true',
+        cover: searchParams.get('cover') !== 'false',
+        toc: searchParams.get('toc') !== 'false',
+      },
+      authResult.user
+    );
+
+    return new NextResponse(new Uint8Array(document.data), {
+      headers: {
+        'Content-Type': document.contentType,
+        'Content-Disposition': `attachment; filename="${document.fileName}"`,
+        'Content-Length': document.data.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
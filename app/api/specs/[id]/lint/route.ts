@@ -0,0 +1,85 @@
+// API route for spec quality review
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { rateLimit } from '@/lib/middleware/rate-limit';
+import { hasPermission } from '@/lib/permissions';
+import { handleApiError } from '@/lib/errors';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { reviewSpec } from '@/lib/spec-review';
+
+// Request validation schema; content and type default to the saved spec
+const LintSpecSchema = z.object({
+  content: z.string().max(200000).optional(),
+  type: z.enum(['epic', 'user-story', 'technical-spec', 'test-case']).optional(),
+  ai: z.boolean().default(false),
+});
+
+/**
+ * POST /api/specs/:id/lint
+ * Line-anchored diagnostics for a spec, or for unsaved content of it, from
+ * the rule-based checks and optionally the AI
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to read specs' } },
+        { status: 403 }
+      );
+    }
+
+    const body = LintSpecSchema.parse(await request.json().catch(() => ({})));
+
+    // Same limit as the other AI requests; the rules alone are not limited
+    if (body.ai) {
+      const rateLimitResult = await rateLimit(request, authResult.user.userId, {
+        maxRequests: 20,
+        windowMs: 60000,
+      });
+      if (rateLimitResult) {
+        return rateLimitResult;
+      }
+    }
+
+    const spec = await new SpecRepository().findById(id);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    const result = await reviewSpec(
+      {
+        specId: spec._id,
+        content: body.content ?? spec.content,
+        type: body.type ?? spec.metadata.type,
+        ai: body.ai,
+      },
+      authResult.user
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: error.issues } },
+        { status: 400 }
+      );
+    }
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
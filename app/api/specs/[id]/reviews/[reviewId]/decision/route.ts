@@ -0,0 +1,121 @@
+// API route for submitting review decisions
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { ReviewRepository } from '@/lib/repositories/review-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { isOwnReview, isReviewer } from '@/lib/reviews';
+
+const DecisionSchema = z
+  .object({
+    decision: z.enum(['approve', 'request-changes', 'abstain']),
+    comment: z.string().max(5000).optional(),
+  })
+  .refine((data) => data.decision !== 'request-changes' || !!data.comment?.trim(), {
+    message: 'A comment is required when requesting changes',
+    path: ['comment'],
+  });
+
+/**
+ * POST /api/specs/:id/reviews/:reviewId/decision
+ * Approve, request changes or abstain on the spec's current version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> }
+) {
+  try {
+    const { id, reviewId } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+    const user = authResult.user;
+
+    if (!hasPermission(user.role, 'review:submit')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to submit reviews' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { decision, comment } = DecisionSchema.parse(body);
+
+    const reviewRepo = new ReviewRepository();
+    const review = await reviewRepo.findById(reviewId);
+    if (!review || review.specId !== id || review.status === 'cancelled') {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Review not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!isReviewer(review, user)) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'This review is assigned to someone else' } },
+        { status: 403 }
+      );
+    }
+
+    const specRepo = new SpecRepository();
+    const spec = await specRepo.findById(id);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Covers role-addressed reviews, which the requester or author could otherwise claim
+    if (isOwnReview(review, spec.createdBy, user.userId)) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'You cannot review a spec you wrote or requested review of' } },
+        { status: 403 }
+      );
+    }
+
+    // Pin the decision to the version the reviewer is looking at
+    const updatedReview = await reviewRepo.addVerdict(reviewId, {
+      decision,
+      version: spec.currentVersion,
+      reviewerId: user.userId,
+      reviewerRole: user.role,
+      comment: comment?.trim() || undefined,
+      timestamp: new Date(),
+    });
+    if (!updatedReview) {
+      return NextResponse.json(
+        { error: { code: 'CONFLICT', message: 'This review was cancelled or claimed by someone else' } },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ review: updatedReview });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error submitting review decision:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to submit review decision' } },
+      { status: 500 }
+    );
+  }
+}
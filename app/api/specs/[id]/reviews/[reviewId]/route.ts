@@ -0,0 +1,54 @@
+// API route for individual review requests
+import { NextRequest, NextResponse } from 'next/server';
+import { ReviewRepository } from '@/lib/repositories/review-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+
+/**
+ * DELETE /api/specs/:id/reviews/:reviewId
+ * Cancel a review request (requester or anyone who can request reviews)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> }
+) {
+  try {
+    const { id, reviewId } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const reviewRepo = new ReviewRepository();
+    const review = await reviewRepo.findById(reviewId);
+    if (!review || review.specId !== id) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Review not found' } },
+        { status: 404 }
+      );
+    }
+
+    const isRequester = review.requestedBy === authResult.user.userId;
+    if (!isRequester && !hasPermission(authResult.user.role, 'review:request')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to cancel this review' } },
+        { status: 403 }
+      );
+    }
+
+    await reviewRepo.cancel(reviewId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling review:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to cancel review' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,225 @@
+// API routes for spec reviews
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { ReviewRepository } from '@/lib/repositories/review-repository';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import {
+  getLatestVerdict,
+  isOwnReview,
+  isReviewer,
+  isVerdictStale,
+  summarizeReviews,
+} from '@/lib/reviews';
+
+const UserRoleSchema = z.enum(['PM', 'TA', 'Dev', 'QA', 'Stakeholder']);
+
+// Validation schema for requesting reviews
+const RequestReviewSchema = z
+  .object({
+    reviewerEmails: z.array(z.string().email()).optional().default([]),
+    reviewerRoles: z.array(UserRoleSchema).optional().default([]),
+    note: z.string().max(2000).optional(),
+  })
+  .refine((data) => data.reviewerEmails.length + data.reviewerRoles.length > 0, {
+    message: 'At least one reviewer email or role is required',
+  });
+
+/**
+ * GET /api/specs/:id/reviews
+ * List review requests and decisions for a spec
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+    const user = authResult.user;
+
+    const specRepo = new SpecRepository();
+    const spec = await specRepo.findById(id);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    const reviewRepo = new ReviewRepository();
+    const reviews = await reviewRepo.findBySpecId(id);
+
+    // Resolve reviewer names for display
+    const userRepo = new UserRepository();
+    const userIds = reviews.flatMap((review) => [
+      review.requestedBy,
+      ...(review.reviewerId ? [review.reviewerId] : []),
+      ...review.verdicts.map((verdict) => verdict.reviewerId),
+    ]);
+    const users = await userRepo.findByIds([...new Set(userIds)]);
+    const names = new Map(users.map((u) => [u._id.toString(), u.name]));
+
+    const canSubmit = hasPermission(user.role, 'review:submit');
+
+    return NextResponse.json({
+      currentVersion: spec.currentVersion,
+      summary: summarizeReviews(reviews, spec.currentVersion),
+      permissions: {
+        canRequest: hasPermission(user.role, 'review:request'),
+      },
+      reviews: reviews.map((review) => {
+        const latestVerdict = getLatestVerdict(review);
+        return {
+          id: review._id,
+          reviewerId: review.reviewerId,
+          reviewerName: review.reviewerId ? names.get(review.reviewerId) : undefined,
+          reviewerRole: review.reviewerRole,
+          requestedBy: review.requestedBy,
+          requestedByName: names.get(review.requestedBy),
+          requestedAt: review.requestedAt,
+          requestedVersion: review.requestedVersion,
+          note: review.note,
+          status: review.status,
+          latestVerdict: latestVerdict && {
+            ...latestVerdict,
+            reviewerName: names.get(latestVerdict.reviewerId),
+          },
+          stale: latestVerdict ? isVerdictStale(latestVerdict, spec.currentVersion) : false,
+          canDecide: canSubmit && isReviewer(review, user) && !isOwnReview(review, spec.createdBy, user.userId),
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch reviews' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/specs/:id/reviews
+ * Request reviews from users (by email) or roles on the current spec version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    // Check request permission
+    if (!hasPermission(authResult.user.role, 'review:request')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to request reviews' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { reviewerEmails, reviewerRoles, note } = RequestReviewSchema.parse(body);
+
+    const specRepo = new SpecRepository();
+    const spec = await specRepo.findById(id);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Resolve reviewer emails to users
+    const userRepo = new UserRepository();
+    const reviewers = await Promise.all(reviewerEmails.map((email) => userRepo.findByEmail(email)));
+    const unknownEmails = reviewerEmails.filter((_, index) => !reviewers[index]);
+    if (unknownEmails.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Unknown reviewers: ${unknownEmails.join(', ')}`,
+            details: { unknownEmails },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // The requester and the author cannot sign off on the spec themselves
+    const requestedBy = authResult.user.userId;
+    const ownEmails = reviewerEmails.filter((_, index) => {
+      const reviewerId = reviewers[index]!._id.toString();
+      return reviewerId === requestedBy || reviewerId === spec.createdBy;
+    });
+    if (ownEmails.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `The requester and the spec author cannot review it: ${ownEmails.join(', ')}`,
+            details: { ownEmails },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const reviewRepo = new ReviewRepository();
+    const reviews = await Promise.all([
+      ...reviewers.map((reviewer) =>
+        reviewRepo.createRequest(
+          id,
+          { reviewerId: reviewer!._id.toString() },
+          spec.currentVersion,
+          requestedBy,
+          note
+        )
+      ),
+      ...reviewerRoles.map((role) =>
+        reviewRepo.createRequest(id, { reviewerRole: role }, spec.currentVersion, requestedBy, note)
+      ),
+    ]);
+
+    return NextResponse.json({ reviews }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error requesting reviews:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to request reviews' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+// API route for restoring an earlier spec version
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '../../../../../../../lib/middleware/auth';
+import { hasPermission } from '../../../../../../../lib/permissions';
+import { handleApiError } from '../../../../../../../lib/errors';
+import { restoreRevision } from '../../../../../../../lib/revision-restore';
+import { specETag } from '../../../../../../../lib/spec-conflicts';
+
+/**
+ * POST /api/specs/:id/revisions/:version/restore
+ * Restore the content and metadata of a version as a new version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'spec:update')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to edit specs' } },
+        { status: 403 }
+      );
+    }
+
+    if (!/^\d+$/.test(version)) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'Version must be a positive integer' } },
+        { status: 400 }
+      );
+    }
+
+    const { spec, automation } = await restoreRevision(id, parseInt(version, 10), authResult.user);
+
+    const response = NextResponse.json({
+      spec: {
+        id: spec._id,
+        title: spec.title,
+        content: spec.content,
+        metadata: spec.metadata,
+        createdBy: spec.createdBy,
+        createdAt: spec.createdAt,
+        updatedBy: spec.updatedBy,
+        updatedAt: spec.updatedAt,
+        currentVersion: spec.currentVersion,
+        restoredFrom: spec.restoredFrom,
+      },
+      automation,
+    });
+    response.headers.set('ETag', specETag(spec.currentVersion));
+    return response;
+  } catch (error) {
+    const { response, status } = handleApiError(error);
+    return NextResponse.json(response, { status });
+  }
+}
@@ -1,30 +1,25 @@
 // API route for comparing spec revisions
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import * as Diff from 'diff';
 import { RevisionRepository } from '../../../../../../lib/repositories/revision-repository';
 import { SpecRepository } from '../../../../../../lib/repositories/spec-repository';
 import { verifyAuth } from '../../../../../../lib/middleware/auth';
 import { hasPermission } from '../../../../../../lib/permissions';
+import { generateDiff } from '../../../../../../lib/text-diff';
+import { generateSemanticDiff } from '../../../../../../lib/semantic-diff';
 
 // Request validation schema
 const CompareQuerySchema = z.object({
   rev1: z.string().min(1, 'First revision version is required'),
   rev2: z.string().min(1, 'Second revision version is required'),
-  format: z.enum(['inline', 'side-by-side']).optional().default('inline'),
+  format: z.enum(['inline', 'side-by-side', 'semantic']).optional().default('inline'),
 });
 
-export interface DiffBlock {
-  type: 'added' | 'removed' | 'unchanged';
-  content: string;
-  lineNumber: number;
-  oldLineNumber?: number;
-  newLineNumber?: number;
-}
-
 /**
  * GET /api/specs/:id/revisions/compare?rev1=1&rev2=2&format=inline
  * Compare two revisions and return differences
+ * `format=semantic` returns a `semantic` diff of metadata fields and sections
+ * instead of a line `diff`.
  */
 export async function GET(
   request: NextRequest,
@@ -103,11 +98,10 @@ export async function GET(
     }
     
     // Generate diff
-    const diff = generateDiff(
-      revision1.content,
-      revision2.content,
-      queryData.format
-    );
+    const diff =
+      queryData.format === 'semantic'
+        ? { semantic: generateSemanticDiff(revision1, revision2) }
+        : { diff: generateDiff(revision1.content, revision2.content, queryData.format) };
     
     return NextResponse.json({
       revision1: {
@@ -123,7 +117,7 @@ export async function GET(
         timestamp: revision2.timestamp,
       },
       format: queryData.format,
-      diff,
+      ...diff,
     });
   } catch (error) {
     console.error('Error comparing revisions:', error);
@@ -152,62 +146,3 @@ export async function GET(
     );
   }
 }
-
-/**
- * Generate diff between two content strings
- */
-function generateDiff(
-  oldContent: string,
-  newContent: string,
-  format: 'inline' | 'side-by-side'
-): DiffBlock[] {
-  const changes = Diff.diffLines(oldContent, newContent);
-  const diffBlocks: DiffBlock[] = [];
-  
-  let oldLineNumber = 1;
-  let newLineNumber = 1;
-  let lineNumber = 1;
-  
-  for (const change of changes) {
-    const lines = change.value.split('\n');
-    // Remove empty last line if it exists
-    if (lines[lines.length - 1] === '') {
-      lines.pop();
-    }
-    
-    if (change.added) {
-      // Added lines
-      for (const line of lines) {
-        diffBlocks.push({
-          type: 'added',
-          content: line,
-          lineNumber: format === 'inline' ? lineNumber++ : newLineNumber,
-          newLineNumber: newLineNumber++,
-        });
-      }
-    } else if (change.removed) {
-      // Removed lines
-      for (const line of lines) {
-        diffBlocks.push({
-          type: 'removed',
-          content: line,
-          lineNumber: format === 'inline' ? lineNumber++ : oldLineNumber,
-          oldLineNumber: oldLineNumber++,
-        });
-      }
-    } else {
-      // Unchanged lines
-      for (const line of lines) {
-        diffBlocks.push({
-          type: 'unchanged',
-          content: line,
-          lineNumber: format === 'inline' ? lineNumber++ : oldLineNumber,
-          oldLineNumber: oldLineNumber++,
-          newLineNumber: newLineNumber++,
-        });
-      }
-    }
-  }
-  
-  return diffBlocks;
-}
@@ -72,7 +72,13 @@ export async function GET(
         timestamp: rev.timestamp,
         content: rev.content,
         metadata: rev.metadata,
+        restoredFrom: rev.restoredFrom,
       })),
+      // The version being edited, which has no revision until it is replaced
+      current: {
+        version: spec.currentVersion,
+        restoredFrom: spec.restoredFrom,
+      },
     });
   } catch (error) {
     console.error('Error fetching revisions:', error);
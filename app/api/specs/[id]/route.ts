@@ -6,20 +6,51 @@ import { RevisionRepository } from '../../../../lib/repositories/revision-reposi
 import { parseFrontmatter, combineMarkdown, validateMetadata } from '../../../../lib/yaml-parser';
 import { verifyAuth } from '../../../../lib/middleware/auth';
 import { hasPermission } from '../../../../lib/permissions';
+import { assertStageUnchanged, getWorkflowForSpecType, invalidStageMessage } from '../../../../lib/workflows';
+import { runAutomationRules } from '../../../../lib/automation';
+import { remapCommentAnchors } from '../../../../lib/comment-anchors';
+import { notifyWatchers } from '../../../../lib/subscriptions';
+import { emitWebhookEvent, webhookSpecData } from '../../../../lib/webhooks';
+import { syncCollabDocument } from '../../../../lib/collab/rooms';
+import { buildSpecConflict, parseIfMatch, specETag } from '../../../../lib/spec-conflicts';
+import { AppError, handleApiError } from '../../../../lib/errors';
+import { Spec } from '../../../../types/spec';
 
 // Request validation schema for updates
 const UpdateSpecSchema = z.object({
   content: z.string().min(1, 'Content is required'),
   metadata: z.object({
     title: z.string().min(1, 'Title is required'),
-    status: z.enum(['Idea', 'Draft', 'Review', 'Ready', 'InProgress', 'Done']),
+    status: z.string().min(1, 'Status is required'),
     type: z.enum(['epic', 'user-story', 'technical-spec', 'test-case']),
     assignee: z.string().optional(),
     tags: z.array(z.string()).default([]),
     parentId: z.string().optional(),
   }),
+  // Version the edit is based on; a stale version is rejected with 409 (alternatively If-Match)
+  expectedVersion: z.number().int().positive().optional(),
 });
 
+/**
+ * 409 response for an edit based on `expectedVersion` of a spec that has
+ * moved on, with a merge of the edit into the current version
+ */
+async function conflictResponse(spec: Spec, expectedVersion: number, content: string) {
+  const conflict = await buildSpecConflict(spec, expectedVersion, content);
+  const response = NextResponse.json(
+    {
+      error: {
+        code: 'CONFLICT',
+        message: `The spec was changed since version ${expectedVersion}; it is now at version ${spec.currentVersion}`,
+        details: conflict,
+      },
+    },
+    { status: 409 }
+  );
+  response.headers.set('ETag', specETag(spec.currentVersion));
+  return response;
+}
+
 /**
  * GET /api/specs/:id
  * Retrieve a specific spec with permission checking
@@ -80,7 +111,9 @@ export async function GET(
     const canDelete = hasPermission(authResult.user.role, 'spec:delete');
     const canTransition = hasPermission(authResult.user.role, 'spec:transition');
     
-    return NextResponse.json({
+    const workflow = await getWorkflowForSpecType(spec.metadata.type);
+    
+    const response = NextResponse.json({
       spec: {
         id: spec._id,
         title: spec.title,
@@ -91,13 +124,17 @@ export async function GET(
         updatedBy: spec.updatedBy,
         updatedAt: spec.updatedAt,
         currentVersion: spec.currentVersion,
+        restoredFrom: spec.restoredFrom,
       },
       permissions: {
         canEdit,
         canDelete,
         canTransition,
       },
+      workflow,
     });
+    response.headers.set('ETag', specETag(spec.currentVersion));
+    return response;
   } catch (error) {
     console.error('Error fetching spec:', error);
     return NextResponse.json(
@@ -178,37 +215,105 @@ export async function PUT(
       );
     }
     
-    // Create revision before updating
-    const revisionRepo = new RevisionRepository();
-    await revisionRepo.createRevision(
-      existingSpec._id,
-      existingSpec.currentVersion,
-      existingSpec.content,
-      existingSpec.metadata,
-      authResult.user.userId
-    );
+    // Reject edits based on an outdated version
+    const ifMatch = parseIfMatch(request.headers.get('if-match'));
+    if (ifMatch === null) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'If-Match must be the ETag of a spec version',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    const expectedVersion = validatedData.expectedVersion ?? ifMatch;
+    if (expectedVersion !== undefined && expectedVersion !== existingSpec.currentVersion) {
+      return conflictResponse(existingSpec, expectedVersion, validatedData.content);
+    }
+    
+    assertStageUnchanged(existingSpec.metadata, metadata);
+    
+    // The stage must belong to the new type's workflow; unchanged specs keep stages since removed from it
+    if (metadata.type !== existingSpec.metadata.type) {
+      const stageError = await invalidStageMessage(metadata.type, metadata.status);
+      if (stageError) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: stageError,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
     
-    // Update spec
+    // Update spec, unless another save got in first since it was read
     const updatedSpec = await specRepo.updateSpec(
       id,
       fullContent,
       metadata,
-      authResult.user.userId
+      authResult.user.userId,
+      existingSpec.currentVersion
     );
     
     if (!updatedSpec) {
+      const currentSpec = await specRepo.findById(id);
+      if (currentSpec) {
+        return conflictResponse(currentSpec, existingSpec.currentVersion, validatedData.content);
+      }
       return NextResponse.json(
         {
           error: {
-            code: 'INTERNAL_ERROR',
-            message: 'Failed to update spec',
+            code: 'NOT_FOUND',
+            message: 'Spec not found',
           },
         },
-        { status: 500 }
+        { status: 404 }
       );
     }
     
-    return NextResponse.json({
+    // Keep the replaced version in the history
+    const revisionRepo = new RevisionRepository();
+    await revisionRepo.createRevision(
+      existingSpec._id,
+      existingSpec.currentVersion,
+      existingSpec.content,
+      existingSpec.metadata,
+      authResult.user.userId,
+      existingSpec.restoredFrom
+    );
+    
+    // Keep comment anchors on the text they were written about
+    await remapCommentAnchors(id, existingSpec.content, updatedSpec.content);
+    
+    // Bring anyone editing the spec live onto the new version
+    await syncCollabDocument(updatedSpec);
+    
+    await notifyWatchers({
+      type: 'edit',
+      spec: updatedSpec,
+      actor: authResult.user,
+      message: `Version ${updatedSpec.currentVersion}`,
+    });
+    
+    await emitWebhookEvent(
+      'spec.updated',
+      { spec: webhookSpecData(updatedSpec), previousVersion: existingSpec.currentVersion },
+      authResult.user
+    );
+    
+    // Apply on-edit side effects
+    const automation = await runAutomationRules({
+      trigger: 'edit',
+      spec: updatedSpec,
+      user: authResult.user,
+    });
+    
+    const response = NextResponse.json({
       spec: {
         id: updatedSpec._id,
         title: updatedSpec.title,
@@ -220,10 +325,18 @@ export async function PUT(
         updatedAt: updatedSpec.updatedAt,
         currentVersion: updatedSpec.currentVersion,
       },
+      automation,
     });
+    response.headers.set('ETag', specETag(updatedSpec.currentVersion));
+    return response;
   } catch (error) {
     console.error('Error updating spec:', error);
     
+    if (error instanceof AppError) {
+      const { response, status } = handleApiError(error);
+      return NextResponse.json(response, { status });
+    }
+    
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -3,12 +3,85 @@ import { NextRequest, NextResponse } from 'next/server';
 import { SpecRepository } from '@/lib/repositories/spec-repository';
 import { verifyAuth } from '@/lib/middleware/auth';
 import { canTransitionWorkflow, isValidTransition } from '@/lib/permissions';
+import { getWorkflowForSpecType } from '@/lib/workflows';
+import { evaluateTransitionGuards } from '@/lib/transition-guards';
+import { runAutomationRules } from '@/lib/automation';
+import { notifyWatchers } from '@/lib/subscriptions';
+import { emitWebhookEvent, webhookSpecData } from '@/lib/webhooks';
 import { WorkflowStage } from '@/types/spec';
 
 interface TransitionRequest {
   toStage: WorkflowStage;
+  comment?: string;
 }
 
+/**
+ * GET /api/specs/:id/transition
+ * List the transitions available from the current stage, with the role check
+ * and guard results for the current user, so the UI can explain blocked moves
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const specRepo = new SpecRepository();
+    const spec = await specRepo.findById(id);
+
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    const user = authResult.user;
+    const currentStage = spec.metadata.status;
+    const workflow = await getWorkflowForSpecType(spec.metadata.type);
+
+    const transitions = await Promise.all(
+      workflow.transitions
+        .filter((t) => t.from === currentStage)
+        .map(async (transition) => {
+          const allowed = canTransitionWorkflow(user.role, transition.from, transition.to, workflow);
+          const guards = allowed
+            ? await evaluateTransitionGuards({ spec, transition, user })
+            : [];
+
+          return {
+            toStage: transition.to,
+            allowed,
+            requiresComment: !!transition.requiresComment,
+            guards,
+            blocked: !allowed || guards.some((guard) => !guard.passed),
+          };
+        })
+    );
+
+    return NextResponse.json({ currentStage, transitions });
+  } catch (error) {
+    console.error('Error fetching transitions:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch transitions' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/specs/:id/transition
+ * Move a spec to another workflow stage
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -26,6 +99,7 @@ export async function POST(
     const { id } = await params;
     const body: TransitionRequest = await request.json();
     const { toStage } = body;
+    const comment = body.comment?.trim() || undefined;
 
     // Validate input
     if (!toStage) {
@@ -57,9 +131,10 @@ export async function POST(
     }
 
     const currentStage = spec.metadata.status;
+    const workflow = await getWorkflowForSpecType(spec.metadata.type);
 
     // Validate transition is valid in workflow
-    if (!isValidTransition(currentStage, toStage)) {
+    if (!isValidTransition(currentStage, toStage, workflow)) {
       return NextResponse.json(
         {
           error: {
@@ -72,7 +147,7 @@ export async function POST(
     }
 
     // Check if user has permission for this transition
-    if (!canTransitionWorkflow(authResult.user.role, currentStage, toStage)) {
+    if (!canTransitionWorkflow(authResult.user.role, currentStage, toStage, workflow)) {
       return NextResponse.json(
         {
           error: {
@@ -84,28 +159,89 @@ export async function POST(
       );
     }
 
-    // Perform transition
+    // Some transitions (e.g. rejecting a review) must explain why
+    const transition = workflow.transitions.find(
+      (t) => t.from === currentStage && t.to === toStage
+    );
+    if (transition?.requiresComment && !comment) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `A comment is required to transition from ${currentStage} to ${toStage}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Evaluate transition guards
+    if (transition) {
+      const guardResults = await evaluateTransitionGuards({
+        spec,
+        transition,
+        user: authResult.user,
+      });
+      const failedGuards = guardResults.filter((result) => !result.passed);
+      if (failedGuards.length > 0) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'TRANSITION_BLOCKED',
+              message: `Transition from ${currentStage} to ${toStage} is blocked`,
+              details: { failedGuards },
+            },
+          },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Perform transition and record it in the workflow history
     const updatedSpec = await specRepo.transitionStage(
       id,
       toStage,
-      authResult.user.userId
+      authResult.user.userId,
+      { workflow, comment }
     );
 
     if (!updatedSpec) {
       return NextResponse.json(
         {
           error: {
-            code: 'INTERNAL_ERROR',
-            message: 'Failed to update spec',
+            code: 'CONFLICT',
+            message: 'Spec stage was changed by another user. Please reload and try again.',
           },
         },
-        { status: 500 }
+        { status: 409 }
       );
     }
 
+    await notifyWatchers({
+      type: 'transition',
+      spec: updatedSpec,
+      actor: authResult.user,
+      message: `${currentStage} → ${toStage}${comment ? `: ${comment}` : ''}`,
+    });
+
+    await emitWebhookEvent(
+      'spec.transitioned',
+      { spec: webhookSpecData(updatedSpec), fromStage: currentStage, toStage, comment },
+      authResult.user
+    );
+
+    // Apply on-transition side effects
+    const automation = await runAutomationRules({
+      trigger: 'transition',
+      spec: updatedSpec,
+      user: authResult.user,
+      fromStage: currentStage,
+    });
+
     return NextResponse.json({
       spec: updatedSpec,
       message: `Transitioned from ${currentStage} to ${toStage}`,
+      automation,
     });
   } catch (error) {
     console.error('Error transitioning spec:', error);
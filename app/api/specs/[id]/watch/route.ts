@@ -0,0 +1,135 @@
+// API route for watching a spec
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { SubscriptionRepository } from '@/lib/repositories/subscription-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+
+// Validation schema for watching a spec
+const WatchSchema = z.object({
+  scope: z.enum(['spec', 'subtree']).default('spec'),
+});
+
+/**
+ * GET /api/specs/:id/watch
+ * Get the current user's watch status for a spec
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const subscriptionRepo = new SubscriptionRepository();
+    const subscription = await subscriptionRepo.findByUserAndSpec(authResult.user.userId, id);
+
+    return NextResponse.json({
+      watching: !!subscription,
+      scope: subscription?.scope ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching watch status:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch watch status' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/specs/:id/watch
+ * Watch a spec, or a spec and its traceability subtree
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { scope } = WatchSchema.parse(body);
+
+    const specRepo = new SpecRepository();
+    const spec = await specRepo.findById(id);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    const subscriptionRepo = new SubscriptionRepository();
+    const subscription = await subscriptionRepo.subscribe(authResult.user.userId, id, scope);
+
+    return NextResponse.json({ watching: true, scope: subscription.scope });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error watching spec:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to watch spec' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/specs/:id/watch
+ * Stop watching a spec
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const subscriptionRepo = new SubscriptionRepository();
+    await subscriptionRepo.unsubscribe(authResult.user.userId, id);
+
+    return NextResponse.json({ watching: false, scope: null });
+  } catch (error) {
+    console.error('Error unwatching spec:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to unwatch spec' } },
+      { status: 500 }
+    );
+  }
+}
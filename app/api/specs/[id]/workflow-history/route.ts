@@ -0,0 +1,76 @@
+// API route for spec workflow transition history
+import { NextRequest, NextResponse } from 'next/server';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { WorkflowEventRepository } from '@/lib/repositories/workflow-event-repository';
+import { UserRepository } from '@/lib/repositories/user-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+
+/**
+ * GET /api/specs/:id/workflow-history
+ * Retrieve all recorded stage transitions for a spec (oldest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    // Check read permission
+    if (!hasPermission(authResult.user.role, 'spec:read')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to read specs' } },
+        { status: 403 }
+      );
+    }
+
+    // Verify spec exists
+    const specRepo = new SpecRepository();
+    const spec = await specRepo.findById(id);
+    if (!spec) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Spec not found' } },
+        { status: 404 }
+      );
+    }
+
+    const eventRepo = new WorkflowEventRepository();
+    const events = await eventRepo.findBySpecId(id);
+
+    // Resolve actor names for display
+    const userRepo = new UserRepository();
+    const actors = await userRepo.findByIds([...new Set(events.map((event) => event.actor))]);
+    const actorNames = new Map(actors.map((user) => [user._id.toString(), user.name]));
+
+    return NextResponse.json({
+      currentStage: spec.metadata.status,
+      history: events.map((event) => ({
+        id: event._id,
+        fromStage: event.fromStage,
+        toStage: event.toStage,
+        actor: event.actor,
+        actorName: actorNames.get(event.actor) || event.actor,
+        comment: event.comment,
+        workflowKey: event.workflowKey,
+        workflowVersion: event.workflowVersion,
+        timestamp: event.timestamp,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching workflow history:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch workflow history' } },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,10 @@ import { SpecRepository } from '../../../lib/repositories/spec-repository';
 import { getTemplateById, generateSpecFromTemplate } from '../../../lib/templates';
 import { combineMarkdown, validateMetadata } from '../../../lib/yaml-parser';
 import { verifyAuth } from '../../../lib/middleware/auth';
+import { getWorkflowForSpecType } from '../../../lib/workflows';
 import { handleApiError, ErrorCode, createErrorResponse } from '../../../lib/errors';
+import { emitWebhookEvent, webhookSpecData } from '../../../lib/webhooks';
+import { buildSpecQuery } from '../../../lib/spec-filters';
 import { cachedJsonResponse, CACHE_CONFIGS, memoryCache, cacheKeys } from '../../../lib/api-cache';
 
 // Request validation schema
@@ -43,11 +46,14 @@ export async function POST(request: NextRequest) {
     // Validate request
     const validatedData = CreateSpecSchema.parse(body);
     
+    // New specs start in the initial stage of their type's workflow
+    const workflow = await getWorkflowForSpecType(validatedData.type);
+    
     // Generate content from template or use default
     let content = '';
     let frontmatter: Record<string, any> = {
       title: validatedData.title,
-      status: 'Idea',
+      status: workflow.initialStage,
       type: validatedData.type,
       tags: validatedData.tags,
     };
@@ -100,6 +106,8 @@ export async function POST(request: NextRequest) {
       authResult.user.userId
     );
     
+    await emitWebhookEvent('spec.created', { spec: webhookSpecData(spec) }, authResult.user);
+    
     return NextResponse.json(
       {
         spec: {
@@ -131,6 +139,8 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/specs
  * List specs with optional filtering
+ * `filter` takes a filter query (see lib/spec-filters.ts) and overrides
+ * the status, type and createdBy parameters.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -152,17 +162,20 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status') as any;
     const type = searchParams.get('type') as any;
     const createdBy = searchParams.get('createdBy') || undefined;
+    const filter = searchParams.get('filter')?.trim();
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '20', 10);
     
     const specRepo = new SpecRepository();
     
-    // Use paginated query with caching
-    const result = await specRepo.findSpecsPaginated(
-      { status, type, createdBy },
-      page,
-      limit
-    );
+    // Filter queries depend on the user and the current time, so skip caching
+    const result = filter
+      ? await specRepo.findByQueryPaginated(
+          await buildSpecQuery(filter, authResult.user),
+          page,
+          limit
+        )
+      : await specRepo.findSpecsPaginated({ status, type, createdBy }, page, limit);
     
     const response = {
       specs: result.data.map((spec) => ({
@@ -177,7 +190,7 @@ export async function GET(request: NextRequest) {
       pagination: result.pagination,
     };
     
-    return cachedJsonResponse(response, CACHE_CONFIGS.SPEC);
+    return filter ? NextResponse.json(response) : cachedJsonResponse(response, CACHE_CONFIGS.SPEC);
   } catch (error) {
     const { response, status } = handleApiError(error);
     return NextResponse.json(response, { status });
@@ -0,0 +1,45 @@
+// API route for the current user's watched specs
+import { NextRequest, NextResponse } from 'next/server';
+import { SubscriptionRepository } from '@/lib/repositories/subscription-repository';
+import { SpecRepository } from '@/lib/repositories/spec-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+
+/**
+ * GET /api/subscriptions
+ * List the specs the current user watches
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const subscriptionRepo = new SubscriptionRepository();
+    const specRepo = new SpecRepository();
+    const subscriptions = await subscriptionRepo.findByUser(authResult.user.userId);
+    const specs = await Promise.all(
+      subscriptions.map((subscription) => specRepo.findById(subscription.specId))
+    );
+
+    return NextResponse.json({
+      subscriptions: subscriptions.map((subscription, index) => ({
+        id: subscription._id,
+        specId: subscription.specId,
+        specTitle: specs[index]?.title ?? null,
+        scope: subscription.scope,
+        createdAt: subscription.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch subscriptions' } },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TraceabilityRepository, SpecRepository } from '@/lib/repositories';
 import { verifyAuth } from '@/lib/middleware/auth';
+import { notifyWatchers } from '@/lib/subscriptions';
+import { emitWebhookEvent, webhookSpecData } from '@/lib/webhooks';
 
 const traceabilityRepo = new TraceabilityRepository();
 const specRepo = new SpecRepository();
@@ -76,6 +78,28 @@ export async function POST(request: NextRequest) {
         authResult.user.email
       );
 
+      // Both ends of the link changed
+      await Promise.all([
+        notifyWatchers({
+          type: 'link',
+          spec: parentSpec,
+          actor: authResult.user,
+          message: `Linked child "${childSpec.title}"`,
+        }),
+        notifyWatchers({
+          type: 'link',
+          spec: childSpec,
+          actor: authResult.user,
+          message: `Linked to parent "${parentSpec.title}"`,
+        }),
+      ]);
+
+      await emitWebhookEvent(
+        'traceability.linked',
+        { link, parent: webhookSpecData(parentSpec), child: webhookSpecData(childSpec) },
+        authResult.user
+      );
+
       return NextResponse.json({ link }, { status: 201 });
     } catch (error) {
       if (error instanceof Error && error.message.includes('circular dependency')) {
@@ -132,6 +156,28 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // Both ends of the link changed
+    const [parentSpec, childSpec] = await Promise.all([
+      specRepo.findById(parentId),
+      specRepo.findById(childId),
+    ]);
+    if (parentSpec && childSpec) {
+      await Promise.all([
+        notifyWatchers({
+          type: 'link',
+          spec: parentSpec,
+          actor: authResult.user,
+          message: `Unlinked child "${childSpec.title}"`,
+        }),
+        notifyWatchers({
+          type: 'link',
+          spec: childSpec,
+          actor: authResult.user,
+          message: `Unlinked from parent "${parentSpec.title}"`,
+        }),
+      ]);
+    }
+
     return NextResponse.json({ success: true }, { status: 200 });
   } catch (error) {
     console.error('Error deleting traceability link:', error);
@@ -0,0 +1,167 @@
+// API route for individual saved views
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SavedViewRepository } from '@/lib/repositories/saved-view-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { SavedViewSchema } from '@/lib/spec-filters';
+import { SavedView } from '@/types/saved-view';
+import { SessionPayload } from '@/types/auth';
+
+function canSeeView(view: SavedView, user: SessionPayload): boolean {
+  return (
+    view.ownerId === user.userId ||
+    view.visibility === 'everyone' ||
+    (view.visibility === 'roles' && view.sharedRoles.includes(user.role))
+  );
+}
+
+/**
+ * GET /api/views/:id
+ * Retrieve a view owned by or shared with the current user
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const viewRepo = new SavedViewRepository();
+    const view = await viewRepo.findById(id);
+
+    // Views that aren't shared with the user are reported as missing
+    if (!view || !canSeeView(view, authResult.user)) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Saved view not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ view });
+  } catch (error) {
+    console.error('Error fetching saved view:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch saved view' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/views/:id
+ * Replace a view (owner only)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const viewRepo = new SavedViewRepository();
+    const existing = await viewRepo.findById(id);
+
+    if (!existing || !canSeeView(existing, authResult.user)) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Saved view not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (existing.ownerId !== authResult.user.userId) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Only the owner can change a saved view' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const input = SavedViewSchema.parse(body);
+    const view = await viewRepo.updateView(id, input);
+
+    return NextResponse.json({ view });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid saved view',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating saved view:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update saved view' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/views/:id
+ * Delete a view (owner only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const viewRepo = new SavedViewRepository();
+    const existing = await viewRepo.findById(id);
+
+    if (!existing || !canSeeView(existing, authResult.user)) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Saved view not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (existing.ownerId !== authResult.user.userId) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Only the owner can delete a saved view' } },
+        { status: 403 }
+      );
+    }
+
+    await viewRepo.deleteById(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to delete saved view' } },
+      { status: 500 }
+    );
+  }
+}
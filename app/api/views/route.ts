@@ -0,0 +1,78 @@
+// API route for saved dashboard views
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SavedViewRepository } from '@/lib/repositories/saved-view-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { SavedViewSchema } from '@/lib/spec-filters';
+
+/**
+ * GET /api/views
+ * List the views the current user owns or that are shared with them
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const viewRepo = new SavedViewRepository();
+    const views = await viewRepo.findVisibleTo(authResult.user.userId, authResult.user.role);
+
+    return NextResponse.json({ views });
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch saved views' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/views
+ * Save a filter query as a named view
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const input = SavedViewSchema.parse(body);
+
+    const viewRepo = new SavedViewRepository();
+    const view = await viewRepo.createView(input, authResult.user.userId);
+
+    return NextResponse.json({ view }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid saved view',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating saved view:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to create saved view' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// API route for manually redelivering a logged webhook delivery
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookRepository } from '@/lib/repositories/webhook-repository';
+import { WebhookDeliveryRepository } from '@/lib/repositories/webhook-delivery-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { redeliverWebhook } from '@/lib/webhooks';
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+ * Send a delivery's payload again and return the new delivery's outcome
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'webhook:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage webhooks' } },
+        { status: 403 }
+      );
+    }
+
+    const { id, deliveryId } = await params;
+    const webhookRepo = new WebhookRepository();
+    const webhook = await webhookRepo.findById(id);
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Webhook not found' } },
+        { status: 404 }
+      );
+    }
+
+    const deliveryRepo = new WebhookDeliveryRepository();
+    const original = await deliveryRepo.findById(deliveryId);
+
+    if (!original || original.webhookId !== id) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Delivery not found' } },
+        { status: 404 }
+      );
+    }
+
+    const delivery = await redeliverWebhook(webhook, original);
+
+    return NextResponse.json({ delivery }, { status: 201 });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to redeliver webhook' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// API route for the delivery log of a webhook
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookRepository } from '@/lib/repositories/webhook-repository';
+import { WebhookDeliveryRepository } from '@/lib/repositories/webhook-delivery-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+
+/**
+ * GET /api/webhooks/:id/deliveries?limit=50
+ * List the most recent deliveries of a webhook
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'webhook:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage webhooks' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const webhookRepo = new WebhookRepository();
+    if (!(await webhookRepo.findById(id))) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Webhook not found' } },
+        { status: 404 }
+      );
+    }
+
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50, 200);
+    const deliveryRepo = new WebhookDeliveryRepository();
+    const deliveries = await deliveryRepo.findByWebhookId(id, limit);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhook deliveries' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+// API route for individual outbound webhooks
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WebhookRepository } from '@/lib/repositories/webhook-repository';
+import { WebhookDeliveryRepository } from '@/lib/repositories/webhook-delivery-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { WebhookSchema, generateWebhookSecret, maskWebhook } from '@/lib/webhooks';
+
+// Partial updates; `rotateSecret` issues a new signing secret
+const WebhookUpdateSchema = WebhookSchema.partial().extend({
+  rotateSecret: z.boolean().optional(),
+});
+
+/**
+ * GET /api/webhooks/:id
+ * Retrieve a webhook (secret masked)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'webhook:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage webhooks' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const webhookRepo = new WebhookRepository();
+    const webhook = await webhookRepo.findById(id);
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Webhook not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ webhook: maskWebhook(webhook) });
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhook' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/webhooks/:id
+ * Update a webhook; a rotated secret is returned unmasked once
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'webhook:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage webhooks' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { rotateSecret, ...input } = WebhookUpdateSchema.parse(body);
+
+    const webhookRepo = new WebhookRepository();
+    const webhook = await webhookRepo.updateWebhook(
+      id,
+      rotateSecret ? { ...input, secret: generateWebhookSecret() } : input
+    );
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Webhook not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ webhook: rotateSecret ? webhook : maskWebhook(webhook) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid webhook',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating webhook:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update webhook' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/webhooks/:id
+ * Delete a webhook and its delivery log
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'webhook:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage webhooks' } },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const webhookRepo = new WebhookRepository();
+    const deleted = await webhookRepo.deleteById(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Webhook not found' } },
+        { status: 404 }
+      );
+    }
+
+    const deliveryRepo = new WebhookDeliveryRepository();
+    await deliveryRepo.deleteByWebhookId(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to delete webhook' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+// API route for outbound webhook listing and creation
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WebhookRepository } from '@/lib/repositories/webhook-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import { WebhookSchema, generateWebhookSecret, maskWebhook } from '@/lib/webhooks';
+
+/**
+ * GET /api/webhooks
+ * List all webhooks (secrets are masked)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'webhook:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage webhooks' } },
+        { status: 403 }
+      );
+    }
+
+    const webhookRepo = new WebhookRepository();
+    const webhooks = await webhookRepo.findAll();
+
+    return NextResponse.json({ webhooks: webhooks.map(maskWebhook) });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhooks' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Create a webhook; the signing secret is only returned in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(authResult.user.role, 'webhook:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage webhooks' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const input = WebhookSchema.parse(body);
+
+    const webhookRepo = new WebhookRepository();
+    const webhook = await webhookRepo.createWebhook(
+      input,
+      generateWebhookSecret(),
+      authResult.user.userId
+    );
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid webhook',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating webhook:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to create webhook' } },
+      { status: 500 }
+    );
+  }
+}
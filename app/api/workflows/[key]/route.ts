@@ -0,0 +1,143 @@
+// API route for individual workflow definitions
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WorkflowDefinitionRepository } from '@/lib/repositories/workflow-definition-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import {
+  WorkflowDefinitionSchema,
+  findConflictingSpecTypes,
+  invalidateWorkflowCache,
+} from '@/lib/workflows';
+
+/**
+ * GET /api/workflows/:key?version=2
+ * Retrieve the latest (or a specific) version of a workflow definition,
+ * along with its version history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { key } = await params;
+    const { searchParams } = new URL(request.url);
+    const version = searchParams.get('version');
+
+    const workflowRepo = new WorkflowDefinitionRepository();
+    const versions = await workflowRepo.findVersions(key);
+    const workflow = version
+      ? versions.find((v) => v.version === parseInt(version, 10))
+      : versions[0];
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Workflow not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      workflow,
+      versions: versions.map((v) => ({
+        version: v.version,
+        createdBy: v.createdBy,
+        createdAt: v.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching workflow:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch workflow' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/workflows/:key
+ * Edit a workflow definition by creating a new version
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    // Check manage permission
+    if (!hasPermission(authResult.user.role, 'workflow:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage workflows' } },
+        { status: 403 }
+      );
+    }
+
+    const { key } = await params;
+    const body = await request.json();
+    const definition = WorkflowDefinitionSchema.parse(body);
+
+    const workflowRepo = new WorkflowDefinitionRepository();
+    const existing = await workflowRepo.findLatestByKey(key);
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Workflow not found' } },
+        { status: 404 }
+      );
+    }
+
+    const conflicts = await findConflictingSpecTypes(key, definition.specTypes);
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONFLICT',
+            message: `Spec types already have a workflow: ${conflicts.join(', ')}`,
+            details: { specTypes: conflicts },
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const workflow = await workflowRepo.createVersion(key, definition, authResult.user.userId);
+    invalidateWorkflowCache();
+
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid workflow definition',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating workflow:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update workflow' } },
+      { status: 500 }
+    );
+  }
+}
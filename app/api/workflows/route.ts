@@ -0,0 +1,124 @@
+// API route for workflow definition listing and creation
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WorkflowDefinitionRepository } from '@/lib/repositories/workflow-definition-repository';
+import { verifyAuth } from '@/lib/middleware/auth';
+import { hasPermission } from '@/lib/permissions';
+import {
+  WorkflowDefinitionSchema,
+  findConflictingSpecTypes,
+  invalidateWorkflowCache,
+} from '@/lib/workflows';
+import { DEFAULT_WORKFLOW } from '@/types/workflow';
+
+const CreateWorkflowSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, 'Key may only contain lowercase letters, digits and dashes'),
+  definition: WorkflowDefinitionSchema,
+});
+
+/**
+ * GET /api/workflows
+ * List the latest version of every workflow definition
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const workflowRepo = new WorkflowDefinitionRepository();
+    const workflows = await workflowRepo.findAllLatest();
+
+    return NextResponse.json({
+      workflows,
+      defaultWorkflow: DEFAULT_WORKFLOW,
+    });
+  } catch (error) {
+    console.error('Error fetching workflows:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch workflows' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workflows
+ * Create a new workflow definition (version 1)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await verifyAuth(request);
+    if (!authResult.authenticated || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'AUTH_REQUIRED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    // Check manage permission
+    if (!hasPermission(authResult.user.role, 'workflow:manage')) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Insufficient permissions to manage workflows' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { key, definition } = CreateWorkflowSchema.parse(body);
+
+    const workflowRepo = new WorkflowDefinitionRepository();
+    if (key === DEFAULT_WORKFLOW.key || (await workflowRepo.findLatestByKey(key))) {
+      return NextResponse.json(
+        { error: { code: 'CONFLICT', message: `Workflow '${key}' already exists` } },
+        { status: 409 }
+      );
+    }
+
+    const conflicts = await findConflictingSpecTypes(key, definition.specTypes);
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONFLICT',
+            message: `Spec types already have a workflow: ${conflicts.join(', ')}`,
+            details: { specTypes: conflicts },
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const workflow = await workflowRepo.createVersion(key, definition, authResult.user.userId);
+    invalidateWorkflowCache();
+
+    return NextResponse.json({ workflow }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid workflow definition',
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating workflow:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to create workflow' } },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,24 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { ProtectedRoute } from '@/components/protected-route';
 import { WorkflowStatusBadge } from '@/components/workflow-status-badge';
+import { SearchFacetList, SearchResultList } from '@/components/search-results';
+import { SaveViewDialog, SAVED_VIEWS_CHANGED_EVENT } from '@/components/save-view-dialog';
+import { useAuth } from '@/lib/auth-context';
 import { getAllTemplates } from '@/lib/templates';
-import type { SpecMetadata, WorkflowStage, SpecType } from '@/types';
+import type {
+  SavedView,
+  SearchFilterField,
+  SearchResponse,
+  SpecMetadata,
+  WorkflowStage,
+  SpecType,
+} from '@/types';
+
+// Wait for typing to pause before querying the search API
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface SpecListItem {
   id: string;
@@ -17,8 +30,29 @@ interface SpecListItem {
   currentVersion: number;
 }
 
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+// useSearchParams needs a Suspense boundary
 export default function DashboardPage() {
+  return (
+    <Suspense fallback={null}>
+      <DashboardContent />
+    </Suspense>
+  );
+}
+
+function DashboardContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user } = useAuth();
+  const viewId = searchParams.get('view');
+  const urlFilter = searchParams.get('filter') || '';
   const [specs, setSpecs] = useState<SpecListItem[]>([]);
   const [filteredSpecs, setFilteredSpecs] = useState<SpecListItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -29,6 +63,17 @@ export default function DashboardPage() {
   const [statusFilter, setStatusFilter] = useState<WorkflowStage | 'all'>('all');
   const [typeFilter, setTypeFilter] = useState<SpecType | 'all'>('all');
   
+  // Server-side filter query, from the URL or the selected saved view
+  const [activeFilter, setActiveFilter] = useState('');
+  const [filterInput, setFilterInput] = useState('');
+  const [activeView, setActiveView] = useState<SavedView | null>(null);
+  const [showSaveView, setShowSaveView] = useState(false);
+  
+  // Server-side search results (used while a search query is entered)
+  const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  
   // Create spec modal
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<string>('');
@@ -37,10 +82,36 @@ export default function DashboardPage() {
   
   const templates = getAllTemplates();
   
-  // Fetch specs
+  // Fetch specs for the saved view or filter in the URL
   useEffect(() => {
-    fetchSpecs();
-  }, []);
+    async function loadView(id: string) {
+      try {
+        const response = await fetch(`/api/views/${id}`, { headers: authHeaders() });
+        if (!response.ok) {
+          throw new Error('Saved view not found');
+        }
+        
+        const data = await response.json();
+        setActiveView(data.view);
+        setActiveFilter(data.view.query);
+        setFilterInput(data.view.query);
+        fetchSpecs(data.view.query);
+      } catch (err) {
+        setActiveView(null);
+        setError(err instanceof Error ? err.message : 'Failed to load saved view');
+        setLoading(false);
+      }
+    }
+    
+    if (viewId) {
+      loadView(viewId);
+    } else {
+      setActiveView(null);
+      setActiveFilter(urlFilter);
+      setFilterInput(urlFilter);
+      fetchSpecs(urlFilter);
+    }
+  }, [viewId, urlFilter]);
   
   // Listen for keyboard shortcut to create spec
   useEffect(() => {
@@ -56,16 +127,6 @@ export default function DashboardPage() {
   useEffect(() => {
     let filtered = [...specs];
     
-    // Search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (spec) =>
-          spec.title.toLowerCase().includes(query) ||
-          spec.metadata.tags?.some((tag) => tag.toLowerCase().includes(query))
-      );
-    }
-    
     // Status filter
     if (statusFilter !== 'all') {
       filtered = filtered.filter((spec) => spec.metadata.status === statusFilter);
@@ -77,23 +138,83 @@ export default function DashboardPage() {
     }
     
     setFilteredSpecs(filtered);
-  }, [specs, searchQuery, statusFilter, typeFilter]);
+  }, [specs, statusFilter, typeFilter]);
   
-  async function fetchSpecs() {
+  // Search on the server; the status and type dropdowns become query filters
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      setSearchError(null);
+      return;
+    }
+    
+    const query = [
+      searchQuery.trim(),
+      statusFilter !== 'all' ? `status:"${statusFilter}"` : '',
+      typeFilter !== 'all' ? `type:${typeFilter}` : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+    
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true);
+        setSearchError(null);
+        
+        const token = localStorage.getItem('auth_token');
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}&limit=50`, {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          signal: controller.signal,
+        });
+        
+        if (!response.ok) {
+          throw new Error('Search failed');
+        }
+        
+        setSearchResults(await response.json());
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error searching specs:', err);
+        setSearchError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchQuery, statusFilter, typeFilter]);
+  
+  function handleFacetSelect(field: SearchFilterField, value: string) {
+    if (field === 'status') {
+      setStatusFilter(value as WorkflowStage);
+    } else if (field === 'type') {
+      setTypeFilter(value as SpecType);
+    } else {
+      const filter = /\s/.test(value) ? `${field}:"${value}"` : `${field}:${value}`;
+      setSearchQuery((prev) => (prev.includes(filter) ? prev : `${prev.trim()} ${filter}`));
+    }
+  }
+  
+  async function fetchSpecs(filter: string) {
     try {
       setLoading(true);
       setError(null);
       
-      const token = localStorage.getItem('auth_token');
-      const response = await fetch('/api/specs', {
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-      });
+      const url = filter
+        ? `/api/specs?filter=${encodeURIComponent(filter)}&limit=100`
+        : '/api/specs';
+      const response = await fetch(url, { headers: authHeaders() });
       
       if (!response.ok) {
-        throw new Error('Failed to fetch specs');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message || 'Failed to fetch specs');
       }
       
       const data = await response.json();
@@ -106,6 +227,24 @@ export default function DashboardPage() {
     }
   }
   
+  function applyFilter() {
+    const filter = filterInput.trim();
+    router.push(filter ? `/dashboard?filter=${encodeURIComponent(filter)}` : '/dashboard');
+  }
+  
+  async function handleDeleteView() {
+    if (!activeView || !confirm(`Delete the view "${activeView.name}"?`)) return;
+    
+    const response = await fetch(`/api/views/${activeView._id}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+    if (response.ok) {
+      window.dispatchEvent(new CustomEvent(SAVED_VIEWS_CHANGED_EVENT));
+      router.push('/dashboard');
+    }
+  }
+  
   async function handleCreateSpec() {
     if (!selectedTemplate || !newSpecTitle.trim()) {
       return;
@@ -173,10 +312,10 @@ export default function DashboardPage() {
               {/* Search */}
               <input
                 type="text"
-                placeholder="Search specs..."
+                placeholder='Search specs... (e.g. tag:payments "exact phrase")'
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-64 rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                className="w-96 rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
               />
               
               {/* Status Filter */}
@@ -217,8 +356,79 @@ export default function DashboardPage() {
             </button>
           </div>
           
-          {/* Spec List */}
-          {loading ? (
+          {/* Filter Bar */}
+          <div className="mb-6 flex items-center gap-3">
+            {activeView && (
+              <span className="text-sm font-semibold text-gray-900">{activeView.name}</span>
+            )}
+            <input
+              type="text"
+              placeholder="Filter, e.g. status:Draft updated:<14d has:unresolved-comments"
+              value={filterInput}
+              onChange={(e) => setFilterInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyFilter()}
+              className="flex-1 rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={applyFilter}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => setShowSaveView(true)}
+              disabled={!activeFilter || filterInput.trim() !== activeFilter}
+              title="Apply the filter first, then save it as a view"
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Save view
+            </button>
+            {activeView && user?.id === activeView.ownerId && (
+              <button
+                onClick={handleDeleteView}
+                className="rounded-md px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50"
+              >
+                Delete view
+              </button>
+            )}
+          </div>
+          
+          {/* Search Results */}
+          {searchQuery.trim() ? (
+            searchError ? (
+              <div className="rounded-lg bg-white p-12 text-center shadow">
+                <div className="text-red-600">{searchError}</div>
+              </div>
+            ) : !searchResults ? (
+              <div className="rounded-lg bg-white p-12 text-center shadow">
+                <div className="text-gray-500">Searching...</div>
+              </div>
+            ) : (
+              <div className="flex gap-6">
+                <div className="min-w-0 flex-1">
+                  <div className="mb-3 text-sm text-gray-500">
+                    {searchResults.truncated
+                      ? `At least ${searchResults.total} results; narrow the search for exact counts`
+                      : `${searchResults.total} result${searchResults.total === 1 ? '' : 's'}`}
+                    {searching && ' (updating...)'}
+                  </div>
+                  {searchResults.results.length === 0 ? (
+                    <div className="rounded-lg bg-white p-12 text-center shadow">
+                      <div className="text-gray-500">No specs match your search.</div>
+                    </div>
+                  ) : (
+                    <SearchResultList
+                      results={searchResults.results}
+                      onOpen={(id) => router.push(`/specs/${id}`)}
+                    />
+                  )}
+                </div>
+                <aside className="w-56 shrink-0">
+                  <SearchFacetList facets={searchResults.facets} onSelect={handleFacetSelect} />
+                </aside>
+              </div>
+            )
+          ) : loading ? (
             <div className="rounded-lg bg-white p-12 text-center shadow">
               <div className="text-gray-500">Loading specs...</div>
             </div>
@@ -226,7 +436,7 @@ export default function DashboardPage() {
             <div className="rounded-lg bg-white p-12 text-center shadow">
               <div className="text-red-600">{error}</div>
               <button
-                onClick={fetchSpecs}
+                onClick={() => fetchSpecs(activeFilter)}
                 className="mt-4 text-sm text-blue-600 hover:text-blue-700"
               >
                 Try again
@@ -235,7 +445,7 @@ export default function DashboardPage() {
           ) : filteredSpecs.length === 0 ? (
             <div className="rounded-lg bg-white p-12 text-center shadow">
               <div className="text-gray-500">
-                {specs.length === 0
+                {specs.length === 0 && !activeFilter
                   ? 'No specs yet. Create your first spec to get started!'
                   : 'No specs match your filters.'}
               </div>
@@ -288,7 +498,7 @@ export default function DashboardPage() {
           )}
           
           {/* Recent Activity Section */}
-          {!loading && specs.length > 0 && (
+          {!loading && !searchQuery.trim() && specs.length > 0 && (
             <div className="mt-8">
               <h2 className="mb-4 text-xl font-semibold text-gray-900">Recent Activity</h2>
               <div className="rounded-lg bg-white p-6 shadow">
@@ -318,6 +528,17 @@ export default function DashboardPage() {
         </main>
       </div>
       
+      {showSaveView && (
+        <SaveViewDialog
+          query={activeFilter}
+          onSaved={(view) => {
+            setShowSaveView(false);
+            router.push(`/dashboard?view=${view._id}`);
+          }}
+          onCancel={() => setShowSaveView(false)}
+        />
+      )}
+      
       {/* Create Spec Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
@@ -1,20 +1,28 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { SpecEditor } from '@/components/spec-editor';
 import { VersionHistory } from '@/components/version-history';
 import { DiffViewer } from '@/components/diff-viewer';
 import { WorkflowStatusBadge } from '@/components/workflow-status-badge';
 import { WorkflowTransitionButton } from '@/components/workflow-transition-button';
+import { WorkflowHistory, WorkflowHistoryEntry } from '@/components/workflow-history';
+import { WatchButton } from '@/components/watch-button';
+import { ExportDocumentButton } from '@/components/export-document-button';
+import { GenerateChildSpecsButton } from '@/components/child-spec-generator';
 import { SpecMetadata, WorkflowStage } from '@/types/spec';
+import { WorkflowDefinition } from '@/types/workflow';
 import { useAuth } from '@/lib/auth-context';
+import { SpecConflictError } from '@/lib/errors';
+import { hasPermission } from '@/lib/permissions';
 
 interface Spec {
   _id: string;
   title: string;
   content: string;
   metadata: SpecMetadata;
+  currentVersion: number;
 }
 
 export default function SpecPage() {
@@ -22,11 +30,13 @@ export default function SpecPage() {
   const router = useRouter();
   const { user, isLoading: authLoading } = useAuth();
   const [spec, setSpec] = useState<Spec | null>(null);
+  const [workflow, setWorkflow] = useState<WorkflowDefinition | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showSidebar, setShowSidebar] = useState(false);
   const [sidebarTab, setSidebarTab] = useState<'versions' | 'workflow'>('versions');
   const [compareVersions, setCompareVersions] = useState<{ rev1: number; rev2: number } | null>(null);
+  const [workflowHistory, setWorkflowHistory] = useState<WorkflowHistoryEntry[]>([]);
 
   // Get specId from params safely
   const specId = typeof params.id === 'string' ? params.id : null;
@@ -70,6 +80,7 @@ export default function SpecPage() {
           spec._id = spec.id;
         }
         setSpec(spec);
+        setWorkflow(data.workflow);
       } catch (err) {
         console.error('Error fetching spec:', err);
         setError(err instanceof Error ? err.message : 'An error occurred');
@@ -81,7 +92,41 @@ export default function SpecPage() {
     fetchSpec();
   }, [specId, user, router, authLoading]);
 
-  const handleSave = async (content: string, metadata: SpecMetadata) => {
+  const fetchWorkflowHistory = useCallback(async () => {
+    if (!specId) return;
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/specs/${specId}/workflow-history`, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch workflow history');
+      }
+      const data = await response.json();
+      setWorkflowHistory(
+        data.history.map((event: any) => ({
+          stage: event.toStage,
+          fromStage: event.fromStage,
+          timestamp: event.timestamp,
+          author: event.actorName,
+          comment: event.comment,
+        }))
+      );
+    } catch (err) {
+      console.error('Workflow history error:', err);
+    }
+  }, [specId]);
+
+  useEffect(() => {
+    if (showSidebar && sidebarTab === 'workflow') {
+      fetchWorkflowHistory();
+    }
+  }, [showSidebar, sidebarTab, fetchWorkflowHistory]);
+
+  const handleSave = async (content: string, metadata: SpecMetadata, expectedVersion?: number) => {
     if (!specId) return;
     try {
       const token = localStorage.getItem('auth_token');
@@ -93,13 +138,16 @@ export default function SpecPage() {
           'Content-Type': 'application/json',
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
-        body: JSON.stringify({ content, metadata }),
+        body: JSON.stringify({ content, metadata, expectedVersion }),
       });
 
       console.log('Save response status:', response.status);
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         console.error('Save failed:', response.status, errorData);
+        if (response.status === 409 && errorData.error?.details) {
+          throw new SpecConflictError(errorData.error.details, errorData.error.message);
+        }
         throw new Error(errorData.error?.message || 'Failed to save spec');
       }
 
@@ -117,7 +165,7 @@ export default function SpecPage() {
     }
   };
 
-  const handleTransition = async (newStage: WorkflowStage) => {
+  const handleTransition = async (newStage: WorkflowStage, comment?: string) => {
     if (!specId) return;
     try {
       const token = localStorage.getItem('auth_token');
@@ -127,7 +175,7 @@ export default function SpecPage() {
           'Content-Type': 'application/json',
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
-        body: JSON.stringify({ toStage: newStage }),
+        body: JSON.stringify({ toStage: newStage, comment }),
       });
 
       if (!response.ok) {
@@ -137,6 +185,7 @@ export default function SpecPage() {
 
       const data = await response.json();
       setSpec(data.spec);
+      fetchWorkflowHistory();
     } catch (err) {
       console.error('Transition error:', err);
       throw err;
@@ -150,33 +199,24 @@ export default function SpecPage() {
   const handleRestore = async (version: number) => {
     if (!specId) return;
     try {
-      // Fetch the revision content
       const token = localStorage.getItem('auth_token');
-      const response = await fetch(`/api/specs/${specId}/revisions`, {
+      const response = await fetch(`/api/specs/${specId}/revisions/${version}/restore`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
       });
       if (!response.ok) {
-        throw new Error('Failed to fetch revisions');
-      }
-      
-      const data = await response.json();
-      const revision = data.revisions.find((rev: any) => rev.version === version);
-      
-      if (!revision) {
-        throw new Error('Revision not found');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error?.message || 'Failed to restore version');
       }
       
-      // Save the revision content as a new version
-      await handleSave(revision.content, revision.metadata);
-      
       // Refresh the page to show the restored content
       window.location.reload();
     } catch (err) {
       console.error('Restore error:', err);
-      alert('Failed to restore version');
+      alert(err instanceof Error ? err.message : 'Failed to restore version');
     }
   };
 
@@ -222,11 +262,17 @@ export default function SpecPage() {
           <WorkflowStatusBadge status={spec.metadata.status} />
         </div>
         <div className="flex items-center gap-3">
+          {user && spec && spec._id && <WatchButton specId={spec._id} />}
+          {user && spec && spec._id && <ExportDocumentButton specId={spec._id} />}
+          {user && spec && spec._id && hasPermission(user.role, 'spec:create') && (
+            <GenerateChildSpecsButton specId={spec._id} specType={spec.metadata.type} />
+          )}
           {user && spec && spec._id && (
             <WorkflowTransitionButton
               specId={spec._id}
               currentStage={spec.metadata.status}
               userRole={user.role}
+              workflow={workflow}
               onTransition={handleTransition}
             />
           )}
@@ -251,6 +297,7 @@ export default function SpecPage() {
               specId={spec._id}
               initialContent={spec.content}
               initialMetadata={spec.metadata}
+              currentVersion={spec.currentVersion}
               onSave={handleSave}
             />
           )}
@@ -292,9 +339,11 @@ export default function SpecPage() {
                   onRestore={handleRestore}
                 />
               ) : (
-                <div className="p-4 text-gray-600 text-sm">
-                  Workflow history will be tracked in future revisions. Each time the workflow stage changes, it will be recorded here with the author and timestamp.
-                </div>
+                <WorkflowHistory
+                  history={workflowHistory}
+                  currentStage={spec.metadata.status}
+                  className="p-4 h-full overflow-y-auto"
+                />
               )}
             </div>
           </div>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { AIAction } from '@/lib/ai-client';
 
 interface AIAssistantPanelProps {
@@ -65,6 +65,33 @@ const AI_ACTIONS: AIActionOption[] = [
   },
 ];
 
+// Calls onEvent for each Server-Sent Event in the response body
+async function readEvents(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    for (const block of events) {
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice('event:'.length).trim();
+        if (line.startsWith('data:')) data += line.slice('data:'.length).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
 export function AIAssistantPanel({
   selectedText,
   context,
@@ -79,11 +106,23 @@ export function AIAssistantPanel({
   const [error, setError] = useState<string | null>(null);
   const [tokensUsed, setTokensUsed] = useState<number | null>(null);
   const [estimatedTokens, setEstimatedTokens] = useState<number | null>(null);
+  // True until the generated text is complete
+  const [streaming, setStreaming] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop generating when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleAction = async (action: AIAction) => {
+    const abort = new AbortController();
+    abortRef.current = abort;
     setLoading(true);
+    setStreaming(true);
+    setCancelled(false);
     setError(null);
     setGeneratedText(null);
+    setTokensUsed(null);
 
     try {
       const token = localStorage.getItem('auth_token');
@@ -98,7 +137,9 @@ export function AIAssistantPanel({
           selectedText,
           context,
           specId,
+          stream: true,
         }),
+        signal: abort.signal,
       });
 
       if (!response.ok) {
@@ -106,16 +147,34 @@ export function AIAssistantPanel({
         throw new Error(errorData.error?.message || 'Failed to generate content');
       }
 
-      const data = await response.json();
-      setGeneratedText(data.generatedText);
-      setTokensUsed(data.tokensUsed);
+      await readEvents(response, (event, data) => {
+        if (event === 'text') {
+          setLoading(false);
+          setGeneratedText((text) => (text || '') + data.text);
+        } else if (event === 'done') {
+          setGeneratedText(data.generatedText);
+          setTokensUsed(data.tokensUsed);
+        } else if (event === 'error') {
+          throw new Error(data.error?.message || 'Failed to generate content');
+        }
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      if (!abort.signal.aborted) {
+        setGeneratedText(null);
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
     } finally {
       setLoading(false);
+      setStreaming(false);
+      abortRef.current = null;
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setCancelled(true);
+  };
+
   const handleInsert = () => {
     if (generatedText) {
       onInsert(generatedText);
@@ -188,6 +247,12 @@ export function AIAssistantPanel({
           <div className="p-8 flex flex-col items-center justify-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
             <p className="text-gray-600">Generating content...</p>
+            <button
+              onClick={handleCancel}
+              className="mt-4 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
@@ -214,17 +279,23 @@ export function AIAssistantPanel({
           </div>
         )}
 
-        {generatedText && (
+        {generatedText && !loading && (
           <div className="p-4">
             <div className="mb-4">
               <div className="flex items-center justify-between mb-2">
                 <p className="text-sm font-medium text-gray-700">
                   Generated Content
                 </p>
-                {tokensUsed && (
-                  <span className="text-xs text-gray-500">
-                    {tokensUsed} tokens used
-                  </span>
+                {streaming ? (
+                  <span className="text-xs text-gray-500">Generating...</span>
+                ) : cancelled ? (
+                  <span className="text-xs text-gray-500">Cancelled</span>
+                ) : (
+                  tokensUsed && (
+                    <span className="text-xs text-gray-500">
+                      {tokensUsed} tokens used
+                    </span>
+                  )
                 )}
               </div>
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 max-h-64 overflow-y-auto">
@@ -235,29 +306,38 @@ export function AIAssistantPanel({
             </div>
 
             {/* Action buttons */}
-            <div className="flex gap-2">
-              <button
-                onClick={handleInsert}
-                className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium"
-              >
-                Insert
-              </button>
-              <button
-                onClick={handleReplace}
-                className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors font-medium"
-              >
-                Replace
-              </button>
+            {streaming ? (
               <button
-                onClick={() => {
-                  setGeneratedText(null);
-                  setTokensUsed(null);
-                }}
-                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                onClick={handleCancel}
+                className="w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
               >
-                Reject
+                Stop generating
               </button>
-            </div>
+            ) : (
+              <div className="flex gap-2">
+                <button
+                  onClick={handleInsert}
+                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium"
+                >
+                  Insert
+                </button>
+                <button
+                  onClick={handleReplace}
+                  className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors font-medium"
+                >
+                  Replace
+                </button>
+                <button
+                  onClick={() => {
+                    setGeneratedText(null);
+                    setTokensUsed(null);
+                  }}
+                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                >
+                  Reject
+                </button>
+              </div>
+            )}
           </div>
         )}
       </div>
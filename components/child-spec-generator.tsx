@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { SpecType } from '@/types/spec';
+
+interface GenerateChildSpecsButtonProps {
+  specId: string;
+  specType: SpecType;
+}
+
+interface Proposal {
+  title: string;
+  tags: string[];
+  content: string;
+  accepted: boolean;
+}
+
+interface CreatedSpec {
+  id: string;
+  title: string;
+}
+
+// Parent types with generated children, and what the children are called
+const CHILD_LABELS: Partial<Record<SpecType, string>> = {
+  epic: 'User Stories',
+  'user-story': 'Test Cases',
+};
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+/**
+ * Generates proposed child specs with AI and lets the user review, edit and
+ * create the ones they accept
+ */
+export function GenerateChildSpecsButton({ specId, specType }: GenerateChildSpecsButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [created, setCreated] = useState<CreatedSpec[] | null>(null);
+
+  const label = CHILD_LABELS[specType];
+  if (!label) return null;
+
+  const generate = async () => {
+    setOpen(true);
+    setLoading(true);
+    setError(null);
+    setCreated(null);
+    setProposals([]);
+    setExpanded(null);
+
+    try {
+      const response = await fetch(`/api/specs/${specId}/children/propose`, {
+        method: 'POST',
+        headers: authHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to generate specs');
+      }
+      setProposals(
+        data.proposals.map((proposal: Omit<Proposal, 'accepted'>) => ({ ...proposal, accepted: true }))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate specs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (index: number, changes: Partial<Proposal>) => {
+    setProposals((current) => current.map((proposal, i) => (i === index ? { ...proposal, ...changes } : proposal)));
+  };
+
+  const accepted = proposals.filter((proposal) => proposal.accepted && proposal.title.trim());
+
+  const create = async () => {
+    setCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/specs/${specId}/children`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          specs: accepted.map(({ title, tags, content }) => ({ title, tags, content })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to create specs');
+      }
+      setCreated(data.specs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create specs');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={generate}
+        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors text-sm font-medium"
+      >
+        Generate {label}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+            {/* Header */}
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Generated {label}</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  Review the proposals. Accepted ones are created and linked to this spec.
+                </p>
+              </div>
+              <button
+                onClick={() => setOpen(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4">
+              {loading && (
+                <div className="p-8 flex flex-col items-center justify-center">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
+                  <p className="text-gray-600">Generating {label.toLowerCase()}...</p>
+                </div>
+              )}
+
+              {error && (
+                <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+              )}
+
+              {created ? (
+                <div>
+                  <p className="text-sm text-gray-700 mb-2">
+                    Created {created.length} spec{created.length === 1 ? '' : 's'}:
+                  </p>
+                  <ul className="space-y-1">
+                    {created.map((spec) => (
+                      <li key={spec.id}>
+                        <Link href={`/specs/${spec.id}`} className="text-sm text-blue-600 hover:underline">
+                          {spec.title}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {proposals.map((proposal, index) => (
+                    <div
+                      key={index}
+                      className={`border rounded-lg ${proposal.accepted ? 'border-blue-300' : 'border-gray-200 opacity-60'}`}
+                    >
+                      <div className="flex items-center gap-3 p-3">
+                        <input
+                          type="checkbox"
+                          checked={proposal.accepted}
+                          onChange={(event) => update(index, { accepted: event.target.checked })}
+                          aria-label="Accept"
+                        />
+                        <input
+                          type="text"
+                          value={proposal.title}
+                          onChange={(event) => update(index, { title: event.target.value })}
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm font-medium"
+                        />
+                        {proposal.tags.length > 0 && (
+                          <span className="text-xs text-gray-500">{proposal.tags.join(', ')}</span>
+                        )}
+                        <button
+                          onClick={() => setExpanded(expanded === index ? null : index)}
+                          className="text-sm text-blue-600 hover:underline"
+                        >
+                          {expanded === index ? 'Hide' : 'Edit'}
+                        </button>
+                      </div>
+                      {expanded === index && (
+                        <textarea
+                          value={proposal.content}
+                          onChange={(event) => update(index, { content: event.target.value })}
+                          rows={16}
+                          className="w-full p-3 border-t border-gray-200 font-mono text-sm focus:outline-none"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-3">
+              {created ? (
+                <button
+                  onClick={() => setOpen(false)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Done
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => setOpen(false)}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={generate}
+                    disabled={loading || creating}
+                    className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                  >
+                    Regenerate
+                  </button>
+                  <button
+                    onClick={create}
+                    disabled={loading || creating || accepted.length === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {creating ? 'Creating...' : `Create ${accepted.length} spec${accepted.length === 1 ? '' : 's'}`}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
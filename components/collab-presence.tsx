@@ -0,0 +1,57 @@
+'use client';
+
+import { CollabStatus } from '@/lib/collab/client';
+import { CollabParticipant } from '@/types/collab';
+
+interface CollabPresenceProps {
+  status: CollabStatus;
+  // Everyone else in the editing session
+  participants: CollabParticipant[];
+}
+
+const MAX_AVATARS = 5;
+
+function initials(name: string): string {
+  const words = name.replace(/@.*$/, '').split(/[\s._-]+/).filter(Boolean);
+  return (words.length > 1 ? words[0][0] + words[words.length - 1][0] : (words[0] || '?').slice(0, 2)).toUpperCase();
+}
+
+export function CollabPresence({ status, participants }: CollabPresenceProps) {
+  if (status === 'unavailable' || status === 'connecting') return null;
+
+  // One avatar per person, even with the spec open in several tabs
+  const people = [...new Map(participants.map((participant) => [participant.userId, participant])).values()];
+
+  return (
+    <div className="flex items-center gap-2">
+      {status === 'reconnecting' ? (
+        <span className="text-xs text-amber-600">Reconnecting...</span>
+      ) : (
+        <span className="flex items-center gap-1 text-xs text-green-700">
+          <span className="inline-block w-2 h-2 rounded-full bg-green-500" />
+          Live
+        </span>
+      )}
+      <div className="flex -space-x-2">
+        {people.slice(0, MAX_AVATARS).map((participant) => (
+          <span
+            key={participant.clientId}
+            title={participant.canEdit ? participant.name : `${participant.name} (viewing)`}
+            className="inline-flex items-center justify-center w-7 h-7 text-xs font-medium text-white rounded-full ring-2 ring-white"
+            style={{ backgroundColor: participant.color }}
+          >
+            {initials(participant.name)}
+          </span>
+        ))}
+        {people.length > MAX_AVATARS && (
+          <span
+            title={people.slice(MAX_AVATARS).map((participant) => participant.name).join(', ')}
+            className="inline-flex items-center justify-center w-7 h-7 text-xs font-medium text-gray-700 bg-gray-200 rounded-full ring-2 ring-white"
+          >
+            +{people.length - MAX_AVATARS}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,12 @@ export function CommentMarkers({ comments, onMarkerClick }: CommentMarkersProps)
   // Group comments by line range
   const commentsByLine = new Map<string, Comment[]>();
   
-  comments.forEach((comment) => {
+  // Only open threads whose anchored text still exists get a marker
+  const anchored = comments.filter(
+    (comment) => (comment.status || 'open') === 'open' && !comment.outdated
+  );
+  
+  anchored.forEach((comment) => {
     const key = `${comment.lineRange.start}-${comment.lineRange.end}`;
     if (!commentsByLine.has(key)) {
       commentsByLine.set(key, []);
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Comment, LineRange } from '@/types';
+import { Comment, CommentStatus, LineRange } from '@/types';
 
 interface CommentWithReplies extends Comment {
   replies: CommentWithReplies[];
@@ -12,14 +12,23 @@ interface CommentsPanelProps {
   onLineClick?: (lineRange: LineRange) => void;
 }
 
+type StatusFilter = CommentStatus | 'all';
+
+const STATUS_LABELS: Record<CommentStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  'wont-fix': "Won't fix",
+};
+
 export function CommentsPanel({ specId, onLineClick }: CommentsPanelProps) {
   const [comments, setComments] = useState<CommentWithReplies[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
 
   useEffect(() => {
     loadComments();
-  }, [specId]);
+  }, [specId, statusFilter]);
 
   const loadComments = async () => {
     try {
@@ -27,7 +36,8 @@ export function CommentsPanel({ specId, onLineClick }: CommentsPanelProps) {
       setError(null);
       
       const token = localStorage.getItem('auth_token');
-      const response = await fetch(`/api/specs/${specId}/comments`, {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/specs/${specId}/comments${query}`, {
         headers: {
           'Content-Type': 'application/json',
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
@@ -63,29 +73,39 @@ export function CommentsPanel({ specId, onLineClick }: CommentsPanelProps) {
     );
   }
 
-  if (comments.length === 0) {
-    return (
-      <div className="p-4 text-gray-500 text-center">
-        No comments yet
-      </div>
-    );
-  }
-
   return (
     <div className="flex flex-col h-full overflow-y-auto">
-      <div className="p-4 border-b border-gray-200">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
         <h3 className="text-lg font-semibold">Comments</h3>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="text-sm border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="all">All</option>
+          {(Object.keys(STATUS_LABELS) as CommentStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
       </div>
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {comments.map((comment) => (
-          <CommentThread
-            key={comment._id}
-            comment={comment}
-            specId={specId}
-            onLineClick={onLineClick}
-            onReplyAdded={loadComments}
-          />
-        ))}
+        {comments.length === 0 ? (
+          <div className="text-gray-500 text-center">
+            {statusFilter === 'all' ? 'No comments yet' : `No ${STATUS_LABELS[statusFilter].toLowerCase()} threads`}
+          </div>
+        ) : (
+          comments.map((comment) => (
+            <CommentThread
+              key={comment._id}
+              comment={comment}
+              specId={specId}
+              onLineClick={onLineClick}
+              onReplyAdded={loadComments}
+            />
+          ))
+        )}
       </div>
     </div>
   );
@@ -101,12 +121,33 @@ interface CommentThreadProps {
 function CommentThread({ comment, specId, onLineClick, onReplyAdded }: CommentThreadProps) {
   const [showReplyForm, setShowReplyForm] = useState(false);
 
+  const handleStatusChange = async (status: CommentStatus) => {
+    const token = localStorage.getItem('auth_token');
+    const response = await fetch(`/api/comments/${comment._id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      alert(data?.error?.message || 'Failed to update thread');
+      return;
+    }
+
+    onReplyAdded();
+  };
+
   return (
     <div className="space-y-2">
       <CommentItem
         comment={comment}
         onLineClick={onLineClick}
         onReply={() => setShowReplyForm(true)}
+        onStatusChange={handleStatusChange}
       />
       
       {showReplyForm && (
@@ -142,10 +183,13 @@ interface CommentItemProps {
   comment: Comment;
   onLineClick?: (lineRange: LineRange) => void;
   onReply?: () => void;
+  onStatusChange?: (status: CommentStatus) => void;
   isReply?: boolean;
 }
 
-function CommentItem({ comment, onLineClick, onReply, isReply }: CommentItemProps) {
+function CommentItem({ comment, onLineClick, onReply, onStatusChange, isReply }: CommentItemProps) {
+  const status = comment.status || 'open';
+
   const formatTimestamp = (date: Date) => {
     const d = new Date(date);
     return d.toLocaleString();
@@ -168,6 +212,19 @@ function CommentItem({ comment, onLineClick, onReply, isReply }: CommentItemProp
           >
             Lines {comment.lineRange.start}-{comment.lineRange.end}
           </button>
+          {!isReply && comment.outdated && (
+            <span
+              className="text-xs bg-orange-100 text-orange-800 px-2 py-0.5 rounded"
+              title="The text this thread was written about has been deleted"
+            >
+              Outdated
+            </span>
+          )}
+          {!isReply && status !== 'open' && (
+            <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
+              {STATUS_LABELS[status]}
+            </span>
+          )}
         </div>
         <span className="text-xs text-gray-500">
           {formatTimestamp(comment.timestamp)}
@@ -191,13 +248,48 @@ function CommentItem({ comment, onLineClick, onReply, isReply }: CommentItemProp
         </div>
       )}
 
-      {!isReply && onReply && (
-        <button
-          onClick={onReply}
-          className="mt-2 text-xs text-blue-600 hover:text-blue-800 hover:underline"
-        >
-          Reply
-        </button>
+      {!isReply && status !== 'open' && comment.resolvedBy && (
+        <div className="mt-2 text-xs text-gray-500">
+          {STATUS_LABELS[status]} by {comment.resolvedBy}
+          {comment.resolvedAt && ` on ${formatTimestamp(comment.resolvedAt)}`}
+        </div>
+      )}
+
+      {!isReply && (
+        <div className="mt-2 flex gap-3">
+          {onReply && (
+            <button
+              onClick={onReply}
+              className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              Reply
+            </button>
+          )}
+          {onStatusChange && status === 'open' && (
+            <>
+              <button
+                onClick={() => onStatusChange('resolved')}
+                className="text-xs text-green-700 hover:text-green-900 hover:underline"
+              >
+                Resolve
+              </button>
+              <button
+                onClick={() => onStatusChange('wont-fix')}
+                className="text-xs text-gray-600 hover:text-gray-800 hover:underline"
+              >
+                Won&apos;t fix
+              </button>
+            </>
+          )}
+          {onStatusChange && status !== 'open' && (
+            <button
+              onClick={() => onStatusChange('open')}
+              className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              Reopen
+            </button>
+          )}
+        </div>
       )}
     </div>
   );
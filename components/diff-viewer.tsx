@@ -2,13 +2,9 @@
 
 import { useState, useEffect } from 'react';
 
-interface DiffBlock {
-  type: 'added' | 'removed' | 'unchanged';
-  content: string;
-  lineNumber: number;
-  oldLineNumber?: number;
-  newLineNumber?: number;
-}
+import type { DiffBlock, DiffFormat } from '@/lib/text-diff';
+import type { CompareFormat, SemanticDiff } from '@/lib/semantic-diff';
+import { SemanticDiffView } from './semantic-diff-view';
 
 interface DiffViewerProps {
   specId: string;
@@ -26,9 +22,10 @@ interface RevisionInfo {
 
 export function DiffViewer({ specId, rev1, rev2, onClose }: DiffViewerProps) {
   const [diff, setDiff] = useState<DiffBlock[]>([]);
+  const [semanticDiff, setSemanticDiff] = useState<SemanticDiff | null>(null);
   const [revision1, setRevision1] = useState<RevisionInfo | null>(null);
   const [revision2, setRevision2] = useState<RevisionInfo | null>(null);
-  const [format, setFormat] = useState<'inline' | 'side-by-side'>('inline');
+  const [format, setFormat] = useState<CompareFormat>('inline');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -50,7 +47,11 @@ export function DiffViewer({ specId, rev1, rev2, onClose }: DiffViewerProps) {
       }
       
       const data = await response.json();
-      setDiff(data.diff);
+      if (format === 'semantic') {
+        setSemanticDiff(data.semantic);
+      } else {
+        setDiff(data.diff);
+      }
       setRevision1({
         ...data.revision1,
         timestamp: new Date(data.revision1.timestamp),
@@ -76,125 +77,6 @@ export function DiffViewer({ specId, rev1, rev2, onClose }: DiffViewerProps) {
     }).format(date);
   };
 
-  const renderInlineDiff = () => {
-    return (
-      <div className="font-mono text-sm">
-        {diff.map((block, index) => (
-          <div
-            key={index}
-            className={`flex ${
-              block.type === 'added'
-                ? 'bg-green-50'
-                : block.type === 'removed'
-                ? 'bg-red-50'
-                : 'bg-white'
-            }`}
-          >
-            <div
-              className={`w-16 flex-shrink-0 text-right pr-4 py-1 select-none ${
-                block.type === 'added'
-                  ? 'text-green-700 bg-green-100'
-                  : block.type === 'removed'
-                  ? 'text-red-700 bg-red-100'
-                  : 'text-gray-500 bg-gray-50'
-              }`}
-            >
-              {block.lineNumber}
-            </div>
-            <div
-              className={`w-8 flex-shrink-0 text-center py-1 select-none font-bold ${
-                block.type === 'added'
-                  ? 'text-green-700 bg-green-100'
-                  : block.type === 'removed'
-                  ? 'text-red-700 bg-red-100'
-                  : 'text-gray-400 bg-gray-50'
-              }`}
-            >
-              {block.type === 'added' ? '+' : block.type === 'removed' ? '-' : ' '}
-            </div>
-            <div
-              className={`flex-1 px-4 py-1 whitespace-pre-wrap break-all ${
-                block.type === 'added'
-                  ? 'text-green-900'
-                  : block.type === 'removed'
-                  ? 'text-red-900'
-                  : 'text-gray-900'
-              }`}
-            >
-              {block.content || ' '}
-            </div>
-          </div>
-        ))}
-      </div>
-    );
-  };
-
-  const renderSideBySideDiff = () => {
-    return (
-      <div className="grid grid-cols-2 gap-px bg-gray-300 font-mono text-sm">
-        <div className="bg-gray-100 px-4 py-2 font-semibold">
-          Version {rev1} (Old)
-        </div>
-        <div className="bg-gray-100 px-4 py-2 font-semibold">
-          Version {rev2} (New)
-        </div>
-        
-        {diff.map((block, index) => {
-          if (block.type === 'unchanged') {
-            return (
-              <div key={index} className="col-span-2 grid grid-cols-2 gap-px bg-gray-300">
-                <div className="flex bg-white">
-                  <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-gray-500 bg-gray-50 select-none">
-                    {block.oldLineNumber}
-                  </div>
-                  <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-gray-900">
-                    {block.content || ' '}
-                  </div>
-                </div>
-                <div className="flex bg-white">
-                  <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-gray-500 bg-gray-50 select-none">
-                    {block.newLineNumber}
-                  </div>
-                  <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-gray-900">
-                    {block.content || ' '}
-                  </div>
-                </div>
-              </div>
-            );
-          } else if (block.type === 'removed') {
-            return (
-              <div key={index} className="col-span-2 grid grid-cols-2 gap-px bg-gray-300">
-                <div className="flex bg-red-50">
-                  <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-red-700 bg-red-100 select-none">
-                    {block.oldLineNumber}
-                  </div>
-                  <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-red-900">
-                    {block.content || ' '}
-                  </div>
-                </div>
-                <div className="bg-gray-100"></div>
-              </div>
-            );
-          } else {
-            return (
-              <div key={index} className="col-span-2 grid grid-cols-2 gap-px bg-gray-300">
-                <div className="bg-gray-100"></div>
-                <div className="flex bg-green-50">
-                  <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-green-700 bg-green-100 select-none">
-                    {block.newLineNumber}
-                  </div>
-                  <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-green-900">
-                    {block.content || ' '}
-                  </div>
-                </div>
-              </div>
-            );
-          }
-        })}
-      </div>
-    );
-  };
-
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-7xl h-[90vh] flex flex-col">
@@ -215,28 +97,11 @@ export function DiffViewer({ specId, rev1, rev2, onClose }: DiffViewerProps) {
             )}
           </div>
           <div className="flex items-center gap-3">
-            <div className="flex gap-2 border border-gray-300 rounded-lg p-1">
-              <button
-                onClick={() => setFormat('inline')}
-                className={`px-3 py-1 text-sm rounded transition-colors ${
-                  format === 'inline'
-                    ? 'bg-blue-600 text-white'
-                    : 'text-gray-700 hover:bg-gray-100'
-                }`}
-              >
-                Inline
-              </button>
-              <button
-                onClick={() => setFormat('side-by-side')}
-                className={`px-3 py-1 text-sm rounded transition-colors ${
-                  format === 'side-by-side'
-                    ? 'bg-blue-600 text-white'
-                    : 'text-gray-700 hover:bg-gray-100'
-                }`}
-              >
-                Side by Side
-              </button>
-            </div>
+            <DiffFormatToggle
+              format={format}
+              formats={['inline', 'side-by-side', 'semantic']}
+              onChange={setFormat}
+            />
             <button
               onClick={onClose}
               className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
@@ -268,9 +133,18 @@ export function DiffViewer({ specId, rev1, rev2, onClose }: DiffViewerProps) {
             </div>
           )}
 
-          {!loading && !error && (
+          {!loading && !error && format === 'semantic' && semanticDiff && (
+            <SemanticDiffView diff={semanticDiff} />
+          )}
+
+          {!loading && !error && format !== 'semantic' && (
             <div className="min-h-full">
-              {format === 'inline' ? renderInlineDiff() : renderSideBySideDiff()}
+              <DiffView
+                diff={diff}
+                format={format}
+                oldLabel={`Version ${rev1} (Old)`}
+                newLabel={`Version ${rev2} (New)`}
+              />
             </div>
           )}
         </div>
@@ -285,6 +159,12 @@ export function DiffViewer({ specId, rev1, rev2, onClose }: DiffViewerProps) {
             <div className="w-4 h-4 bg-red-100 border border-red-300 rounded"></div>
             <span className="text-gray-700">Removed</span>
           </div>
+          {format === 'semantic' && (
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 bg-yellow-100 border border-yellow-300 rounded"></div>
+              <span className="text-gray-700">Modified</span>
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 bg-white border border-gray-300 rounded"></div>
             <span className="text-gray-700">Unchanged</span>
@@ -294,3 +174,167 @@ export function DiffViewer({ specId, rev1, rev2, onClose }: DiffViewerProps) {
     </div>
   );
 }
+
+interface DiffViewProps {
+  diff: DiffBlock[];
+  format: DiffFormat;
+  // Column headings in side-by-side format
+  oldLabel: string;
+  newLabel: string;
+}
+
+/**
+ * Line diff rendered inline or side by side
+ */
+export function DiffView({ diff, format, oldLabel, newLabel }: DiffViewProps) {
+  if (format === 'inline') {
+    return (
+      <div className="font-mono text-sm">
+        {diff.map((block, index) => (
+          <div
+            key={index}
+            className={`flex ${
+              block.type === 'added'
+                ? 'bg-green-50'
+                : block.type === 'removed'
+                ? 'bg-red-50'
+                : 'bg-white'
+            }`}
+          >
+            <div
+              className={`w-16 flex-shrink-0 text-right pr-4 py-1 select-none ${
+                block.type === 'added'
+                  ? 'text-green-700 bg-green-100'
+                  : block.type === 'removed'
+                  ? 'text-red-700 bg-red-100'
+                  : 'text-gray-500 bg-gray-50'
+              }`}
+            >
+              {block.lineNumber}
+            </div>
+            <div
+              className={`w-8 flex-shrink-0 text-center py-1 select-none font-bold ${
+                block.type === 'added'
+                  ? 'text-green-700 bg-green-100'
+                  : block.type === 'removed'
+                  ? 'text-red-700 bg-red-100'
+                  : 'text-gray-400 bg-gray-50'
+              }`}
+            >
+              {block.type === 'added' ? '+' : block.type === 'removed' ? '-' : ' '}
+            </div>
+            <div
+              className={`flex-1 px-4 py-1 whitespace-pre-wrap break-all ${
+                block.type === 'added'
+                  ? 'text-green-900'
+                  : block.type === 'removed'
+                  ? 'text-red-900'
+                  : 'text-gray-900'
+              }`}
+            >
+              {block.content || ' '}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-px bg-gray-300 font-mono text-sm">
+      <div className="bg-gray-100 px-4 py-2 font-semibold">
+        {oldLabel}
+      </div>
+      <div className="bg-gray-100 px-4 py-2 font-semibold">
+        {newLabel}
+      </div>
+      
+      {diff.map((block, index) => {
+        if (block.type === 'unchanged') {
+          return (
+            <div key={index} className="col-span-2 grid grid-cols-2 gap-px bg-gray-300">
+              <div className="flex bg-white">
+                <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-gray-500 bg-gray-50 select-none">
+                  {block.oldLineNumber}
+                </div>
+                <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-gray-900">
+                  {block.content || ' '}
+                </div>
+              </div>
+              <div className="flex bg-white">
+                <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-gray-500 bg-gray-50 select-none">
+                  {block.newLineNumber}
+                </div>
+                <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-gray-900">
+                  {block.content || ' '}
+                </div>
+              </div>
+            </div>
+          );
+        } else if (block.type === 'removed') {
+          return (
+            <div key={index} className="col-span-2 grid grid-cols-2 gap-px bg-gray-300">
+              <div className="flex bg-red-50">
+                <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-red-700 bg-red-100 select-none">
+                  {block.oldLineNumber}
+                </div>
+                <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-red-900">
+                  {block.content || ' '}
+                </div>
+              </div>
+              <div className="bg-gray-100"></div>
+            </div>
+          );
+        } else {
+          return (
+            <div key={index} className="col-span-2 grid grid-cols-2 gap-px bg-gray-300">
+              <div className="bg-gray-100"></div>
+              <div className="flex bg-green-50">
+                <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-green-700 bg-green-100 select-none">
+                  {block.newLineNumber}
+                </div>
+                <div className="flex-1 px-4 py-1 whitespace-pre-wrap break-all text-green-900">
+                  {block.content || ' '}
+                </div>
+              </div>
+            </div>
+          );
+        }
+      })}
+    </div>
+  );
+}
+
+const FORMAT_LABELS: Record<CompareFormat, string> = {
+  inline: 'Inline',
+  'side-by-side': 'Side by Side',
+  semantic: 'Semantic',
+};
+
+export function DiffFormatToggle<F extends CompareFormat>({
+  format,
+  formats,
+  onChange,
+}: {
+  format: F;
+  formats: F[];
+  onChange: (format: F) => void;
+}) {
+  return (
+    <div className="flex gap-2 border border-gray-300 rounded-lg p-1">
+      {formats.map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-3 py-1 text-sm rounded transition-colors ${
+            format === option
+              ? 'bg-blue-600 text-white'
+              : 'text-gray-700 hover:bg-gray-100'
+          }`}
+        >
+          {FORMAT_LABELS[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ExportDocumentButtonProps {
+  specId: string;
+}
+
+const FORMATS = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word (.docx)' },
+  { format: 'html', label: 'HTML' },
+];
+
+export function ExportDocumentButton({ specId }: ExportDocumentButtonProps) {
+  const [showMenu, setShowMenu] = useState(false);
+  const [subtree, setSubtree] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const download = async (format: string) => {
+    setShowMenu(false);
+    setExporting(true);
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/specs/${specId}/export?format=${format}&subtree=${subtree}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) {
+        throw new Error('Failed to export spec');
+      }
+
+      // Save under the file name chosen by the server
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || `spec.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to export spec');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        disabled={exporting}
+        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors text-sm font-medium disabled:opacity-50"
+      >
+        {exporting ? 'Exporting...' : 'Export'}
+      </button>
+
+      {showMenu && (
+        <div className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-200 z-10">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => download(format)}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {label}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 border-t border-gray-200">
+            <input type="checkbox" checked={subtree} onChange={(event) => setSubtree(event.target.checked)} />
+            Include linked specs
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
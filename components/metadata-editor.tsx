@@ -176,15 +176,17 @@ export function MetadataEditor({
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Status
                 </label>
+                {/* Stages change through workflow transitions, not by editing */}
                 <select
                   value={metadata.status}
-                  onChange={(e) =>
-                    handleFieldChange('status', e.target.value as WorkflowStage)
-                  }
-                  disabled={readOnly}
+                  disabled
+                  title="Use the workflow transitions to change the stage"
                   className="w-full px-3 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
                 >
-                  {WORKFLOW_STAGES.map((stage) => (
+                  {(WORKFLOW_STAGES.includes(metadata.status)
+                    ? WORKFLOW_STAGES
+                    : [...WORKFLOW_STAGES, metadata.status]
+                  ).map((stage) => (
                     <option key={stage} value={stage}>
                       {stage}
                     </option>
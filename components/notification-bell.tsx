@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { Notification } from '@/types';
+
+// Poll for new notifications every minute
+const POLL_INTERVAL = 60000;
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=20', { headers: authHeaders() });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setNotifications(data.notifications || []);
+      setUnreadCount(data.unreadCount || 0);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  // Close the dropdown when clicking outside it
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    const response = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: authHeaders(),
+      body: JSON.stringify(body),
+    });
+    if (response.ok) {
+      const data = await response.json();
+      setUnreadCount(data.unreadCount);
+    }
+  };
+
+  const handleOpenNotification = async (notification: Notification) => {
+    if (!notification.read) {
+      setNotifications((prev) =>
+        prev.map((n) => (n._id === notification._id ? { ...n, read: true } : n))
+      );
+      await markRead({ ids: [notification._id] });
+    }
+    setOpen(false);
+    router.push(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    await markRead({ all: true });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="relative rounded-md p-2 text-gray-300 hover:bg-gray-800 hover:text-white"
+        title="Notifications"
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+      >
+        <span>🔔</span>
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-2 w-80 rounded-lg border border-gray-200 bg-white text-gray-900 shadow-lg">
+          <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+            <span className="text-sm font-semibold">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <div className="p-4 text-center text-sm text-gray-500">No notifications</div>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification._id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`block w-full border-b border-gray-100 px-4 py-3 text-left hover:bg-gray-50 ${
+                    notification.read ? '' : 'bg-blue-50'
+                  }`}
+                >
+                  <div className="text-sm font-medium">{notification.title}</div>
+                  <div className="mt-1 line-clamp-2 text-xs text-gray-600">{notification.message}</div>
+                  <div className="mt-1 text-xs text-gray-400">
+                    {new Date(notification.createdAt).toLocaleString()}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
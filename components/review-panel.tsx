@@ -0,0 +1,466 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ReviewDecision, ReviewStatus, ReviewVerdict, UserRole } from '@/types';
+
+interface ReviewEntry {
+  id: string;
+  reviewerId?: string;
+  reviewerName?: string;
+  reviewerRole?: UserRole;
+  requestedBy: string;
+  requestedByName?: string;
+  requestedAt: string;
+  requestedVersion: number;
+  note?: string;
+  status: ReviewStatus;
+  latestVerdict: (ReviewVerdict & { reviewerName?: string }) | null;
+  stale: boolean;
+  canDecide: boolean;
+}
+
+interface ReviewSummary {
+  approvals: number;
+  changesRequested: number;
+  abstentions: number;
+  stale: number;
+  pending: number;
+}
+
+interface ReviewPanelProps {
+  specId: string;
+}
+
+const ROLES: UserRole[] = ['PM', 'TA', 'Dev', 'QA', 'Stakeholder'];
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  approve: 'Approved',
+  'request-changes': 'Changes requested',
+  abstain: 'Abstained',
+};
+
+const DECISION_COLORS: Record<ReviewDecision, string> = {
+  approve: 'bg-green-100 text-green-800',
+  'request-changes': 'bg-red-100 text-red-800',
+  abstain: 'bg-gray-100 text-gray-700',
+};
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export function ReviewPanel({ specId }: ReviewPanelProps) {
+  const [reviews, setReviews] = useState<ReviewEntry[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [canRequest, setCanRequest] = useState(false);
+  const [showRequestForm, setShowRequestForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/specs/${specId}/reviews`, {
+        headers: authHeaders(),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load reviews');
+      }
+
+      const data = await response.json();
+      setReviews(data.reviews || []);
+      setSummary(data.summary);
+      setCurrentVersion(data.currentVersion);
+      setCanRequest(data.permissions?.canRequest ?? false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reviews');
+    } finally {
+      setLoading(false);
+    }
+  }, [specId]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleCancel = async (reviewId: string) => {
+    if (!confirm('Cancel this review request?')) return;
+
+    const response = await fetch(`/api/specs/${specId}/reviews/${reviewId}`, {
+      method: 'DELETE',
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      alert(data?.error?.message || 'Failed to cancel review');
+      return;
+    }
+
+    loadReviews();
+  };
+
+  if (loading) {
+    return <div className="p-4 text-gray-500">Loading reviews...</div>;
+  }
+
+  if (error) {
+    return <div className="p-4 text-red-600">{error}</div>;
+  }
+
+  return (
+    <div className="flex flex-col h-full overflow-y-auto">
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Reviews</h3>
+          {canRequest && !showRequestForm && (
+            <button
+              onClick={() => setShowRequestForm(true)}
+              className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              Request review
+            </button>
+          )}
+        </div>
+        {summary && (
+          <div className="mt-2 flex flex-wrap gap-2 text-xs">
+            <span className="px-2 py-0.5 rounded bg-green-100 text-green-800">
+              {summary.approvals} approved
+            </span>
+            <span className="px-2 py-0.5 rounded bg-red-100 text-red-800">
+              {summary.changesRequested} changes requested
+            </span>
+            <span className="px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">
+              {summary.pending} pending
+            </span>
+            {summary.stale > 0 && (
+              <span className="px-2 py-0.5 rounded bg-orange-100 text-orange-800">
+                {summary.stale} stale
+              </span>
+            )}
+          </div>
+        )}
+        {currentVersion !== null && (
+          <p className="mt-1 text-xs text-gray-500">Current version: v{currentVersion}</p>
+        )}
+      </div>
+
+      {showRequestForm && (
+        <div className="p-4 border-b border-gray-200">
+          <RequestReviewForm
+            specId={specId}
+            onCancel={() => setShowRequestForm(false)}
+            onSuccess={() => {
+              setShowRequestForm(false);
+              loadReviews();
+            }}
+          />
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {reviews.length === 0 ? (
+          <div className="text-gray-500 text-center">No review requests yet</div>
+        ) : (
+          reviews.map((review) => (
+            <ReviewItem
+              key={review.id}
+              review={review}
+              specId={specId}
+              canCancel={canRequest && review.status === 'pending'}
+              onCancel={() => handleCancel(review.id)}
+              onDecided={loadReviews}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ReviewItemProps {
+  review: ReviewEntry;
+  specId: string;
+  canCancel: boolean;
+  onCancel: () => void;
+  onDecided: () => void;
+}
+
+function ReviewItem({ review, specId, canCancel, onCancel, onDecided }: ReviewItemProps) {
+  const [showDecisionForm, setShowDecisionForm] = useState(false);
+  const verdict = review.latestVerdict;
+  const reviewer = review.reviewerName || (review.reviewerRole ? `Any ${review.reviewerRole}` : 'Unknown');
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-start justify-between">
+        <div>
+          <span className="font-semibold text-sm">{reviewer}</span>
+          <div className="text-xs text-gray-500">
+            Requested by {review.requestedByName || 'Unknown'} on v{review.requestedVersion}
+          </div>
+        </div>
+        {verdict ? (
+          <div className="flex items-center gap-1">
+            <span className={`text-xs px-2 py-0.5 rounded ${DECISION_COLORS[verdict.decision]}`}>
+              {DECISION_LABELS[verdict.decision]}
+            </span>
+            {review.stale && (
+              <span
+                className="text-xs px-2 py-0.5 rounded bg-orange-100 text-orange-800"
+                title={`Decision was made on v${verdict.version}; the spec has changed since`}
+              >
+                Stale
+              </span>
+            )}
+          </div>
+        ) : (
+          <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">Pending</span>
+        )}
+      </div>
+
+      {review.note && <div className="text-sm text-gray-700 whitespace-pre-wrap">{review.note}</div>}
+
+      {verdict?.comment && (
+        <div className="text-sm text-gray-800 whitespace-pre-wrap border-l-2 border-gray-200 pl-2">
+          {verdict.comment}
+        </div>
+      )}
+
+      {showDecisionForm ? (
+        <DecisionForm
+          specId={specId}
+          reviewId={review.id}
+          onCancel={() => setShowDecisionForm(false)}
+          onSuccess={() => {
+            setShowDecisionForm(false);
+            onDecided();
+          }}
+        />
+      ) : (
+        <div className="flex gap-3">
+          {review.canDecide && (
+            <button
+              onClick={() => setShowDecisionForm(true)}
+              className="text-xs text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              {verdict ? 'Update decision' : 'Review'}
+            </button>
+          )}
+          {canCancel && (
+            <button
+              onClick={onCancel}
+              className="text-xs text-gray-500 hover:text-gray-700 hover:underline"
+            >
+              Cancel request
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DecisionFormProps {
+  specId: string;
+  reviewId: string;
+  onCancel: () => void;
+  onSuccess: () => void;
+}
+
+function DecisionForm({ specId, reviewId, onCancel, onSuccess }: DecisionFormProps) {
+  const [decision, setDecision] = useState<ReviewDecision>('approve');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const commentRequired = decision === 'request-changes';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const response = await fetch(`/api/specs/${specId}/reviews/${reviewId}/decision`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ decision, comment: comment.trim() || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message || 'Failed to submit decision');
+      }
+
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit decision');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-3 text-sm">
+        {(Object.keys(DECISION_LABELS) as ReviewDecision[]).map((option) => (
+          <label key={option} className="flex items-center gap-1">
+            <input
+              type="radio"
+              name={`decision-${reviewId}`}
+              checked={decision === option}
+              onChange={() => setDecision(option)}
+              disabled={submitting}
+            />
+            {option === 'approve' ? 'Approve' : option === 'abstain' ? 'Abstain' : 'Request changes'}
+          </label>
+        ))}
+      </div>
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder={commentRequired ? 'Describe the changes needed (required)' : 'Comment (optional)'}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        rows={3}
+        disabled={submitting}
+      />
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={submitting || (commentRequired && !comment.trim())}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Submitting...' : 'Submit'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={submitting}
+          className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface RequestReviewFormProps {
+  specId: string;
+  onCancel: () => void;
+  onSuccess: () => void;
+}
+
+function RequestReviewForm({ specId, onCancel, onSuccess }: RequestReviewFormProps) {
+  const [emails, setEmails] = useState('');
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reviewerEmails = emails
+    .split(/[,\s]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+
+  const toggleRole = (role: UserRole) => {
+    setRoles((prev) => (prev.includes(role) ? prev.filter((r) => r !== role) : [...prev, role]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const response = await fetch(`/api/specs/${specId}/reviews`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          reviewerEmails,
+          reviewerRoles: roles,
+          note: note.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message || 'Failed to request review');
+      }
+
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <input
+        type="text"
+        value={emails}
+        onChange={(e) => setEmails(e.target.value)}
+        placeholder="Reviewer emails, comma separated"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        disabled={submitting}
+      />
+      <div className="flex flex-wrap gap-3 text-sm">
+        {ROLES.map((role) => (
+          <label key={role} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={roles.includes(role)}
+              onChange={() => toggleRole(role)}
+              disabled={submitting}
+            />
+            {role}
+          </label>
+        ))}
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for reviewers (optional)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        rows={2}
+        disabled={submitting}
+      />
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={submitting || reviewerEmails.length + roles.length === 0}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Requesting...' : 'Request'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={submitting}
+          className="px-3 py-1 bg-gray-200 text-gray-700 text-sm rounded hover:bg-gray-300 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import type { SavedView, SavedViewVisibility, UserRole } from '@/types';
+
+const ROLES: UserRole[] = ['PM', 'TA', 'Dev', 'QA', 'Stakeholder'];
+
+// Fired after views change so the sidebar can reload its list
+export const SAVED_VIEWS_CHANGED_EVENT = 'saved-views-changed';
+
+interface SaveViewDialogProps {
+  query: string;
+  onSaved: (view: SavedView) => void;
+  onCancel: () => void;
+}
+
+export function SaveViewDialog({ query, onSaved, onCancel }: SaveViewDialogProps) {
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<SavedViewVisibility>('private');
+  const [sharedRoles, setSharedRoles] = useState<UserRole[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleRole = (role: UserRole) => {
+    setSharedRoles((prev) =>
+      prev.includes(role) ? prev.filter((r) => r !== role) : [...prev, role]
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/views', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          name,
+          query,
+          visibility,
+          sharedRoles: visibility === 'roles' ? sharedRoles : [],
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to save view');
+      }
+
+      window.dispatchEvent(new CustomEvent(SAVED_VIEWS_CHANGED_EVENT));
+      onSaved(data.view);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="w-full max-w-md rounded-lg bg-white p-6 shadow-xl">
+        <h2 className="mb-4 text-xl font-semibold text-gray-900">Save View</h2>
+
+        <div className="space-y-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Stale drafts"
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Filter</label>
+            <code className="block rounded bg-gray-100 px-3 py-2 text-xs text-gray-700">
+              {query || '(all specs)'}
+            </code>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Share with</label>
+            <select
+              value={visibility}
+              onChange={(e) => setVisibility(e.target.value as SavedViewVisibility)}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="private">Only me</option>
+              <option value="roles">Selected roles</option>
+              <option value="everyone">Everyone</option>
+            </select>
+            {visibility === 'roles' && (
+              <div className="mt-2 flex flex-wrap gap-3">
+                {ROLES.map((role) => (
+                  <label key={role} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={sharedRoles.includes(role)}
+                      onChange={() => toggleRole(role)}
+                    />
+                    {role}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            disabled={saving}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || saving}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { Fragment } from 'react';
+import { WorkflowStatusBadge } from '@/components/workflow-status-badge';
+import type {
+  SearchFacetBucket,
+  SearchFacets,
+  SearchFilterField,
+  SearchHighlight,
+  SearchMatchSource,
+  SearchResult,
+} from '@/types';
+
+const SNIPPET_LABELS: Record<SearchMatchSource, string> = {
+  title: 'Title',
+  tag: 'Tag',
+  content: 'Content',
+  comment: 'Comment',
+  attachment: 'Attachment',
+};
+
+const FACET_LABELS: Record<keyof SearchFacets, string> = {
+  status: 'Status',
+  type: 'Type',
+  assignee: 'Assignee',
+  tag: 'Tag',
+};
+
+export function HighlightedText({
+  text,
+  highlights,
+}: {
+  text: string;
+  highlights: SearchHighlight[];
+}) {
+  if (highlights.length === 0) return <>{text}</>;
+
+  const parts = [];
+  let cursor = 0;
+  for (const { start, end } of highlights) {
+    parts.push(
+      <Fragment key={start}>
+        {text.slice(cursor, start)}
+        <mark className="rounded bg-yellow-200 px-0.5">{text.slice(start, end)}</mark>
+      </Fragment>
+    );
+    cursor = end;
+  }
+  parts.push(<Fragment key="rest">{text.slice(cursor)}</Fragment>);
+
+  return <>{parts}</>;
+}
+
+interface SearchFacetListProps {
+  facets: SearchFacets;
+  onSelect: (field: SearchFilterField, value: string) => void;
+}
+
+export function SearchFacetList({ facets, onSelect }: SearchFacetListProps) {
+  const groups = (Object.keys(FACET_LABELS) as (keyof SearchFacets)[]).filter(
+    (field) => facets[field].length > 0
+  );
+
+  return (
+    <div className="space-y-4">
+      {groups.map((field) => (
+        <div key={field}>
+          <div className="mb-1 text-xs font-semibold uppercase text-gray-500">
+            {FACET_LABELS[field]}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {facets[field].map((bucket: SearchFacetBucket) => (
+              <button
+                key={bucket.value}
+                onClick={() => onSelect(field, bucket.value)}
+                className="rounded-full border border-gray-200 bg-white px-2 py-0.5 text-xs text-gray-700 hover:border-blue-400 hover:text-blue-700"
+              >
+                {bucket.value} <span className="text-gray-400">{bucket.count}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface SearchResultListProps {
+  results: SearchResult[];
+  onOpen: (id: string) => void;
+}
+
+export function SearchResultList({ results, onOpen }: SearchResultListProps) {
+  return (
+    <div className="space-y-3">
+      {results.map((result) => (
+        <div
+          key={result.id}
+          onClick={() => onOpen(result.id)}
+          className="cursor-pointer rounded-lg bg-white p-4 shadow transition-shadow hover:shadow-md"
+        >
+          <div className="flex items-center gap-3">
+            <h3 className="text-lg font-semibold text-gray-900">
+              <HighlightedText text={result.title} highlights={result.titleHighlights} />
+            </h3>
+            <WorkflowStatusBadge status={result.metadata.status} />
+            <span className="rounded bg-gray-100 px-2 py-1 text-xs font-medium text-gray-600">
+              {result.metadata.type}
+            </span>
+          </div>
+
+          {result.snippets.map((snippet, index) => (
+            <p key={index} className="mt-2 text-sm text-gray-600">
+              <span className="mr-2 text-xs font-medium uppercase text-gray-400">
+                {SNIPPET_LABELS[snippet.source]}
+              </span>
+              <HighlightedText text={snippet.text} highlights={snippet.highlights} />
+            </p>
+          ))}
+
+          {result.metadata.tags && result.metadata.tags.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {result.metadata.tags.map((tag) => (
+                <span key={tag} className="rounded-full bg-blue-50 px-2 py-1 text-xs text-blue-700">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
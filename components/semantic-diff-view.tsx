@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import type { MetadataChange, SemanticDiff, SemanticLine, SemanticSection } from '@/lib/semantic-diff';
+
+interface SemanticDiffViewProps {
+  diff: SemanticDiff;
+}
+
+const FIELD_LABELS: Record<MetadataChange['field'], string> = {
+  title: 'Title',
+  status: 'Status',
+  type: 'Type',
+  assignee: 'Assignee',
+  tags: 'Tags',
+  parentId: 'Parent',
+};
+
+const SECTION_BADGES: Record<SemanticSection['status'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+function formatValue(value: MetadataChange['oldValue']): string {
+  if (value === undefined) return '(none)';
+  return Array.isArray(value) ? value.join(', ') || '(none)' : value;
+}
+
+function MetadataChanges({ changes }: { changes: MetadataChange[] }) {
+  return (
+    <div className="p-4 border-b border-gray-200">
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">Metadata</h3>
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500">No metadata changes</p>
+      ) : (
+        <table className="text-sm">
+          <tbody>
+            {changes.map((change) => (
+              <tr key={change.field}>
+                <td className="pr-4 py-1 font-medium text-gray-700 align-top">{FIELD_LABELS[change.field]}</td>
+                <td className="py-1">
+                  {change.added || change.removed ? (
+                    <div className="flex flex-wrap gap-1">
+                      {change.removed?.map((item) => (
+                        <span key={`-${item}`} className="px-2 py-0.5 rounded bg-red-100 text-red-800 line-through">
+                          {item}
+                        </span>
+                      ))}
+                      {change.added?.map((item) => (
+                        <span key={`+${item}`} className="px-2 py-0.5 rounded bg-green-100 text-green-800">
+                          {item}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <>
+                      <span className="text-red-800 line-through">{formatValue(change.oldValue)}</span>
+                      {' → '}
+                      <span className="text-green-800">{formatValue(change.newValue)}</span>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function LineRow({ line }: { line: SemanticLine }) {
+  const background =
+    line.type === 'added'
+      ? 'bg-green-50'
+      : line.type === 'removed'
+      ? 'bg-red-50'
+      : line.type === 'modified'
+      ? 'bg-yellow-50'
+      : 'bg-white';
+
+  return (
+    <div className={`flex ${background}`}>
+      <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-gray-500 bg-gray-50 select-none">
+        {line.oldLineNumber}
+      </div>
+      <div className="w-12 flex-shrink-0 text-right pr-2 py-1 text-gray-500 bg-gray-50 select-none">
+        {line.newLineNumber}
+      </div>
+      <div
+        className={`flex-1 px-4 py-1 whitespace-pre-wrap break-all ${
+          line.type === 'added' ? 'text-green-900' : line.type === 'removed' ? 'text-red-900' : 'text-gray-900'
+        }`}
+      >
+        {line.words
+          ? line.words.map((word, index) =>
+              word.type === 'unchanged' ? (
+                <span key={index}>{word.text}</span>
+              ) : (
+                <span
+                  key={index}
+                  className={word.type === 'added' ? 'bg-green-200 text-green-900' : 'bg-red-200 text-red-900 line-through'}
+                >
+                  {word.text}
+                </span>
+              )
+            )
+          : line.content || ' '}
+      </div>
+    </div>
+  );
+}
+
+function SectionDiff({ section }: { section: SemanticSection }) {
+  // Unchanged sections start collapsed
+  const [expanded, setExpanded] = useState(section.status !== 'unchanged');
+
+  return (
+    <div className="border-b border-gray-200">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-3 px-4 py-2 bg-gray-50 hover:bg-gray-100 text-left"
+      >
+        <span className="text-gray-400 text-xs">{expanded ? '▼' : '▶'}</span>
+        <span className="font-semibold text-gray-900">
+          {section.heading === null ? '(Introduction)' : `${'#'.repeat(section.level)} ${section.heading}`}
+        </span>
+        <span className={`px-2 py-0.5 text-xs font-medium rounded capitalize ${SECTION_BADGES[section.status]}`}>
+          {section.status}
+        </span>
+        {section.moved && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded bg-purple-100 text-purple-800">Moved</span>
+        )}
+      </button>
+      {expanded && (
+        <div className="font-mono text-sm">
+          {section.lines.map((line, index) => (
+            <LineRow key={index} line={line} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Diff of metadata fields and markdown sections, with word-level changes
+ */
+export function SemanticDiffView({ diff }: SemanticDiffViewProps) {
+  return (
+    <div>
+      <MetadataChanges changes={diff.metadata} />
+      {diff.sections.map((section, index) => (
+        <SectionDiff key={`${index}:${section.heading}`} section={section} />
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 'use client';
 
-import { useEffect } from 'react';
-import { usePathname, useRouter } from 'next/navigation';
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
+import { NotificationBell } from './notification-bell';
+import { SAVED_VIEWS_CHANGED_EVENT } from './save-view-dialog';
+import type { SavedView } from '@/types';
 
 interface NavItem {
   name: string;
@@ -13,14 +16,75 @@ interface NavItem {
 
 const navItems: NavItem[] = [
   { name: 'Dashboard', href: '/dashboard', icon: '📊', shortcut: 'd' },
-  { name: 'My Specs', href: '/dashboard?filter=mine', icon: '📝', shortcut: 'm' },
-  { name: 'Recent', href: '/dashboard?filter=recent', icon: '🕐', shortcut: 'r' },
+  { name: 'My Specs', href: `/dashboard?filter=${encodeURIComponent('author:me')}`, icon: '📝', shortcut: 'm' },
+  { name: 'Recent', href: `/dashboard?filter=${encodeURIComponent('updated:>7d')}`, icon: '🕐', shortcut: 'r' },
 ];
 
+const VIEW_ICONS: Record<SavedView['visibility'], string> = {
+  private: '🔖',
+  roles: '👥',
+  everyone: '🌐',
+};
+
+// Separate component so useSearchParams gets its own Suspense boundary
+function SavedViewList({ views }: { views: SavedView[] }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  
+  return (
+    <div className="pt-4">
+      <div className="px-3 pb-1 text-xs font-semibold uppercase text-gray-500">Views</div>
+      {views.map((view) => {
+        const isActive = searchParams?.get('view') === view._id;
+        return (
+          <button
+            key={view._id}
+            onClick={() => router.push(`/dashboard?view=${view._id}`)}
+            title={view.query}
+            className={`flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+              isActive
+                ? 'bg-gray-800 text-white'
+                : 'text-gray-300 hover:bg-gray-800 hover:text-white'
+            }`}
+          >
+            <span>{VIEW_ICONS[view.visibility]}</span>
+            <span className="truncate">{view.name}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 export function SidebarNavigation() {
   const pathname = usePathname();
   const router = useRouter();
   const { user, logout } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  
+  const loadViews = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch('/api/views', {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) return;
+      
+      const data = await response.json();
+      setViews(data.views || []);
+    } catch (error) {
+      console.error('Failed to load saved views:', error);
+    }
+  }, []);
+  
+  // Reload saved views when one is created or deleted
+  useEffect(() => {
+    if (!user) return;
+    
+    loadViews();
+    window.addEventListener(SAVED_VIEWS_CHANGED_EVENT, loadViews);
+    return () => window.removeEventListener(SAVED_VIEWS_CHANGED_EVENT, loadViews);
+  }, [user, loadViews]);
   
   // Keyboard shortcuts
   useEffect(() => {
@@ -60,8 +124,9 @@ export function SidebarNavigation() {
   return (
     <div className="flex h-screen w-64 flex-col bg-gray-900 text-white">
       {/* Logo */}
-      <div className="flex h-16 items-center px-6">
+      <div className="flex h-16 items-center justify-between px-6">
         <h1 className="text-xl font-bold">SpecCraft</h1>
+        {user && <NotificationBell />}
       </div>
       
       {/* Navigation */}
@@ -90,6 +155,13 @@ export function SidebarNavigation() {
             </button>
           );
         })}
+        
+        {/* Saved Views */}
+        {views.length > 0 && (
+          <Suspense fallback={null}>
+            <SavedViewList views={views} />
+          </Suspense>
+        )}
       </nav>
       
       {/* User Info */}
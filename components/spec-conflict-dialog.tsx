@@ -0,0 +1,135 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { DiffView, DiffFormatToggle } from './diff-viewer';
+import { generateDiff, DiffFormat } from '@/lib/text-diff';
+import { stripFrontmatter } from '@/lib/yaml-parser';
+import { SpecConflict } from '@/types/spec';
+
+interface SpecConflictDialogProps {
+  conflict: SpecConflict;
+  // Editor content that failed to save
+  content: string;
+  // Continue editing the merge proposal on top of the current version
+  onUseMerge: () => void;
+  // Save the editor content over the current version
+  onOverwrite: () => void;
+  // Drop the editor changes and load the current version
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+type ConflictTab = 'merge' | 'mine';
+
+/**
+ * Resolution of a save that lost to a newer version of the spec
+ */
+export function SpecConflictDialog({
+  conflict,
+  content,
+  onUseMerge,
+  onOverwrite,
+  onDiscard,
+  onCancel,
+}: SpecConflictDialogProps) {
+  const [tab, setTab] = useState<ConflictTab>('merge');
+  const [format, setFormat] = useState<DiffFormat>('side-by-side');
+
+  // Both tabs compare against the version on the server
+  const diff = useMemo(() => {
+    const proposed = tab === 'merge' ? conflict.merge.content : stripFrontmatter(content);
+    return generateDiff(conflict.content, proposed, format);
+  }, [tab, format, conflict, content]);
+
+  const updatedAt = new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(conflict.updatedAt));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-7xl h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              This spec was changed while you were editing
+            </h2>
+            <div className="text-sm text-gray-600 mt-1">
+              Your changes are based on version {conflict.expectedVersion}. Version{' '}
+              {conflict.currentVersion} was saved on {updatedAt}.{' '}
+              {conflict.merge.conflicts === 0
+                ? 'The changes do not overlap and were merged automatically.'
+                : `${conflict.merge.conflicts} ${
+                    conflict.merge.conflicts === 1 ? 'section was' : 'sections were'
+                  } changed on both sides and ${
+                    conflict.merge.conflicts === 1 ? 'is' : 'are'
+                  } marked with <<<<<<< and >>>>>>> in the merge.`}
+            </div>
+          </div>
+          <DiffFormatToggle format={format} formats={['inline', 'side-by-side']} onChange={setFormat} />
+        </div>
+
+        {/* Tabs */}
+        <div className="flex border-b border-gray-200 bg-gray-50">
+          {([
+            ['merge', 'Merge proposal'],
+            ['mine', 'Your version'],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 text-sm font-medium transition-colors ${
+                tab === value
+                  ? 'text-blue-600 border-b-2 border-blue-600 bg-white'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto">
+          <DiffView
+            diff={diff}
+            format={format}
+            oldLabel={`Version ${conflict.currentVersion} (Current)`}
+            newLabel={tab === 'merge' ? 'Merge proposal' : 'Your version'}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 text-sm text-red-700 border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+          >
+            Discard my changes
+          </button>
+          <button
+            onClick={onOverwrite}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Overwrite with mine
+          </button>
+          <button
+            onClick={onUseMerge}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Edit merge proposal
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,30 @@
 'use client';
 
 import { useState, useCallback, useEffect, useRef } from 'react';
-import Editor from '@monaco-editor/react';
+import Editor, { Monaco } from '@monaco-editor/react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
-import { SpecMetadata, LineRange } from '@/types/spec';
+import { SpecMetadata, LineRange, SpecConflict } from '@/types/spec';
 import { MarkdownPreview } from './markdown-preview';
 import { MetadataEditor } from './metadata-editor';
 import { AIAssistantPanel } from './ai-assistant-panel';
 import { CommentsPanel } from './comments-panel';
+import { ReviewPanel } from './review-panel';
 import { CommentForm } from './comment-form';
+import { CollabPresence } from './collab-presence';
+import { SpecConflictDialog } from './spec-conflict-dialog';
+import { useCollaboration } from '@/lib/hooks/use-collaboration';
+import { useSpecLint } from '@/lib/hooks/use-spec-lint';
+import type { MonacoEditor } from '@/lib/collab/monaco-binding';
+import { SpecConflictError } from '@/lib/errors';
 
 interface SpecEditorProps {
   specId: string;
   initialContent: string;
   initialMetadata: SpecMetadata;
-  onSave: (content: string, metadata: SpecMetadata) => Promise<void>;
+  // Version the initial content belongs to; saves based on an older version are rejected
+  currentVersion?: number;
+  // Rejects with SpecConflictError when the spec moved past expectedVersion
+  onSave: (content: string, metadata: SpecMetadata, expectedVersion?: number) => Promise<void>;
   readOnly?: boolean;
 }
 
@@ -22,6 +32,7 @@ export function SpecEditor({
   specId,
   initialContent,
   initialMetadata,
+  currentVersion,
   onSave,
   readOnly = false,
 }: SpecEditorProps) {
@@ -36,34 +47,134 @@ export function SpecEditor({
   const [commentLineRange, setCommentLineRange] = useState<LineRange | null>(null);
   const [commentFormPosition, setCommentFormPosition] = useState({ top: 0, left: 0 });
   const [commentsKey, setCommentsKey] = useState(0);
+  const [sidePanel, setSidePanel] = useState<'comments' | 'reviews'>('comments');
   const editorRef = useRef<any>(null);
+  const [mountedEditor, setMountedEditor] = useState<{ editor: MonacoEditor; monaco: Monaco } | null>(null);
+  const savedMetadataRef = useRef(JSON.stringify(initialMetadata));
+  const [baseVersion, setBaseVersion] = useState(currentVersion);
+  const [conflict, setConflict] = useState<SpecConflict | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBaseVersion(currentVersion);
+  }, [currentVersion]);
+
+  // Stages change through transitions outside the editor; saves must carry the current one
+  useEffect(() => {
+    setMetadata((current) =>
+      current.status === initialMetadata.status ? current : { ...current, status: initialMetadata.status }
+    );
+    savedMetadataRef.current = JSON.stringify({
+      ...JSON.parse(savedMetadataRef.current),
+      status: initialMetadata.status,
+    });
+  }, [initialMetadata.status]);
+
+  // Real-time co-editing; without a collaboration server the editor saves through onSave
+  const collab = useCollaboration(specId, mountedEditor?.editor ?? null, mountedEditor?.monaco ?? null);
+  const isLive = collab.status === 'connected' || collab.status === 'reconnecting';
+
+  // Spec quality diagnostics as editor markers
+  const lint = useSpecLint(
+    specId,
+    content,
+    metadata.type,
+    mountedEditor?.editor ?? null,
+    mountedEditor?.monaco ?? null
+  );
+
+  const handleNextIssue = useCallback(() => {
+    const editor = mountedEditor?.editor;
+    if (!editor) return;
+    editor.focus();
+    editor.trigger('spec-lint', 'editor.action.marker.next', null);
+  }, [mountedEditor]);
 
   // Auto-save every 30 seconds
   useEffect(() => {
-    if (readOnly) return;
+    // Saving again would only repeat the conflict
+    if (readOnly || collab.status === 'connecting' || conflict) return;
 
     const autoSaveInterval = setInterval(async () => {
-      if (content !== initialContent || JSON.stringify(metadata) !== JSON.stringify(initialMetadata)) {
+      if (isLive) {
+        // The collaboration server saves the text; only metadata changes are sent
+        if (JSON.stringify(metadata) !== savedMetadataRef.current) {
+          await handleSave();
+        }
+      } else if (content !== initialContent || JSON.stringify(metadata) !== JSON.stringify(initialMetadata)) {
         await handleSave();
       }
     }, 30000);
 
     return () => clearInterval(autoSaveInterval);
-  }, [content, metadata, initialContent, initialMetadata, readOnly]);
+  }, [content, metadata, initialContent, initialMetadata, readOnly, collab.status, isLive, conflict]);
 
   const handleSave = useCallback(async () => {
     if (readOnly) return;
+
+    if (isLive) {
+      if (collab.status !== 'connected') return;
+      // Cleared when the server confirms the save
+      setIsSaving(true);
+      savedMetadataRef.current = JSON.stringify(metadata);
+      collab.save(metadata);
+      return;
+    }
     
+    await saveAs(baseVersion);
+  }, [content, metadata, readOnly, isLive, collab.status, collab.save, baseVersion]);
+
+  const saveAs = async (expectedVersion: number | undefined) => {
     setIsSaving(true);
     try {
-      await onSave(content, metadata);
+      await onSave(content, metadata, expectedVersion);
       setLastSaved(new Date());
+      setSaveError(null);
     } catch (error) {
-      console.error('Failed to save spec:', error);
+      if (error instanceof SpecConflictError) {
+        setConflict(error.conflict);
+      } else {
+        console.error('Failed to save spec:', error);
+        setSaveError(error instanceof Error ? error.message : 'Failed to save spec');
+      }
     } finally {
       setIsSaving(false);
     }
-  }, [content, metadata, onSave, readOnly]);
+  };
+
+  const handleUseMerge = useCallback(() => {
+    if (!conflict) return;
+    setContent(conflict.merge.content);
+    setBaseVersion(conflict.currentVersion);
+    setConflict(null);
+  }, [conflict]);
+
+  const handleOverwrite = useCallback(async () => {
+    if (!conflict) return;
+    setConflict(null);
+    await saveAs(conflict.currentVersion);
+  }, [conflict, content, metadata, onSave]);
+
+  const handleDiscard = useCallback(() => {
+    if (!conflict) return;
+    setContent(conflict.content);
+    setMetadata(conflict.metadata);
+    setBaseVersion(conflict.currentVersion);
+    setConflict(null);
+  }, [conflict]);
+
+  // Saves by anyone in the session, including scheduled snapshots
+  useEffect(() => {
+    if (collab.lastSaved) {
+      setLastSaved(collab.lastSaved.at);
+      setBaseVersion(collab.lastSaved.version);
+      setIsSaving(false);
+    }
+  }, [collab.lastSaved]);
+
+  useEffect(() => {
+    if (collab.error) setIsSaving(false);
+  }, [collab.error]);
 
   const handleEditorChange = useCallback((value: string | undefined) => {
     if (value !== undefined) {
@@ -75,8 +186,9 @@ export function SpecEditor({
     setMetadata(newMetadata);
   }, []);
 
-  const handleEditorMount = useCallback((editor: any) => {
+  const handleEditorMount = useCallback((editor: any, monaco: Monaco) => {
     editorRef.current = editor;
+    setMountedEditor({ editor, monaco });
 
     // Add context menu action for AI assistant
     editor.addAction({
@@ -216,6 +328,26 @@ export function SpecEditor({
           </span>
         </div>
         <div className="flex items-center gap-4">
+          <CollabPresence status={collab.status} participants={collab.participants} />
+          {collab.error && <span className="text-sm text-red-600">{collab.error}</span>}
+          {saveError && <span className="text-sm text-red-600">{saveError}</span>}
+          {lint.error && <span className="text-sm text-red-600">{lint.error}</span>}
+          <button
+            onClick={handleNextIssue}
+            title="Go to the next issue"
+            className={`px-2 py-1 text-xs rounded ${
+              lint.issueCount > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+            }`}
+          >
+            {lint.issueCount} issue{lint.issueCount === 1 ? '' : 's'}
+          </button>
+          <button
+            onClick={lint.reviewWithAI}
+            disabled={lint.reviewing || !mountedEditor}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {lint.reviewing ? 'Reviewing...' : 'Review with AI'}
+          </button>
           {lastSaved && (
             <span className="text-sm text-gray-500">
               Last saved: {lastSaved.toLocaleTimeString()}
@@ -223,7 +355,7 @@ export function SpecEditor({
           )}
           <button
             onClick={handleSave}
-            disabled={isSaving || readOnly}
+            disabled={isSaving || readOnly || collab.status === 'reconnecting' || (isLive && !collab.canEdit)}
             className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isSaving ? 'Saving...' : 'Save'}
@@ -255,7 +387,8 @@ export function SpecEditor({
                   onMount={handleEditorMount}
                   theme="vs-light"
                   options={{
-                    readOnly,
+                    // Read-only until it is known whether the document is shared
+                    readOnly: readOnly || collab.status === 'connecting' || (isLive && !collab.canEdit),
                     minimap: { enabled: true },
                     lineNumbers: 'on',
                     wordWrap: 'on',
@@ -284,11 +417,35 @@ export function SpecEditor({
           <PanelResizeHandle className="w-2 bg-gray-200 hover:bg-blue-400 transition-colors cursor-col-resize" />
 
           <Panel defaultSize={25} minSize={20}>
-            <CommentsPanel
-              key={commentsKey}
-              specId={specId}
-              onLineClick={handleLineClick}
-            />
+            <div className="h-full flex flex-col">
+              <div className="flex border-b bg-gray-50">
+                {(['comments', 'reviews'] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => setSidePanel(tab)}
+                    className={`px-4 py-2 text-sm font-medium capitalize ${
+                      sidePanel === tab
+                        ? 'text-blue-600 border-b-2 border-blue-600'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 overflow-hidden">
+                {sidePanel === 'comments' ? (
+                  <CommentsPanel
+                    key={commentsKey}
+                    specId={specId}
+                    onLineClick={handleLineClick}
+                  />
+                ) : (
+                  // Reload after each save so stale decisions are flagged against the new version
+                  <ReviewPanel key={lastSaved?.getTime() ?? 0} specId={specId} />
+                )}
+              </div>
+            </div>
           </Panel>
         </PanelGroup>
       </div>
@@ -306,6 +463,18 @@ export function SpecEditor({
         />
       )}
 
+      {/* Conflict with a newer version */}
+      {conflict && (
+        <SpecConflictDialog
+          conflict={conflict}
+          content={content}
+          onUseMerge={handleUseMerge}
+          onOverwrite={handleOverwrite}
+          onDiscard={handleDiscard}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {/* Comment Form */}
       {showCommentForm && commentLineRange && (
         <CommentForm
@@ -16,10 +16,17 @@ interface RevisionItem {
   timestamp: Date;
   content: string;
   metadata: any;
+  restoredFrom?: number;
+}
+
+interface CurrentVersion {
+  version: number;
+  restoredFrom?: number;
 }
 
 export function VersionHistory({ specId, onCompare, onRestore }: VersionHistoryProps) {
   const [revisions, setRevisions] = useState<RevisionItem[]>([]);
+  const [current, setCurrent] = useState<CurrentVersion | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedRevisions, setSelectedRevisions] = useState<number[]>([]);
@@ -51,6 +58,7 @@ export function VersionHistory({ specId, onCompare, onRestore }: VersionHistoryP
         ...rev,
         timestamp: new Date(rev.timestamp),
       })));
+      setCurrent(data.current ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load revisions');
     } finally {
@@ -78,7 +86,7 @@ export function VersionHistory({ specId, onCompare, onRestore }: VersionHistoryP
   };
 
   const handleRestore = (version: number) => {
-    if (confirm(`Are you sure you want to restore version ${version}? This will create a new revision with the content from version ${version}.`)) {
+    if (confirm(`Are you sure you want to restore version ${version}? This will create a new version with the content and metadata from version ${version}.`)) {
       onRestore(version);
     }
   };
@@ -134,6 +142,11 @@ export function VersionHistory({ specId, onCompare, onRestore }: VersionHistoryP
         <p className="text-sm text-gray-600 mt-1">
           Select two versions to compare or restore a previous version
         </p>
+        {current?.restoredFrom !== undefined && (
+          <p className="text-sm text-purple-700 mt-1">
+            Current version {current.version} was restored from version {current.restoredFrom}
+          </p>
+        )}
         {selectedRevisions.length === 2 && (
           <button
             onClick={handleCompare}
@@ -183,6 +196,11 @@ export function VersionHistory({ specId, onCompare, onRestore }: VersionHistoryP
                             Current
                           </span>
                         )}
+                        {revision.restoredFrom !== undefined && (
+                          <span className="px-2 py-0.5 text-xs font-medium bg-purple-100 text-purple-800 rounded">
+                            Restored from v{revision.restoredFrom}
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm text-gray-600 mt-1">
                         {formatDate(revision.timestamp)} by {revision.author}
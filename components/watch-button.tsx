@@ -0,0 +1,98 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SubscriptionScope } from '@/types';
+
+interface WatchButtonProps {
+  specId: string;
+}
+
+function authHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+export function WatchButton({ specId }: WatchButtonProps) {
+  const [scope, setScope] = useState<SubscriptionScope | null>(null);
+  const [showMenu, setShowMenu] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const response = await fetch(`/api/specs/${specId}/watch`, { headers: authHeaders() });
+        if (!response.ok) return;
+        const data = await response.json();
+        setScope(data.scope);
+      } catch (error) {
+        console.error('Failed to load watch status:', error);
+      }
+    };
+    loadStatus();
+  }, [specId]);
+
+  const updateWatch = async (nextScope: SubscriptionScope | null) => {
+    setShowMenu(false);
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/specs/${specId}/watch`, {
+        method: nextScope ? 'POST' : 'DELETE',
+        headers: authHeaders(),
+        ...(nextScope ? { body: JSON.stringify({ scope: nextScope }) } : {}),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update watch status');
+      }
+      const data = await response.json();
+      setScope(data.scope);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update watch status');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const label = scope === 'subtree' ? 'Watching subtree' : scope === 'spec' ? 'Watching' : 'Watch';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        disabled={updating}
+        className={`px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 ${
+          scope ? 'bg-blue-50 text-blue-700 hover:bg-blue-100' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        }`}
+      >
+        👁 {label}
+      </button>
+
+      {showMenu && (
+        <div className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-200 z-10">
+          <button
+            onClick={() => updateWatch('spec')}
+            className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+          >
+            {scope === 'spec' ? '✓ ' : ''}This spec
+          </button>
+          <button
+            onClick={() => updateWatch('subtree')}
+            className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+          >
+            {scope === 'subtree' ? '✓ ' : ''}This spec and linked children
+          </button>
+          {scope && (
+            <button
+              onClick={() => updateWatch(null)}
+              className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100 border-t border-gray-100"
+            >
+              Stop watching
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,10 +3,12 @@
 import { WorkflowStage } from '@/types/spec';
 import { WorkflowStatusBadge } from './workflow-status-badge';
 
-interface WorkflowHistoryEntry {
+export interface WorkflowHistoryEntry {
   stage: WorkflowStage;
+  fromStage?: WorkflowStage;
   timestamp: Date;
   author: string;
+  comment?: string;
 }
 
 interface WorkflowHistoryProps {
@@ -59,6 +61,12 @@ export function WorkflowHistory({
                 {/* Entry content */}
                 <div className="flex-1 pt-0.5">
                   <div className="flex items-center gap-2 mb-1">
+                    {entry.fromStage && (
+                      <>
+                        <WorkflowStatusBadge status={entry.fromStage} />
+                        <span className="text-gray-400">→</span>
+                      </>
+                    )}
                     <WorkflowStatusBadge status={entry.stage} />
                     {isCurrentStage && (
                       <span className="text-xs text-blue-600 font-medium">
@@ -79,6 +87,11 @@ export function WorkflowHistory({
                       })}
                     </time>
                   </div>
+                  {entry.comment && (
+                    <p className="mt-1 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1 whitespace-pre-wrap">
+                      {entry.comment}
+                    </p>
+                  )}
                 </div>
               </div>
             );
@@ -7,7 +7,7 @@ interface WorkflowStatusBadgeProps {
   className?: string;
 }
 
-const statusColors: Record<WorkflowStage, string> = {
+const statusColors: Record<string, string> = {
   Idea: 'bg-gray-100 text-gray-800 border-gray-300',
   Draft: 'bg-blue-100 text-blue-800 border-blue-300',
   Review: 'bg-yellow-100 text-yellow-800 border-yellow-300',
@@ -17,7 +17,8 @@ const statusColors: Record<WorkflowStage, string> = {
 };
 
 export function WorkflowStatusBadge({ status, className = '' }: WorkflowStatusBadgeProps) {
-  const colorClass = statusColors[status];
+  // Stages from custom workflows fall back to a neutral color
+  const colorClass = statusColors[status] || 'bg-slate-100 text-slate-800 border-slate-300';
 
   return (
     <span
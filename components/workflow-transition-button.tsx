@@ -1,15 +1,21 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { WorkflowStage } from '@/types/spec';
 import { UserRole } from '@/types/auth';
+import {
+  WorkflowDefinition,
+  DEFAULT_WORKFLOW,
+  TransitionGuardResult,
+} from '@/types/workflow';
 import { getValidTransitions } from '@/lib/permissions';
 
 interface WorkflowTransitionButtonProps {
   specId: string;
   currentStage: WorkflowStage;
   userRole: UserRole;
-  onTransition: (newStage: WorkflowStage) => Promise<void>;
+  workflow?: Pick<WorkflowDefinition, 'transitions'>;
+  onTransition: (newStage: WorkflowStage, comment?: string) => Promise<void>;
   className?: string;
 }
 
@@ -17,6 +23,7 @@ export function WorkflowTransitionButton({
   specId,
   currentStage,
   userRole,
+  workflow = DEFAULT_WORKFLOW,
   onTransition,
   className = '',
 }: WorkflowTransitionButtonProps) {
@@ -24,13 +31,50 @@ export function WorkflowTransitionButton({
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [selectedStage, setSelectedStage] = useState<WorkflowStage | null>(null);
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const [comment, setComment] = useState('');
+  const [failedGuards, setFailedGuards] = useState<Record<string, TransitionGuardResult[]>>({});
 
-  const validTransitions = getValidTransitions(userRole, currentStage);
+  // Ask the server which transitions are currently blocked by guards
+  const fetchGuardStatus = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/specs/${specId}/transition`, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const status: Record<string, TransitionGuardResult[]> = {};
+      for (const transition of data.transitions) {
+        status[transition.toStage] = transition.guards.filter(
+          (guard: TransitionGuardResult) => !guard.passed
+        );
+      }
+      setFailedGuards(status);
+    } catch (error) {
+      console.error('Failed to fetch transition guards:', error);
+    }
+  }, [specId]);
+
+  useEffect(() => {
+    fetchGuardStatus();
+  }, [fetchGuardStatus, currentStage]);
+
+  const validTransitions = getValidTransitions(userRole, currentStage, workflow);
+  const commentRequired = workflow.transitions.some(
+    (t) => t.from === currentStage && t.to === selectedStage && t.requiresComment
+  );
 
   if (validTransitions.length === 0) {
     return null;
   }
 
+  const isBlocked = (stage: WorkflowStage) => (failedGuards[stage]?.length ?? 0) > 0;
+  const allBlocked = validTransitions.every(isBlocked);
+
   const handleTransitionClick = (stage: WorkflowStage) => {
     setSelectedStage(stage);
     setShowConfirmation(true);
@@ -39,15 +83,22 @@ export function WorkflowTransitionButton({
 
   const handleConfirm = async () => {
     if (!selectedStage) return;
+    if (commentRequired && !comment.trim()) return;
 
     setIsTransitioning(true);
     try {
-      await onTransition(selectedStage);
+      await onTransition(selectedStage, comment.trim() || undefined);
       setShowConfirmation(false);
       setSelectedStage(null);
+      setComment('');
     } catch (error) {
       console.error('Transition failed:', error);
-      alert('Failed to transition workflow stage. Please try again.');
+      alert(
+        error instanceof Error
+          ? error.message
+          : 'Failed to transition workflow stage. Please try again.'
+      );
+      fetchGuardStatus();
     } finally {
       setIsTransitioning(false);
     }
@@ -56,13 +107,18 @@ export function WorkflowTransitionButton({
   const handleCancel = () => {
     setShowConfirmation(false);
     setSelectedStage(null);
+    setComment('');
   };
 
   return (
     <>
       <div className={`relative ${className}`}>
         <button
-          onClick={() => setIsOpen(!isOpen)}
+          onClick={() => {
+            if (!isOpen) fetchGuardStatus();
+            setIsOpen(!isOpen);
+          }}
+          title={allBlocked ? 'All transitions are blocked. Open to see why.' : undefined}
           className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
         >
           Transition Stage
@@ -74,16 +130,27 @@ export function WorkflowTransitionButton({
               className="fixed inset-0 z-10"
               onClick={() => setIsOpen(false)}
             />
-            <div className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg z-20 border border-gray-200">
+            <div className="absolute right-0 mt-2 w-72 bg-white rounded-md shadow-lg z-20 border border-gray-200">
               <div className="py-1">
                 {validTransitions.map((stage) => (
-                  <button
-                    key={stage}
-                    onClick={() => handleTransitionClick(stage)}
-                    className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
-                  >
-                    Move to {stage}
-                  </button>
+                  <div key={stage}>
+                    <button
+                      onClick={() => handleTransitionClick(stage)}
+                      disabled={isBlocked(stage)}
+                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-white disabled:cursor-not-allowed transition-colors"
+                    >
+                      Move to {stage}
+                    </button>
+                    {isBlocked(stage) && (
+                      <ul className="px-4 pb-2 space-y-1">
+                        {failedGuards[stage].map((guard, index) => (
+                          <li key={index} className="text-xs text-red-600">
+                            • {guard.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                 ))}
               </div>
             </div>
@@ -97,11 +164,21 @@ export function WorkflowTransitionButton({
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
               Confirm Stage Transition
             </h3>
-            <p className="text-gray-600 mb-6">
+            <p className="text-gray-600 mb-4">
               Are you sure you want to transition this spec from{' '}
               <span className="font-semibold">{currentStage}</span> to{' '}
               <span className="font-semibold">{selectedStage}</span>?
             </p>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Comment{commentRequired ? ' (required)' : ' (optional)'}
+            </label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              placeholder={commentRequired ? 'Explain why this spec is being sent back' : 'Add a note for the history'}
+              className="w-full mb-6 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
             <div className="flex justify-end gap-3">
               <button
                 onClick={handleCancel}
@@ -112,7 +189,7 @@ export function WorkflowTransitionButton({
               </button>
               <button
                 onClick={handleConfirm}
-                disabled={isTransitioning}
+                disabled={isTransitioning || (commentRequired && !comment.trim())}
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 transition-colors"
               >
                 {isTransitioning ? 'Transitioning...' : 'Confirm'}
@@ -0,0 +1,12 @@
+// Server startup hook, run once by Next.js when the server process starts
+
+export async function register() {
+  // The collaboration server needs Node's http module, which the edge runtime lacks
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { env } = await import('./lib/env');
+  if (env.collab.enabled) {
+    const { startCollabServer } = await import('./lib/collab/server');
+    startCollabServer();
+  }
+}
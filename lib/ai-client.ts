@@ -1,11 +1,12 @@
-// Azure OpenAI service client
+// AI text generation for the editor's assistant actions
 import { env } from './env';
+import { AICompletionRequest, AIProviderName, defaultModel, getAIProvider, isAIProviderName } from './ai';
+import { EARS_PATTERNS } from './spec-lint';
 
 export interface AIGenerateOptions {
   action: AIAction;
   selectedText: string;
   context: string;
-  model?: 'gpt-4o-mini' | 'gpt-4o';
 }
 
 export type AIAction = 
@@ -15,12 +16,33 @@ export type AIAction =
   | 'generate-tests'
   | 'summarize'
   | 'extract-tasks'
-  | 'translate';
+  | 'translate'
+  | 'generate-children'
+  | 'review-spec';
+
+export const AI_ACTIONS: AIAction[] = [
+  'complete',
+  'rewrite',
+  'generate-criteria',
+  'generate-tests',
+  'summarize',
+  'extract-tasks',
+  'translate',
+  'generate-children',
+  'review-spec',
+];
+
+export interface AIModelSelection {
+  provider: AIProviderName;
+  model: string;
+}
 
 export interface AIGenerateResult {
   generatedText: string;
   tokensUsed: number;
   model: string;
+  // Streaming only: the client cancelled before the text was complete
+  aborted?: boolean;
   metadata: {
     timestamp: Date;
     action: string;
@@ -63,10 +85,7 @@ User Story:
 ${selectedText}
 
 Generate 3-5 acceptance criteria following these patterns:
-- WHEN <trigger>, THE <system> SHALL <response>
-- WHILE <condition>, THE <system> SHALL <response>
-- IF <condition>, THEN THE <system> SHALL <response>
-- WHERE <option>, THE <system> SHALL <response>
+${EARS_PATTERNS.map((pattern) => `- ${pattern.template}`).join('\n')}
 
 Format as a numbered list.
 `,
@@ -124,6 +143,41 @@ ${selectedText}
 
 Provide the translation.
 `,
+
+  'generate-children': (selectedText, context) => `
+You are a product requirements expert. Break the following parent specification down into child specifications of the type and template described in the context.
+
+Context:
+${context}
+
+Parent specification:
+${selectedText}
+
+Propose 3-8 child specifications that together cover the parent without overlapping. Respond with only a JSON object, without code fences, of the form:
+{"specs": [{"title": "...", "tags": ["..."], "content": "..."}]}
+
+Each content is the markdown body of one child specification: a level 1 heading with its title, then every level 2 section of the template in the same order, filled in. Do not include YAML frontmatter.
+`,
+
+  'review-spec': (selectedText, context) => `
+You are a requirements quality reviewer. Review the following specification for ambiguous wording, statements that cannot be tested, acceptance criteria that do not follow EARS, contradictions and missing information.
+
+Context:
+${context}
+
+Specification, each line prefixed with its line number:
+${selectedText}
+
+Respond with only a JSON object, without code fences, of the form:
+{"issues": [{"line": 12, "severity": "warning", "quote": "exact text from that line", "message": "what is wrong and how to fix it"}]}
+
+Severity is "error", "warning" or "info". Report at most 20 issues, and none of the issues the context lists as already found.
+`,
+};
+
+// Completion length for actions that produce more than a passage of text
+const MAX_TOKENS: Partial<Record<AIAction, number>> = {
+  'generate-children': 6000,
 };
 
 /**
@@ -156,59 +210,117 @@ export function estimateTokenCost(options: AIGenerateOptions): number {
   return promptTokens + estimatedResponseTokens;
 }
 
+let actionModels: Map<AIAction, AIModelSelection> | null = null;
+
+function parseSelection(value: string, source: string): AIModelSelection {
+  // Split at the first colon only: Ollama model names contain one
+  const separator = value.indexOf(':');
+  const provider = separator === -1 ? value : value.slice(0, separator);
+  if (!isAIProviderName(provider)) {
+    throw new Error(`Unknown AI provider in ${source}: ${provider}`);
+  }
+  const model = separator === -1 ? defaultModel(provider) : value.slice(separator + 1);
+  return { provider, model };
+}
+
 /**
- * Generate text using Azure OpenAI
+ * Provider and model configured for an action
+ * AI_ACTION_MODELS overrides AI_PROVIDER and its default model per action,
+ * e.g. `summarize=fake,generate-tests=openai-compatible:llama3.1:8b`.
  */
-export async function generateWithAI(options: AIGenerateOptions): Promise<AIGenerateResult> {
-  const { action, selectedText, context, model = 'gpt-4o-mini' } = options;
-  
-  // Validate configuration
-  if (!env.openai.endpoint || !env.openai.apiKey) {
-    throw new Error('Azure OpenAI configuration is missing');
+export function resolveAIModel(action: AIAction): AIModelSelection {
+  if (!actionModels) {
+    const overrides = new Map<AIAction, AIModelSelection>();
+    for (const entry of env.ai.actionModels.split(',').map((item) => item.trim()).filter(Boolean)) {
+      const [name, value = ''] = entry.split('=').map((part) => part.trim());
+      if (!AI_ACTIONS.includes(name as AIAction)) {
+        throw new Error(`Unknown AI action in AI_ACTION_MODELS: ${name}`);
+      }
+      overrides.set(name as AIAction, parseSelection(value, 'AI_ACTION_MODELS'));
+    }
+    actionModels = overrides;
   }
 
+  return actionModels.get(action) || parseSelection(env.ai.provider, 'AI_PROVIDER');
+}
+
+function completionRequest(action: AIAction, model: string, prompt: string): AICompletionRequest {
+  return {
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a helpful assistant for technical documentation and specification writing.',
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+    maxTokens: MAX_TOKENS[action] || 2000,
+    temperature: 0.7,
+    topP: 0.95,
+  };
+}
+
+/**
+ * Generate text with the provider and model configured for the action
+ */
+export async function generateWithAI(options: AIGenerateOptions): Promise<AIGenerateResult> {
+  const { action, selectedText, context } = options;
+  const { provider, model } = resolveAIModel(action);
+
   const prompt = getPromptTemplate(action, selectedText, context);
-  
-  // Call Azure OpenAI API
-  const url = `${env.openai.endpoint}/openai/deployments/${env.openai.deploymentName}/chat/completions?api-version=2024-02-15-preview`;
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'api-key': env.openai.apiKey,
-    },
-    body: JSON.stringify({
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful assistant for technical documentation and specification writing.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      max_tokens: 2000,
-      temperature: 0.7,
-      top_p: 0.95,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Azure OpenAI API error: ${response.status} - ${error}`);
-  }
 
-  const data = await response.json();
-  
-  const generatedText = data.choices[0]?.message?.content || '';
-  const tokensUsed = data.usage?.total_tokens || estimateTokens(prompt + generatedText);
+  const completion = await getAIProvider(provider).complete(completionRequest(action, model, prompt));
+
+  const generatedText = completion.text;
+  const tokensUsed = completion.tokensUsed || estimateTokens(prompt + generatedText);
 
   return {
     generatedText,
     tokensUsed,
+    model: completion.model,
+    metadata: {
+      timestamp: new Date(),
+      action,
+    },
+  };
+}
+
+/**
+ * Generate text like generateWithAI, passing each piece to `onText` as it arrives
+ * When the signal aborts, resolves with the text received so far and
+ * `aborted` set. Without usage from the provider, as after an abort, the
+ * tokens are estimated from the prompt and the text received.
+ */
+export async function streamWithAI(
+  options: AIGenerateOptions,
+  onText: (text: string) => void | Promise<void>,
+  signal?: AbortSignal
+): Promise<AIGenerateResult> {
+  const { action, selectedText, context } = options;
+  const selection = resolveAIModel(action);
+
+  const prompt = getPromptTemplate(action, selectedText, context);
+
+  let generatedText = '';
+  let model = selection.model;
+  let tokensUsed: number | undefined;
+  for await (const chunk of getAIProvider(selection.provider).stream(completionRequest(action, model, prompt), signal)) {
+    if (chunk.text) {
+      generatedText += chunk.text;
+      await onText(chunk.text);
+    }
+    model = chunk.model || model;
+    tokensUsed = chunk.tokensUsed || tokensUsed;
+  }
+
+  return {
+    generatedText,
+    tokensUsed: tokensUsed || estimateTokens(prompt + generatedText),
     model,
+    aborted: signal?.aborted || false,
     metadata: {
       timestamp: new Date(),
       action,
@@ -0,0 +1,409 @@
+// Prompt context assembled from the specs around the one being edited
+import { Filter } from 'mongodb';
+import { SpecRepository } from './repositories/spec-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { FileAttachmentRepository } from './repositories/file-attachment-repository';
+import { downloadFile } from './blob-storage';
+import { stripFrontmatter } from './yaml-parser';
+import { estimateTokens } from './ai-client';
+import { getAIProvider, isAIProviderName } from './ai';
+import { env } from './env';
+import { FileAttachment, Spec, SpecType } from '../types/spec';
+
+export type AIContextSourceKind = 'parent' | 'linked' | 'sibling' | 'glossary' | 'attachment';
+
+export interface AIContextSource {
+  kind: AIContextSourceKind;
+  specId: string;
+  title: string;
+  // Attachments only
+  attachmentId?: string;
+  fileName?: string;
+}
+
+export interface AIContext {
+  // Markdown appended to the client's context; empty when nothing is related
+  text: string;
+  tokens: number;
+  ranking: 'embeddings' | 'bm25';
+  // Sources with at least one passage in the text
+  sources: AIContextSource[];
+}
+
+interface Passage {
+  source: AIContextSource;
+  text: string;
+  // Order within the source, so passages are shown as they appear
+  position: number;
+  score: number;
+}
+
+// Specs with this tag hold glossary definitions
+export const GLOSSARY_TAG = 'glossary';
+
+const MAX_SIBLINGS = 20;
+const MAX_GLOSSARY_SPECS = 50;
+
+// Passages are paragraphs packed up to this length
+const PASSAGE_CHARS = 1200;
+
+// Attachments read as text
+const TEXT_ATTACHMENT_TYPES = /^(text\/|application\/(json|xml|yaml|x-yaml)$)/;
+const MAX_ATTACHMENT_BYTES = 256 * 1024;
+
+// Relevance multipliers by how a source relates to the spec
+const SOURCE_WEIGHTS: Record<AIContextSourceKind, number> = {
+  parent: 1.5,
+  linked: 1.3,
+  glossary: 1.2,
+  sibling: 1,
+  attachment: 0.8,
+};
+
+// Related specs are worth including even without words in common with the query
+const STRUCTURAL_PRIOR = 0.1;
+
+const SOURCE_ORDER: AIContextSourceKind[] = ['parent', 'linked', 'sibling', 'glossary', 'attachment'];
+
+const TYPE_LABELS: Record<SpecType, string> = {
+  epic: 'epic',
+  'user-story': 'user story',
+  'technical-spec': 'technical spec',
+  'test-case': 'test case',
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(
+  'a an and are as at be by for from has have in is it its of on or that the this to was were will with'.split(' ')
+);
+
+// Embeddings by model and text, shared across requests
+const EMBEDDING_CACHE_SIZE = 2000;
+const embeddingCache = new Map<string, number[]>();
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(
+    (word) => word.length > 1 && !STOP_WORDS.has(word)
+  );
+}
+
+/**
+ * Okapi BM25 score of each document for the query, using the documents
+ * themselves as the corpus
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+  const docs = documents.map(tokenize);
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1) || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const terms = [...new Set(tokenize(query))];
+  return docs.map((doc) => {
+    const frequency = new Map<string, number>();
+    for (const term of doc) frequency.set(term, (frequency.get(term) || 0) + 1);
+
+    return terms.reduce((score, term) => {
+      const count = frequency.get(term);
+      if (!count) return score;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      return score + (idf * count * (K1 + 1)) / (count + K1 * (1 - B + (B * doc.length) / averageLength));
+    }, 0);
+  });
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function embeddingScores(query: string, documents: string[]): Promise<number[]> {
+  const separator = env.ai.embeddingModel.indexOf(':');
+  const provider = separator === -1 ? env.ai.embeddingModel : env.ai.embeddingModel.slice(0, separator);
+  const model = separator === -1 ? provider : env.ai.embeddingModel.slice(separator + 1);
+  if (!isAIProviderName(provider)) {
+    throw new Error(`Unknown AI provider in AI_EMBEDDING_MODEL: ${provider}`);
+  }
+  const backend = getAIProvider(provider);
+  if (!backend.embed) {
+    throw new Error(`AI provider ${provider} does not support embeddings`);
+  }
+
+  const texts = [query, ...documents];
+  const missing = [...new Set(texts.filter((text) => !embeddingCache.has(`${model}\0${text}`)))];
+  if (missing.length > 0) {
+    const vectors = await backend.embed({ model, input: missing });
+    missing.forEach((text, index) => {
+      // Evict the oldest entries first
+      if (embeddingCache.size >= EMBEDDING_CACHE_SIZE) {
+        embeddingCache.delete(embeddingCache.keys().next().value!);
+      }
+      embeddingCache.set(`${model}\0${text}`, vectors[index]);
+    });
+  }
+
+  const [queryVector, ...vectors] = texts.map((text) => embeddingCache.get(`${model}\0${text}`) || []);
+  return vectors.map((vector) => Math.max(0, cosine(queryVector, vector)));
+}
+
+/**
+ * Set each passage's relevance to the query, between 0 and 1
+ * Uses AI_EMBEDDING_MODEL when configured, falling back to BM25 when it is
+ * not or when the embedding request fails.
+ */
+async function rankPassages(query: string, passages: Passage[]): Promise<AIContext['ranking']> {
+  const documents = passages.map((passage) => passage.text);
+  let ranking: AIContext['ranking'] = 'bm25';
+  let scores: number[] | null = null;
+
+  if (env.ai.embeddingModel) {
+    try {
+      scores = await embeddingScores(query, documents);
+      ranking = 'embeddings';
+    } catch (error) {
+      console.warn('Embedding ranking failed, using BM25:', error);
+    }
+  }
+  if (!scores) {
+    scores = bm25Scores(query, documents);
+    const max = Math.max(0, ...scores);
+    scores = scores.map((score) => (max > 0 ? score / max : 0));
+  }
+
+  passages.forEach((passage, index) => {
+    passage.score = scores![index];
+  });
+  return ranking;
+}
+
+// Paragraphs packed into passages, each carrying the nearest heading above it
+function splitPassages(source: AIContextSource, text: string): Passage[] {
+  const passages: Passage[] = [];
+  let heading = '';
+  let current = '';
+
+  const flush = () => {
+    // Skip a heading with nothing under it
+    if (current.trim() && current.trim() !== heading) {
+      passages.push({ source, text: current.trim(), position: passages.length, score: 0 });
+    }
+    current = heading ? `${heading}\n` : '';
+  };
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+
+    if (/^#{1,6}\s/.test(trimmed)) {
+      flush();
+      heading = trimmed.split('\n')[0];
+      current = `${trimmed}\n`;
+      continue;
+    }
+
+    if (current.length + trimmed.length > PASSAGE_CHARS && current.trim() !== heading) flush();
+    for (let start = 0; start < trimmed.length; start += PASSAGE_CHARS) {
+      if (start > 0) flush();
+      current += `${trimmed.slice(start, start + PASSAGE_CHARS)}\n\n`;
+    }
+  }
+  flush();
+
+  return passages;
+}
+
+/**
+ * Glossary definitions whose term appears in the text
+ * Definitions are list items or lines such as `**Term**: meaning` or
+ * `Term: meaning`, and two-column table rows `| Term | meaning |`.
+ */
+function glossaryPassages(spec: Spec, text: string): Passage[] {
+  const source: AIContextSource = { kind: 'glossary', specId: spec._id, title: spec.title };
+  const lowerText = text.toLowerCase();
+  const passages: Passage[] = [];
+
+  for (const line of stripFrontmatter(spec.content).split('\n')) {
+    const match =
+      line.match(/^\s*(?:[-*]\s+)?\*\*([^*]+)\*\*\s*[:–—-]\s*(.+)$/) ||
+      line.match(/^\s*(?:[-*]\s+)?([\w][\w /().-]{0,60}?):\s+(.+)$/) ||
+      line.match(/^\s*\|\s*([^|]+?)\s*\|\s*([^|]+?)\s*\|\s*$/);
+    if (!match || /^[-:\s]+$/.test(match[1])) continue;
+
+    const term = match[1].trim();
+    const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (!new RegExp(`(^|\\W)${escaped}(\\W|$)`).test(lowerText)) continue;
+
+    passages.push({ source, text: `**${term}**: ${match[2].trim()}`, position: passages.length, score: 0 });
+  }
+
+  return passages;
+}
+
+async function attachmentPassages(attachment: FileAttachment, spec: Spec): Promise<Passage[]> {
+  try {
+    const text = (await downloadFile(attachment.blobPath)).toString('utf8');
+    return splitPassages(
+      {
+        kind: 'attachment',
+        specId: spec._id,
+        title: spec.title,
+        attachmentId: attachment._id,
+        fileName: attachment.fileName,
+      },
+      text
+    );
+  } catch (error) {
+    console.warn(`Skipping attachment ${attachment._id} in AI context:`, error);
+    return [];
+  }
+}
+
+function sourceKey(source: AIContextSource): string {
+  return `${source.kind}:${source.specId}:${source.attachmentId || ''}`;
+}
+
+function sourceHeading(source: AIContextSource, specs: Map<string, Spec>): string {
+  const spec = specs.get(source.specId);
+  const type = spec ? TYPE_LABELS[spec.metadata.type] : 'spec';
+  switch (source.kind) {
+    case 'parent':
+      return `### Parent ${type}: ${source.title}`;
+    case 'linked':
+      return `### Linked ${type}: ${source.title}`;
+    case 'sibling':
+      return `### Sibling ${type}: ${source.title}`;
+    case 'glossary':
+      return `### Glossary (${source.title})`;
+    case 'attachment':
+      return `### Attachment ${source.fileName} of "${source.title}"`;
+  }
+}
+
+/**
+ * Context for an AI request on a spec: its parents, the other children of
+ * those parents, its own linked children (such as test cases), glossary
+ * definitions of terms the document uses and text attachments of the spec
+ * and its parents
+ *
+ * Relationships come from traceability links and `metadata.parentId`.
+ * Passages are ranked against the spec title and the selected text, then
+ * the best are kept within AI_CONTEXT_TOKEN_BUDGET estimated tokens.
+ */
+export async function assembleAIContext(
+  specId: string,
+  selectedText: string,
+  documentText: string,
+  tokenBudget: number = env.ai.contextTokenBudget
+): Promise<AIContext> {
+  const empty: AIContext = { text: '', tokens: 0, ranking: 'bm25', sources: [] };
+  const specRepo = new SpecRepository();
+  const spec = await specRepo.findById(specId);
+  if (!spec || tokenBudget <= 0) return empty;
+
+  const traceabilityRepo = new TraceabilityRepository();
+  const parentIds = new Set((await traceabilityRepo.findParents(specId)).map((link) => link.parentId));
+  if (spec.metadata.parentId) parentIds.add(spec.metadata.parentId);
+
+  const childIds = new Set([
+    ...(await traceabilityRepo.findChildren(specId)).map((link) => link.childId),
+    ...(await specRepo.findChildren(specId)).map((child) => child._id),
+  ]);
+
+  const siblingIds = new Set<string>();
+  for (const parentId of parentIds) {
+    const siblings = [
+      ...(await traceabilityRepo.findChildren(parentId)).map((link) => link.childId),
+      ...(await specRepo.findChildren(parentId)).map((child) => child._id),
+    ];
+    for (const id of siblings) {
+      if (siblingIds.size >= MAX_SIBLINGS) break;
+      if (id !== specId && !parentIds.has(id) && !childIds.has(id)) siblingIds.add(id);
+    }
+  }
+
+  const related = await specRepo.find({
+    _id: { $in: [...parentIds, ...childIds, ...siblingIds] },
+  } as Filter<Spec>);
+  const glossaries = await specRepo.find({ 'metadata.tags': GLOSSARY_TAG } as Filter<Spec>, MAX_GLOSSARY_SPECS);
+  const specs = new Map([spec, ...related, ...glossaries].map((item) => [item._id, item]));
+
+  const passages: Passage[] = [];
+  for (const item of related) {
+    const kind: AIContextSourceKind = parentIds.has(item._id) ? 'parent' : childIds.has(item._id) ? 'linked' : 'sibling';
+    passages.push(
+      ...splitPassages({ kind, specId: item._id, title: item.title }, stripFrontmatter(item.content))
+    );
+  }
+  for (const glossary of glossaries) {
+    passages.push(...glossaryPassages(glossary, `${selectedText}\n${documentText}`));
+  }
+
+  const attachments = await new FileAttachmentRepository().findBySpecIds([specId, ...parentIds]);
+  for (const attachment of attachments) {
+    const owner = specs.get(attachment.specId);
+    if (!owner || !TEXT_ATTACHMENT_TYPES.test(attachment.contentType) || attachment.size > MAX_ATTACHMENT_BYTES) {
+      continue;
+    }
+    passages.push(...(await attachmentPassages(attachment, owner)));
+  }
+
+  if (passages.length === 0) return empty;
+
+  const ranking = await rankPassages(`${spec.title}\n${selectedText}`, passages);
+  for (const passage of passages) {
+    // Attachments only count when they share something with the query
+    const prior = passage.source.kind === 'attachment' ? 0 : STRUCTURAL_PRIOR;
+    passage.score = passage.score > 0 || prior > 0 ? SOURCE_WEIGHTS[passage.source.kind] * (passage.score + prior) : 0;
+  }
+
+  // Greedily keep the best passages that fit, counting each source's heading once
+  const selected = new Map<string, Passage[]>();
+  let tokens = 0;
+  for (const passage of passages.filter((item) => item.score > 0).sort((a, b) => b.score - a.score)) {
+    const key = sourceKey(passage.source);
+    const cost =
+      estimateTokens(`${passage.text}\n\n`) +
+      (selected.has(key) ? 0 : estimateTokens(`${sourceHeading(passage.source, specs)}\n\n`));
+    if (tokens + cost > tokenBudget) continue;
+    tokens += cost;
+    selected.set(key, [...(selected.get(key) || []), passage]);
+  }
+
+  if (selected.size === 0) return { ...empty, ranking };
+
+  // Sources by relationship, then by their best passage
+  const groups = [...selected.values()].sort(
+    (a, b) =>
+      SOURCE_ORDER.indexOf(a[0].source.kind) - SOURCE_ORDER.indexOf(b[0].source.kind) || b[0].score - a[0].score
+  );
+  const text = groups
+    .map((group) =>
+      [
+        sourceHeading(group[0].source, specs),
+        ...group.sort((a, b) => a.position - b.position).map((passage) => passage.text),
+      ].join('\n\n')
+    )
+    .join('\n\n');
+
+  return {
+    text,
+    tokens,
+    ranking,
+    sources: groups.map((group) => group[0].source),
+  };
+}
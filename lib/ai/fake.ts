@@ -0,0 +1,50 @@
+// Deterministic stand-in for an AI backend, for tests and offline development
+import { createHash } from 'crypto';
+import { AICompletion, AICompletionChunk, AICompletionRequest, AIEmbeddingRequest, AIProvider } from './provider';
+
+// Longest part of the prompt echoed back
+const MAX_ECHO_LENGTH = 500;
+
+const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Answers without a network call: the same request always gets the same
+ * text, made of a digest of the request and the start of the last message
+ */
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake';
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const digest = createHash('sha256')
+      .update(JSON.stringify([request.model, request.messages]))
+      .digest('hex')
+      .slice(0, 12);
+    const prompt = request.messages[request.messages.length - 1]?.content.trim() || '';
+    const text = `[${request.model} ${digest}]\n${prompt.slice(0, MAX_ECHO_LENGTH)}`;
+
+    const characters = request.messages.reduce((sum, message) => sum + message.content.length, 0) + text.length;
+    return { text, model: request.model, tokensUsed: Math.ceil(characters / 4) };
+  }
+
+  // The same text, a word at a time
+  async *stream(request: AICompletionRequest, signal?: AbortSignal): AsyncIterable<AICompletionChunk> {
+    const completion = await this.complete(request);
+    for (const word of completion.text.match(/\s*\S+/g) || []) {
+      if (signal?.aborted) return;
+      yield { text: word };
+    }
+    yield { text: '', model: completion.model, tokensUsed: completion.tokensUsed };
+  }
+
+  // Hashed bag of words, so texts sharing words are similar
+  async embed(request: AIEmbeddingRequest): Promise<number[][]> {
+    return request.input.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/\w+/g) || []) {
+        vector[createHash('md5').update(word).digest().readUInt16BE(0) % EMBEDDING_DIMENSIONS]++;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map((value) => value / norm);
+    });
+  }
+}
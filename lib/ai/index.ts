@@ -0,0 +1,68 @@
+// AI provider selection
+import { env } from '../env';
+import { AIProvider, AIProviderError } from './provider';
+import { AzureOpenAIProvider, OpenAICompatibleProvider } from './openai-compatible';
+import { FakeAIProvider } from './fake';
+
+export type {
+  AIChatMessage,
+  AICompletion,
+  AICompletionChunk,
+  AICompletionRequest,
+  AIEmbeddingRequest,
+  AIProvider,
+} from './provider';
+export { AIProviderError } from './provider';
+
+export const AI_PROVIDER_NAMES = ['azure', 'openai-compatible', 'fake'] as const;
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+const providers = new Map<AIProviderName, AIProvider>();
+
+export function isAIProviderName(value: string): value is AIProviderName {
+  return (AI_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Model used with a provider when the configuration names none
+ */
+export function defaultModel(name: AIProviderName): string {
+  switch (name) {
+    case 'azure':
+      return env.openai.deploymentName;
+    case 'openai-compatible':
+      return env.ai.openaiCompatible.model;
+    case 'fake':
+      return 'fake';
+  }
+}
+
+/**
+ * Get a configured provider
+ * Throws AIProviderError when the provider's settings are missing.
+ */
+export function getAIProvider(name: AIProviderName): AIProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    switch (name) {
+      case 'azure':
+        if (!env.openai.endpoint || !env.openai.apiKey) {
+          throw new AIProviderError(name, 'Azure OpenAI configuration is missing');
+        }
+        provider = new AzureOpenAIProvider(env.openai);
+        break;
+      case 'openai-compatible':
+        if (!env.ai.openaiCompatible.baseUrl) {
+          throw new AIProviderError(name, 'OPENAI_COMPATIBLE_BASE_URL is not configured');
+        }
+        provider = new OpenAICompatibleProvider(env.ai.openaiCompatible);
+        break;
+      case 'fake':
+        provider = new FakeAIProvider();
+        break;
+    }
+    providers.set(name, provider);
+  }
+
+  return provider;
+}
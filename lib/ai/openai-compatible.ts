@@ -0,0 +1,175 @@
+// OpenAI chat completions and embeddings API clients: any compatible server, and Azure OpenAI
+import {
+  AICompletion,
+  AICompletionChunk,
+  AICompletionRequest,
+  AIEmbeddingRequest,
+  AIProvider,
+  AIProviderError,
+} from './provider';
+
+export interface OpenAICompatibleOptions {
+  // API root including the version, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export type OpenAIOperation = 'chat/completions' | 'embeddings';
+
+/**
+ * Any server implementing POST /chat/completions, such as OpenAI, vLLM or
+ * Ollama, and optionally POST /embeddings
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(private options: OpenAICompatibleOptions) {}
+
+  protected url(_model: string, operation: OpenAIOperation): string {
+    return `${this.options.baseUrl.replace(/\/+$/, '')}/${operation}`;
+  }
+
+  protected headers(): Record<string, string> {
+    return this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {};
+  }
+
+  // Body fields requesting a streamed response
+  protected streamOptions(): Record<string, unknown> {
+    return { stream: true, stream_options: { include_usage: true } };
+  }
+
+  private async post(
+    operation: OpenAIOperation,
+    model: string,
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(this.url(model, operation), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers() },
+        body: JSON.stringify({ model, ...body }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new AIProviderError(
+        this.name,
+        `${this.name} request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new AIProviderError(this.name, `${this.name} API error: ${response.status} - ${error}`, response.status);
+    }
+
+    return response;
+  }
+
+  private completionBody(request: AICompletionRequest): Record<string, unknown> {
+    return {
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+    };
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const response = await this.post('chat/completions', request.model, this.completionBody(request));
+    const data = await response.json();
+
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: data.model || request.model,
+      tokensUsed: data.usage?.total_tokens,
+    };
+  }
+
+  async *stream(request: AICompletionRequest, signal?: AbortSignal): AsyncIterable<AICompletionChunk> {
+    const body = { ...this.completionBody(request), ...this.streamOptions() };
+    const reader = await this.post('chat/completions', request.model, body, signal)
+      .then((response) => response.body!.pipeThrough(new TextDecoderStream()).getReader())
+      .catch((error) => {
+        if (signal?.aborted) return null;
+        throw error;
+      });
+    if (!reader) return;
+
+    // Server-sent events: one `data: <json>` line per chunk, then `data: [DONE]`
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+
+          const event = JSON.parse(payload);
+          yield {
+            text: event.choices?.[0]?.delta?.content || '',
+            model: event.model || undefined,
+            tokensUsed: event.usage?.total_tokens,
+          };
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw new AIProviderError(
+        this.name,
+        `${this.name} stream failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  async embed(request: AIEmbeddingRequest): Promise<number[][]> {
+    const response = await this.post('embeddings', request.model, { input: request.input });
+    const data = await response.json();
+
+    return [...(data.data || [])]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+  }
+}
+
+export interface AzureOpenAIOptions {
+  endpoint: string;
+  apiKey: string;
+  apiVersion: string;
+}
+
+/**
+ * Azure OpenAI, where the model is the name of a deployment
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  readonly name = 'azure';
+
+  constructor(private azure: AzureOpenAIOptions) {
+    super({ baseUrl: azure.endpoint });
+  }
+
+  protected url(model: string, operation: OpenAIOperation): string {
+    const endpoint = this.azure.endpoint.replace(/\/+$/, '');
+    return `${endpoint}/openai/deployments/${encodeURIComponent(model)}/${operation}?api-version=${this.azure.apiVersion}`;
+  }
+
+  protected headers(): Record<string, string> {
+    return { 'api-key': this.azure.apiKey };
+  }
+
+  // Usage in streamed responses needs API version 2024-09-01-preview or later
+  protected streamOptions(): Record<string, unknown> {
+    return this.azure.apiVersion >= '2024-09-01' ? super.streamOptions() : { stream: true };
+  }
+}
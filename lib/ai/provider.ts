@@ -0,0 +1,62 @@
+// AI provider interface shared by all chat completion backends
+
+export interface AIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  // Model or, for Azure OpenAI, deployment name
+  model: string;
+  messages: AIChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  topP?: number;
+}
+
+export interface AICompletion {
+  text: string;
+  // Model reported by the backend, or the requested one
+  model: string;
+  // Prompt and completion tokens, when the backend reports them
+  tokensUsed?: number;
+}
+
+// Part of a streamed completion; the last chunks may carry only the model and usage
+export interface AICompletionChunk {
+  text: string;
+  model?: string;
+  tokensUsed?: number;
+}
+
+export interface AIEmbeddingRequest {
+  // Model or, for Azure OpenAI, deployment name
+  model: string;
+  input: string[];
+}
+
+/**
+ * A chat completion backend
+ */
+export interface AIProvider {
+  readonly name: string;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+  // Stops early, without an error, when the signal aborts
+  stream(request: AICompletionRequest, signal?: AbortSignal): AsyncIterable<AICompletionChunk>;
+  // One vector per input, for backends that serve an embedding model
+  embed?(request: AIEmbeddingRequest): Promise<number[][]>;
+}
+
+/**
+ * The AI backend is unreachable, misconfigured or returned an error
+ */
+export class AIProviderError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
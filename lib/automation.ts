@@ -0,0 +1,329 @@
+// Workflow automation rule engine
+import { z } from 'zod';
+import { AutomationRuleRepository } from './repositories/automation-rule-repository';
+import { AutomationRunRepository } from './repositories/automation-run-repository';
+import { SpecRepository } from './repositories/spec-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { CommentRepository } from './repositories/comment-repository';
+import { getWorkflowForSpecType } from './workflows';
+import { evaluateTransitionGuards } from './transition-guards';
+import { queryCache } from './query-cache';
+import { notifyWatchers } from './subscriptions';
+import { emitWebhookEvent, webhookSpecData } from './webhooks';
+import { Spec, WorkflowStage } from '../types/spec';
+import { SessionPayload } from '../types/auth';
+import {
+  AutomationAction,
+  AutomationActionResult,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationRule,
+  AutomationRun,
+  AutomationTarget,
+  AutomationTrigger,
+} from '../types/automation';
+
+const SpecTypeSchema = z.enum(['epic', 'user-story', 'technical-spec', 'test-case']);
+
+const AutomationTargetSchema = z.object({
+  relation: z.enum(['self', 'children', 'parents']),
+  specTypes: z.array(SpecTypeSchema).optional(),
+  stages: z.array(z.string().min(1)).optional(),
+});
+
+// Zod schema for automation rule payloads
+export const AutomationRuleSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required'),
+    enabled: z.boolean().default(true),
+    trigger: z.enum(['transition', 'edit', 'comment']),
+    conditions: z
+      .object({
+        specTypes: z.array(SpecTypeSchema).optional(),
+        tags: z.array(z.string().min(1)).optional(),
+        stages: z.array(z.string().min(1)).optional(),
+        fromStages: z.array(z.string().min(1)).optional(),
+      })
+      .default({}),
+    actions: z
+      .array(
+        z.discriminatedUnion('type', [
+          z.object({
+            type: z.literal('transition'),
+            toStage: z.string().min(1),
+            target: AutomationTargetSchema.optional(),
+          }),
+          z.object({
+            type: z.literal('assign'),
+            assignee: z.string().min(1),
+            target: AutomationTargetSchema.optional(),
+          }),
+          z.object({
+            type: z.literal('add-tag'),
+            tag: z.string().min(1),
+            target: AutomationTargetSchema.optional(),
+          }),
+          z.object({
+            type: z.literal('post-comment'),
+            text: z.string().min(1),
+            target: AutomationTargetSchema.optional(),
+          }),
+        ])
+      )
+      .min(1, 'At least one action is required'),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.conditions.fromStages && rule.trigger !== 'transition') {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['conditions', 'fromStages'],
+        message: 'fromStages only applies to transition triggers',
+      });
+    }
+  });
+
+/**
+ * A change that may fire automation rules
+ * `spec` is the spec as it is after the change.
+ */
+export interface AutomationEvent {
+  trigger: AutomationTrigger;
+  spec: Spec;
+  user: SessionPayload;
+  fromStage?: WorkflowStage;
+}
+
+interface ActionContext {
+  rule: AutomationRule;
+  user: SessionPayload;
+}
+
+type ActionExecutor<T extends AutomationActionType> = (
+  action: Extract<AutomationAction, { type: T }>,
+  target: Spec,
+  context: ActionContext
+) => Promise<Pick<AutomationActionResult, 'status' | 'message'>>;
+
+// Registry of action executors, one per action type
+const ACTION_EXECUTORS: { [T in AutomationActionType]: ActionExecutor<T> } = {
+  transition: async (action, target, { rule, user }) => {
+    const currentStage = target.metadata.status;
+    if (currentStage === action.toStage) {
+      return { status: 'skipped', message: `Already in ${action.toStage}` };
+    }
+
+    const workflow = await getWorkflowForSpecType(target.metadata.type);
+    const transition = workflow.transitions.find(
+      (t) => t.from === currentStage && t.to === action.toStage
+    );
+    if (!transition) {
+      return {
+        status: 'skipped',
+        message: `No transition from ${currentStage} to ${action.toStage}`,
+      };
+    }
+
+    // Automated moves honour the same guards as manual ones
+    const failedGuards = (await evaluateTransitionGuards({ spec: target, transition, user })).filter(
+      (result) => !result.passed
+    );
+    if (failedGuards.length > 0) {
+      return {
+        status: 'skipped',
+        message: `Blocked: ${failedGuards.map((guard) => guard.message).join('; ')}`,
+      };
+    }
+
+    const specRepo = new SpecRepository();
+    const comment = `Automated by rule "${rule.name}"`;
+    const updated = await specRepo.transitionStage(target._id, action.toStage, user.userId, {
+      workflow,
+      comment,
+    });
+    if (!updated) {
+      return { status: 'failed', message: 'Stage was changed concurrently' };
+    }
+
+    // The same notifications as a manual transition
+    await notifyWatchers({
+      type: 'transition',
+      spec: updated,
+      actor: user,
+      message: `${currentStage} → ${action.toStage}: ${comment}`,
+    });
+    await emitWebhookEvent(
+      'spec.transitioned',
+      { spec: webhookSpecData(updated), fromStage: currentStage, toStage: action.toStage, comment },
+      user
+    );
+
+    return { status: 'applied', message: `Moved from ${currentStage} to ${action.toStage}` };
+  },
+
+  assign: async (action, target, { user }) => {
+    if (target.metadata.assignee === action.assignee) {
+      return { status: 'skipped', message: `Already assigned to ${action.assignee}` };
+    }
+
+    const specRepo = new SpecRepository();
+    await specRepo.updateMetadata(target._id, { assignee: action.assignee }, user.userId);
+    return { status: 'applied', message: `Assigned to ${action.assignee}` };
+  },
+
+  'add-tag': async (action, target, { user }) => {
+    const tags = target.metadata.tags || [];
+    if (tags.includes(action.tag)) {
+      return { status: 'skipped', message: `Already tagged ${action.tag}` };
+    }
+
+    const specRepo = new SpecRepository();
+    await specRepo.updateMetadata(target._id, { tags: [...tags, action.tag] }, user.userId);
+    return { status: 'applied', message: `Tagged ${action.tag}` };
+  },
+
+  'post-comment': async (action, target, { rule }) => {
+    const commentRepo = new CommentRepository();
+    await commentRepo.createComment(
+      target._id,
+      `automation:${rule.name}`,
+      action.text,
+      { start: 1, end: 1 }
+    );
+    return { status: 'applied', message: 'Comment posted' };
+  },
+};
+
+/**
+ * Check whether a rule's conditions hold for an event
+ */
+export function matchesConditions(
+  conditions: AutomationCondition,
+  event: AutomationEvent
+): boolean {
+  const { metadata } = event.spec;
+
+  if (conditions.specTypes && !conditions.specTypes.includes(metadata.type)) {
+    return false;
+  }
+  if (conditions.tags && !conditions.tags.some((tag) => metadata.tags?.includes(tag))) {
+    return false;
+  }
+  if (conditions.stages && !conditions.stages.includes(metadata.status)) {
+    return false;
+  }
+  if (
+    conditions.fromStages &&
+    (!event.fromStage || !conditions.fromStages.includes(event.fromStage))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Resolve the specs an action applies to
+ * Targets are read afresh, so each action sees the effects of earlier ones.
+ */
+async function resolveTargets(spec: Spec, target?: AutomationTarget): Promise<Spec[]> {
+  const relation = target?.relation ?? 'self';
+  const specRepo = new SpecRepository();
+  let specs: Spec[];
+
+  if (relation === 'self') {
+    const current = await specRepo.findById(spec._id);
+    specs = current ? [current] : [];
+  } else {
+    const traceabilityRepo = new TraceabilityRepository();
+    const links =
+      relation === 'children'
+        ? await traceabilityRepo.findChildren(spec._id)
+        : await traceabilityRepo.findParents(spec._id);
+    const ids = links.map((link) => (relation === 'children' ? link.childId : link.parentId));
+
+    specs = (await Promise.all(ids.map((id) => specRepo.findById(id)))).filter(
+      (related): related is Spec => related !== null
+    );
+  }
+
+  return specs
+    .filter((s) => !target?.specTypes || target.specTypes.includes(s.metadata.type))
+    .filter((s) => !target?.stages || target.stages.includes(s.metadata.status));
+}
+
+/**
+ * Get enabled rules for a trigger
+ */
+async function getRulesForTrigger(trigger: AutomationTrigger): Promise<AutomationRule[]> {
+  return queryCache.cached(
+    `automation:rules:${trigger}`,
+    async () => {
+      const ruleRepo = new AutomationRuleRepository();
+      return ruleRepo.findEnabledByTrigger(trigger);
+    },
+    300 // Cache for 5 minutes
+  );
+}
+
+/**
+ * Run every matching rule for an event and record what each one did
+ * Changes made by rules do not fire further rules, so rules cannot loop.
+ * Never throws: a failing rule is logged and recorded, and never fails the
+ * request that triggered it.
+ */
+export async function runAutomationRules(event: AutomationEvent): Promise<AutomationRun[]> {
+  try {
+    const rules = (await getRulesForTrigger(event.trigger)).filter((rule) =>
+      matchesConditions(rule.conditions, event)
+    );
+    const runRepo = new AutomationRunRepository();
+    const runs: AutomationRun[] = [];
+
+    // Rules run in sequence so later rules see the effects of earlier ones
+    for (const rule of rules) {
+      const results: AutomationActionResult[] = [];
+
+      for (const action of rule.actions) {
+        const execute = ACTION_EXECUTORS[action.type] as ActionExecutor<typeof action.type>;
+        const targets = await resolveTargets(event.spec, action.target);
+
+        for (const target of targets) {
+          try {
+            const result = await execute(action as never, target, { rule, user: event.user });
+            results.push({ type: action.type, targetSpecId: target._id, ...result });
+          } catch (error) {
+            console.error(`Error running ${action.type} action of rule ${rule._id}:`, error);
+            results.push({
+              type: action.type,
+              targetSpecId: target._id,
+              status: 'failed',
+              message: error instanceof Error ? error.message : 'Action failed',
+            });
+          }
+        }
+      }
+
+      runs.push(
+        await runRepo.createRun({
+          ruleId: rule._id,
+          ruleName: rule.name,
+          trigger: event.trigger,
+          specId: event.spec._id,
+          actor: event.user.userId,
+          results,
+        })
+      );
+    }
+
+    return runs;
+  } catch (error) {
+    console.error(`Error running ${event.trigger} automation rules:`, error);
+    return [];
+  }
+}
+
+/**
+ * Invalidate cached rule lookups after a rule changes
+ */
+export function invalidateAutomationCache(): void {
+  queryCache.deletePattern(`automation:.*`);
+}
@@ -0,0 +1,218 @@
+// Named baselines: capturing and comparing the versions of a set of specs
+import { z } from 'zod';
+import { Filter, MongoServerError } from 'mongodb';
+import { BaselineRepository } from './repositories/baseline-repository';
+import { SpecRepository } from './repositories/spec-repository';
+import { RevisionRepository } from './repositories/revision-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { generateSemanticDiff, SemanticDiff } from './semantic-diff';
+import { AppError, ErrorCode } from './errors';
+import { SessionPayload } from '../types/auth';
+import { Baseline, BaselineEntry } from '../types/baseline';
+import { Spec, SpecType } from '../types/spec';
+
+// Zod schema for baseline creation payloads
+export const BaselineSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    description: z.string().trim().max(1000).optional(),
+    // Capture this spec and its traceability descendants...
+    rootId: z.string().min(1).optional(),
+    // ...or exactly these specs
+    specIds: z.array(z.string().min(1)).min(1).optional(),
+  })
+  .refine((input) => (input.rootId === undefined) !== (input.specIds === undefined), {
+    message: 'Specify either rootId or specIds',
+    path: ['rootId'],
+  });
+
+export type BaselineSpecChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BaselineSpecComparison {
+  specId: string;
+  title: string;
+  type: SpecType;
+  change: BaselineSpecChange;
+  fromVersion?: number;
+  toVersion?: number;
+  // Changed specs only; missing when a version's content is no longer available
+  diff?: SemanticDiff;
+}
+
+export interface BaselineComparison {
+  from: Pick<Baseline, '_id' | 'name' | 'createdAt'>;
+  to: Pick<Baseline, '_id' | 'name' | 'createdAt'>;
+  summary: Record<BaselineSpecChange, number>;
+  specs: BaselineSpecComparison[];
+}
+
+/**
+ * Record the current version of each spec in an epic's traceability subtree
+ * or in a selection of specs under a unique name
+ */
+export async function createBaseline(
+  input: z.infer<typeof BaselineSchema>,
+  user: SessionPayload
+): Promise<Baseline> {
+  const baselineRepo = new BaselineRepository();
+  const nameTaken = () =>
+    new AppError(ErrorCode.CONFLICT, `A baseline named '${input.name}' already exists`, undefined, 409);
+  if (await baselineRepo.findByName(input.name)) {
+    throw nameTaken();
+  }
+
+  const specRepo = new SpecRepository();
+  let specIds: string[];
+  if (input.rootId) {
+    const root = await specRepo.findById(input.rootId);
+    if (!root) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Root spec not found', undefined, 404);
+    }
+    specIds = [root._id, ...(await new TraceabilityRepository().getDescendants(root._id))];
+  } else {
+    specIds = [...new Set(input.specIds)];
+  }
+
+  const specs = await specRepo.find({ _id: { $in: specIds } } as Filter<Spec>);
+  const found = new Set(specs.map((spec) => spec._id));
+  const missing = specIds.filter((id) => !found.has(id));
+  // Links may outlive deleted specs, so only an explicit selection must exist
+  if (input.specIds && missing.length > 0) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'Some specs were not found', { specIds: missing }, 404);
+  }
+
+  const entries: BaselineEntry[] = specs
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .map((spec) => ({
+      specId: spec._id,
+      version: spec.currentVersion,
+      metadata: spec.metadata,
+      updatedAt: spec.updatedAt,
+    }));
+
+  try {
+    return await baselineRepo.createBaseline(
+      { name: input.name, description: input.description, rootId: input.rootId, entries },
+      user.userId
+    );
+  } catch (error) {
+    // The unique name index catches a baseline created since the check above
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw nameTaken();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Markdown of each captured version, keyed by spec ID
+ * The version being edited has no revision yet, so it is read from the spec.
+ * Versions that are no longer available (the spec was deleted) are left out.
+ */
+export async function loadBaselineContent(entries: BaselineEntry[]): Promise<Map<string, string>> {
+  const specRepo = new SpecRepository();
+  const revisionRepo = new RevisionRepository();
+  const specs = await specRepo.find({ _id: { $in: entries.map((entry) => entry.specId) } } as Filter<Spec>);
+  const specsById = new Map(specs.map((spec) => [spec._id, spec]));
+
+  const content = new Map<string, string>();
+  for (const entry of entries) {
+    const spec = specsById.get(entry.specId);
+    if (spec && spec.currentVersion === entry.version) {
+      content.set(entry.specId, spec.content);
+      continue;
+    }
+    const revision = await revisionRepo.findByVersion(entry.specId, entry.version);
+    if (revision) content.set(entry.specId, revision.content);
+  }
+
+  return content;
+}
+
+/**
+ * The specs of a baseline as they were captured, for export
+ */
+export async function baselineSpecs(baseline: Baseline): Promise<Spec[]> {
+  const content = await loadBaselineContent(baseline.entries);
+
+  return baseline.entries
+    .filter((entry) => content.has(entry.specId))
+    .map(
+      (entry) =>
+        ({
+          _id: entry.specId,
+          title: entry.metadata.title,
+          content: content.get(entry.specId)!,
+          metadata: entry.metadata,
+          updatedAt: entry.updatedAt,
+          currentVersion: entry.version,
+        }) as Spec
+    );
+}
+
+function entryKey(entry: BaselineEntry): string {
+  return `${entry.version}:${JSON.stringify(entry.metadata)}`;
+}
+
+/**
+ * Specs added to, removed from and changed between two baselines, with a
+ * semantic diff of each changed spec
+ *
+ * A spec counts as changed when its version or its metadata (such as its
+ * stage) differs.
+ */
+export async function compareBaselines(from: Baseline, to: Baseline): Promise<BaselineComparison> {
+  const fromEntries = new Map(from.entries.map((entry) => [entry.specId, entry]));
+  const toEntries = new Map(to.entries.map((entry) => [entry.specId, entry]));
+
+  const changed = to.entries.filter((entry) => {
+    const previous = fromEntries.get(entry.specId);
+    return previous && entryKey(previous) !== entryKey(entry);
+  });
+  const fromContent = await loadBaselineContent(changed.map((entry) => fromEntries.get(entry.specId)!));
+  const toContent = await loadBaselineContent(changed);
+
+  const specs: BaselineSpecComparison[] = [];
+  for (const entry of to.entries) {
+    const previous = fromEntries.get(entry.specId);
+    const comparison: BaselineSpecComparison = {
+      specId: entry.specId,
+      title: entry.metadata.title,
+      type: entry.metadata.type,
+      change: !previous ? 'added' : entryKey(previous) === entryKey(entry) ? 'unchanged' : 'changed',
+      fromVersion: previous?.version,
+      toVersion: entry.version,
+    };
+
+    const oldContent = fromContent.get(entry.specId);
+    const newContent = toContent.get(entry.specId);
+    if (previous && comparison.change === 'changed' && oldContent !== undefined && newContent !== undefined) {
+      comparison.diff = generateSemanticDiff(
+        { content: oldContent, metadata: previous.metadata },
+        { content: newContent, metadata: entry.metadata }
+      );
+    }
+    specs.push(comparison);
+  }
+
+  for (const entry of from.entries) {
+    if (toEntries.has(entry.specId)) continue;
+    specs.push({
+      specId: entry.specId,
+      title: entry.metadata.title,
+      type: entry.metadata.type,
+      change: 'removed',
+      fromVersion: entry.version,
+    });
+  }
+
+  const summary: Record<BaselineSpecChange, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const spec of specs) summary[spec.change]++;
+
+  return {
+    from: { _id: from._id, name: from.name, createdAt: from.createdAt },
+    to: { _id: to._id, name: to.name, createdAt: to.createdAt },
+    summary,
+    specs: specs.sort((a, b) => a.title.localeCompare(b.title)),
+  };
+}
@@ -107,6 +107,16 @@ export async function generateSasUrl(blobName: string, expiresInHours: number =
   return `${blockBlobClient.url}?${sasToken}`;
 }
 
+/**
+ * Download a file from Blob Storage
+ */
+export async function downloadFile(blobName: string): Promise<Buffer> {
+  const container = await getContainerClient();
+  const blockBlobClient = container.getBlockBlobClient(blobName);
+  
+  return blockBlobClient.downloadToBuffer();
+}
+
 /**
  * Delete a file from Blob Storage
  */
@@ -0,0 +1,272 @@
+// AI-proposed child specs: user stories of an epic and test cases of a story
+import { z } from 'zod';
+import { SpecRepository } from './repositories/spec-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { generateWithAI, estimateTokenCost } from './ai-client';
+import { assembleAIContext } from './ai-context';
+import { enforceQuota, recordUsage } from './ai-quota';
+import { getTemplateById } from './templates';
+import { getWorkflowForSpecType } from './workflows';
+import { AIProviderError } from './ai';
+import { parseSections } from './markdown-sections';
+import { combineMarkdown, stripFrontmatter, validateMetadata } from './yaml-parser';
+import { notifyWatchers } from './subscriptions';
+import { emitWebhookEvent, webhookSpecData } from './webhooks';
+import { AppError, ErrorCode } from './errors';
+import { SessionPayload } from '../types/auth';
+import { Spec, SpecType, TraceabilityLink } from '../types/spec';
+import { SpecTemplate } from '../types/template';
+
+// Type of the children proposed for each parent type
+export const CHILD_SPEC_TYPES: Partial<Record<SpecType, SpecType>> = {
+  epic: 'user-story',
+  'user-story': 'test-case',
+};
+
+const CHILD_GUIDANCE: Partial<Record<SpecType, string>> = {
+  'user-story':
+    'Child type: user story. Write each story as "As a ..., I want ..., so that ..." and give it 3-5 testable acceptance criteria as a checkbox list.',
+  'test-case':
+    'Child type: test case. Each test case checks one behaviour of the parent story, such as an acceptance criterion, an edge case or an error condition, with numbered steps and expected results.',
+};
+
+// Longest title and body accepted for a child spec
+const MAX_TITLE_LENGTH = 200;
+const MAX_CONTENT_LENGTH = 50000;
+
+// Zod schema for child spec creation payloads
+export const ChildSpecsSchema = z.object({
+  specs: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1, 'Title is required').max(MAX_TITLE_LENGTH),
+        content: z.string().max(MAX_CONTENT_LENGTH),
+        tags: z.array(z.string().trim().min(1)).optional(),
+      })
+    )
+    .min(1, 'Select at least one spec')
+    .max(20),
+});
+
+export interface ChildSpecProposal {
+  title: string;
+  type: SpecType;
+  tags: string[];
+  // Markdown body without frontmatter, in the shape of the type's template
+  content: string;
+}
+
+export interface ChildSpecProposals {
+  parentId: string;
+  childType: SpecType;
+  proposals: ChildSpecProposal[];
+  tokensUsed: number;
+  model: string;
+}
+
+const ProposalResponseSchema = z.object({
+  specs: z.array(
+    z.object({
+      title: z.string(),
+      content: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+    })
+  ),
+});
+
+function childTemplate(parent: Spec): { childType: SpecType; template: SpecTemplate } {
+  const childType = CHILD_SPEC_TYPES[parent.metadata.type];
+  const template = childType && getTemplateById(childType);
+  if (!childType || !template) {
+    throw new AppError(
+      ErrorCode.VALIDATION_ERROR,
+      `Child specs can only be generated for ${Object.keys(CHILD_SPEC_TYPES).join(' and ')} specs`,
+      undefined,
+      400
+    );
+  }
+  return { childType, template };
+}
+
+/**
+ * Body in the shape of the template: a level 1 title, then each level 2
+ * section of the template in its order
+ * Sections the body lacks are taken from the template. Sections the template
+ * does not have are kept at the end.
+ */
+export function conformToTemplate(title: string, body: string, template: SpecTemplate): string {
+  const bodySections = parseSections(stripFrontmatter(body)).filter((section) => section.level === 2);
+  const templateSections = parseSections(template.content).filter((section) => section.level === 2);
+  const byHeading = new Map(bodySections.map((section) => [section.heading.trim().toLowerCase(), section]));
+
+  const sections = templateSections.map((section) => {
+    const key = section.heading.trim().toLowerCase();
+    const match = byHeading.get(key);
+    byHeading.delete(key);
+    return `## ${section.heading}\n${(match?.body || section.body).trim()}`;
+  });
+  for (const section of byHeading.values()) {
+    sections.push(`## ${section.heading}\n${section.body.trim()}`);
+  }
+
+  return `# ${title}\n\n${sections.join('\n\n')}\n`;
+}
+
+// The JSON object in a model response, which may be wrapped in prose or code fences
+function parseProposalResponse(text: string): z.infer<typeof ProposalResponseSchema> {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  try {
+    if (start === -1 || end < start) throw new Error('No JSON object found');
+    return ProposalResponseSchema.parse(JSON.parse(text.slice(start, end + 1)));
+  } catch (error) {
+    throw new AppError(
+      ErrorCode.INTERNAL_ERROR,
+      'The AI response could not be read as child specs',
+      error instanceof Error ? error.message : undefined,
+      502
+    );
+  }
+}
+
+/**
+ * Ask the AI for child specs of an epic (user stories) or of a user story
+ * (test cases), each in the shape of the child type's template
+ * Nothing is saved; usage counts towards the user's quota.
+ */
+export async function proposeChildSpecs(parentId: string, user: SessionPayload): Promise<ChildSpecProposals> {
+  const parent = await new SpecRepository().findById(parentId);
+  if (!parent) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'Spec not found', undefined, 404);
+  }
+  const { childType, template } = childTemplate(parent);
+
+  const parentBody = stripFrontmatter(parent.content);
+  const related = await assembleAIContext(parent._id, parentBody, '').catch((error) => {
+    console.error('Error assembling AI context:', error);
+    return null;
+  });
+  const context = [
+    CHILD_GUIDANCE[childType],
+    `Template:\n${template.content}`,
+    related?.text ? `Related specs and references:\n\n${related.text}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const options = {
+    action: 'generate-children' as const,
+    selectedText: `# ${parent.title}\n\n${parentBody}`,
+    context,
+  };
+  try {
+    await enforceQuota(user.userId, estimateTokenCost(options));
+  } catch (error) {
+    throw new AppError(
+      ErrorCode.QUOTA_EXCEEDED,
+      error instanceof Error ? error.message : 'Daily quota exceeded',
+      undefined,
+      429
+    );
+  }
+
+  const result = await generateWithAI(options).catch((error) => {
+    if (error instanceof AIProviderError) {
+      throw new AppError(ErrorCode.INTERNAL_ERROR, 'AI service is temporarily unavailable', error.message, 503);
+    }
+    throw error;
+  });
+  await recordUsage(user.userId, parent._id, options.action, result.model, result.tokensUsed);
+
+  const response = parseProposalResponse(result.generatedText);
+  const proposals = response.specs
+    .filter((spec) => spec.title.trim())
+    .map((spec) => {
+      const title = spec.title.trim().slice(0, MAX_TITLE_LENGTH);
+      return {
+        title,
+        type: childType,
+        tags: [...new Set((spec.tags || []).map((tag) => tag.trim()).filter(Boolean))],
+        content: conformToTemplate(title, spec.content || '', template),
+      };
+    });
+
+  return { parentId: parent._id, childType, proposals, tokensUsed: result.tokensUsed, model: result.model };
+}
+
+/**
+ * Create accepted child specs and link each to the parent
+ * Children get the type proposed for the parent and the initial stage of
+ * that type's workflow; bodies are brought into the template's shape. If a
+ * write fails, the specs and links already written are removed again, as
+ * Cosmos DB cannot write specs and links in one transaction.
+ */
+export async function createChildSpecs(
+  parentId: string,
+  input: z.infer<typeof ChildSpecsSchema>,
+  user: SessionPayload
+): Promise<{ specs: Spec[]; links: TraceabilityLink[] }> {
+  const specRepo = new SpecRepository();
+  const parent = await specRepo.findById(parentId);
+  if (!parent) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'Spec not found', undefined, 404);
+  }
+  const { childType, template } = childTemplate(parent);
+  const workflow = await getWorkflowForSpecType(childType);
+
+  const documents = input.specs.map((spec) => {
+    const metadata = validateMetadata({
+      ...template.frontmatter,
+      title: spec.title,
+      status: workflow.initialStage,
+      type: childType,
+      tags: spec.tags || [],
+    });
+    return {
+      metadata,
+      content: combineMarkdown(metadata, conformToTemplate(spec.title, spec.content, template)),
+    };
+  });
+
+  const traceabilityRepo = new TraceabilityRepository();
+  const specs: Spec[] = [];
+  const links: TraceabilityLink[] = [];
+  try {
+    for (const document of documents) {
+      const spec = await specRepo.createSpec(
+        document.metadata.title,
+        document.content,
+        document.metadata,
+        user.userId
+      );
+      specs.push(spec);
+      links.push(await traceabilityRepo.createLink(parent._id, spec._id, user.email));
+    }
+  } catch (error) {
+    await Promise.all([
+      ...links.map((link) => traceabilityRepo.deleteLink(link.parentId, link.childId)),
+      ...specs.map((spec) => specRepo.deleteById(spec._id)),
+    ]).catch((cleanupError) => {
+      console.error(`Error removing child specs of ${parent._id} after a failed create:`, cleanupError);
+    });
+    throw error;
+  }
+
+  await notifyWatchers({
+    type: 'link',
+    spec: parent,
+    actor: user,
+    message: `Added ${specs.length} child spec${specs.length === 1 ? '' : 's'}: ${specs.map((spec) => `"${spec.title}"`).join(', ')}`,
+  });
+
+  for (const [index, spec] of specs.entries()) {
+    await emitWebhookEvent('spec.created', { spec: webhookSpecData(spec) }, user);
+    await emitWebhookEvent(
+      'traceability.linked',
+      { link: links[index], parent: webhookSpecData(parent), child: webhookSpecData(spec) },
+      user
+    );
+  }
+
+  return { specs, links };
+}
@@ -0,0 +1,280 @@
+// Browser side of a collaborative editing session
+import { apply, compose, diffOperation, isNoop, transform, transformSelection } from './text-operation';
+import {
+  CollabParticipant,
+  CollabSelection,
+  CollabServerMessage,
+  TextOperation,
+} from '@/types/collab';
+import { SpecMetadata } from '@/types/spec';
+
+export type CollabStatus =
+  // First connection attempt
+  | 'connecting'
+  | 'connected'
+  // Lost the connection after joining; local edits are kept and sent on reconnect
+  | 'reconnecting'
+  // Never joined, e.g. the collaboration server is not running
+  | 'unavailable';
+
+export interface CollabClientCallbacks {
+  // Apply a change made by someone else to the local document
+  onRemoteOperation: (operation: TextOperation) => void;
+  onParticipants: (participants: CollabParticipant[]) => void;
+  onStatus: (status: CollabStatus) => void;
+  onSaved: (version: number, savedAt: Date) => void;
+  onError: (message: string) => void;
+}
+
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000];
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * URL of a spec's editing session; the server listens on its own port next
+ * to the app unless NEXT_PUBLIC_COLLAB_URL points elsewhere
+ */
+export function collabUrl(specId: string, token: string): string {
+  const base =
+    process.env.NEXT_PUBLIC_COLLAB_URL ||
+    `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.hostname}:3001`;
+  return `${base.replace(/\/$/, '')}/specs/${encodeURIComponent(specId)}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Keeps a local copy of a spec in step with the server
+ *
+ * At most one operation is in flight: local edits made while waiting for
+ * its acknowledgement are composed into a buffer and sent after it, and
+ * remote operations are transformed against both before they are applied.
+ */
+export class CollabClient {
+  private socket: WebSocket | null = null;
+  private closed = false;
+  private joined = false;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private clientId: string | null = null;
+  private revision = 0;
+  // Document as of `revision`, before local edits the server has not applied
+  private serverDocument = '';
+  // Local document, including pending edits
+  private document: string;
+  private outstanding: TextOperation | null = null;
+  private buffer: TextOperation | null = null;
+  private selection: CollabSelection | null = null;
+  private participants: CollabParticipant[] = [];
+
+  canEdit = false;
+
+  constructor(
+    private url: string,
+    document: string,
+    private callbacks: CollabClientCallbacks
+  ) {
+    this.document = document;
+  }
+
+  get status(): CollabStatus {
+    if (this.socket?.readyState === WebSocket.OPEN && this.clientId) return 'connected';
+    return this.joined ? 'reconnecting' : this.closed ? 'unavailable' : 'connecting';
+  }
+
+  get text(): string {
+    return this.document;
+  }
+
+  connect(): void {
+    this.closed = false;
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    // A firewalled port can leave the socket connecting for minutes
+    const timeout = setTimeout(() => {
+      if (socket.readyState === WebSocket.CONNECTING) socket.close();
+    }, CONNECT_TIMEOUT_MS);
+    socket.onopen = () => clearTimeout(timeout);
+
+    socket.onmessage = (event) => this.receive(JSON.parse(event.data) as CollabServerMessage);
+    socket.onclose = () => {
+      clearTimeout(timeout);
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clientId = null;
+
+      if (!this.joined) {
+        // Nothing to resume; the editor falls back to saving through the API
+        this.closed = true;
+      } else if (!this.closed) {
+        const delay = RECONNECT_DELAYS_MS[Math.min(this.attempts++, RECONNECT_DELAYS_MS.length - 1)];
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+      }
+      this.callbacks.onStatus(this.status);
+    };
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  /**
+   * Record an edit made in the local editor
+   */
+  applyLocal(operation: TextOperation, selection: CollabSelection | null): void {
+    if (isNoop(operation)) return;
+    this.document = apply(this.document, operation);
+    this.selection = selection;
+
+    if (this.outstanding) {
+      this.buffer = this.buffer ? compose(this.buffer, operation) : operation;
+    } else {
+      this.outstanding = operation;
+      this.sendOperation(operation);
+    }
+  }
+
+  updateSelection(selection: CollabSelection | null): void {
+    this.selection = selection;
+    // Offsets only mean something to the server once it has our edits
+    if (!this.outstanding) this.send({ type: 'selection', selection });
+  }
+
+  save(metadata?: SpecMetadata): void {
+    this.send({ type: 'save', metadata });
+  }
+
+  private receive(message: CollabServerMessage): void {
+    switch (message.type) {
+      case 'init':
+        return this.initialize(message);
+      case 'ack':
+        return this.acknowledge(message.revision);
+      case 'operation':
+        this.receiveOperation(message.operation, message.revision);
+        return this.setSelection(message.clientId, message.selection ?? null);
+      case 'selection':
+        return this.setSelection(message.clientId, message.selection);
+      case 'presence':
+        this.participants = message.participants;
+        return this.callbacks.onParticipants(this.remoteParticipants());
+      case 'saved':
+        return this.callbacks.onSaved(message.version, new Date(message.savedAt));
+      case 'error':
+        if (message.code === 'OUT_OF_SYNC') {
+          // Drop the rejected edits; rejoining replaces the document with the server's
+          this.outstanding = null;
+          this.buffer = null;
+          this.socket?.close();
+        }
+        return this.callbacks.onError(message.message);
+    }
+  }
+
+  /**
+   * Join or rejoin the session: edits made while disconnected are
+   * rebased onto whatever changed on the server in the meantime
+   */
+  private initialize(message: Extract<CollabServerMessage, { type: 'init' }>): void {
+    const pending = this.outstanding && this.buffer ? compose(this.outstanding, this.buffer) : this.outstanding;
+    const base = this.joined ? this.serverDocument : message.document;
+
+    this.joined = true;
+    this.attempts = 0;
+    this.clientId = message.clientId;
+    this.canEdit = message.canEdit;
+    this.revision = message.revision;
+    this.serverDocument = message.document;
+    this.outstanding = null;
+    this.buffer = null;
+    this.participants = message.participants;
+
+    let remote = diffOperation(this.document, message.document);
+    // Edits applied by the server just before the connection dropped, so the acknowledgement was lost
+    const alreadyApplied = pending !== null && apply(base, pending) === message.document;
+    if (pending && message.canEdit && !alreadyApplied) {
+      const [remotePrime, pendingPrime] = transform(diffOperation(base, message.document), pending);
+      remote = remotePrime;
+      if (!isNoop(pendingPrime)) {
+        this.outstanding = pendingPrime;
+        this.sendOperation(pendingPrime);
+      }
+    }
+    this.applyRemote(remote);
+
+    this.callbacks.onStatus(this.status);
+    this.callbacks.onParticipants(this.remoteParticipants());
+    if (!this.outstanding && this.selection) this.send({ type: 'selection', selection: this.selection });
+  }
+
+  private acknowledge(revision: number): void {
+    if (!this.outstanding) return;
+    this.revision = revision;
+    this.serverDocument = apply(this.serverDocument, this.outstanding);
+    this.outstanding = this.buffer;
+    this.buffer = null;
+
+    if (this.outstanding) {
+      this.sendOperation(this.outstanding);
+    } else if (this.selection) {
+      this.send({ type: 'selection', selection: this.selection });
+    }
+  }
+
+  private receiveOperation(operation: TextOperation, revision: number): void {
+    this.revision = revision;
+    this.serverDocument = apply(this.serverDocument, operation);
+
+    let remote = operation;
+    if (this.outstanding) {
+      [remote, this.outstanding] = transform(remote, this.outstanding);
+    }
+    if (this.buffer) {
+      [remote, this.buffer] = transform(remote, this.buffer);
+    }
+    if (this.selection) this.selection = transformSelection(this.selection, remote);
+    this.participants = this.participants.map((participant) =>
+      participant.selection
+        ? { ...participant, selection: transformSelection(participant.selection, remote) }
+        : participant
+    );
+    this.applyRemote(remote);
+  }
+
+  private applyRemote(operation: TextOperation): void {
+    if (isNoop(operation)) return;
+    this.document = apply(this.document, operation);
+    this.callbacks.onRemoteOperation(operation);
+  }
+
+  // Selections arrive in server offsets; local edits not yet applied there shift them
+  private setSelection(clientId: string | null, selection: CollabSelection | null): void {
+    if (clientId && clientId !== this.clientId) {
+      let local = selection;
+      if (local && this.outstanding) local = transformSelection(local, this.outstanding);
+      if (local && this.buffer) local = transformSelection(local, this.buffer);
+
+      this.participants = this.participants.map((participant) =>
+        participant.clientId === clientId ? { ...participant, selection: local } : participant
+      );
+    }
+    this.callbacks.onParticipants(this.remoteParticipants());
+  }
+
+  private remoteParticipants(): CollabParticipant[] {
+    return this.participants.filter((participant) => participant.clientId !== this.clientId);
+  }
+
+  private sendOperation(operation: TextOperation): void {
+    this.send({ type: 'operation', revision: this.revision, operation, selection: this.selection });
+  }
+
+  private send(message: object): void {
+    if (this.socket?.readyState === WebSocket.OPEN && this.clientId) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
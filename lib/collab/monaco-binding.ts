@@ -0,0 +1,168 @@
+// Connects a Monaco editor to a collaborative editing session
+import type { OnMount } from '@monaco-editor/react';
+import { CollabClient } from './client';
+import { insert, remove, retain } from './text-operation';
+import { CollabParticipant, CollabSelection, TextOperation } from '@/types/collab';
+
+export type MonacoEditor = Parameters<OnMount>[0];
+type ContentChangeEvent = Parameters<Parameters<MonacoEditor['onDidChangeModelContent']>[0]>[0];
+type EditOperation = Parameters<NonNullable<ReturnType<MonacoEditor['getModel']>>['applyEdits']>[0][number];
+
+// CSS string literal for a participant's name in a cursor label
+function cssString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&').replace(/[\r\n]+/g, ' ')}"`;
+}
+
+/**
+ * Sends local edits and selections to the session, applies remote edits to
+ * the editor, and shows other participants' cursors and selections with
+ * their names
+ */
+export class MonacoCollabBinding {
+  private applyingRemote = false;
+  private decorations: ReturnType<MonacoEditor['createDecorationsCollection']>;
+  private style: HTMLStyleElement;
+  private subscriptions: { dispose(): void }[];
+
+  constructor(
+    private editor: MonacoEditor,
+    private client: CollabClient
+  ) {
+    this.decorations = editor.createDecorationsCollection();
+    this.style = document.createElement('style');
+    document.head.appendChild(this.style);
+
+    this.subscriptions = [
+      editor.onDidChangeModelContent((event) => this.handleLocalChange(event)),
+      editor.onDidChangeCursorSelection(() => {
+        if (!this.applyingRemote) this.client.updateSelection(this.selection());
+      }),
+    ];
+  }
+
+  applyRemote(operation: TextOperation): void {
+    const model = this.editor.getModel();
+    if (!model) return;
+
+    // Edits are made against the document before the operation, as Monaco expects
+    const edits: EditOperation[] = [];
+    const rangeAt = (from: number, to: number) => {
+      const start = model.getPositionAt(from);
+      const end = model.getPositionAt(to);
+      return {
+        startLineNumber: start.lineNumber,
+        startColumn: start.column,
+        endLineNumber: end.lineNumber,
+        endColumn: end.column,
+      };
+    };
+
+    let index = 0;
+    operation.forEach((component, i) => {
+      if (typeof component === 'string') {
+        edits.push({ range: rangeAt(index, index), text: component });
+      } else if (component > 0) {
+        index += component;
+      } else {
+        const range = rangeAt(index, index - component);
+        // An insert directly before a delete replaces the deleted text
+        if (typeof operation[i - 1] === 'string') {
+          edits[edits.length - 1].range = range;
+        } else {
+          edits.push({ range, text: '' });
+        }
+        index -= component;
+      }
+    });
+
+    this.applyingRemote = true;
+    try {
+      model.applyEdits(edits);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  renderParticipants(participants: CollabParticipant[]): void {
+    const model = this.editor.getModel();
+    if (!model) return;
+
+    this.style.textContent = participants
+      .map(({ clientId, color, name }) =>
+        [
+          `.collab-selection-${clientId} { background-color: ${color}33; }`,
+          `.collab-cursor-${clientId} { position: relative; border-left: 2px solid ${color}; margin-left: -1px; }`,
+          `.collab-cursor-${clientId}::after { content: ${cssString(name)}; position: absolute; left: -2px; top: -1.2em; ` +
+            `padding: 0 4px; border-radius: 2px; background: ${color}; color: #fff; font-size: 10px; line-height: 1.2em; ` +
+            'white-space: nowrap; pointer-events: none; z-index: 10; }',
+        ].join('\n')
+      )
+      .join('\n');
+
+    const maxOffset = model.getValueLength();
+    this.decorations.set(
+      participants.flatMap(({ clientId, name, selection }) => {
+        if (!selection) return [];
+        const anchor = model.getPositionAt(Math.min(selection.anchor, maxOffset));
+        const head = model.getPositionAt(Math.min(selection.head, maxOffset));
+        const [start, end] = selection.anchor <= selection.head ? [anchor, head] : [head, anchor];
+
+        return [
+          {
+            range: {
+              startLineNumber: start.lineNumber,
+              startColumn: start.column,
+              endLineNumber: end.lineNumber,
+              endColumn: end.column,
+            },
+            options: { className: `collab-selection-${clientId}`, hoverMessage: { value: name } },
+          },
+          {
+            range: {
+              startLineNumber: head.lineNumber,
+              startColumn: head.column,
+              endLineNumber: head.lineNumber,
+              endColumn: head.column,
+            },
+            options: { beforeContentClassName: `collab-cursor-${clientId}` },
+          },
+        ];
+      })
+    );
+  }
+
+  dispose(): void {
+    for (const subscription of this.subscriptions) subscription.dispose();
+    this.decorations.clear();
+    this.style.remove();
+  }
+
+  private handleLocalChange(event: ContentChangeEvent): void {
+    if (this.applyingRemote) return;
+
+    // Changes in one event are all relative to the document before it
+    const changes = [...event.changes].sort((a, b) => a.rangeOffset - b.rangeOffset);
+    const operation: TextOperation = [];
+    let index = 0;
+    for (const change of changes) {
+      retain(operation, change.rangeOffset - index);
+      insert(operation, change.text);
+      remove(operation, change.rangeLength);
+      index = change.rangeOffset + change.rangeLength;
+    }
+    retain(operation, this.client.text.length - index);
+
+    this.client.applyLocal(operation, this.selection());
+  }
+
+  private selection(): CollabSelection | null {
+    const model = this.editor.getModel();
+    const selection = this.editor.getSelection();
+    if (!model || !selection) return null;
+
+    return {
+      anchor: model.getOffsetAt({ lineNumber: selection.selectionStartLineNumber, column: selection.selectionStartColumn }),
+      head: model.getOffsetAt(selection.getPosition()),
+    };
+  }
+}
@@ -0,0 +1,353 @@
+// Shared editing sessions, one per open spec
+import { randomBytes } from 'crypto';
+import { SpecRepository } from '../repositories/spec-repository';
+import { validateMetadata } from '../yaml-parser';
+import { env } from '../env';
+import { AppError, ErrorCode } from '../errors';
+import { apply, diffOperation, isNoop, isTextOperation, transform, transformSelection } from './text-operation';
+import { collabDocument, saveCollabSnapshot } from './snapshot';
+import { WebSocketConnection } from './websocket';
+import { SessionPayload } from '../../types/auth';
+import { Spec } from '../../types/spec';
+import {
+  CollabClientMessage,
+  CollabParticipant,
+  CollabSelection,
+  CollabServerMessage,
+  TextOperation,
+} from '../../types/collab';
+
+// Cursor colors, assigned to participants in order of joining
+const PARTICIPANT_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+interface RoomClient {
+  id: string;
+  session: SessionPayload;
+  name: string;
+  color: string;
+  canEdit: boolean;
+  selection: CollabSelection | null;
+  connection: WebSocketConnection;
+}
+
+/**
+ * Live document of a spec shared by everyone editing it
+ *
+ * Operations are applied in the order they arrive: each is transformed
+ * against the operations applied since the revision it was made against,
+ * then acknowledged to its sender and broadcast to everyone else. Edits are
+ * saved as a spec version a while after the first unsaved change, on an
+ * explicit save, and when the last participant leaves.
+ */
+export class CollabRoom {
+  private clients = new Map<string, RoomClient>();
+  // history[n] turned revision n into revision n + 1
+  private history: TextOperation[] = [];
+  private document: string;
+  private version: number;
+  // Author of the latest unsaved change, credited with the next snapshot
+  private lastEditor: SessionPayload | null = null;
+  private snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly specId: string,
+    spec: Spec,
+    private onEmpty: (room: CollabRoom) => void
+  ) {
+    this.document = collabDocument(spec);
+    this.version = spec.currentVersion;
+  }
+
+  get revision(): number {
+    return this.history.length;
+  }
+
+  get isEmpty(): boolean {
+    return this.clients.size === 0;
+  }
+
+  join(connection: WebSocketConnection, session: SessionPayload, name: string, canEdit: boolean): void {
+    const usedColors = new Set([...this.clients.values()].map((client) => client.color));
+    const client: RoomClient = {
+      id: randomBytes(8).toString('hex'),
+      session,
+      name,
+      color:
+        PARTICIPANT_COLORS.find((color) => !usedColors.has(color)) ||
+        PARTICIPANT_COLORS[this.clients.size % PARTICIPANT_COLORS.length],
+      canEdit,
+      selection: null,
+      connection,
+    };
+    this.clients.set(client.id, client);
+
+    connection.on('message', (data: string) => this.receive(client, data));
+    connection.on('close', () => this.leave(client));
+
+    this.send(client, {
+      type: 'init',
+      clientId: client.id,
+      document: this.document,
+      revision: this.revision,
+      version: this.version,
+      canEdit,
+      participants: this.participants(),
+    });
+    this.broadcastPresence(client);
+  }
+
+  /**
+   * Replace the document after the spec was changed outside the editor, e.g.
+   * by a git sync or an edit through the API; unsaved edits are discarded
+   */
+  replaceDocument(spec: Spec): void {
+    const operation = diffOperation(this.document, collabDocument(spec));
+    this.version = spec.currentVersion;
+    this.lastEditor = null;
+    this.cancelSnapshot();
+    if (isNoop(operation)) return;
+
+    this.applyOperation(null, operation);
+  }
+
+  /**
+   * Save pending edits; snapshots run one at a time
+   */
+  private snapshot(requester?: RoomClient, metadata?: Spec['metadata']): Promise<void> {
+    this.saving = this.saving.then(() => this.saveSnapshot(requester, metadata));
+    return this.saving;
+  }
+
+  private async saveSnapshot(requester?: RoomClient, metadata?: Spec['metadata']): Promise<void> {
+    this.cancelSnapshot();
+    const author = requester?.session || this.lastEditor;
+    if (!author) return;
+
+    const document = this.document;
+    const editor = this.lastEditor;
+    this.lastEditor = null;
+
+    try {
+      const spec = await saveCollabSnapshot(this.specId, document, author, metadata);
+      if (spec) {
+        this.version = spec.currentVersion;
+        this.broadcast({ type: 'saved', version: spec.currentVersion, savedAt: spec.updatedAt, savedBy: author.email });
+      } else if (requester) {
+        // Nothing to save; confirm to the requester that the version is current
+        this.send(requester, { type: 'saved', version: this.version, savedAt: new Date(), savedBy: author.email });
+      }
+    } catch (error) {
+      console.error(`Error saving collaborative edits of spec ${this.specId}:`, error);
+      // Keep the edits pending so the next snapshot retries them
+      this.lastEditor = this.lastEditor || editor || author;
+      this.scheduleSnapshot();
+      if (requester) {
+        if (error instanceof AppError && error.code === ErrorCode.VALIDATION_ERROR) {
+          this.sendError(requester, error.code, error.message);
+        } else {
+          this.sendError(requester, 'SAVE_FAILED', 'Failed to save spec');
+        }
+      }
+    }
+  }
+
+  private receive(client: RoomClient, data: string): void {
+    let message: CollabClientMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return this.sendError(client, 'VALIDATION_ERROR', 'Messages must be JSON');
+    }
+
+    switch (message?.type) {
+      case 'operation':
+        return this.receiveOperation(client, message);
+      case 'selection':
+        client.selection = this.clampSelection(message.selection);
+        return this.broadcast({ type: 'selection', clientId: client.id, selection: client.selection }, client);
+      case 'save':
+        return this.receiveSave(client, message);
+      default:
+        return this.sendError(client, 'VALIDATION_ERROR', 'Unknown message type');
+    }
+  }
+
+  private receiveOperation(client: RoomClient, message: Extract<CollabClientMessage, { type: 'operation' }>): void {
+    if (!client.canEdit) {
+      return this.sendError(client, 'FORBIDDEN', 'Insufficient permissions to edit specs');
+    }
+    if (
+      !isTextOperation(message.operation) ||
+      !Number.isInteger(message.revision) ||
+      message.revision < 0 ||
+      message.revision > this.revision
+    ) {
+      return this.sendError(client, 'VALIDATION_ERROR', 'Invalid operation');
+    }
+
+    // Catch the operation and the sender's selection up with the operations it has not seen
+    let operation = message.operation;
+    let selection = message.selection || null;
+    try {
+      for (const concurrent of this.history.slice(message.revision)) {
+        const [concurrentPrime, operationPrime] = transform(concurrent, operation);
+        operation = operationPrime;
+        if (selection) selection = transformSelection(selection, concurrentPrime);
+      }
+      this.applyOperation(client, operation, selection);
+    } catch (error) {
+      console.error(`Rejected operation on spec ${this.specId}:`, error);
+      // The client's document has diverged; it reloads on this error
+      return this.sendError(client, 'OUT_OF_SYNC', 'Operation does not apply to the document');
+    }
+
+    this.lastEditor = client.session;
+    this.scheduleSnapshot();
+  }
+
+  private receiveSave(client: RoomClient, message: Extract<CollabClientMessage, { type: 'save' }>): void {
+    if (!client.canEdit) {
+      return this.sendError(client, 'FORBIDDEN', 'Insufficient permissions to edit specs');
+    }
+
+    let metadata: Spec['metadata'] | undefined;
+    try {
+      metadata = message.metadata ? validateMetadata(message.metadata) : undefined;
+    } catch {
+      return this.sendError(client, 'VALIDATION_ERROR', 'Invalid metadata');
+    }
+
+    void this.snapshot(client, metadata);
+  }
+
+  private applyOperation(client: RoomClient | null, operation: TextOperation, selection: CollabSelection | null = null): void {
+    this.document = apply(this.document, operation);
+    this.history.push(operation);
+
+    for (const other of this.clients.values()) {
+      if (other !== client && other.selection) other.selection = transformSelection(other.selection, operation);
+    }
+    if (client) {
+      client.selection = this.clampSelection(selection);
+      this.send(client, { type: 'ack', revision: this.revision });
+    }
+
+    this.broadcast(
+      { type: 'operation', clientId: client?.id ?? null, revision: this.revision, operation, selection: client?.selection },
+      client
+    );
+  }
+
+  private leave(client: RoomClient): void {
+    if (!this.clients.delete(client.id)) return;
+    this.broadcastPresence();
+
+    if (this.isEmpty) {
+      void this.snapshot().then(() => {
+        if (this.isEmpty) this.onEmpty(this);
+      });
+    }
+  }
+
+  private scheduleSnapshot(): void {
+    if (this.snapshotTimer || !this.lastEditor) return;
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      void this.snapshot();
+    }, env.collab.snapshotIntervalMs);
+  }
+
+  private cancelSnapshot(): void {
+    if (this.snapshotTimer) clearTimeout(this.snapshotTimer);
+    this.snapshotTimer = null;
+  }
+
+  private clampSelection(selection: CollabSelection | null | undefined): CollabSelection | null {
+    if (!selection || !Number.isInteger(selection.anchor) || !Number.isInteger(selection.head)) return null;
+    const clamp = (offset: number) => Math.max(0, Math.min(offset, this.document.length));
+    return { anchor: clamp(selection.anchor), head: clamp(selection.head) };
+  }
+
+  private participants(): CollabParticipant[] {
+    return [...this.clients.values()].map((client) => ({
+      clientId: client.id,
+      userId: client.session.userId,
+      name: client.name,
+      color: client.color,
+      canEdit: client.canEdit,
+      selection: client.selection,
+    }));
+  }
+
+  private broadcastPresence(except?: RoomClient): void {
+    this.broadcast({ type: 'presence', participants: this.participants() }, except);
+  }
+
+  private broadcast(message: CollabServerMessage, except?: RoomClient | null): void {
+    const data = JSON.stringify(message);
+    for (const client of this.clients.values()) {
+      if (client !== except) client.connection.send(data);
+    }
+  }
+
+  private send(client: RoomClient, message: CollabServerMessage): void {
+    client.connection.send(JSON.stringify(message));
+  }
+
+  private sendError(client: RoomClient, code: string, message: string): void {
+    this.send(client, { type: 'error', code, message });
+  }
+}
+
+// Rooms live on globalThis so that route handlers, which may be bundled
+// separately from the server started in instrumentation.ts, see the same ones
+const ROOMS_KEY = Symbol.for('speccraft.collab.rooms');
+
+function rooms(): Map<string, Promise<CollabRoom | null>> {
+  const registry = globalThis as typeof globalThis & { [ROOMS_KEY]?: Map<string, Promise<CollabRoom | null>> };
+  registry[ROOMS_KEY] = registry[ROOMS_KEY] || new Map();
+  return registry[ROOMS_KEY];
+}
+
+/**
+ * Room of a spec, opened on first use; null if the spec does not exist
+ */
+export function getRoom(specId: string): Promise<CollabRoom | null> {
+  const open = rooms();
+  let room = open.get(specId);
+  if (!room) {
+    room = new SpecRepository().findById(specId).then((spec) =>
+      spec ? new CollabRoom(specId, spec, (empty) => closeRoom(empty)) : null
+    );
+    open.set(specId, room);
+    // Failed or missing specs are looked up again next time
+    room.then(
+      (opened) => {
+        if (!opened) open.delete(specId);
+      },
+      () => open.delete(specId)
+    );
+  }
+  return room;
+}
+
+function closeRoom(room: CollabRoom): void {
+  const open = rooms();
+  void open.get(room.specId)?.then((current) => {
+    if (current === room && room.isEmpty) open.delete(room.specId);
+  });
+}
+
+/**
+ * Bring an open room up to date with a spec version saved outside the editor
+ * Call after every content change that does not come from the room itself.
+ */
+export async function syncCollabDocument(spec: Spec): Promise<void> {
+  try {
+    const room = await rooms().get(spec._id);
+    room?.replaceDocument(spec);
+  } catch (error) {
+    console.error(`Error updating collaborative session of spec ${spec._id}:`, error);
+  }
+}
@@ -0,0 +1,103 @@
+// WebSocket server for real-time collaborative editing (see docs/COLLABORATION.md)
+import { createServer, IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { verifyToken } from '../auth';
+import { hasPermission } from '../permissions';
+import { env } from '../env';
+import { UserRepository } from '../repositories/user-repository';
+import { getRoom } from './rooms';
+import { acceptUpgrade, rejectUpgrade, WebSocketConnection } from './websocket';
+
+// Generous for a full document replacement; edits are usually a few bytes
+const MAX_MESSAGE_SIZE = 4 * 1024 * 1024;
+const PING_INTERVAL_MS = 30000;
+
+const SERVER_KEY = Symbol.for('speccraft.collab.server');
+
+/**
+ * Start the collaboration server, once per process
+ * Editors connect to `/specs/<specId>?token=<jwt>`; the token is passed in
+ * the URL because browsers cannot set headers on WebSocket requests.
+ */
+export function startCollabServer(port = env.collab.port): Server {
+  const registry = globalThis as typeof globalThis & { [SERVER_KEY]?: Server };
+  const running = registry[SERVER_KEY];
+  if (running) return running;
+
+  const connections = new Set<WebSocketConnection>();
+
+  const server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain', Upgrade: 'websocket' });
+    response.end('Upgrade Required');
+  });
+
+  server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Errors are handled by the connection once open
+    socket.on('error', () => socket.destroy());
+
+    handleUpgrade(request, socket, head)
+      .then((connection) => {
+        if (!connection) return;
+        connections.add(connection);
+        connection.on('close', () => connections.delete(connection));
+      })
+      .catch((error) => {
+        console.error('Error opening collaboration session:', error);
+        rejectUpgrade(socket, 500, 'Internal Server Error');
+      });
+  });
+
+  const ping = setInterval(() => {
+    for (const connection of connections) connection.ping();
+  }, PING_INTERVAL_MS);
+  ping.unref();
+  server.on('close', () => clearInterval(ping));
+
+  server.on('error', (error) => {
+    console.error(`Collaboration server failed on port ${port}:`, error);
+    delete registry[SERVER_KEY];
+  });
+  server.listen(port, () => {
+    console.log(`Collaboration server listening on port ${port}`);
+  });
+
+  registry[SERVER_KEY] = server;
+  return server;
+}
+
+async function handleUpgrade(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): Promise<WebSocketConnection | null> {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const match = url.pathname.match(/^\/specs\/([^/]+)$/);
+  if (!match) {
+    rejectUpgrade(socket, 404, 'Not Found');
+    return null;
+  }
+
+  const session = verifyToken(url.searchParams.get('token') || '');
+  if (!session) {
+    rejectUpgrade(socket, 401, 'Unauthorized');
+    return null;
+  }
+  if (!hasPermission(session.role, 'spec:read')) {
+    rejectUpgrade(socket, 403, 'Forbidden');
+    return null;
+  }
+
+  const room = await getRoom(decodeURIComponent(match[1]));
+  if (!room) {
+    rejectUpgrade(socket, 404, 'Not Found');
+    return null;
+  }
+
+  const user = await new UserRepository().findById(session.userId);
+
+  const connection = acceptUpgrade(request, socket, head, { maxMessageSize: MAX_MESSAGE_SIZE });
+  if (!connection) return null;
+
+  room.join(connection, session, user?.name || session.email, hasPermission(session.role, 'spec:update'));
+  return connection;
+}
@@ -0,0 +1,98 @@
+// Saving a co-edited document as a new spec version
+import { SpecRepository } from '../repositories/spec-repository';
+import { RevisionRepository } from '../repositories/revision-repository';
+import { combineMarkdown, stripFrontmatter } from '../yaml-parser';
+import { remapCommentAnchors } from '../comment-anchors';
+import { notifyWatchers } from '../subscriptions';
+import { emitWebhookEvent, webhookSpecData } from '../webhooks';
+import { runAutomationRules } from '../automation';
+import { assertStageUnchanged, invalidStageMessage } from '../workflows';
+import { AppError, ErrorCode } from '../errors';
+import { SessionPayload } from '../../types/auth';
+import { Spec, SpecMetadata } from '../../types/spec';
+
+/**
+ * The editable part of a spec: its markdown without frontmatter, which is
+ * rebuilt from the metadata on save
+ */
+export function collabDocument(spec: Pick<Spec, 'content'>): string {
+  return stripFrontmatter(spec.content).replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Save the document as a new spec version, with the same revision, comment
+ * anchor, notification, webhook and automation handling as an edit through
+ * PUT /api/specs/:id
+ *
+ * The metadata defaults to the spec's current metadata, so stage transitions
+ * made while the document was open are kept; metadata with another stage is
+ * rejected. Returns null without saving if neither the document nor the
+ * metadata changed.
+ */
+export async function saveCollabSnapshot(
+  specId: string,
+  document: string,
+  user: SessionPayload,
+  metadata?: SpecMetadata
+): Promise<Spec | null> {
+  const specRepo = new SpecRepository();
+  const existingSpec = await specRepo.findById(specId);
+  if (!existingSpec) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'Spec not found', undefined, 404);
+  }
+
+  const nextMetadata = metadata || existingSpec.metadata;
+  if (
+    collabDocument(existingSpec) === document.trim() &&
+    JSON.stringify(nextMetadata) === JSON.stringify(existingSpec.metadata)
+  ) {
+    return null;
+  }
+
+  assertStageUnchanged(existingSpec.metadata, nextMetadata);
+  if (nextMetadata.type !== existingSpec.metadata.type) {
+    const stageError = await invalidStageMessage(nextMetadata.type, nextMetadata.status);
+    if (stageError) {
+      throw new AppError(ErrorCode.VALIDATION_ERROR, stageError, undefined, 400);
+    }
+  }
+
+  const updatedSpec = await specRepo.updateSpec(
+    specId,
+    combineMarkdown(nextMetadata, document),
+    nextMetadata,
+    user.userId,
+    existingSpec.currentVersion
+  );
+  if (!updatedSpec) {
+    throw new AppError(ErrorCode.CONFLICT, 'The spec was changed while saving', undefined, 409);
+  }
+
+  await new RevisionRepository().createRevision(
+    existingSpec._id,
+    existingSpec.currentVersion,
+    existingSpec.content,
+    existingSpec.metadata,
+    user.userId,
+    existingSpec.restoredFrom
+  );
+
+  await remapCommentAnchors(specId, existingSpec.content, updatedSpec.content);
+
+  await notifyWatchers({
+    type: 'edit',
+    spec: updatedSpec,
+    actor: user,
+    message: `Version ${updatedSpec.currentVersion}`,
+  });
+
+  await emitWebhookEvent(
+    'spec.updated',
+    { spec: webhookSpecData(updatedSpec), previousVersion: existingSpec.currentVersion },
+    user
+  );
+
+  await runAutomationRules({ trigger: 'edit', spec: updatedSpec, user });
+
+  return updatedSpec;
+}
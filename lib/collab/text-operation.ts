@@ -0,0 +1,286 @@
+// Operational transformation of plain text, shared by the editor and the collaboration server
+import { CollabSelection, TextOperation } from '@/types/collab';
+
+/**
+ * Error for operations that are malformed or do not fit the document
+ */
+export class TextOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TextOperationError';
+  }
+}
+
+function isRetain(component: number | string | undefined): component is number {
+  return typeof component === 'number' && component > 0;
+}
+
+function isInsert(component: number | string | undefined): component is string {
+  return typeof component === 'string';
+}
+
+function isDelete(component: number | string | undefined): component is number {
+  return typeof component === 'number' && component < 0;
+}
+
+export function retain(operation: TextOperation, count: number): TextOperation {
+  if (count <= 0) return operation;
+  const last = operation[operation.length - 1];
+  if (isRetain(last)) {
+    operation[operation.length - 1] = last + count;
+  } else {
+    operation.push(count);
+  }
+  return operation;
+}
+
+/**
+ * Append an insert; inserts are kept before an adjacent delete so that equal
+ * edits always produce the same operation
+ */
+export function insert(operation: TextOperation, text: string): TextOperation {
+  if (text === '') return operation;
+  const last = operation[operation.length - 1];
+  if (isInsert(last)) {
+    operation[operation.length - 1] = last + text;
+  } else if (isDelete(last)) {
+    const previous = operation[operation.length - 2];
+    if (isInsert(previous)) {
+      operation[operation.length - 2] = previous + text;
+    } else {
+      operation[operation.length - 1] = text;
+      operation.push(last);
+    }
+  } else {
+    operation.push(text);
+  }
+  return operation;
+}
+
+export function remove(operation: TextOperation, count: number): TextOperation {
+  const length = -Math.abs(count);
+  if (length === 0) return operation;
+  const last = operation[operation.length - 1];
+  if (isDelete(last)) {
+    operation[operation.length - 1] = last + length;
+  } else {
+    operation.push(length);
+  }
+  return operation;
+}
+
+// Length of the document the operation applies to
+export function baseLength(operation: TextOperation): number {
+  return operation.reduce<number>(
+    (length, component) => (isInsert(component) ? length : length + Math.abs(component)),
+    0
+  );
+}
+
+// Length of the document after the operation
+export function targetLength(operation: TextOperation): number {
+  return operation.reduce<number>(
+    (length, component) =>
+      isInsert(component) ? length + component.length : isRetain(component) ? length + component : length,
+    0
+  );
+}
+
+export function isNoop(operation: TextOperation): boolean {
+  return operation.every(isRetain);
+}
+
+/**
+ * Check that a value received over the wire is a well-formed operation
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (component) =>
+        (typeof component === 'string' && component !== '') ||
+        (typeof component === 'number' && Number.isInteger(component) && component !== 0)
+    )
+  );
+}
+
+/**
+ * Operation turning one document into another, as a single replacement of
+ * the text between their common prefix and suffix
+ */
+export function diffOperation(from: string, to: string): TextOperation {
+  let prefix = 0;
+  const maxPrefix = Math.min(from.length, to.length);
+  while (prefix < maxPrefix && from[prefix] === to[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && from[from.length - 1 - suffix] === to[to.length - 1 - suffix]) suffix++;
+
+  const operation: TextOperation = [];
+  retain(operation, prefix);
+  insert(operation, to.slice(prefix, to.length - suffix));
+  remove(operation, from.length - prefix - suffix);
+  retain(operation, suffix);
+  return operation;
+}
+
+export function apply(document: string, operation: TextOperation): string {
+  if (baseLength(operation) !== document.length) {
+    throw new TextOperationError(
+      `Operation expects a document of length ${baseLength(operation)}, got ${document.length}`
+    );
+  }
+
+  const parts: string[] = [];
+  let index = 0;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      parts.push(document.slice(index, index + component));
+      index += component;
+    } else if (isInsert(component)) {
+      parts.push(component);
+    } else {
+      index -= component;
+    }
+  }
+  return parts.join('');
+}
+
+/**
+ * Combine two consecutive operations into one with the same effect
+ */
+export function compose(first: TextOperation, second: TextOperation): TextOperation {
+  if (targetLength(first) !== baseLength(second)) {
+    throw new TextOperationError('The second operation must apply to the result of the first');
+  }
+
+  const result: TextOperation = [];
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = first[i1++];
+  let op2 = second[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isDelete(op1)) {
+      remove(result, op1);
+      op1 = first[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      insert(result, op2);
+      op2 = second[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new TextOperationError('Cannot compose operations of mismatched lengths');
+    }
+
+    if (isRetain(op1) && isRetain(op2)) {
+      const length = Math.min(op1, op2);
+      retain(result, length);
+      op1 = op1 > length ? op1 - length : first[i1++];
+      op2 = op2 > length ? op2 - length : second[i2++];
+    } else if (isInsert(op1) && isDelete(op2)) {
+      // Text inserted by the first operation and deleted by the second
+      const length = Math.min(op1.length, -op2);
+      op1 = op1.length > length ? op1.slice(length) : first[i1++];
+      op2 = -op2 > length ? op2 + length : second[i2++];
+    } else if (isInsert(op1) && isRetain(op2)) {
+      const length = Math.min(op1.length, op2);
+      insert(result, op1.slice(0, length));
+      op1 = op1.length > length ? op1.slice(length) : first[i1++];
+      op2 = op2 > length ? op2 - length : second[i2++];
+    } else if (isRetain(op1) && isDelete(op2)) {
+      const length = Math.min(op1, -op2);
+      remove(result, length);
+      op1 = op1 > length ? op1 - length : first[i1++];
+      op2 = -op2 > length ? op2 + length : second[i2++];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Transform two concurrent operations made against the same document
+ *
+ * Returns `[first', second']` such that applying `second'` after `first`
+ * gives the same document as applying `first'` after `second`. Inserts at the
+ * same position are ordered with `first`'s text before `second`'s, so the
+ * server always passes the operation it applied earlier as `first`.
+ */
+export function transform(first: TextOperation, second: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(first) !== baseLength(second)) {
+    throw new TextOperationError('Concurrent operations must apply to the same document');
+  }
+
+  const firstPrime: TextOperation = [];
+  const secondPrime: TextOperation = [];
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = first[i1++];
+  let op2 = second[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isInsert(op1)) {
+      insert(firstPrime, op1);
+      retain(secondPrime, op1.length);
+      op1 = first[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      retain(firstPrime, op2.length);
+      insert(secondPrime, op2);
+      op2 = second[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new TextOperationError('Cannot transform operations of mismatched lengths');
+    }
+
+    const length = Math.min(Math.abs(op1), Math.abs(op2));
+    if (isRetain(op1) && isRetain(op2)) {
+      retain(firstPrime, length);
+      retain(secondPrime, length);
+    } else if (isDelete(op1) && isRetain(op2)) {
+      remove(firstPrime, length);
+    } else if (isRetain(op1) && isDelete(op2)) {
+      remove(secondPrime, length);
+    }
+    // Text deleted by both operations needs no further delete
+
+    op1 = Math.abs(op1) > length ? op1 + (op1 > 0 ? -length : length) : first[i1++];
+    op2 = Math.abs(op2) > length ? op2 + (op2 > 0 ? -length : length) : second[i2++];
+  }
+
+  return [firstPrime, secondPrime];
+}
+
+/**
+ * Position of a character offset after an operation; text inserted at the
+ * offset itself pushes it forward, like typing at a cursor
+ */
+export function transformIndex(index: number, operation: TextOperation): number {
+  let remaining = index;
+  let result = index;
+  for (const component of operation) {
+    if (remaining < 0) break;
+    if (isRetain(component)) {
+      remaining -= component;
+    } else if (isInsert(component)) {
+      result += component.length;
+    } else {
+      result -= Math.min(remaining, -component);
+      remaining += component;
+    }
+  }
+  return result;
+}
+
+export function transformSelection(selection: CollabSelection, operation: TextOperation): CollabSelection {
+  return {
+    anchor: transformIndex(selection.anchor, operation),
+    head: transformIndex(selection.head, operation),
+  };
+}
@@ -0,0 +1,240 @@
+// Minimal server side of the WebSocket protocol (RFC 6455) for text messages
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export const CLOSE_NORMAL = 1000;
+export const CLOSE_GOING_AWAY = 1001;
+export const CLOSE_PROTOCOL_ERROR = 1002;
+export const CLOSE_UNSUPPORTED_DATA = 1003;
+export const CLOSE_POLICY_VIOLATION = 1008;
+export const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+export interface WebSocketOptions {
+  // Largest message accepted from the client, in bytes
+  maxMessageSize: number;
+}
+
+/**
+ * Reject an upgrade request with a plain HTTP response
+ */
+export function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.end(
+    `HTTP/1.1 ${status} ${message}\r\n` +
+      'Connection: close\r\nContent-Type: text/plain\r\n' +
+      `Content-Length: ${Buffer.byteLength(message)}\r\n\r\n${message}`
+  );
+}
+
+/**
+ * Complete the opening handshake of an HTTP upgrade request
+ * Returns null, after answering with 400, if the request is not a valid
+ * WebSocket handshake.
+ */
+export function acceptUpgrade(
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  options: WebSocketOptions
+): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (
+    request.method !== 'GET' ||
+    request.headers.upgrade?.toLowerCase() !== 'websocket' ||
+    request.headers['sec-websocket-version'] !== '13' ||
+    typeof key !== 'string'
+  ) {
+    rejectUpgrade(socket, 400, 'Bad Request');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connection = new WebSocketConnection(socket, options);
+  if (head.length > 0) connection.receive(head);
+  return connection;
+}
+
+/**
+ * Open WebSocket connection
+ *
+ * Emits `message` with the text of each complete message and `close` once
+ * the connection has ended, whichever side closed it.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentedOpcode: number | null = null;
+  private closed = false;
+
+  constructor(
+    private socket: Duplex,
+    private options: WebSocketOptions
+  ) {
+    super();
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(text: string): void {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+  }
+
+  // Keeps proxies from dropping idle connections
+  ping(): void {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+  }
+
+  close(code = CLOSE_NORMAL, reason = ''): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2, 'utf8');
+    this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+    this.finish();
+  }
+
+  receive(data: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? data : Buffer.concat([this.buffer, data]);
+
+    while (!this.closed) {
+      const frame = decodeFrame(this.buffer, this.options.maxMessageSize);
+      if (frame === 'incomplete') return;
+      if (frame === 'too-big') return this.close(CLOSE_MESSAGE_TOO_BIG, 'Message too big');
+      if (frame === 'invalid') return this.close(CLOSE_PROTOCOL_ERROR, 'Invalid frame');
+
+      this.buffer = this.buffer.subarray(frame.length);
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.socket.write(encodeFrame(OPCODE_PONG, payload));
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_CLOSE:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL);
+        return;
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+        if (this.fragmentedOpcode !== null) return this.close(CLOSE_PROTOCOL_ERROR, 'Expected continuation');
+        this.fragmentedOpcode = opcode;
+        break;
+      case OPCODE_CONTINUATION:
+        if (this.fragmentedOpcode === null) return this.close(CLOSE_PROTOCOL_ERROR, 'Unexpected continuation');
+        break;
+      default:
+        return this.close(CLOSE_PROTOCOL_ERROR, 'Unknown opcode');
+    }
+
+    this.fragments.push(payload);
+    const size = this.fragments.reduce((total, fragment) => total + fragment.length, 0);
+    if (size > this.options.maxMessageSize) return this.close(CLOSE_MESSAGE_TOO_BIG, 'Message too big');
+    if (!fin) return;
+
+    const message = Buffer.concat(this.fragments);
+    const messageOpcode = this.fragmentedOpcode;
+    this.fragments = [];
+    this.fragmentedOpcode = null;
+
+    if (messageOpcode !== OPCODE_TEXT) return this.close(CLOSE_UNSUPPORTED_DATA, 'Text messages only');
+    this.emit('message', message.toString('utf8'));
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+}
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  // Bytes the frame takes up in the buffer
+  length: number;
+}
+
+function decodeFrame(buffer: Buffer, maxSize: number): Frame | 'incomplete' | 'invalid' | 'too-big' {
+  if (buffer.length < 2) return 'incomplete';
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+
+  // Extensions are never negotiated, and clients must mask every frame
+  if ((buffer[0] & 0x70) !== 0 || !masked) return 'invalid';
+  // Control frames cannot be fragmented or carry more than 125 bytes
+  if (opcode >= OPCODE_CLOSE && (!fin || payloadLength > 125)) return 'invalid';
+
+  if (payloadLength === 126) {
+    if (buffer.length < offset + 2) return 'incomplete';
+    payloadLength = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (payloadLength === 127) {
+    if (buffer.length < offset + 8) return 'incomplete';
+    const length = buffer.readBigUInt64BE(offset);
+    if (length > BigInt(maxSize)) return 'too-big';
+    payloadLength = Number(length);
+    offset += 8;
+  }
+  if (payloadLength > maxSize) return 'too-big';
+
+  if (buffer.length < offset + 4 + payloadLength) return 'incomplete';
+  const mask = buffer.subarray(offset, offset + 4);
+  offset += 4;
+
+  const payload = Buffer.alloc(payloadLength);
+  for (let i = 0; i < payloadLength; i++) {
+    payload[i] = buffer[offset + i] ^ mask[i % 4];
+  }
+
+  return { fin, opcode, payload, length: offset + payloadLength };
+}
+
+// Server frames are sent unfragmented and unmasked
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length <= 0xffff) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
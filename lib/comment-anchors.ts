@@ -0,0 +1,86 @@
+// Comment anchor re-mapping across content edits
+import * as Diff from 'diff';
+import { CommentRepository } from './repositories/comment-repository';
+import { Comment, LineRange } from '../types/spec';
+
+/**
+ * Build a map from 1-based line numbers in the old content to line numbers in
+ * the new content. Lines that were removed or rewritten map to null.
+ */
+export function buildLineMap(oldContent: string, newContent: string): (number | null)[] {
+  // Index 0 is unused so the map can be indexed by line number directly
+  const lineMap: (number | null)[] = [null];
+  let newLine = 1;
+
+  // A missing final newline would otherwise count as a change to the last line
+  const withNewline = (text: string) => (text.endsWith('\n') ? text : `${text}\n`);
+
+  for (const change of Diff.diffLines(withNewline(oldContent), withNewline(newContent))) {
+    const count = change.count ?? change.value.split('\n').length - 1;
+
+    if (change.added) {
+      newLine += count;
+    } else if (change.removed) {
+      for (let i = 0; i < count; i++) lineMap.push(null);
+    } else {
+      for (let i = 0; i < count; i++) lineMap.push(newLine++);
+    }
+  }
+
+  return lineMap;
+}
+
+/**
+ * Map a line range through a line map
+ * Returns null when every anchored line was deleted.
+ */
+export function remapLineRange(range: LineRange, lineMap: (number | null)[]): LineRange | null {
+  const mapped: number[] = [];
+  for (let line = range.start; line <= range.end; line++) {
+    const target = lineMap[line];
+    if (target !== null && target !== undefined) mapped.push(target);
+  }
+
+  if (mapped.length === 0) return null;
+  return { start: mapped[0], end: mapped[mapped.length - 1] };
+}
+
+/**
+ * Re-anchor every comment on a spec after its content changed
+ * Comments whose anchored text is gone keep their last range and are marked outdated.
+ * Returns the number of comments updated.
+ */
+export async function remapCommentAnchors(
+  specId: string,
+  oldContent: string,
+  newContent: string
+): Promise<number> {
+  if (oldContent === newContent) return 0;
+
+  const commentRepo = new CommentRepository();
+  const comments = await commentRepo.findAllBySpecId(specId);
+  const lineMap = buildLineMap(oldContent, newContent);
+
+  const updates = comments
+    .filter((comment) => !comment.outdated)
+    .map((comment): { comment: Comment; lineRange: LineRange; outdated: boolean } => {
+      const lineRange = remapLineRange(comment.lineRange, lineMap);
+      return lineRange
+        ? { comment, lineRange, outdated: false }
+        : { comment, lineRange: comment.lineRange, outdated: true };
+    })
+    .filter(
+      ({ comment, lineRange, outdated }) =>
+        outdated ||
+        lineRange.start !== comment.lineRange.start ||
+        lineRange.end !== comment.lineRange.end
+    );
+
+  await Promise.all(
+    updates.map(({ comment, lineRange, outdated }) =>
+      commentRepo.updateAnchor(comment._id, lineRange, outdated)
+    )
+  );
+
+  return updates.length;
+}
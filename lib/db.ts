@@ -113,7 +113,21 @@ export async function initializeDatabase(): Promise<void> {
       'users',
       'traceability',
       'aiUsageLogs',
-      'fileAttachments'
+      'fileAttachments',
+      'workflowDefinitions',
+      'workflowEvents',
+      'reviews',
+      'automationRules',
+      'automationRuns',
+      'notifications',
+      'subscriptions',
+      'notificationPreferences',
+      'digestEntries',
+      'webhooks',
+      'webhookDeliveries',
+      'savedViews',
+      'gitSyncState',
+      'baselines'
     ];
     
     for (const collectionName of requiredCollections) {
@@ -173,6 +187,85 @@ export async function initializeDatabase(): Promise<void> {
       { key: { uploadedAt: -1 } }
     ]);
     
+    // Create indexes for workflow definitions
+    await database.collection('workflowDefinitions').createIndexes([
+      { key: { key: 1, version: 1 }, unique: true },
+      { key: { specTypes: 1 } }
+    ]);
+    
+    // Create indexes for workflow events
+    await database.collection('workflowEvents').createIndexes([
+      { key: { specId: 1, timestamp: -1 } },
+      { key: { actor: 1 } }
+    ]);
+    
+    // Create indexes for reviews
+    await database.collection('reviews').createIndexes([
+      { key: { specId: 1 } },
+      { key: { reviewerId: 1, status: 1 } },
+      { key: { reviewerRole: 1, status: 1 } }
+    ]);
+    
+    // Create indexes for automation rules and their audit trail
+    await database.collection('automationRules').createIndexes([
+      { key: { trigger: 1, enabled: 1 } }
+    ]);
+    await database.collection('automationRuns').createIndexes([
+      { key: { specId: 1, timestamp: -1 } },
+      { key: { 'results.targetSpecId': 1 } },
+      { key: { ruleId: 1, timestamp: -1 } }
+    ]);
+    
+    // Create indexes for notifications
+    await database.collection('notifications').createIndexes([
+      { key: { userId: 1, read: 1 } },
+      { key: { createdAt: -1 } }
+    ]);
+    
+    // Create indexes for spec subscriptions
+    await database.collection('subscriptions').createIndexes([
+      { key: { userId: 1, specId: 1 }, unique: true },
+      { key: { specId: 1 } }
+    ]);
+    
+    // Create indexes for notification preferences
+    await database.collection('notificationPreferences').createIndexes([
+      { key: { userId: 1 }, unique: true }
+    ]);
+    
+    // Create indexes for queued digest entries
+    await database.collection('digestEntries').createIndexes([
+      { key: { frequency: 1, sentAt: 1 } },
+      { key: { userId: 1 } }
+    ]);
+    
+    // Create indexes for outbound webhooks
+    await database.collection('webhooks').createIndexes([
+      { key: { active: 1, events: 1 } }
+    ]);
+    
+    // Create indexes for the webhook delivery log
+    await database.collection('webhookDeliveries').createIndexes([
+      { key: { webhookId: 1, createdAt: -1 } }
+    ]);
+    
+    // Create indexes for saved dashboard views
+    await database.collection('savedViews').createIndexes([
+      { key: { ownerId: 1 } },
+      { key: { visibility: 1 } }
+    ]);
+    
+    // Create indexes for git sync state
+    await database.collection('gitSyncState').createIndexes([
+      { key: { specId: 1 }, unique: true },
+      { key: { path: 1 } }
+    ]);
+    
+    // Create indexes for baselines
+    await database.collection('baselines').createIndexes([
+      { key: { name: 1 }, unique: true }
+    ]);
+    
     console.log('Database initialization completed successfully');
   } catch (error) {
     console.error('Database initialization failed:', error);
@@ -0,0 +1,79 @@
+// Email digests of queued notifications
+import { DigestEntryRepository } from './repositories/digest-entry-repository';
+import { UserRepository } from './repositories/user-repository';
+import { sendEmail } from './email';
+import { retryWithBackoff } from './retry';
+import { env } from './env';
+import { DigestEntry, NotificationFrequency } from '../types/subscription';
+
+export type DigestFrequency = Exclude<NotificationFrequency, 'immediate'>;
+
+export interface DigestRunResult {
+  frequency: DigestFrequency;
+  usersEmailed: number;
+  entriesSent: number;
+  failures: number;
+}
+
+/**
+ * Render one user's digest as plain text, grouped by spec
+ */
+function renderDigest(entries: DigestEntry[]): string {
+  const bySpec = new Map<string, DigestEntry[]>();
+  for (const entry of entries) {
+    bySpec.set(entry.specId, [...(bySpec.get(entry.specId) || []), entry]);
+  }
+
+  const sections = Array.from(bySpec.values()).map((specEntries) => {
+    const lines = specEntries.map(
+      (entry) =>
+        `- ${entry.title}${entry.message ? `: ${entry.message.split('\n')[0]}` : ''}`
+    );
+    return `${lines.join('\n')}\nOpen: ${env.nextAuth.url}${specEntries[0].link}`;
+  });
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Send every pending digest of a frequency, one email per user
+ * Entries are only marked sent after their email went out, so a failed
+ * user is retried on the next run.
+ */
+export async function sendDigests(frequency: DigestFrequency): Promise<DigestRunResult> {
+  const digestRepo = new DigestEntryRepository();
+  const entries = await digestRepo.findUnsent(frequency);
+
+  const byUser = new Map<string, DigestEntry[]>();
+  for (const entry of entries) {
+    byUser.set(entry.userId, [...(byUser.get(entry.userId) || []), entry]);
+  }
+
+  const userRepo = new UserRepository();
+  const users = await userRepo.findByIds(Array.from(byUser.keys()));
+
+  const result: DigestRunResult = { frequency, usersEmailed: 0, entriesSent: 0, failures: 0 };
+
+  for (const user of users) {
+    const userEntries = byUser.get(user._id.toString()) || [];
+    const period = frequency === 'hourly' ? 'hour' : 'day';
+
+    try {
+      await retryWithBackoff(() =>
+        sendEmail({
+          to: [user.email],
+          subject: `SpecCraft: ${userEntries.length} update(s) in the last ${period}`,
+          text: renderDigest(userEntries),
+        })
+      );
+      await digestRepo.markSent(userEntries.map((entry) => entry._id));
+      result.usersEmailed++;
+      result.entriesSent += userEntries.length;
+    } catch (error) {
+      console.error(`Failed to send ${frequency} digest to ${user.email}:`, error);
+      result.failures++;
+    }
+  }
+
+  return result;
+}
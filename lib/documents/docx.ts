@@ -0,0 +1,580 @@
+// Word (DOCX) rendering of a spec document as WordprocessingML in a zip package
+import { DocumentSection, SpecDocument, sectionHeading } from './model';
+import { HastElement, HastNode, classNames, isElement } from './markdown';
+import { TextRun, codeLines, dataUriImage, inlineRuns, trimRuns } from './runs';
+import { pngSize } from './png';
+import { COLORS } from './theme';
+import { writeZip, ZipWriteEntry } from '../zip';
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ');
+
+const RELATIONSHIP_TYPES = {
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  settings: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings',
+  footer: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+  hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+};
+
+// A4 with 2.54 cm margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1440;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const EMU_PER_TWIP = 635;
+// Renderers produce 96 dpi images
+const EMU_PER_PIXEL = 9525;
+
+const LIST_INDENT = 360;
+const QUOTE_INDENT = 284;
+
+// Elements written as paragraphs or tables; anything else is inline content
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote',
+  'pre', 'table', 'hr', 'figure', 'section', 'div',
+]);
+
+interface BlockContext {
+  // Left indent in twips
+  indent: number;
+  quote: boolean;
+  listDepth: number;
+  // Set by a list item for its first paragraph, shared by nested contexts
+  pending: {
+    numbering: { numId: number; level: number } | null;
+    // Bookmark for list items with an id (footnotes)
+    anchor: string | null;
+  };
+}
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external?: boolean;
+}
+
+function xml(value: string): string {
+  return value
+    // Characters not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function hexColor(color: string): string {
+  return color.replace('#', '').toUpperCase();
+}
+
+// Word bookmark names allow letters, digits and underscores, up to 40 characters
+function bookmarkName(anchor: string): string {
+  return `_${anchor.replace(/\W/g, '_')}`.slice(0, 40);
+}
+
+/**
+ * Builds document.xml along with the relationships, images and list
+ * numbering it references
+ */
+class DocxWriter {
+  relationships: Relationship[] = [
+    { id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+    { id: 'rId2', type: RELATIONSHIP_TYPES.numbering, target: 'numbering.xml' },
+    { id: 'rId3', type: RELATIONSHIP_TYPES.settings, target: 'settings.xml' },
+    { id: 'rId4', type: RELATIONSHIP_TYPES.footer, target: 'footer1.xml' },
+  ];
+  media: ZipWriteEntry[] = [];
+  // Start level of each ordered list, which gets its own numbering instance
+  orderedLists: { level: number; start: number }[] = [];
+  body: string[] = [];
+  private bookmarkId = 0;
+  private drawingId = 0;
+  private hyperlinks = new Map<string, string>();
+
+  private relationship(type: string, target: string, external = false): string {
+    const id = `rId${this.relationships.length + 1}`;
+    this.relationships.push({ id, type, target, external });
+    return id;
+  }
+
+  bookmark(anchor: string, content: string): string {
+    const id = this.bookmarkId++;
+    return `<w:bookmarkStart w:id="${id}" w:name="${bookmarkName(anchor)}"/>${content}<w:bookmarkEnd w:id="${id}"/>`;
+  }
+
+  runs(runs: TextRun[], base: { bold?: boolean; italic?: boolean; color?: string } = {}): string {
+    let result = '';
+    for (const run of runs) {
+      const properties = [
+        run.code ? '<w:rStyle w:val="CodeChar"/>' : run.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+        run.bold || base.bold ? '<w:b/>' : '',
+        run.italic || base.italic ? '<w:i/>' : '',
+        run.strike ? '<w:strike/>' : '',
+        run.color && !run.link ? `<w:color w:val="${hexColor(run.color)}"/>` : base.color ? `<w:color w:val="${hexColor(base.color)}"/>` : '',
+      ].join('');
+      let content = run.text ? `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${xml(run.text)}</w:t></w:r>` : '';
+      if (run.lineBreak) content += '<w:r><w:br/></w:r>';
+
+      if (run.link?.startsWith('#')) {
+        content = `<w:hyperlink w:anchor="${bookmarkName(run.link.slice(1))}">${content}</w:hyperlink>`;
+      } else if (run.link && /^(https?|mailto):/i.test(run.link)) {
+        let id = this.hyperlinks.get(run.link);
+        if (!id) {
+          id = this.relationship(RELATIONSHIP_TYPES.hyperlink, run.link, true);
+          this.hyperlinks.set(run.link, id);
+        }
+        content = `<w:hyperlink r:id="${id}">${content}</w:hyperlink>`;
+      }
+      result += content;
+    }
+    return result;
+  }
+
+  paragraph(content: string, context: BlockContext, properties: { style?: string; extra?: string } = {}): void {
+    const style = properties.style || (context.quote ? 'Quote' : '');
+    const parts = [style ? `<w:pStyle w:val="${style}"/>` : ''];
+    const { numbering, anchor } = context.pending;
+    if (numbering) {
+      parts.push(`<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>`);
+    }
+    if (anchor) content = this.bookmark(anchor, content);
+    context.pending.numbering = null;
+    context.pending.anchor = null;
+    if (properties.extra) parts.push(properties.extra);
+    if (context.indent > 0) {
+      parts.push(`<w:ind w:left="${context.indent}"${numbering ? ` w:hanging="${LIST_INDENT}"` : ''}/>`);
+    }
+    const pPr = parts.join('');
+    this.body.push(`<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${content}</w:p>`);
+  }
+
+  blocks(nodes: HastNode[], context: BlockContext): void {
+    let inline: HastNode[] = [];
+    const flushInline = () => {
+      const runs = trimRuns(inlineRuns(inline));
+      if (runs.length > 0) this.paragraph(this.runs(runs), context);
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (isElement(node) && BLOCK_TAGS.has(node.tagName)) {
+        flushInline();
+        this.block(node, context);
+      } else {
+        inline.push(node);
+      }
+    }
+    flushInline();
+
+    // A list item with no paragraph of its own still shows its number
+    if (context.pending.numbering || context.pending.anchor) this.paragraph('', context);
+  }
+
+  block(node: HastElement, context: BlockContext): void {
+    const id = typeof node.properties.id === 'string' ? node.properties.id : null;
+
+    switch (node.tagName) {
+      case 'p': {
+        const runs = trimRuns(inlineRuns(node.children));
+        if (runs.length > 0) this.paragraph(id ? this.bookmark(id, this.runs(runs)) : this.runs(runs), context);
+        return;
+      }
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        // GFM's visually hidden "Footnotes" heading
+        if (classNames(node).includes('sr-only')) return;
+        const content = this.runs(trimRuns(inlineRuns(node.children)));
+        this.paragraph(id ? this.bookmark(id, content) : content, context, {
+          style: `Heading${node.tagName.slice(1)}`,
+        });
+        return;
+      }
+      case 'ul':
+      case 'ol':
+        this.list(node, context);
+        return;
+      case 'blockquote':
+        this.blocks(node.children, { ...context, indent: context.indent + QUOTE_INDENT, quote: true });
+        return;
+      case 'pre':
+        this.code(node, context);
+        return;
+      case 'table':
+        this.table(node);
+        return;
+      case 'hr':
+        this.paragraph('', context, {
+          extra: `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${hexColor(COLORS.border)}"/></w:pBdr>`,
+        });
+        return;
+      case 'figure': {
+        const image = node.children.find((child): child is HastElement => isElement(child, 'img'));
+        const data = image ? dataUriImage(image.properties.src) : null;
+        if (data) this.paragraph(this.image(data), context, { extra: '<w:jc w:val="center"/>' });
+        return;
+      }
+      default:
+        this.blocks(node.children, context);
+    }
+  }
+
+  list(node: HastElement, context: BlockContext): void {
+    const level = Math.min(8, context.listDepth);
+    let numId = 1;
+    if (node.tagName === 'ol') {
+      this.orderedLists.push({ level, start: Number(node.properties.start) || 1 });
+      // Instance 1 is shared by all bullet lists
+      numId = this.orderedLists.length + 1;
+    }
+
+    for (const item of node.children) {
+      if (!isElement(item, 'li')) continue;
+      const task = classNames(item).includes('task-list-item');
+      const inner: BlockContext = {
+        ...context,
+        indent: context.indent + LIST_INDENT * 2,
+        listDepth: context.listDepth + 1,
+        // Task list items show their checkbox instead of a bullet
+        pending: {
+          numbering: task ? null : { numId, level },
+          anchor: typeof item.properties.id === 'string' ? item.properties.id : null,
+        },
+      };
+      this.blocks(item.children, inner);
+    }
+  }
+
+  code(pre: HastElement, context: BlockContext): void {
+    for (const line of codeLines(pre)) {
+      this.paragraph(this.runs(line.map((run) => ({ ...run, code: false }))), { ...context, quote: false, listDepth: 0 }, {
+        style: 'Code',
+      });
+    }
+  }
+
+  table(node: HastElement): void {
+    const rows: { header: boolean; cells: HastElement[] }[] = [];
+    const collect = (nodes: HastNode[], header: boolean) => {
+      for (const child of nodes) {
+        if (!isElement(child)) continue;
+        if (child.tagName === 'thead' || child.tagName === 'tbody') {
+          collect(child.children, child.tagName === 'thead');
+        } else if (child.tagName === 'tr') {
+          rows.push({ header, cells: child.children.filter((cell): cell is HastElement => isElement(cell)) });
+        }
+      }
+    };
+    collect(node.children, false);
+
+    const columns = Math.max(0, ...rows.map((row) => row.cells.length));
+    if (columns === 0) return;
+    const columnWidth = Math.floor(CONTENT_WIDTH / columns);
+    const border = `w:val="single" w:sz="4" w:space="0" w:color="${hexColor(COLORS.border)}"`;
+
+    const xmlRows = rows.map((row) => {
+      const cells = Array.from({ length: columns }, (_, column) => {
+        const cell = row.cells[column];
+        const align = typeof cell?.properties.align === 'string' ? cell.properties.align : null;
+        const content = cell ? this.runs(trimRuns(inlineRuns(cell.children)), { bold: row.header }) : '';
+        return [
+          '<w:tc>',
+          `<w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>${row.header ? `<w:shd w:val="clear" w:color="auto" w:fill="${hexColor(COLORS.tableHeader)}"/>` : ''}</w:tcPr>`,
+          `<w:p><w:pPr><w:pStyle w:val="TableText"/>${align ? `<w:jc w:val="${align === 'right' ? 'right' : align === 'center' ? 'center' : 'left'}"/>` : ''}</w:pPr>${content}</w:p>`,
+          '</w:tc>',
+        ].join('');
+      });
+      // Header rows repeat on each page
+      return `<w:tr>${row.header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.join('')}</w:tr>`;
+    });
+
+    this.body.push(
+      [
+        '<w:tbl>',
+        `<w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders><w:top ${border}/><w:left ${border}/><w:bottom ${border}/><w:right ${border}/><w:insideH ${border}/><w:insideV ${border}/></w:tblBorders><w:tblCellMar><w:left w:w="100" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>`,
+        `<w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columns)}</w:tblGrid>`,
+        ...xmlRows,
+        '</w:tbl>',
+      ].join('')
+    );
+    // Keep consecutive tables apart and give the table some space below
+    this.body.push('<w:p/>');
+  }
+
+  image(data: Buffer): string {
+    let size: { width: number; height: number };
+    try {
+      size = pngSize(data);
+    } catch (error) {
+      console.error('Error embedding diagram in DOCX:', error);
+      return this.runs([{ text: '[Diagram could not be embedded]', italic: true, color: COLORS.muted }]);
+    }
+
+    const index = this.media.length + 1;
+    const target = `media/diagram${index}.png`;
+    this.media.push({ path: `word/${target}`, data });
+    const relationshipId = this.relationship(RELATIONSHIP_TYPES.image, target);
+
+    const scale = Math.min(1, (CONTENT_WIDTH * EMU_PER_TWIP) / (size.width * EMU_PER_PIXEL));
+    const cx = Math.round(size.width * EMU_PER_PIXEL * scale);
+    const cy = Math.round(size.height * EMU_PER_PIXEL * scale);
+    const id = ++this.drawingId;
+
+    return [
+      '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">',
+      `<wp:extent cx="${cx}" cy="${cy}"/>`,
+      `<wp:docPr id="${id}" name="Diagram ${id}"/>`,
+      '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>',
+      `<pic:nvPicPr><pic:cNvPr id="${id}" name="diagram${index}.png"/><pic:cNvPicPr/></pic:nvPicPr>`,
+      `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`,
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`,
+      '</pic:pic></a:graphicData></a:graphic>',
+      '</wp:inline></w:drawing></w:r>',
+    ].join('');
+  }
+
+  section(section: DocumentSection): void {
+    const context: BlockContext = { indent: 0, quote: false, listDepth: 0, pending: { numbering: null, anchor: null } };
+    this.paragraph(this.bookmark(section.anchor, this.runs([{ text: sectionHeading(section) }])), context, {
+      style: `Heading${Math.min(6, section.level)}`,
+    });
+    this.paragraph(this.runs([{ text: section.meta.join(' · ') }]), context, { style: 'SectionMeta' });
+    this.blocks(section.body.children, context);
+  }
+}
+
+const PAGE_BREAK = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+function coverPage(writer: DocxWriter, document: SpecDocument): void {
+  const context: BlockContext = { indent: 0, quote: false, listDepth: 0, pending: { numbering: null, anchor: null } };
+  writer.paragraph(writer.runs([{ text: document.title }]), context, { style: 'Title' });
+  writer.paragraph(writer.runs([{ text: document.subtitle }]), context, { style: 'Subtitle' });
+
+  const fields: [string, string][] = [
+    ['Revision', String(document.revision)],
+    ['Status', document.status],
+    ['Approval', document.approval],
+    ['Generated', `${document.generatedAt.toISOString().slice(0, 10)} by ${document.generatedBy}`],
+  ];
+  for (const [label, value] of fields) {
+    writer.paragraph(
+      writer.runs([{ text: `${label}: `, color: COLORS.muted }, { text: value }]),
+      context,
+      { style: 'CoverField' }
+    );
+  }
+  writer.body.push(PAGE_BREAK);
+}
+
+/**
+ * Table of contents field listing the outline; Word fills in page numbers
+ * when it updates fields on opening (settings.xml asks it to)
+ */
+function tableOfContents(writer: DocxWriter, document: SpecDocument): void {
+  writer.body.push(`<w:p><w:pPr><w:pStyle w:val="TOCHeading"/></w:pPr>${writer.runs([{ text: 'Contents' }])}</w:p>`);
+
+  const entries = document.outline.map(
+    (entry) =>
+      `<w:p><w:pPr><w:pStyle w:val="TOC${entry.level}"/></w:pPr><w:hyperlink w:anchor="${bookmarkName(entry.anchor)}">${writer.runs([{ text: entry.title }])}</w:hyperlink></w:p>`
+  );
+  if (entries.length === 0) return;
+
+  const begin =
+    '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-3" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+  entries[0] = entries[0].replace('</w:pPr>', `</w:pPr>${begin}`);
+  entries[entries.length - 1] = entries[entries.length - 1].replace(/<\/w:p>$/, '<w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>');
+  writer.body.push(...entries, PAGE_BREAK);
+}
+
+function stylesXml(): string {
+  const heading = (level: number, size: number, space: number) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${space}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${hexColor(COLORS.text)}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+  const toc = (level: number) =>
+    `<w:style w:type="paragraph" w:styleId="TOC${level}"><w:name w:val="toc ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>` +
+    `<w:pPr><w:spacing w:after="60"/><w:ind w:left="${(level - 1) * 284}"/></w:pPr>${level === 1 ? '<w:rPr><w:b/></w:rPr>' : ''}</w:style>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:color w:val="${hexColor(COLORS.text)}"/><w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>`,
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>',
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+    '<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>',
+    `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="4000" w:after="240"/><w:pBdr><w:top w:val="single" w:sz="24" w:space="12" w:color="${hexColor(COLORS.link)}"/></w:pBdr></w:pPr><w:rPr><w:b/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr></w:style>`,
+    `<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="720"/></w:pPr><w:rPr><w:color w:val="${hexColor(COLORS.muted)}"/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="CoverField"><w:name w:val="Cover Field"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="80"/></w:pPr><w:rPr><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:style>',
+    heading(1, 44, 360),
+    heading(2, 36, 320),
+    heading(3, 30, 280),
+    heading(4, 26, 240),
+    heading(5, 24, 200),
+    heading(6, 22, 200),
+    `<w:style w:type="paragraph" w:styleId="SectionMeta"><w:name w:val="Section Meta"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:color w:val="${hexColor(COLORS.muted)}"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>`,
+    `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="${hexColor(COLORS.border)}"/></w:pBdr></w:pPr><w:rPr><w:i/><w:color w:val="${hexColor(COLORS.quote)}"/></w:rPr></w:style>`,
+    `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="${hexColor(COLORS.codeBackground)}"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>`,
+    `<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/><w:szCs w:val="19"/><w:shd w:val="clear" w:color="auto" w:fill="${hexColor(COLORS.tableHeader)}"/></w:rPr></w:style>`,
+    `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr><w:color w:val="${hexColor(COLORS.link)}"/></w:rPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="60" w:after="60" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>',
+    '<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>',
+    toc(1),
+    toc(2),
+    toc(3),
+    `<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/><w:spacing w:after="0"/></w:pPr><w:rPr><w:color w:val="${hexColor(COLORS.muted)}"/><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr></w:style>`,
+    '</w:styles>',
+  ].join('');
+}
+
+function numberingXml(orderedLists: { level: number; start: number }[]): string {
+  const levels = (format: (level: number) => [string, string]) =>
+    Array.from({ length: 9 }, (_, level) => {
+      const [numberFormat, text] = format(level);
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${numberFormat}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${(level + 1) * LIST_INDENT * 2}" w:hanging="${LIST_INDENT}"/></w:pPr></w:lvl>`;
+    }).join('');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels((level) => ['bullet', level % 2 === 0 ? '•' : '–'])}</w:abstractNum>`,
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels((level) => ['decimal', `%${level + 1}.`])}</w:abstractNum>`,
+    '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>',
+    // Each ordered list restarts its numbering
+    ...orderedLists.map(
+      (list, index) =>
+        `<w:num w:numId="${index + 2}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride></w:num>`
+    ),
+    '</w:numbering>',
+  ].join('');
+}
+
+function footerXml(document: SpecDocument): string {
+  const field = (instruction: string) =>
+    `<w:fldSimple w:instr=" ${instruction} "><w:r><w:t>1</w:t></w:r></w:fldSimple>`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:ftr ${NAMESPACES}>`,
+    '<w:p><w:pPr><w:pStyle w:val="Footer"/></w:pPr>',
+    `<w:r><w:t xml:space="preserve">${xml(`${document.title} - revision ${document.revision}`)}    Page </w:t></w:r>`,
+    field('PAGE'),
+    '<w:r><w:t xml:space="preserve"> of </w:t></w:r>',
+    field('NUMPAGES'),
+    '</w:p>',
+    '</w:ftr>',
+  ].join('');
+}
+
+function relationshipsXml(relationships: Relationship[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...relationships.map(
+      (relationship) =>
+        `<Relationship Id="${relationship.id}" Type="${relationship.type}" Target="${xml(relationship.target)}"${relationship.external ? ' TargetMode="External"' : ''}/>`
+    ),
+    '</Relationships>',
+  ].join('');
+}
+
+/**
+ * Render a spec document as a Word document with an optional cover page and
+ * table of contents, and page numbers in the footer
+ */
+export function renderDocx(document: SpecDocument): Buffer {
+  const writer = new DocxWriter();
+
+  if (document.cover) coverPage(writer, document);
+  if (document.toc) tableOfContents(writer, document);
+  for (const section of document.sections) writer.section(section);
+
+  // The cover page has no footer
+  const sectionProperties = [
+    '<w:sectPr>',
+    '<w:footerReference w:type="default" r:id="rId4"/>',
+    `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`,
+    `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/>`,
+    document.cover ? '<w:titlePg/>' : '',
+    '</w:sectPr>',
+  ].join('');
+
+  const documentXml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:document ${NAMESPACES}><w:body>`,
+    ...writer.body,
+    sectionProperties,
+    '</w:body></w:document>',
+  ].join('');
+
+  const created = document.generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const files: [string, string][] = [
+    [
+      '[Content_Types].xml',
+      [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Default Extension="png" ContentType="image/png"/>',
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+        '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>',
+        '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>',
+        '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>',
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+        '</Types>',
+      ].join(''),
+    ],
+    [
+      '_rels/.rels',
+      relationshipsXml([
+        {
+          id: 'rId1',
+          type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+          target: 'word/document.xml',
+        },
+        {
+          id: 'rId2',
+          type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+          target: 'docProps/core.xml',
+        },
+      ]),
+    ],
+    [
+      'docProps/core.xml',
+      [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+        `<dc:title>${xml(document.title)}</dc:title>`,
+        `<dc:creator>${xml(document.generatedBy)}</dc:creator>`,
+        `<cp:revision>${document.revision}</cp:revision>`,
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`,
+        '</cp:coreProperties>',
+      ].join(''),
+    ],
+    ['word/document.xml', documentXml],
+    ['word/styles.xml', stylesXml()],
+    ['word/numbering.xml', numberingXml(writer.orderedLists)],
+    [
+      'word/settings.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:updateFields w:val="true"/></w:settings>',
+    ],
+    ['word/footer1.xml', footerXml(document)],
+    ['word/_rels/document.xml.rels', relationshipsXml(writer.relationships)],
+  ];
+
+  return writeZip([
+    ...files.map(([path, content]) => ({ path, data: Buffer.from(content, 'utf8'), modifiedAt: document.generatedAt })),
+    ...writer.media.map((entry) => ({ ...entry, modifiedAt: document.generatedAt })),
+  ]);
+}
@@ -0,0 +1,160 @@
+// Self-contained HTML rendering of a spec document
+import { DocumentSection, SpecDocument, sectionHeading } from './model';
+import { HastNode, isElement } from './markdown';
+import { COLORS, tokenStylesheet } from './theme';
+
+// Elements without content or closing tag
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input']);
+
+// HAST property names that differ from their HTML attribute
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for',
+  ariaLabel: 'aria-label',
+  ariaDescribedBy: 'aria-describedby',
+  dataFootnotes: 'data-footnotes',
+  dataFootnoteRef: 'data-footnote-ref',
+  dataFootnoteBackref: 'data-footnote-backref',
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function attributes(properties: Record<string, unknown>): string {
+  let result = '';
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === false || value === null || value === undefined) continue;
+    const name = ATTRIBUTE_NAMES[key] || key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+    if (value === true) {
+      result += ` ${name}`;
+    } else {
+      result += ` ${name}="${escapeHtml(Array.isArray(value) ? value.join(' ') : String(value))}"`;
+    }
+  }
+  return result;
+}
+
+export function serializeHtml(nodes: HastNode[]): string {
+  return nodes
+    .map((node) => {
+      if (!isElement(node)) return escapeHtml(node.value);
+      const open = `<${node.tagName}${attributes(node.properties)}>`;
+      if (VOID_ELEMENTS.has(node.tagName)) return open;
+      return `${open}${serializeHtml(node.children)}</${node.tagName}>`;
+    })
+    .join('');
+}
+
+// Mirrors the element styles of MarkdownPreview
+const STYLESHEET = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: ${COLORS.text}; line-height: 1.75; max-width: 860px; margin: 0 auto; padding: 32px 24px; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.3; }
+h1 { font-size: 1.875rem; margin: 1.5rem 0 1rem; }
+h2 { font-size: 1.5rem; margin: 1.25rem 0 0.75rem; }
+h3 { font-size: 1.25rem; margin: 1rem 0 0.5rem; }
+h4, h5, h6 { font-size: 1.125rem; margin: 0.75rem 0 0.5rem; }
+p { margin: 0 0 1rem; }
+a { color: ${COLORS.link}; text-decoration: none; }
+a:hover { text-decoration: underline; }
+ul, ol { margin: 0 0 1rem; padding-left: 1.5rem; }
+li > p { margin: 0; }
+blockquote { border-left: 4px solid ${COLORS.border}; padding-left: 1rem; margin: 1rem 0; font-style: italic; color: ${COLORS.quote}; }
+table { border-collapse: collapse; margin: 1rem 0; min-width: 100%; }
+th, td { border: 1px solid ${COLORS.border}; padding: 0.5rem 1rem; text-align: left; }
+thead { background: ${COLORS.tableHeader}; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875em; background: ${COLORS.tableHeader}; padding: 0.125rem 0.25rem; border-radius: 4px; }
+pre { background: ${COLORS.codeBackground}; padding: 1em; border-radius: 6px; overflow-x: auto; line-height: 1.45; }
+pre code { background: none; padding: 0; }
+hr { border: none; border-top: 1px solid ${COLORS.border}; margin: 1.5rem 0; }
+figure.diagram { margin: 1rem 0; text-align: center; }
+figure.diagram img { max-width: 100%; height: auto; }
+.diagram-note, .section-meta { color: ${COLORS.muted}; font-size: 0.875rem; }
+.section-meta { margin-top: -0.5rem; }
+.sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0, 0, 0, 0); }
+.cover { min-height: 80vh; display: flex; flex-direction: column; justify-content: center; border-bottom: 1px solid ${COLORS.border}; margin-bottom: 2rem; }
+.cover h1 { font-size: 2.5rem; margin: 0 0 0.5rem; }
+.cover .subtitle { font-size: 1.25rem; color: ${COLORS.muted}; margin-bottom: 2rem; }
+.cover dl { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1.5rem; margin: 0; }
+.cover dt { color: ${COLORS.muted}; }
+.cover dd { margin: 0; }
+nav.toc { margin-bottom: 2rem; }
+nav.toc ol { list-style: none; padding-left: 0; }
+nav.toc li { margin: 0.125rem 0; }
+${tokenStylesheet()}
+@media print {
+  body { max-width: none; padding: 0; }
+  .cover, nav.toc { page-break-after: always; border: none; }
+  h1, h2, h3, h4 { page-break-after: avoid; }
+  pre, table, figure { page-break-inside: avoid; }
+}
+`;
+
+function renderSection(section: DocumentSection): string {
+  const level = Math.min(6, section.level);
+  return [
+    '<section>',
+    `<h${level} id="${escapeHtml(section.anchor)}">${escapeHtml(sectionHeading(section))}</h${level}>`,
+    `<p class="section-meta">${section.meta.map(escapeHtml).join(' &middot; ')}</p>`,
+    serializeHtml(section.body.children),
+    '</section>',
+  ].join('\n');
+}
+
+/**
+ * Render a spec document as a single HTML file with inline styles; rendered
+ * diagrams are embedded as data URIs
+ */
+export function renderHtml(document: SpecDocument): string {
+  const parts: string[] = [];
+
+  if (document.cover) {
+    parts.push(
+      [
+        '<header class="cover">',
+        `<h1>${escapeHtml(document.title)}</h1>`,
+        `<div class="subtitle">${escapeHtml(document.subtitle)}</div>`,
+        '<dl>',
+        `<dt>Revision</dt><dd>${document.revision}</dd>`,
+        `<dt>Status</dt><dd>${escapeHtml(document.status)}</dd>`,
+        `<dt>Approval</dt><dd>${escapeHtml(document.approval)}</dd>`,
+        `<dt>Generated</dt><dd>${escapeHtml(document.generatedAt.toISOString().slice(0, 10))} by ${escapeHtml(document.generatedBy)}</dd>`,
+        '</dl>',
+        '</header>',
+      ].join('\n')
+    );
+  }
+
+  if (document.toc && document.outline.length > 0) {
+    const entries = document.outline
+      .map(
+        (entry) =>
+          `<li style="padding-left: ${(entry.level - 1) * 1.25}rem"><a href="#${escapeHtml(entry.anchor)}">${escapeHtml(entry.title)}</a></li>`
+      )
+      .join('\n');
+    parts.push(`<nav class="toc">\n<h2>Contents</h2>\n<ol>\n${entries}\n</ol>\n</nav>`);
+  }
+
+  parts.push(`<main>\n${document.sections.map(renderSection).join('\n')}\n</main>`);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<meta name="generator" content="SpecCraft">`,
+    `<title>${escapeHtml(document.title)} (revision ${document.revision})</title>`,
+    `<style>${STYLESHEET}</style>`,
+    '</head>',
+    '<body>',
+    ...parts,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
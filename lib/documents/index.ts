@@ -0,0 +1,49 @@
+// Export of a spec, or an epic with its traceability descendants, as a
+// PDF, Word or HTML document rendered like MarkdownPreview
+import { slugify } from '../export';
+import { SessionPayload } from '../../types/auth';
+import { buildSpecDocument, DocumentOptions } from './model';
+import { renderDocx } from './docx';
+import { renderHtml } from './html';
+import { renderPdf } from './pdf';
+
+export const DOCUMENT_FORMATS = ['pdf', 'docx', 'html'] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html; charset=utf-8',
+};
+
+export interface RenderedDocument {
+  data: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+export function isDocumentFormat(value: string): value is DocumentFormat {
+  return (DOCUMENT_FORMATS as readonly string[]).includes(value);
+}
+
+export async function renderSpecDocument(
+  specId: string,
+  format: DocumentFormat,
+  options: DocumentOptions,
+  user: SessionPayload
+): Promise<RenderedDocument> {
+  const document = await buildSpecDocument(specId, options, user);
+
+  const data =
+    format === 'pdf'
+      ? renderPdf(document)
+      : format === 'docx'
+        ? renderDocx(document)
+        : Buffer.from(renderHtml(document), 'utf8');
+
+  return {
+    data,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${slugify(document.title)}-r${document.revision}.${format}`,
+  };
+}
@@ -0,0 +1,104 @@
+// Markdown to HTML syntax tree, parsed the same way MarkdownPreview renders it
+import Markdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+
+// Minimal HAST (HTML syntax tree) shapes used by the document writers
+export interface HastText {
+  type: 'text';
+  value: string;
+}
+
+export interface HastElement {
+  type: 'element';
+  tagName: string;
+  properties: Record<string, unknown>;
+  children: HastNode[];
+}
+
+export interface HastRoot {
+  type: 'root';
+  children: HastNode[];
+}
+
+export type HastNode = HastElement | HastText;
+
+/**
+ * Parse markdown with GFM and syntax highlighting into a HAST root
+ *
+ * Runs react-markdown's processor with a final plugin that captures the tree.
+ * react-markdown then drops raw HTML and unsafe URLs from that same tree in
+ * place, so the result is sanitized exactly like the preview.
+ */
+export function parseMarkdown(content: string): HastRoot {
+  let captured: HastRoot | null = null;
+
+  Markdown({
+    children: content,
+    remarkPlugins: [remarkGfm],
+    rehypePlugins: [
+      rehypeHighlight,
+      () => (tree: HastRoot) => {
+        captured = tree;
+      },
+    ],
+  });
+
+  return { type: 'root', children: clean((captured as HastRoot | null)?.children || []) };
+}
+
+// Keep only elements and text; comments, doctypes and raw HTML are dropped
+function clean(nodes: { type: string }[]): HastNode[] {
+  const result: HastNode[] = [];
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      result.push({ type: 'text', value: (node as HastText).value });
+    } else if (node.type === 'element') {
+      const element = node as HastElement;
+      result.push({
+        type: 'element',
+        tagName: element.tagName,
+        properties: { ...element.properties },
+        children: clean(element.children),
+      });
+    }
+  }
+  return result;
+}
+
+export function element(
+  tagName: string,
+  properties: Record<string, unknown> = {},
+  children: HastNode[] = []
+): HastElement {
+  return { type: 'element', tagName, properties, children };
+}
+
+export function text(value: string): HastText {
+  return { type: 'text', value };
+}
+
+export function isElement(node: HastNode, tagName?: string): node is HastElement {
+  return node.type === 'element' && (!tagName || node.tagName === tagName);
+}
+
+export function classNames(node: HastElement): string[] {
+  const value = node.properties.className;
+  if (Array.isArray(value)) return value.map(String);
+  return typeof value === 'string' ? value.split(/\s+/).filter(Boolean) : [];
+}
+
+export function textContent(node: HastNode | HastRoot): string {
+  if (node.type === 'text') return node.value;
+  return node.children.map(textContent).join('');
+}
+
+/**
+ * Language of a fenced code block (`<pre><code class="language-x">`), if any
+ */
+export function codeLanguage(pre: HastElement): string | null {
+  const code = pre.children.find((child): child is HastElement => isElement(child, 'code'));
+  if (!code) return null;
+  const languageClass = classNames(code).find((name) => name.startsWith('language-'));
+  return languageClass ? languageClass.slice('language-'.length) : null;
+}
@@ -0,0 +1,40 @@
+// Server-side rasterization of Mermaid diagrams for document export
+import { env } from '../env';
+import { isPng } from './png';
+
+export function isMermaidRendererConfigured(): boolean {
+  return Boolean(env.documents.mermaidRendererUrl);
+}
+
+/**
+ * Render a Mermaid diagram to PNG with the configured Kroki-compatible service
+ * Returns null when no renderer is configured or rendering fails, in which
+ * case the diagram source is shown as a code block instead.
+ */
+export async function renderMermaid(source: string): Promise<Buffer | null> {
+  if (!isMermaidRendererConfigured()) return null;
+
+  const url = `${env.documents.mermaidRendererUrl.replace(/\/+$/, '')}/mermaid/png`;
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: source,
+      signal: AbortSignal.timeout(env.documents.mermaidTimeoutMs),
+    });
+    if (!response.ok) {
+      console.error(`Mermaid renderer returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      return null;
+    }
+
+    const image = Buffer.from(await response.arrayBuffer());
+    if (!isPng(image)) {
+      console.error('Mermaid renderer did not return a PNG image');
+      return null;
+    }
+    return image;
+  } catch (error) {
+    console.error('Error rendering Mermaid diagram:', error);
+    return null;
+  }
+}
@@ -0,0 +1,268 @@
+// Document model shared by the PDF, DOCX and HTML writers
+import { SpecRepository } from '../repositories/spec-repository';
+import { ReviewRepository } from '../repositories/review-repository';
+import { TraceabilityRepository } from '../repositories/traceability-repository';
+import { summarizeReviews, ReviewSummary } from '../reviews';
+import { stripFrontmatter } from '../yaml-parser';
+import { AppError, ErrorCode } from '../errors';
+import { SessionPayload } from '../../types/auth';
+import { Spec, SpecType } from '../../types/spec';
+import {
+  HastElement,
+  HastNode,
+  HastRoot,
+  classNames,
+  codeLanguage,
+  element,
+  isElement,
+  parseMarkdown,
+  text,
+  textContent,
+} from './markdown';
+import { renderMermaid } from './mermaid';
+import { pngSize } from './png';
+
+// Headings up to this level are listed in the table of contents
+const TOC_MAX_LEVEL = 3;
+
+export const SPEC_TYPE_LABELS: Record<SpecType, string> = {
+  epic: 'Epic',
+  'user-story': 'User Story',
+  'technical-spec': 'Technical Spec',
+  'test-case': 'Test Case',
+};
+
+export interface DocumentOptions {
+  // Include all traceability descendants of the spec
+  subtree: boolean;
+  cover: boolean;
+  toc: boolean;
+}
+
+export interface DocumentTocEntry {
+  anchor: string;
+  level: number;
+  title: string;
+}
+
+export interface DocumentSection {
+  specId: string;
+  anchor: string;
+  // Outline number such as "2.1"; empty for the root spec
+  number: string;
+  // 1 for the root spec, 2 for its children, ...
+  level: number;
+  title: string;
+  // Type, stage, version and approval status
+  meta: string[];
+  // Spec body with headings demoted below the section heading and given anchors
+  body: HastRoot;
+}
+
+export interface SpecDocument {
+  title: string;
+  subtitle: string;
+  revision: number;
+  status: string;
+  approval: string;
+  generatedAt: Date;
+  generatedBy: string;
+  cover: boolean;
+  toc: boolean;
+  // Headings for the table of contents and PDF bookmarks
+  outline: DocumentTocEntry[];
+  sections: DocumentSection[];
+}
+
+/**
+ * One-line approval status for the current version of a spec
+ */
+export function approvalStatus(summary: ReviewSummary): string {
+  if (summary.changesRequested > 0) return 'Changes requested';
+  if (summary.approvals > 0) {
+    return summary.pending > 0 ? `Approved (${summary.approvals}), review pending` : `Approved (${summary.approvals})`;
+  }
+  if (summary.pending > 0) return 'Review pending';
+  return 'Not reviewed';
+}
+
+/**
+ * Section heading text, prefixed with its outline number
+ */
+export function sectionHeading(section: DocumentSection): string {
+  return section.number ? `${section.number} ${section.title}` : section.title;
+}
+
+/**
+ * Specs of the document in reading order: the root, then its traceability
+ * descendants depth-first in link order. A spec linked under several parents
+ * appears once, under the first.
+ */
+async function collectSpecs(root: Spec, subtree: boolean): Promise<{ spec: Spec; depth: number }[]> {
+  if (!subtree) return [{ spec: root, depth: 0 }];
+
+  const tree = await new TraceabilityRepository().getTree(root._id);
+  const ids = [...tree.keys()];
+  const specs = await new SpecRepository().find({ _id: { $in: ids } });
+  const specsById = new Map(specs.map((spec) => [spec._id, spec]));
+
+  const ordered: { spec: Spec; depth: number }[] = [];
+  const visited = new Set<string>();
+  const visit = (id: string, depth: number) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const spec = id === root._id ? root : specsById.get(id);
+    if (!spec) return;
+    ordered.push({ spec, depth });
+    for (const childId of tree.get(id) || []) visit(childId, depth + 1);
+  };
+  visit(root._id, 0);
+
+  return ordered;
+}
+
+function outlineNumbers(depths: number[]): string[] {
+  const counters: number[] = [];
+  return depths.map((depth) => {
+    if (depth === 0) return '';
+    counters.length = depth;
+    counters[depth - 1] = (counters[depth - 1] || 0) + 1;
+    return counters.map((count) => count || 1).join('.');
+  });
+}
+
+/**
+ * Replace Mermaid code blocks with rendered PNG figures (as data URIs); blocks
+ * that cannot be rendered stay code blocks with a note
+ */
+async function renderDiagrams(nodes: HastNode[]): Promise<HastNode[]> {
+  const result: HastNode[] = [];
+  for (const node of nodes) {
+    if (!isElement(node)) {
+      result.push(node);
+      continue;
+    }
+
+    if (node.tagName === 'pre' && codeLanguage(node) === 'mermaid') {
+      const image = await renderMermaid(textContent(node).replace(/\n$/, ''));
+      if (image) {
+        const { width, height } = pngSize(image);
+        result.push(
+          element('figure', { className: ['diagram'] }, [
+            element('img', { src: `data:image/png;base64,${image.toString('base64')}`, alt: 'Diagram', width, height }),
+          ])
+        );
+      } else {
+        result.push(node, element('p', { className: ['diagram-note'] }, [text('Diagram could not be rendered; Mermaid source shown.')]));
+      }
+      continue;
+    }
+
+    result.push({ ...node, children: await renderDiagrams(node.children) });
+  }
+  return result;
+}
+
+/**
+ * Demote headings to nest under the section heading and give each an anchor;
+ * headings that fit are added to the table of contents
+ */
+function nestHeadings(nodes: HastNode[], section: DocumentSection, outline: DocumentTocEntry[]): HastNode[] {
+  // The body's top heading level goes right below the section heading, so a
+  // spec whose headings start at `##` leaves no gap
+  let topLevel = 6;
+  const findTop = (children: HastNode[]) => {
+    for (const node of children) {
+      if (!isElement(node)) continue;
+      const match = /^h([1-6])$/.exec(node.tagName);
+      if (match) topLevel = Math.min(topLevel, parseInt(match[1], 10));
+      else findTop(node.children);
+    }
+  };
+  findTop(nodes);
+
+  let count = 0;
+  const visit = (children: HastNode[]): HastNode[] =>
+    children.map((node) => {
+      if (!isElement(node)) return node;
+      const match = /^h([1-6])$/.exec(node.tagName);
+      if (!match) return { ...node, children: visit(node.children) };
+
+      const level = Math.min(6, parseInt(match[1], 10) - topLevel + section.level + 1);
+      const anchor = `${section.anchor}-${++count}`;
+      // GFM's hidden "Footnotes" heading stays out of the contents
+      if (level <= TOC_MAX_LEVEL && !classNames(node).includes('sr-only')) {
+        outline.push({ anchor, level, title: textContent(node) });
+      }
+      return { ...node, tagName: `h${level}`, properties: { ...node.properties, id: anchor } };
+    });
+  return visit(nodes);
+}
+
+/**
+ * Build the document for a spec, or for an epic and all its traceability
+ * descendants, with approval status from the reviews of each spec
+ */
+export async function buildSpecDocument(
+  specId: string,
+  options: DocumentOptions,
+  user: SessionPayload
+): Promise<SpecDocument> {
+  const root = await new SpecRepository().findById(specId);
+  if (!root) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'Spec not found', undefined, 404);
+  }
+
+  const specs = await collectSpecs(root, options.subtree);
+  const numbers = outlineNumbers(specs.map(({ depth }) => depth));
+  const reviewRepo = new ReviewRepository();
+  const outline: DocumentTocEntry[] = [];
+  const sections: DocumentSection[] = [];
+  let rootApproval = '';
+
+  for (const [index, { spec, depth }] of specs.entries()) {
+    const approval = approvalStatus(summarizeReviews(await reviewRepo.findBySpecId(spec._id), spec.currentVersion));
+    if (index === 0) rootApproval = approval;
+
+    const section: DocumentSection = {
+      specId: spec._id,
+      anchor: `section-${index + 1}`,
+      number: numbers[index],
+      level: Math.min(6, depth + 1),
+      title: spec.title,
+      meta: [SPEC_TYPE_LABELS[spec.metadata.type] || spec.metadata.type, spec.metadata.status, `Version ${spec.currentVersion}`, approval],
+      body: { type: 'root', children: [] },
+    };
+    if (section.level <= TOC_MAX_LEVEL) {
+      outline.push({ anchor: section.anchor, level: section.level, title: sectionHeading(section) });
+    }
+
+    // Drop a leading `# Title` that repeats the section heading
+    let nodes = parseMarkdown(stripFrontmatter(spec.content)).children;
+    const first = nodes.find((node) => isElement(node) || node.value.trim());
+    if (first && isElement(first, 'h1') && textContent(first).trim().toLowerCase() === spec.title.trim().toLowerCase()) {
+      nodes = nodes.filter((node) => node !== first);
+    }
+
+    section.body.children = nestHeadings(await renderDiagrams(nodes), section, outline);
+    sections.push(section);
+  }
+
+  const descendants = specs.length - 1;
+  const typeLabel = SPEC_TYPE_LABELS[root.metadata.type] || root.metadata.type;
+
+  return {
+    title: root.title,
+    subtitle: descendants > 0 ? `${typeLabel} with ${descendants} linked spec${descendants === 1 ? '' : 's'}` : typeLabel,
+    revision: root.currentVersion,
+    status: root.metadata.status,
+    approval: rootApproval,
+    generatedAt: new Date(),
+    generatedBy: user.email,
+    cover: options.cover,
+    toc: options.toc,
+    outline,
+    sections,
+  };
+}
+
@@ -0,0 +1,118 @@
+// Metrics and WinAnsi encoding for the PDF standard fonts used in exports
+export type PdfFont = 'regular' | 'bold' | 'italic' | 'boldItalic' | 'mono' | 'monoBold' | 'monoItalic';
+
+// Font resource names and base fonts; these need no embedding
+export const PDF_FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' },
+  boldItalic: { resource: 'F4', baseFont: 'Helvetica-BoldOblique' },
+  mono: { resource: 'F5', baseFont: 'Courier' },
+  monoBold: { resource: 'F6', baseFont: 'Courier-Bold' },
+  monoItalic: { resource: 'F7', baseFont: 'Courier-Oblique' },
+};
+
+// Advance widths (1/1000 em) of ASCII 32-126 from the Adobe AFM files
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi codes 0x80-0x9F by Unicode character
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86,
+  '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c,
+  'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Widths of WinAnsi codes above ASCII that are not accented letters
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x80: 556, 0x85: 1000, 0x89: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350,
+  0x96: 556, 0x97: 1000, 0x99: 1000, 0xa0: 278, 0xa9: 737, 0xae: 737, 0xb0: 400, 0xb7: 278,
+  0xd7: 584, 0xf7: 584,
+};
+
+// Plain-text stand-ins for common characters outside WinAnsi
+const REPLACEMENTS: Record<string, string> = {
+  '←': '<-', '→': '->', '↔': '<->', '⇒': '=>', '≤': '<=', '≥': '>=',
+  '≠': '!=', '−': '-', '‐': '-', '‑': '-', '‒': '-', '―': '—',
+  '′': "'", '″': '"', '✓': 'v', '✔': 'v', '✗': 'x', '✘': 'x',
+  '☐': '[ ]', '☑': '[x]', '☒': '[x]', '●': '•', '◦': '•', '↩': '^',
+  '\u200b': '', '\ufeff': '', '\t': '    ',
+};
+
+function winAnsiCode(char: string): number | null {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRA[char] ?? null;
+}
+
+/**
+ * Map text to WinAnsi-encodable characters: accents outside the encoding are
+ * dropped, common symbols replaced, and anything else shown as `?`
+ */
+export function toWinAnsi(value: string): string {
+  let result = '';
+  for (const char of value) {
+    if (winAnsiCode(char) !== null) {
+      result += char;
+    } else if (char in REPLACEMENTS) {
+      result += REPLACEMENTS[char];
+    } else {
+      const base = char.normalize('NFD')[0];
+      result += base !== char && winAnsiCode(base) !== null ? base : char.codePointAt(0)! < 32 ? '' : '?';
+    }
+  }
+  return result;
+}
+
+/**
+ * Encode WinAnsi text as a PDF string literal
+ */
+export function pdfString(value: string): string {
+  let result = '(';
+  for (const char of value) {
+    const code = winAnsiCode(char) ?? 0x3f;
+    if (char === '(' || char === ')' || char === '\\') result += `\\${char}`;
+    else if (code < 32 || code > 126) result += `\\${code.toString(8).padStart(3, '0')}`;
+    else result += char;
+  }
+  return `${result})`;
+}
+
+function charWidth(char: string, font: PdfFont): number {
+  if (font.startsWith('mono')) return 600;
+  const widths = font === 'bold' || font === 'boldItalic' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const code = winAnsiCode(char) ?? 0x3f;
+  if (code >= 32 && code <= 126) return widths[code - 32];
+  if (EXTRA_WIDTHS[code]) return EXTRA_WIDTHS[code];
+  // Accented letters are as wide as their base letter
+  const base = char.normalize('NFD')[0].charCodeAt(0);
+  return base >= 32 && base <= 126 ? widths[base - 32] : 556;
+}
+
+/**
+ * Width of WinAnsi text in points
+ */
+export function textWidth(value: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of value) width += charWidth(char, font);
+  return (width * size) / 1000;
+}
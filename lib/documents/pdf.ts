@@ -0,0 +1,939 @@
+// PDF rendering of a spec document, laid out on A4 pages with the standard fonts
+import { deflateSync } from 'zlib';
+import { DocumentSection, DocumentTocEntry, SpecDocument, sectionHeading } from './model';
+import { HastElement, HastNode, classNames, isElement } from './markdown';
+import { TextRun, codeLines, dataUriImage, inlineRuns, trimRuns } from './runs';
+import { PngImage, decodePng } from './png';
+import { PDF_FONTS, PdfFont, pdfString, textWidth, toWinAnsi } from './pdf-fonts';
+import { COLORS } from './theme';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 56;
+const MARGIN_BOTTOM = 64;
+const CONTENT_TOP = PAGE_HEIGHT - 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN_X;
+const FOOTER_BASELINE = 36;
+
+const BODY_SIZE = 10.5;
+const BODY_LEADING = 15;
+const HEADING_SIZES = [22, 18, 15, 13, 12, 11];
+const META_SIZE = 9;
+const CODE_SIZE = 8.5;
+const CODE_LEADING = 11.5;
+const CODE_PADDING = 8;
+const TABLE_SIZE = 9.5;
+const TABLE_LEADING = 13;
+const CELL_PADDING = 5;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const TOC_ROW = 18;
+const TOC_TITLE_HEIGHT = 44;
+
+// Elements laid out as blocks; anything else is inline content of a paragraph
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote',
+  'pre', 'table', 'hr', 'figure', 'section', 'div',
+]);
+
+interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  color: string;
+}
+
+interface Fragment {
+  text: string;
+  font: PdfFont;
+  size: number;
+  color: string;
+  x: number;
+  width: number;
+  link?: string;
+  strike?: boolean;
+  code?: boolean;
+}
+
+interface Line {
+  fragments: Fragment[];
+  width: number;
+}
+
+interface PdfLink {
+  rect: [number, number, number, number];
+  // External URL, or `#anchor` within the document
+  target: string;
+}
+
+interface PdfPage {
+  ops: string[];
+  links: PdfLink[];
+}
+
+interface BlockContext {
+  x: number;
+  width: number;
+  style: TextStyle;
+  // x positions of the bars of enclosing blockquotes
+  quoteBars: number[];
+  listDepth: number;
+  // Inside a list item: paragraphs are spaced tighter
+  compact: boolean;
+}
+
+interface Marker {
+  text: string;
+  x: number;
+  color: string;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function rgb(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map((channel) => num(channel / 255)).join(' ');
+}
+
+function fontFor(run: { bold?: boolean; italic?: boolean; code?: boolean }): PdfFont {
+  if (run.code) return run.bold ? 'monoBold' : run.italic ? 'monoItalic' : 'mono';
+  if (run.bold) return run.italic ? 'boldItalic' : 'bold';
+  return run.italic ? 'italic' : 'regular';
+}
+
+/**
+ * Wrap runs into lines no wider than `maxWidth`; words longer than a line are
+ * broken between characters
+ */
+function layoutRuns(runs: TextRun[], maxWidth: number, size: number, base: TextStyle): Line[] {
+  const lines: Line[] = [];
+  let current: Fragment[] = [];
+  let x = 0;
+
+  const flush = () => {
+    const last = current[current.length - 1];
+    if (last) {
+      const trimmed = last.text.trimEnd();
+      const width = textWidth(trimmed, last.font, last.size);
+      x -= last.width - width;
+      last.text = trimmed;
+      last.width = width;
+      if (!trimmed) current.pop();
+    }
+    lines.push({ fragments: current, width: x });
+    current = [];
+    x = 0;
+  };
+
+  for (const run of runs) {
+    const style = { ...run, bold: run.bold || base.bold, italic: run.italic || base.italic };
+    const font = fontFor(style);
+    const fragmentSize = run.code ? size * 0.92 : size;
+    const append = (value: string) => {
+      const width = textWidth(value, font, fragmentSize);
+      const last = current[current.length - 1];
+      if (
+        last &&
+        last.font === font &&
+        last.size === fragmentSize &&
+        last.color === (run.color || base.color) &&
+        last.link === run.link &&
+        last.strike === run.strike &&
+        last.code === run.code
+      ) {
+        last.text += value;
+        last.width += width;
+      } else {
+        current.push({
+          text: value,
+          font,
+          size: fragmentSize,
+          color: run.color || base.color,
+          x,
+          width,
+          link: run.link,
+          strike: run.strike,
+          code: run.code,
+        });
+      }
+      x += width;
+    };
+
+    for (const token of toWinAnsi(run.text).split(/(\s+)/)) {
+      if (!token) continue;
+      if (/^\s+$/.test(token)) {
+        if (current.length > 0 && !current[current.length - 1].text.endsWith(' ')) append(' ');
+        continue;
+      }
+
+      if (current.length > 0 && x + textWidth(token, font, fragmentSize) > maxWidth) flush();
+
+      let rest = token;
+      while (textWidth(rest, font, fragmentSize) > maxWidth - x && rest.length > 1) {
+        let end = 1;
+        while (end < rest.length && textWidth(rest.slice(0, end + 1), font, fragmentSize) <= maxWidth - x) end++;
+        append(rest.slice(0, end));
+        flush();
+        rest = rest.slice(end);
+      }
+      append(rest);
+    }
+
+    if (run.lineBreak) flush();
+  }
+
+  if (current.length > 0) flush();
+  return lines;
+}
+
+/**
+ * Split code lines into lines of at most `maxChars` characters
+ */
+function wrapCode(lines: TextRun[][], maxChars: number): TextRun[][] {
+  const wrapped: TextRun[][] = [];
+  for (const line of lines) {
+    let current: TextRun[] = [];
+    let length = 0;
+    for (const run of line) {
+      let rest = toWinAnsi(run.text);
+      while (length + rest.length > maxChars) {
+        const head = rest.slice(0, maxChars - length);
+        if (head) current.push({ ...run, text: head });
+        wrapped.push(current);
+        current = [];
+        length = 0;
+        rest = rest.slice(head.length);
+      }
+      if (rest) current.push({ ...run, text: rest });
+      length += rest.length;
+    }
+    wrapped.push(current);
+  }
+  return wrapped;
+}
+
+/**
+ * Lays out blocks top to bottom, starting new pages as needed
+ */
+class PdfLayout {
+  pages: PdfPage[] = [];
+  anchors = new Map<string, { page: number; y: number }>();
+  images: PngImage[] = [];
+  private y = CONTENT_TOP;
+  private marker: Marker | null = null;
+
+  get page(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+
+  // Move down unconditionally, for fixed layouts such as the cover page
+  moveDown(height: number): void {
+    this.y -= height;
+  }
+
+  get pageIndex(): number {
+    return this.pages.length - 1;
+  }
+
+  newPage(): void {
+    this.pages.push({ ops: [], links: [] });
+    this.y = CONTENT_TOP;
+  }
+
+  /**
+   * Start a new page unless `height` fits; returns whether it did
+   * A block taller than a page is drawn from the top of the next one.
+   */
+  ensure(height: number): boolean {
+    if (this.y - height < MARGIN_BOTTOM && this.y < CONTENT_TOP) {
+      this.newPage();
+      return true;
+    }
+    return false;
+  }
+
+  // Move down, drawing the bars of enclosing blockquotes alongside
+  private advance(height: number, context: BlockContext): void {
+    for (const x of context.quoteBars) {
+      this.rect(x, this.y - height, 3, height, COLORS.border);
+    }
+    this.y -= height;
+  }
+
+  // Vertical space between blocks; dropped at the top of a page
+  space(height: number, context: BlockContext): void {
+    if (this.y >= CONTENT_TOP) return;
+    if (this.y - height < MARGIN_BOTTOM) {
+      this.newPage();
+      return;
+    }
+    this.advance(height, context);
+  }
+
+  anchor(id: string): void {
+    if (!this.anchors.has(id)) this.anchors.set(id, { page: this.pageIndex, y: this.y });
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: string): void {
+    this.page.ops.push(`${rgb(fill)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number, color: string): void {
+    this.page.ops.push(`${rgb(color)} RG 0.5 w ${num(x)} ${num(y)} ${num(width)} ${num(height)} re S`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string, width = 0.5): void {
+    this.page.ops.push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  text(value: string, x: number, baseline: number, font: PdfFont, size: number, color: string): void {
+    if (!value) return;
+    this.page.ops.push(
+      `BT /${PDF_FONTS[font].resource} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(baseline)} Td ${pdfString(value)} Tj ET`
+    );
+  }
+
+  link(rect: [number, number, number, number], target: string): void {
+    this.page.links.push({ rect, target });
+  }
+
+  setMarker(marker: Marker | null, context: BlockContext): void {
+    // An item that starts with another list gets its own marker line
+    if (this.marker) this.drawLine({ fragments: [], width: 0 }, context.x, BODY_LEADING, BODY_SIZE, context);
+    this.marker = marker;
+  }
+
+  drawLine(line: Line, x: number, leading: number, size: number, context: BlockContext): void {
+    this.ensure(leading);
+    const baseline = this.y - leading / 2 - size * 0.28;
+
+    if (this.marker) {
+      this.text(this.marker.text, this.marker.x, baseline, 'regular', BODY_SIZE, this.marker.color);
+      this.marker = null;
+    }
+
+    for (const fragment of line.fragments) {
+      const left = x + fragment.x;
+      if (fragment.code) {
+        this.rect(left - 1, baseline - fragment.size * 0.28, fragment.width + 2, fragment.size * 1.15, COLORS.tableHeader);
+      }
+      this.text(fragment.text, left, baseline, fragment.font, fragment.size, fragment.color);
+      if (fragment.strike) {
+        const y = baseline + fragment.size * 0.3;
+        this.line(left, y, left + fragment.width, y, fragment.color);
+      }
+      if (fragment.link) {
+        this.link([left, baseline - fragment.size * 0.25, left + fragment.width, baseline + fragment.size * 0.8], fragment.link);
+      }
+    }
+
+    this.advance(leading, context);
+  }
+
+  paragraph(runs: TextRun[], context: BlockContext, size = BODY_SIZE, leading = BODY_LEADING): void {
+    const lines = layoutRuns(runs, context.width, size, context.style);
+    for (const line of lines) this.drawLine(line, context.x, leading, size, context);
+  }
+
+  heading(runs: TextRun[], level: number, context: BlockContext, anchor?: string): void {
+    const size = HEADING_SIZES[Math.min(6, level) - 1];
+    const leading = size * 1.3;
+    const lines = layoutRuns(runs, context.width, size, { ...context.style, bold: true });
+
+    this.space(size * 0.8, context);
+    // Keep the heading with the first lines of what follows
+    this.ensure(lines.length * leading + BODY_LEADING * 3);
+    if (anchor) this.anchor(anchor);
+    for (const line of lines) this.drawLine(line, context.x, leading, size, context);
+    this.space(size * 0.35, context);
+  }
+
+  blocks(nodes: HastNode[], context: BlockContext): void {
+    let inline: HastNode[] = [];
+    const flushInline = () => {
+      const runs = trimRuns(inlineRuns(inline, { italic: context.style.italic }));
+      if (runs.length > 0) this.paragraph(runs, context);
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (isElement(node) && BLOCK_TAGS.has(node.tagName)) {
+        flushInline();
+        this.block(node, context);
+      } else {
+        inline.push(node);
+      }
+    }
+    flushInline();
+  }
+
+  block(node: HastElement, context: BlockContext): void {
+    if (typeof node.properties.id === 'string' && !/^h[1-6]$/.test(node.tagName)) {
+      this.anchor(node.properties.id);
+    }
+
+    switch (node.tagName) {
+      case 'p': {
+        const runs = trimRuns(inlineRuns(node.children, { italic: context.style.italic }));
+        if (runs.length === 0) return;
+        this.paragraph(runs, context);
+        this.space(context.compact ? 3 : 8, context);
+        return;
+      }
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        // GFM's visually hidden "Footnotes" heading
+        if (classNames(node).includes('sr-only')) return;
+        this.heading(
+          trimRuns(inlineRuns(node.children)),
+          parseInt(node.tagName.slice(1), 10),
+          context,
+          typeof node.properties.id === 'string' ? node.properties.id : undefined
+        );
+        return;
+      case 'ul':
+      case 'ol':
+        this.list(node, context);
+        return;
+      case 'blockquote':
+        this.blocks(node.children, {
+          ...context,
+          x: context.x + QUOTE_INDENT,
+          width: context.width - QUOTE_INDENT,
+          style: { ...context.style, italic: true, color: COLORS.quote },
+          quoteBars: [...context.quoteBars, context.x],
+        });
+        this.space(4, context);
+        return;
+      case 'pre':
+        this.code(node, context);
+        return;
+      case 'table':
+        this.table(node, context);
+        return;
+      case 'hr':
+        this.space(8, context);
+        this.line(context.x, this.y, context.x + context.width, this.y, COLORS.border, 1);
+        this.space(12, context);
+        return;
+      case 'figure': {
+        const image = node.children.find((child): child is HastElement => isElement(child, 'img'));
+        const data = image ? dataUriImage(image.properties.src) : null;
+        if (data) this.image(data, context);
+        return;
+      }
+      default:
+        this.blocks(node.children, context);
+    }
+  }
+
+  list(node: HastElement, context: BlockContext): void {
+    const ordered = node.tagName === 'ol';
+    let number = Number(node.properties.start) || 1;
+    const inner: BlockContext = {
+      ...context,
+      x: context.x + LIST_INDENT,
+      width: context.width - LIST_INDENT,
+      listDepth: context.listDepth + 1,
+      compact: true,
+    };
+
+    for (const item of node.children) {
+      if (!isElement(item, 'li')) continue;
+      if (typeof item.properties.id === 'string') this.anchor(item.properties.id);
+
+      // Task list items show their checkbox instead of a bullet
+      const text = classNames(item).includes('task-list-item')
+        ? ''
+        : ordered
+          ? `${number++}.`
+          : toWinAnsi(context.listDepth % 2 === 0 ? '•' : '–');
+      this.setMarker(
+        text ? { text, x: inner.x - 5 - textWidth(text, 'regular', BODY_SIZE), color: context.style.color } : null,
+        context
+      );
+      this.blocks(item.children, inner);
+      if (this.marker) this.drawLine({ fragments: [], width: 0 }, inner.x, BODY_LEADING, BODY_SIZE, inner);
+      this.space(2, context);
+    }
+
+    if (context.listDepth === 0) this.space(6, context);
+  }
+
+  code(pre: HastElement, context: BlockContext): void {
+    const charWidth = CODE_SIZE * 0.6;
+    const lines = wrapCode(codeLines(pre), Math.max(10, Math.floor((context.width - 2 * CODE_PADDING) / charWidth)));
+
+    lines.forEach((runs, index) => {
+      const top = index === 0 ? CODE_PADDING : 0;
+      const bottom = index === lines.length - 1 ? CODE_PADDING : 0;
+      const height = top + CODE_LEADING + bottom;
+      this.ensure(height);
+      this.rect(context.x, this.y - height, context.width, height, COLORS.codeBackground);
+
+      const baseline = this.y - top - CODE_LEADING / 2 - CODE_SIZE * 0.28;
+      if (this.marker) {
+        this.text(this.marker.text, this.marker.x, baseline, 'regular', BODY_SIZE, this.marker.color);
+        this.marker = null;
+      }
+      let column = 0;
+      for (const run of runs) {
+        this.text(run.text, context.x + CODE_PADDING + column * charWidth, baseline, fontFor(run), CODE_SIZE, run.color || COLORS.text);
+        column += run.text.length;
+      }
+      this.advance(height, context);
+    });
+
+    this.space(context.compact ? 4 : 10, context);
+  }
+
+  table(node: HastElement, context: BlockContext): void {
+    const rows: { header: boolean; cells: { runs: TextRun[]; align: string }[] }[] = [];
+    const collect = (nodes: HastNode[], header: boolean) => {
+      for (const child of nodes) {
+        if (!isElement(child)) continue;
+        if (child.tagName === 'thead' || child.tagName === 'tbody') {
+          collect(child.children, child.tagName === 'thead');
+        } else if (child.tagName === 'tr') {
+          rows.push({
+            header,
+            cells: child.children.filter((cell): cell is HastElement => isElement(cell)).map((cell) => ({
+              runs: trimRuns(inlineRuns(cell.children)),
+              align: typeof cell.properties.align === 'string' ? cell.properties.align : 'left',
+            })),
+          });
+        }
+      }
+    };
+    collect(node.children, false);
+
+    const columns = Math.max(0, ...rows.map((row) => row.cells.length));
+    if (columns === 0) return;
+
+    // Natural width is the cell content on one line, minimum the longest word
+    const natural = new Array<number>(columns).fill(2 * CELL_PADDING + 10);
+    const minimum = new Array<number>(columns).fill(2 * CELL_PADDING + 10);
+    for (const row of rows) {
+      row.cells.forEach((cell, column) => {
+        let width = 0;
+        for (const run of cell.runs) {
+          const font = fontFor({ ...run, bold: run.bold || row.header });
+          const value = toWinAnsi(run.text);
+          width += textWidth(value, font, TABLE_SIZE);
+          for (const word of value.split(/\s+/)) {
+            minimum[column] = Math.max(minimum[column], Math.min(120, textWidth(word, font, TABLE_SIZE) + 2 * CELL_PADDING));
+          }
+        }
+        natural[column] = Math.max(natural[column], width + 2 * CELL_PADDING);
+      });
+    }
+
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    let widths: number[];
+    if (sum(natural) <= context.width) {
+      widths = natural.map((width) => (width * context.width) / sum(natural));
+    } else if (sum(minimum) >= context.width) {
+      widths = minimum.map((width) => (width * context.width) / sum(minimum));
+    } else {
+      const ratio = (context.width - sum(minimum)) / (sum(natural) - sum(minimum));
+      widths = minimum.map((width, column) => width + (natural[column] - width) * ratio);
+    }
+
+    const laidOut = rows.map((row) => {
+      const cells = widths.map((width, column) => {
+        const cell = row.cells[column];
+        return {
+          align: cell?.align || 'left',
+          lines: cell
+            ? layoutRuns(cell.runs, width - 2 * CELL_PADDING, TABLE_SIZE, { bold: row.header, color: context.style.color })
+            : [],
+        };
+      });
+      const height = Math.max(1, ...cells.map((cell) => cell.lines.length)) * TABLE_LEADING + 2 * CELL_PADDING;
+      return { header: row.header, cells, height };
+    });
+    const headerRows = laidOut.filter((row) => row.header);
+
+    const drawRow = (row: (typeof laidOut)[number]) => {
+      let x = context.x;
+      row.cells.forEach((cell, column) => {
+        const width = widths[column];
+        if (row.header) this.rect(x, this.y - row.height, width, row.height, COLORS.tableHeader);
+        this.strokeRect(x, this.y - row.height, width, row.height, COLORS.border);
+        cell.lines.forEach((line, index) => {
+          const offset =
+            cell.align === 'right'
+              ? width - 2 * CELL_PADDING - line.width
+              : cell.align === 'center'
+                ? (width - 2 * CELL_PADDING - line.width) / 2
+                : 0;
+          const baseline = this.y - CELL_PADDING - index * TABLE_LEADING - TABLE_LEADING / 2 - TABLE_SIZE * 0.28;
+          for (const fragment of line.fragments) {
+            const left = x + CELL_PADDING + offset + fragment.x;
+            this.text(fragment.text, left, baseline, fragment.font, fragment.size, fragment.color);
+            if (fragment.link) {
+              this.link([left, baseline - fragment.size * 0.25, left + fragment.width, baseline + fragment.size * 0.8], fragment.link);
+            }
+          }
+        });
+        x += width;
+      });
+      this.advance(row.height, context);
+    };
+
+    for (const row of laidOut) {
+      // Repeat the header row at the top of each page
+      if (this.ensure(row.height) && !row.header) headerRows.forEach(drawRow);
+      drawRow(row);
+    }
+
+    this.space(context.compact ? 4 : 10, context);
+  }
+
+  image(data: Buffer, context: BlockContext): void {
+    let png: PngImage;
+    try {
+      png = decodePng(data);
+    } catch (error) {
+      console.error('Error embedding diagram in PDF:', error);
+      this.paragraph([{ text: '[Diagram could not be embedded]', italic: true, color: COLORS.muted }], context);
+      return;
+    }
+
+    // Renderers produce 96 dpi images; PDF units are 72 per inch
+    let width = png.width * 0.75;
+    let height = png.height * 0.75;
+    const scale = Math.min(1, context.width / width, ((CONTENT_TOP - MARGIN_BOTTOM) * 0.9) / height);
+    width *= scale;
+    height *= scale;
+
+    this.ensure(height);
+    this.images.push(png);
+    const x = context.x + (context.width - width) / 2;
+    this.page.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.y - height)} cm /Im${this.images.length} Do Q`);
+    this.advance(height, context);
+    this.space(10, context);
+  }
+
+  section(section: DocumentSection): void {
+    const context: BlockContext = {
+      x: MARGIN_X,
+      width: CONTENT_WIDTH,
+      style: { color: COLORS.text },
+      quoteBars: [],
+      listDepth: 0,
+      compact: false,
+    };
+
+    this.heading([{ text: sectionHeading(section) }], section.level, context, section.anchor);
+    this.paragraph([{ text: section.meta.join(' · '), color: COLORS.muted }], context, META_SIZE, META_SIZE * 1.5);
+    this.space(10, context);
+    this.blocks(section.body.children, context);
+  }
+}
+
+function truncate(value: string, font: PdfFont, size: number, maxWidth: number): string {
+  let text = toWinAnsi(value);
+  if (textWidth(text, font, size) <= maxWidth) return text;
+  while (text.length > 1 && textWidth(`${text}...`, font, size) > maxWidth) text = text.slice(0, -1);
+  return `${text.trimEnd()}...`;
+}
+
+function drawCover(layout: PdfLayout, document: SpecDocument): void {
+  const context: BlockContext = {
+    x: MARGIN_X,
+    width: CONTENT_WIDTH,
+    style: { color: COLORS.text },
+    quoteBars: [],
+    listDepth: 0,
+    compact: false,
+  };
+
+  layout.newPage();
+  layout.moveDown(170);
+  layout.rect(MARGIN_X, layout.cursor, 48, 4, COLORS.link);
+  layout.moveDown(24);
+  layout.paragraph([{ text: document.title, bold: true }], context, 28, 34);
+  layout.space(6, context);
+  layout.paragraph([{ text: document.subtitle, color: COLORS.muted }], context, 14, 20);
+  layout.space(36, context);
+
+  const fields: [string, string][] = [
+    ['Revision', String(document.revision)],
+    ['Status', document.status],
+    ['Approval', document.approval],
+    ['Generated', `${document.generatedAt.toISOString().slice(0, 10)} by ${document.generatedBy}`],
+  ];
+  for (const [label, value] of fields) {
+    // Values wrap in a column to the right of their label
+    layoutRuns([{ text: value }], CONTENT_WIDTH - 90, 11, context.style).forEach((line, index) => {
+      const fragments = line.fragments.map((fragment) => ({ ...fragment, x: fragment.x + 90 }));
+      if (index === 0) {
+        fragments.unshift({ text: label, font: 'regular', size: 11, color: COLORS.muted, x: 0, width: textWidth(label, 'regular', 11) });
+      }
+      layout.drawLine({ fragments, width: line.width + 90 }, MARGIN_X, 18, 11, context);
+    });
+  }
+}
+
+function tocPageCount(entries: number): number {
+  const first = Math.floor((CONTENT_TOP - MARGIN_BOTTOM - TOC_TITLE_HEIGHT) / TOC_ROW);
+  const next = Math.floor((CONTENT_TOP - MARGIN_BOTTOM) / TOC_ROW);
+  return entries <= first ? 1 : 1 + Math.ceil((entries - first) / next);
+}
+
+/**
+ * Fill the reserved contents pages now that page numbers are known
+ */
+function drawToc(layout: PdfLayout, firstPage: number, outline: DocumentTocEntry[]): void {
+  let pageIndex = firstPage;
+  let y = CONTENT_TOP;
+  const page = () => layout.pages[pageIndex];
+  const push = (op: string) => page().ops.push(op);
+
+  push(`BT /${PDF_FONTS.bold.resource} 18 Tf ${rgb(COLORS.text)} rg ${num(MARGIN_X)} ${num(y - 22)} Td ${pdfString('Contents')} Tj ET`);
+  y -= TOC_TITLE_HEIGHT;
+
+  for (const entry of outline) {
+    if (y - TOC_ROW < MARGIN_BOTTOM) {
+      pageIndex++;
+      y = CONTENT_TOP;
+    }
+    const target = layout.anchors.get(entry.anchor);
+    const pageNumber = target ? String(target.page + 1) : '';
+    const font: PdfFont = entry.level === 1 ? 'bold' : 'regular';
+    const indent = (entry.level - 1) * 14;
+    const numberWidth = textWidth(pageNumber, 'regular', BODY_SIZE);
+    const title = truncate(entry.title, font, BODY_SIZE, CONTENT_WIDTH - indent - numberWidth - 24);
+    const titleWidth = textWidth(title, font, BODY_SIZE);
+    const baseline = y - TOC_ROW / 2 - BODY_SIZE * 0.28;
+
+    push(`BT /${PDF_FONTS[font].resource} ${BODY_SIZE} Tf ${rgb(COLORS.text)} rg ${num(MARGIN_X + indent)} ${num(baseline)} Td ${pdfString(title)} Tj ET`);
+    push(`BT /${PDF_FONTS.regular.resource} ${BODY_SIZE} Tf ${rgb(COLORS.text)} rg ${num(MARGIN_X + CONTENT_WIDTH - numberWidth)} ${num(baseline)} Td ${pdfString(pageNumber)} Tj ET`);
+
+    // Dot leader between the title and the page number
+    const dotWidth = textWidth('.', 'regular', BODY_SIZE);
+    const gap = CONTENT_WIDTH - indent - titleWidth - numberWidth - 12;
+    if (gap > dotWidth * 3) {
+      const dots = '.'.repeat(Math.floor(gap / (dotWidth * 2)));
+      const dotsX = MARGIN_X + CONTENT_WIDTH - numberWidth - 6 - textWidth(dots.split('').join(' '), 'regular', BODY_SIZE);
+      push(`BT /${PDF_FONTS.regular.resource} ${BODY_SIZE} Tf ${rgb(COLORS.border)} rg ${num(dotsX)} ${num(baseline)} Td ${pdfString(dots.split('').join(' '))} Tj ET`);
+    }
+
+    if (target) page().links.push({ rect: [MARGIN_X, y - TOC_ROW, MARGIN_X + CONTENT_WIDTH, y], target: `#${entry.anchor}` });
+    y -= TOC_ROW;
+  }
+}
+
+function drawFooters(layout: PdfLayout, document: SpecDocument, firstPage: number): void {
+  const total = layout.pages.length;
+  const label = `${document.title} - revision ${document.revision}`;
+  layout.pages.forEach((page, index) => {
+    if (index < firstPage) return;
+    const pageLabel = `Page ${index + 1} of ${total}`;
+    const pageLabelWidth = textWidth(pageLabel, 'regular', 8);
+    const title = truncate(label, 'regular', 8, CONTENT_WIDTH - pageLabelWidth - 24);
+    page.ops.push(`${rgb(COLORS.border)} RG 0.5 w ${num(MARGIN_X)} ${FOOTER_BASELINE + 12} m ${num(MARGIN_X + CONTENT_WIDTH)} ${FOOTER_BASELINE + 12} l S`);
+    page.ops.push(`BT /${PDF_FONTS.regular.resource} 8 Tf ${rgb(COLORS.muted)} rg ${num(MARGIN_X)} ${FOOTER_BASELINE} Td ${pdfString(title)} Tj ET`);
+    page.ops.push(
+      `BT /${PDF_FONTS.regular.resource} 8 Tf ${rgb(COLORS.muted)} rg ${num(MARGIN_X + CONTENT_WIDTH - pageLabelWidth)} ${FOOTER_BASELINE} Td ${pdfString(pageLabel)} Tj ET`
+    );
+  });
+}
+
+// Text string in UTF-16BE, for metadata and bookmarks outside WinAnsi
+function pdfTextString(value: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+interface PdfStream {
+  dictionary: string;
+  data: Buffer;
+}
+
+/**
+ * Serialize laid-out pages with images, links and bookmarks to a PDF file
+ */
+function writePdf(layout: PdfLayout, document: SpecDocument): Buffer {
+  const objects: (string | PdfStream)[] = [];
+  const reserve = () => objects.push('');
+  const set = (id: number, value: string | PdfStream) => {
+    objects[id - 1] = value;
+  };
+  const add = (value: string | PdfStream) => objects.push(value);
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const infoId = add(
+    `<< /Title ${pdfTextString(`${document.title} (revision ${document.revision})`)} /Author ${pdfTextString(document.generatedBy)} /Producer (SpecCraft) /CreationDate (${pdfDate(document.generatedAt)}) >>`
+  );
+
+  const fontIds = Object.values(PDF_FONTS).map(
+    (font) => [font.resource, add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`)] as const
+  );
+
+  const imageIds = layout.images.map((image) => {
+    const smask = image.alpha
+      ? add({
+          dictionary: `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+          data: deflateSync(image.alpha),
+        })
+      : null;
+    return add({
+      dictionary: `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode${smask ? ` /SMask ${smask} 0 R` : ''}`,
+      data: deflateSync(image.rgb),
+    });
+  });
+
+  const resourcesId = add(
+    `<< /Font << ${fontIds.map(([name, id]) => `/${name} ${id} 0 R`).join(' ')} >>${
+      imageIds.length > 0 ? ` /XObject << ${imageIds.map((id, index) => `/Im${index + 1} ${id} 0 R`).join(' ')} >>` : ''
+    } >>`
+  );
+
+  const pageIds = layout.pages.map(() => reserve());
+  const destination = (anchor: string) => {
+    const target = layout.anchors.get(anchor);
+    return target ? `[${pageIds[target.page]} 0 R /XYZ 0 ${num(target.y + 4)} 0]` : null;
+  };
+
+  layout.pages.forEach((page, index) => {
+    const contentId = add({ dictionary: '/Filter /FlateDecode', data: deflateSync(Buffer.from(page.ops.join('\n'), 'latin1')) });
+
+    const annotationIds: number[] = [];
+    for (const link of page.links) {
+      const rect = `/Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0]`;
+      if (link.target.startsWith('#')) {
+        const dest = destination(link.target.slice(1));
+        if (dest) annotationIds.push(add(`<< /Type /Annot /Subtype /Link ${rect} /Dest ${dest} >>`));
+      } else if (/^(https?|mailto):/i.test(link.target)) {
+        const uri = link.target.replace(/[^\x21-\x7e]/g, (char) => encodeURIComponent(char));
+        annotationIds.push(add(`<< /Type /Annot /Subtype /Link ${rect} /A << /S /URI /URI ${pdfString(uri)} >> >>`));
+      }
+    }
+
+    set(
+      pageIds[index],
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resourcesId} 0 R /Contents ${contentId} 0 R${
+        annotationIds.length > 0 ? ` /Annots [${annotationIds.map((id) => `${id} 0 R`).join(' ')}]` : ''
+      } >>`
+    );
+  });
+
+  set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+  // Bookmarks nest by heading level
+  interface Bookmark {
+    id: number;
+    entry: DocumentTocEntry;
+    children: Bookmark[];
+  }
+  const roots: Bookmark[] = [];
+  const stack: Bookmark[] = [];
+  for (const entry of document.outline) {
+    if (!layout.anchors.has(entry.anchor)) continue;
+    const bookmark: Bookmark = { id: reserve(), entry, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].entry.level >= entry.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(bookmark);
+    stack.push(bookmark);
+  }
+
+  const countAll = (bookmarks: Bookmark[]): number =>
+    bookmarks.reduce((total, bookmark) => total + 1 + countAll(bookmark.children), 0);
+  const outlinesId = roots.length > 0 ? reserve() : null;
+  const writeBookmarks = (bookmarks: Bookmark[], parentId: number) => {
+    bookmarks.forEach((bookmark, index) => {
+      const fields = [
+        `/Title ${pdfTextString(bookmark.entry.title)}`,
+        `/Parent ${parentId} 0 R`,
+        `/Dest ${destination(bookmark.entry.anchor)}`,
+      ];
+      if (index > 0) fields.push(`/Prev ${bookmarks[index - 1].id} 0 R`);
+      if (index < bookmarks.length - 1) fields.push(`/Next ${bookmarks[index + 1].id} 0 R`);
+      if (bookmark.children.length > 0) {
+        fields.push(
+          `/First ${bookmark.children[0].id} 0 R`,
+          `/Last ${bookmark.children[bookmark.children.length - 1].id} 0 R`,
+          `/Count ${countAll(bookmark.children)}`
+        );
+      }
+      set(bookmark.id, `<< ${fields.join(' ')} >>`);
+      writeBookmarks(bookmark.children, bookmark.id);
+    });
+  };
+  if (outlinesId) {
+    set(outlinesId, `<< /Type /Outlines /First ${roots[0].id} 0 R /Last ${roots[roots.length - 1].id} 0 R /Count ${countAll(roots)} >>`);
+    writeBookmarks(roots, outlinesId);
+  }
+
+  set(
+    catalogId,
+    `<< /Type /Catalog /Pages ${pagesId} 0 R${outlinesId ? ` /Outlines ${outlinesId} 0 R /PageMode /UseOutlines` : ''} >>`
+  );
+
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  const write = (data: string | Buffer) => {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+    chunks.push(buffer);
+    offset += buffer.length;
+  };
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  const offsets = objects.map((object, index) => {
+    const start = offset;
+    write(`${index + 1} 0 obj\n`);
+    if (typeof object === 'string') {
+      write(`${object}\nendobj\n`);
+    } else {
+      write(`<< ${object.dictionary} /Length ${object.data.length} >>\nstream\n`);
+      write(object.data);
+      write('\nendstream\nendobj\n');
+    }
+    return start;
+  });
+
+  const xrefOffset = offset;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  for (const start of offsets) write(`${String(start).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Render a spec document as a PDF with an optional cover page and table of
+ * contents, page numbers, bookmarks and clickable links
+ */
+export function renderPdf(document: SpecDocument): Buffer {
+  const layout = new PdfLayout();
+  if (document.cover) drawCover(layout, document);
+
+  // Contents pages are reserved up front and filled in once page numbers are known
+  const tocFirstPage = layout.pages.length;
+  const tocPages = document.toc && document.outline.length > 0 ? tocPageCount(document.outline.length) : 0;
+  for (let i = 0; i < tocPages; i++) layout.newPage();
+
+  layout.newPage();
+  for (const section of document.sections) layout.section(section);
+
+  if (tocPages > 0) drawToc(layout, tocFirstPage, document.outline);
+  drawFooters(layout, document, document.cover ? 1 : 0);
+
+  return writePdf(layout, document);
+}
@@ -0,0 +1,133 @@
+// Minimal PNG decoder for embedding images in PDF and DOCX documents
+import { inflateSync } from 'zlib';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface PngImage {
+  width: number;
+  height: number;
+  // 8-bit RGB samples, row by row
+  rgb: Buffer;
+  // 8-bit alpha samples, or null for opaque images
+  alpha: Buffer | null;
+}
+
+export function isPng(data: Buffer): boolean {
+  return data.length > 24 && data.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+/**
+ * Read the pixel size from the IHDR chunk without decoding the image
+ */
+export function pngSize(data: Buffer): { width: number; height: number } {
+  if (!isPng(data)) throw new Error('Not a PNG image');
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decode a non-interlaced 8-bit PNG (grayscale, RGB, palette, with or without alpha)
+ */
+export function decodePng(data: Buffer): PngImage {
+  if (!isPng(data)) throw new Error('Not a PNG image');
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= data.length; ) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (bitDepth !== 8 || interlace !== 0) {
+    throw new Error('Only non-interlaced 8-bit PNG images are supported');
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`);
+  if (colorType === 3 && !palette) throw new Error('PNG palette is missing');
+
+  // Undo the per-row filters
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[row - stride + x - channels] : 0;
+      let value = source[x];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      pixels[row + x] = value & 0xff;
+    }
+  }
+
+  const count = width * height;
+  const rgb = Buffer.alloc(count * 3);
+  const alpha = Buffer.alloc(count, 0xff);
+  let hasAlpha = false;
+
+  for (let i = 0; i < count; i++) {
+    let r: number, g: number, b: number, a = 0xff;
+    if (colorType === 0 || colorType === 4) {
+      r = g = b = pixels[i * channels];
+      if (colorType === 4) a = pixels[i * 2 + 1];
+    } else if (colorType === 3) {
+      const index = pixels[i];
+      r = palette![index * 3];
+      g = palette![index * 3 + 1];
+      b = palette![index * 3 + 2];
+      if (transparency && index < transparency.length) a = transparency[index];
+    } else {
+      r = pixels[i * channels];
+      g = pixels[i * channels + 1];
+      b = pixels[i * channels + 2];
+      if (colorType === 6) a = pixels[i * 4 + 3];
+    }
+    rgb[i * 3] = r;
+    rgb[i * 3 + 1] = g;
+    rgb[i * 3 + 2] = b;
+    alpha[i] = a;
+    if (a !== 0xff) hasAlpha = true;
+  }
+
+  return { width, height, rgb, alpha: hasAlpha ? alpha : null };
+}
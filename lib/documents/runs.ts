@@ -0,0 +1,124 @@
+// Flattening of inline markdown content into styled text runs for the PDF
+// and DOCX writers
+import { HastElement, HastNode, classNames, isElement } from './markdown';
+import { COLORS, tokenStyle } from './theme';
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  color?: string;
+  // Absolute URL, or `#anchor` within the document
+  link?: string;
+  // Line break after the text
+  lineBreak?: boolean;
+}
+
+type RunStyle = Omit<TextRun, 'text' | 'lineBreak'>;
+
+/**
+ * Inline content of a block element as runs; whitespace is collapsed as in HTML
+ */
+export function inlineRuns(nodes: HastNode[], style: RunStyle = {}): TextRun[] {
+  const runs: TextRun[] = [];
+  for (const node of nodes) {
+    if (!isElement(node)) {
+      const value = style.code ? node.value.replace(/\n/g, ' ') : node.value.replace(/\s+/g, ' ');
+      if (value) runs.push({ ...style, text: value });
+      continue;
+    }
+
+    switch (node.tagName) {
+      case 'strong':
+      case 'b':
+        runs.push(...inlineRuns(node.children, { ...style, bold: true }));
+        break;
+      case 'em':
+      case 'i':
+        runs.push(...inlineRuns(node.children, { ...style, italic: true }));
+        break;
+      case 'del':
+      case 's':
+        runs.push(...inlineRuns(node.children, { ...style, strike: true }));
+        break;
+      case 'code':
+        runs.push(...inlineRuns(node.children, { ...style, code: true }));
+        break;
+      case 'a': {
+        const href = typeof node.properties.href === 'string' ? node.properties.href : '';
+        runs.push(...inlineRuns(node.children, href ? { ...style, link: href, color: COLORS.link } : style));
+        break;
+      }
+      case 'br':
+        if (runs.length > 0) runs[runs.length - 1].lineBreak = true;
+        else runs.push({ ...style, text: '', lineBreak: true });
+        break;
+      case 'img': {
+        // Linked images are not fetched; they are shown as a link with their alt text
+        const src = typeof node.properties.src === 'string' ? node.properties.src : '';
+        const alt = typeof node.properties.alt === 'string' && node.properties.alt ? node.properties.alt : 'image';
+        runs.push({ ...style, text: `[${alt}]`, ...(src.startsWith('data:') ? {} : { link: src, color: COLORS.link }) });
+        break;
+      }
+      case 'input':
+        // GFM task list checkbox
+        if (node.properties.type === 'checkbox') {
+          runs.push({ ...style, text: node.properties.checked ? '[x] ' : '[ ] ' });
+        }
+        break;
+      default:
+        runs.push(...inlineRuns(node.children, style));
+    }
+  }
+  return runs;
+}
+
+/**
+ * Trim leading and trailing whitespace of a paragraph's runs
+ */
+export function trimRuns(runs: TextRun[]): TextRun[] {
+  const result = runs.map((run) => ({ ...run }));
+  while (result.length > 0 && !result[0].lineBreak && !result[0].text.trimStart()) result.shift();
+  while (result.length > 0 && !result[result.length - 1].lineBreak && !result[result.length - 1].text.trimEnd()) result.pop();
+  if (result.length > 0) {
+    result[0].text = result[0].text.trimStart();
+    result[result.length - 1].text = result[result.length - 1].text.trimEnd();
+  }
+  return result;
+}
+
+/**
+ * Lines of a code block as runs colored like the highlight.js GitHub theme
+ */
+export function codeLines(pre: HastElement): TextRun[][] {
+  const lines: TextRun[][] = [[]];
+  const visit = (nodes: HastNode[], color: string, bold?: boolean, italic?: boolean) => {
+    for (const node of nodes) {
+      if (isElement(node)) {
+        const style = tokenStyle(classNames(node));
+        visit(node.children, style?.color || color, style?.bold || bold, style?.italic || italic);
+        continue;
+      }
+      node.value.split('\n').forEach((part, index) => {
+        if (index > 0) lines.push([]);
+        if (part) lines[lines.length - 1].push({ text: part, code: true, color, bold, italic });
+      });
+    }
+  };
+  visit(pre.children, COLORS.text);
+
+  // The fence's final newline leaves an empty last line
+  if (lines.length > 1 && lines[lines.length - 1].length === 0) lines.pop();
+  return lines;
+}
+
+/**
+ * Decode a PNG data URI produced for a rendered diagram
+ */
+export function dataUriImage(src: unknown): Buffer | null {
+  if (typeof src !== 'string') return null;
+  const match = /^data:image\/png;base64,(.+)$/.exec(src);
+  return match ? Buffer.from(match[1], 'base64') : null;
+}
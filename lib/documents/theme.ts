@@ -0,0 +1,81 @@
+// Colors shared by the document writers, matching MarkdownPreview and the
+// highlight.js GitHub theme it uses
+export const COLORS = {
+  text: '#24292e',
+  muted: '#6b7280',
+  quote: '#374151',
+  border: '#d1d5db',
+  tableHeader: '#f3f4f6',
+  codeBackground: '#f6f8fa',
+  link: '#2563eb',
+};
+
+interface TokenStyle {
+  color: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// highlight.js token classes (without the `hljs-` prefix)
+const TOKEN_STYLES: Record<string, TokenStyle> = {
+  doctag: { color: '#d73a49' },
+  keyword: { color: '#d73a49' },
+  'template-tag': { color: '#d73a49' },
+  'template-variable': { color: '#d73a49' },
+  type: { color: '#d73a49' },
+  title: { color: '#6f42c1' },
+  attr: { color: '#005cc5' },
+  attribute: { color: '#005cc5' },
+  literal: { color: '#005cc5' },
+  meta: { color: '#005cc5' },
+  number: { color: '#005cc5' },
+  operator: { color: '#005cc5' },
+  variable: { color: '#005cc5' },
+  'selector-attr': { color: '#005cc5' },
+  'selector-class': { color: '#005cc5' },
+  'selector-id': { color: '#005cc5' },
+  regexp: { color: '#032f62' },
+  string: { color: '#032f62' },
+  built_in: { color: '#e36209' },
+  symbol: { color: '#e36209' },
+  comment: { color: '#6a737d' },
+  code: { color: '#6a737d' },
+  formula: { color: '#6a737d' },
+  name: { color: '#22863a' },
+  quote: { color: '#22863a' },
+  'selector-tag': { color: '#22863a' },
+  'selector-pseudo': { color: '#22863a' },
+  subst: { color: '#24292e' },
+  section: { color: '#005cc5', bold: true },
+  bullet: { color: '#735c0f' },
+  emphasis: { color: '#24292e', italic: true },
+  strong: { color: '#24292e', bold: true },
+  addition: { color: '#22863a' },
+  deletion: { color: '#b31d28' },
+};
+
+/**
+ * Style of a highlighted code token from its class names, if it has one
+ */
+export function tokenStyle(classNames: string[]): TokenStyle | null {
+  for (const name of classNames) {
+    if (name.startsWith('hljs-') && TOKEN_STYLES[name.slice(5)]) {
+      return TOKEN_STYLES[name.slice(5)];
+    }
+  }
+  return null;
+}
+
+/**
+ * CSS for highlighted code, for the HTML writer
+ */
+export function tokenStylesheet(): string {
+  return Object.entries(TOKEN_STYLES)
+    .map(([token, style]) => {
+      const rules = [`color: ${style.color}`];
+      if (style.bold) rules.push('font-weight: bold');
+      if (style.italic) rules.push('font-style: italic');
+      return `.hljs-${token} { ${rules.join('; ')} }`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,85 @@
+// Outgoing email message types and MIME formatting
+import { randomUUID } from 'crypto';
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers email messages
+ * Implementations must throw when a message cannot be delivered.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage, from: string): Promise<void>;
+}
+
+/**
+ * Extract the bare address from "Name <address>" or "address"
+ */
+export function parseAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+// Encode a header value as RFC 2047 when it is not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// Base64 body encoding wrapped at 76 characters
+function encodeBody(body: string): string {
+  return (
+    Buffer.from(body, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Render a message as an RFC 5322 document with CRLF line endings
+ */
+export function buildMimeMessage(message: EmailMessage, from: string): string {
+  const domain = parseAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+    ].join('\r\n');
+  }
+
+  const boundary = `speccraft-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
@@ -0,0 +1,69 @@
+// Outgoing email transports
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { env } from './env';
+import { SmtpTransport } from './smtp-transport';
+import { EmailMessage, EmailTransport, buildMimeMessage } from './email-message';
+
+export type { EmailMessage, EmailTransport } from './email-message';
+
+/**
+ * Logs messages to the console (default for local development)
+ */
+export class ConsoleTransport implements EmailTransport {
+  async send(message: EmailMessage, from: string): Promise<void> {
+    console.log(
+      `[email] From: ${from}\n[email] To: ${message.to.join(', ')}\n[email] Subject: ${message.subject}\n${message.text}`
+    );
+  }
+}
+
+/**
+ * Writes each message as an .eml file for inspection in a mail client
+ */
+export class FileTransport implements EmailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage, from: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${randomUUID()}.eml`;
+    await writeFile(path.join(this.directory, fileName), buildMimeMessage(message, from), 'utf8');
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Get the transport selected by EMAIL_TRANSPORT
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    switch (env.email.transport) {
+      case 'smtp':
+        if (!env.email.smtp.host) {
+          throw new Error('SMTP_HOST is not configured');
+        }
+        transport = new SmtpTransport(env.email.smtp);
+        break;
+      case 'file':
+        transport = new FileTransport(env.email.fileDir);
+        break;
+      case 'console':
+        transport = new ConsoleTransport();
+        break;
+      default:
+        throw new Error(`Unknown EMAIL_TRANSPORT: ${env.email.transport}`);
+    }
+  }
+
+  return transport;
+}
+
+/**
+ * Send an email through the configured transport
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (message.to.length === 0) return;
+  await getEmailTransport().send(message, env.email.from);
+}
@@ -17,9 +17,30 @@ export const env = {
   openai: {
     endpoint: process.env.AZURE_OPENAI_ENDPOINT || '',
     apiKey: process.env.AZURE_OPENAI_API_KEY || '',
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-02-15-preview',
+    // Deployment used when AI_ACTION_MODELS names none
     deploymentName: process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4o-mini',
   },
   
+  // AI provider selection (see docs/AI_PROVIDERS.md)
+  ai: {
+    // 'azure', 'openai-compatible' or 'fake'
+    provider: process.env.AI_PROVIDER || 'azure',
+    // Per-action overrides as comma-separated `action=provider[:model]`
+    actionModels: process.env.AI_ACTION_MODELS || '',
+    // Any OpenAI-compatible server, such as vLLM or Ollama
+    openaiCompatible: {
+      // API root including the version, e.g. http://localhost:11434/v1
+      baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+      model: process.env.OPENAI_COMPATIBLE_MODEL || '',
+    },
+    // Ranks related specs for prompts as `provider:model`; empty uses BM25
+    embeddingModel: process.env.AI_EMBEDDING_MODEL || '',
+    // Estimated tokens of related specs, glossary and attachments added to prompts
+    contextTokenBudget: parseInt(process.env.AI_CONTEXT_TOKEN_BUDGET || '3000', 10),
+  },
+  
   // Azure AD
   azureAd: {
     clientId: process.env.AZURE_AD_CLIENT_ID || '',
@@ -38,8 +59,58 @@ export const env = {
     secret: process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET || '',
   },
   
+  // Outgoing email ('smtp', 'file' or 'console')
+  email: {
+    transport: process.env.EMAIL_TRANSPORT || 'console',
+    from: process.env.EMAIL_FROM || 'SpecCraft <no-reply@speccraft.local>',
+    fileDir: process.env.EMAIL_FILE_DIR || '.emails',
+    smtp: {
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+    },
+  },
+  
+  // Outbound webhooks
+  webhooks: {
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '4', 10),
+  },
+  
+  // Two-way git sync of specs (see docs/GIT_SYNC.md)
+  gitSync: {
+    // Remote URL or path, e.g. a bare repository on local disk
+    remote: process.env.GIT_SYNC_REMOTE || '',
+    branch: process.env.GIT_SYNC_BRANCH || 'main',
+    workDir: process.env.GIT_SYNC_WORKDIR || '.git-sync',
+    // Folder for spec files within the repository
+    directory: process.env.GIT_SYNC_DIRECTORY || 'specs',
+    committerName: process.env.GIT_SYNC_COMMITTER_NAME || 'SpecCraft',
+    committerEmail: process.env.GIT_SYNC_COMMITTER_EMAIL || 'no-reply@speccraft.local',
+  },
+  
+  // PDF, DOCX and HTML export of specs (see docs/IMPORT_EXPORT.md)
+  documents: {
+    // Kroki-compatible service that rasterizes Mermaid diagrams, e.g. https://kroki.io
+    mermaidRendererUrl: process.env.MERMAID_RENDERER_URL || '',
+    mermaidTimeoutMs: parseInt(process.env.MERMAID_RENDERER_TIMEOUT_MS || '15000', 10),
+  },
+  
+  // Real-time collaborative editing (see docs/COLLABORATION.md)
+  collab: {
+    enabled: process.env.COLLAB_ENABLED !== 'false',
+    // WebSocket server port; the editor connects to NEXT_PUBLIC_COLLAB_URL or this port on the app's host
+    port: parseInt(process.env.COLLAB_PORT || '3001', 10),
+    // Edits are saved as a new spec version this long after the first unsaved change
+    snapshotIntervalMs: parseInt(process.env.COLLAB_SNAPSHOT_INTERVAL_MS || '60000', 10),
+  },
+  
   // Application
   app: {
     aiDailyTokenQuota: parseInt(process.env.AI_DAILY_TOKEN_QUOTA || '100000', 10),
+    // Shared secret for scheduled jobs such as email digests
+    cronSecret: process.env.CRON_SECRET || '',
   },
 } as const;
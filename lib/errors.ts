@@ -1,3 +1,5 @@
+import type { SpecConflict } from '../types/spec';
+
 /**
  * Standardized error codes for the SpecCraft system
  */
@@ -8,6 +10,7 @@ export enum ErrorCode {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
   RATE_LIMIT = 'RATE_LIMIT',
+  CONFLICT = 'CONFLICT',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
 
@@ -47,6 +50,16 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Save rejected because the spec changed since the version it was based on
+ */
+export class SpecConflictError extends AppError {
+  constructor(public conflict: SpecConflict, message: string = 'The spec was changed by someone else') {
+    super(ErrorCode.CONFLICT, message, conflict, 409);
+    this.name = 'SpecConflictError';
+  }
+}
+
 /**
  * Create standardized error responses
  */
@@ -75,6 +88,7 @@ export function getStatusCodeForError(code: ErrorCode): number {
     [ErrorCode.VALIDATION_ERROR]: 400,
     [ErrorCode.QUOTA_EXCEEDED]: 429,
     [ErrorCode.RATE_LIMIT]: 429,
+    [ErrorCode.CONFLICT]: 409,
     [ErrorCode.INTERNAL_ERROR]: 500,
   };
   return statusMap[code] || 500;
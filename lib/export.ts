@@ -0,0 +1,260 @@
+// Bulk export of specs as a markdown folder hierarchy in a zip archive
+import path from 'path';
+import { Filter } from 'mongodb';
+import { SpecRepository } from './repositories/spec-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { FileAttachmentRepository } from './repositories/file-attachment-repository';
+import { combineMarkdown, stripFrontmatter } from './yaml-parser';
+import { buildSpecQuery } from './spec-filters';
+import { baselineSpecs } from './baselines';
+import { BaselineRepository } from './repositories/baseline-repository';
+import { downloadFile } from './blob-storage';
+import { writeZip, ZipWriteEntry } from './zip';
+import { AppError, ErrorCode } from './errors';
+import { SessionPayload } from '../types/auth';
+import { FileAttachment, Spec } from '../types/spec';
+import { ExportManifest, ExportManifestSpec } from '../types/export';
+
+export const EXPORT_MANIFEST_FILE = 'manifest.json';
+
+// Attachments of `epic.md` are written to `epic.attachments/`
+export const EXPORT_ATTACHMENTS_SUFFIX = '.attachments';
+
+export interface ExportOptions {
+  // Filter query (see lib/spec-filters.ts)
+  filter?: string;
+  // Export only this spec and its traceability descendants
+  rootId?: string;
+  // Export the spec versions captured in a baseline instead of current ones
+  baselineId?: string;
+  attachments: boolean;
+}
+
+export interface ExportResult {
+  archive: Buffer;
+  manifest: ExportManifest;
+}
+
+/**
+ * Current markdown document of a spec; the stored frontmatter is not updated
+ * by stage transitions, so it is rebuilt from the metadata
+ */
+export function specDocument(spec: Pick<Spec, 'metadata' | 'content'>, metadata = spec.metadata): string {
+  return combineMarkdown(metadata, stripFrontmatter(spec.content));
+}
+
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return slug || 'spec';
+}
+
+function uniqueName(base: string, used: Set<string>, extension = ''): string {
+  let name = base;
+  for (let n = 2; used.has(`${name}${extension}`.toLowerCase()); n++) {
+    name = `${base}-${n}`;
+  }
+  used.add(`${name}${extension}`.toLowerCase());
+  return name;
+}
+
+async function selectSpecs(options: ExportOptions, user: SessionPayload): Promise<Spec[]> {
+  if (options.baselineId) {
+    const baseline = await new BaselineRepository().findById(options.baselineId);
+    if (!baseline) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Baseline not found', undefined, 404);
+    }
+    return (await baselineSpecs(baseline)).sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  const specRepo = new SpecRepository();
+  const conditions: Filter<Spec>[] = [];
+
+  if (options.filter) {
+    conditions.push(await buildSpecQuery(options.filter, user));
+  }
+
+  if (options.rootId) {
+    const root = await specRepo.findById(options.rootId);
+    if (!root) {
+      throw new AppError(ErrorCode.NOT_FOUND, 'Root spec not found', undefined, 404);
+    }
+    const descendants = await new TraceabilityRepository().getDescendants(root._id);
+    conditions.push({ _id: { $in: [root._id, ...descendants] } } as Filter<Spec>);
+  }
+
+  const query = conditions.length === 0 ? {} : conditions.length === 1 ? conditions[0] : { $and: conditions };
+  const specs = await specRepo.find(query as Filter<Spec>);
+
+  return specs.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Export specs to a zip archive laid out like a markdown repository
+ *
+ * Each spec becomes `<slug>.md` and its children go in a `<slug>/` folder
+ * next to it, following `metadata.parentId` or else the oldest traceability
+ * link to a parent in the export. A child's `parentId` is written as the
+ * relative path of its parent file, and kept as a spec ID when it points
+ * outside the export, so the archive can be imported as is. `manifest.json` lists
+ * IDs, versions and all traceability parents, which frontmatter cannot hold.
+ */
+export async function exportSpecs(options: ExportOptions, user: SessionPayload): Promise<ExportResult> {
+  const specs = await selectSpecs(options, user);
+  const specsById = new Map(specs.map((spec) => [spec._id, spec]));
+  const specIds = specs.map((spec) => spec._id);
+
+  const links = (await new TraceabilityRepository().findByChildIds(specIds)).sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const parentIds = new Map<string, string[]>();
+  for (const link of links) {
+    parentIds.set(link.childId, [...(parentIds.get(link.childId) || []), link.parentId]);
+  }
+
+  // Parent each spec is placed under
+  const placement = new Map<string, Spec>();
+  for (const spec of specs) {
+    const candidates = [spec.metadata.parentId, ...(parentIds.get(spec._id) || [])];
+    const parentId = candidates.find((id) => id && id !== spec._id && specsById.has(id));
+    if (parentId) placement.set(spec._id, specsById.get(parentId)!);
+  }
+
+  const children = new Map<string | null, Spec[]>();
+  for (const spec of specs) {
+    const key = placement.get(spec._id)?._id ?? null;
+    children.set(key, [...(children.get(key) || []), spec]);
+  }
+
+  // Assign paths depth-first; specs in a metadata.parentId cycle are never
+  // reached from a root, so the first of them is moved to the top level
+  const filePaths = new Map<string, string>();
+  const usedNames = new Map<string, Set<string>>();
+  const assign = (spec: Spec, directory: string) => {
+    if (filePaths.has(spec._id)) return;
+    const used = usedNames.get(directory) || new Set<string>();
+    usedNames.set(directory, used);
+
+    const name = uniqueName(slugify(spec.title), used);
+    const filePath = directory ? `${directory}/${name}.md` : `${name}.md`;
+    filePaths.set(spec._id, filePath);
+
+    const childDirectory = directory ? `${directory}/${name}` : name;
+    for (const child of children.get(spec._id) || []) assign(child, childDirectory);
+  };
+  for (const root of children.get(null) || []) assign(root, '');
+  for (const spec of specs) {
+    if (!filePaths.has(spec._id)) {
+      placement.delete(spec._id);
+      assign(spec, '');
+    }
+  }
+
+  const entries: ZipWriteEntry[] = [];
+  const manifestSpecs = new Map<string, ExportManifestSpec>();
+
+  for (const spec of specs) {
+    const filePath = filePaths.get(spec._id)!;
+    const parent = placement.get(spec._id);
+    const metadata = { ...spec.metadata };
+    if (parent && (!spec.metadata.parentId || spec.metadata.parentId === parent._id)) {
+      metadata.parentId = path.posix.relative(path.posix.dirname(filePath), filePaths.get(parent._id)!);
+    }
+
+    entries.push({
+      path: filePath,
+      data: Buffer.from(`${specDocument(spec, metadata)}\n`, 'utf8'),
+      modifiedAt: new Date(spec.updatedAt),
+    });
+
+    manifestSpecs.set(spec._id, {
+      id: spec._id,
+      path: filePath,
+      title: spec.title,
+      type: spec.metadata.type,
+      status: spec.metadata.status,
+      currentVersion: spec.currentVersion,
+      parentIds: parentIds.get(spec._id) || [],
+      updatedAt: spec.updatedAt,
+      attachments: [],
+    });
+  }
+
+  if (options.attachments) {
+    const attachments = await new FileAttachmentRepository().findBySpecIds(specIds);
+    const usedAttachmentNames = new Map<string, Set<string>>();
+
+    for (const attachment of attachments) {
+      const entry = await exportAttachment(attachment, filePaths.get(attachment.specId)!, usedAttachmentNames);
+      if (!entry) continue;
+
+      entries.push(entry);
+      manifestSpecs.get(attachment.specId)!.attachments.push({
+        id: attachment._id,
+        fileName: attachment.fileName,
+        path: entry.path,
+        contentType: attachment.contentType,
+        size: attachment.size,
+      });
+    }
+  }
+
+  const manifest: ExportManifest = {
+    version: 1,
+    exportedAt: new Date(),
+    exportedBy: user.email,
+    scope: {
+      filter: options.filter,
+      rootId: options.rootId,
+      baselineId: options.baselineId,
+      attachments: options.attachments,
+    },
+    specs: [...manifestSpecs.values()].sort((a, b) => a.path.localeCompare(b.path)),
+  };
+
+  entries.push({
+    path: EXPORT_MANIFEST_FILE,
+    data: Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`, 'utf8'),
+    modifiedAt: manifest.exportedAt,
+  });
+
+  return { archive: writeZip(entries), manifest };
+}
+
+/**
+ * Download an attachment into the spec's attachments folder
+ * Attachments whose blob is missing are left out rather than failing the export.
+ */
+async function exportAttachment(
+  attachment: FileAttachment,
+  specPath: string,
+  usedNames: Map<string, Set<string>>
+): Promise<ZipWriteEntry | null> {
+  const directory = `${specPath.replace(/\.md$/, '')}${EXPORT_ATTACHMENTS_SUFFIX}`;
+  const used = usedNames.get(directory) || new Set<string>();
+  usedNames.set(directory, used);
+
+  let data: Buffer;
+  try {
+    data = await downloadFile(attachment.blobPath);
+  } catch (error) {
+    console.error(`Error exporting attachment ${attachment._id}:`, error);
+    return null;
+  }
+
+  const fileName = attachment.fileName.replace(/[\\/]/g, '_');
+  const extension = path.posix.extname(fileName);
+  const name = uniqueName(path.posix.basename(fileName, extension), used, extension);
+
+  return {
+    path: `${directory}/${name}${extension}`,
+    data,
+    modifiedAt: new Date(attachment.uploadedAt),
+  };
+}
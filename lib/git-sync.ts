@@ -0,0 +1,635 @@
+// Two-way synchronization of specs with a git repository
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { env } from './env';
+import { runGit, authorEnv, resolveRef, hasStagedChanges, GitAuthor } from './git';
+import { SpecRepository } from './repositories/spec-repository';
+import { RevisionRepository } from './repositories/revision-repository';
+import { UserRepository } from './repositories/user-repository';
+import { GitSyncStateRepository } from './repositories/git-sync-state-repository';
+import { parseFrontmatter, combineMarkdown, stripFrontmatter } from './yaml-parser';
+import { assertStageUnchanged, getWorkflowForSpecType } from './workflows';
+import { emitWebhookEvent, webhookSpecData } from './webhooks';
+import { syncCollabDocument } from './collab/rooms';
+import { slugify, specDocument } from './export';
+import { AppError, ErrorCode } from './errors';
+import { SessionPayload } from '../types/auth';
+import { Spec, SpecMetadata } from '../types/spec';
+import {
+  GitSyncChange,
+  GitSyncChangeAction,
+  GitSyncReport,
+  GitSyncResolution,
+  GitSyncState,
+} from '../types/git-sync';
+
+interface PendingCommit {
+  specId: string;
+  path: string;
+  // null removes the file
+  document: string | null;
+  version?: number;
+  message: string;
+  authorId?: string;
+  date: Date;
+}
+
+let running: Promise<GitSyncReport> | null = null;
+
+export function isGitSyncConfigured(): boolean {
+  return Boolean(env.gitSync.remote);
+}
+
+function hashDocument(document: string): string {
+  return createHash('sha256').update(document).digest('hex');
+}
+
+function fileContents(document: string): string {
+  return `${document.trimEnd()}\n`;
+}
+
+function committerEnv(): Record<string, string> {
+  return {
+    GIT_COMMITTER_NAME: env.gitSync.committerName,
+    GIT_COMMITTER_EMAIL: env.gitSync.committerEmail,
+  };
+}
+
+/**
+ * Bring the working copy in line with the remote branch
+ * The working copy only holds commits made by a sync, and those are pushed
+ * (or dropped) in the same run, so it can be reset to the remote branch.
+ */
+async function prepareWorkingCopy(): Promise<string> {
+  const { remote, branch } = env.gitSync;
+  const workDir = path.resolve(env.gitSync.workDir);
+
+  if (!existsSync(path.join(workDir, '.git'))) {
+    await mkdir(workDir, { recursive: true });
+    await runGit(workDir, ['init', '--quiet']);
+    await runGit(workDir, ['remote', 'add', 'origin', remote]);
+  } else {
+    await runGit(workDir, ['remote', 'set-url', 'origin', remote]);
+  }
+
+  await runGit(workDir, ['fetch', '--quiet', '--prune', 'origin']);
+  const remoteHead = await resolveRef(workDir, `refs/remotes/origin/${branch}`);
+
+  if (remoteHead) {
+    await runGit(workDir, ['checkout', '--quiet', '--force', '-B', branch, remoteHead]);
+  } else {
+    // Empty remote: the first sync commit starts the branch
+    await runGit(workDir, ['symbolic-ref', 'HEAD', `refs/heads/${branch}`]);
+    if (await resolveRef(workDir, `refs/heads/${branch}`)) {
+      await runGit(workDir, ['update-ref', '-d', `refs/heads/${branch}`]);
+    }
+    await runGit(workDir, ['read-tree', '--empty']);
+  }
+  await runGit(workDir, ['clean', '--quiet', '-fd']);
+
+  return workDir;
+}
+
+async function listSpecFiles(workDir: string): Promise<Set<string>> {
+  const output = await runGit(workDir, ['ls-files', '-z', '--', env.gitSync.directory]);
+  return new Set(
+    output.split('\0').filter((file) => file.endsWith('.md') || file.endsWith('.markdown'))
+  );
+}
+
+async function readSpecFile(workDir: string, filePath: string): Promise<string> {
+  return (await readFile(path.join(workDir, filePath), 'utf8')).replace(/\r\n/g, '\n');
+}
+
+async function lastCommit(
+  workDir: string,
+  filePath: string
+): Promise<{ commit: string; name: string; email: string } | null> {
+  const output = await runGit(workDir, ['log', '-1', '--format=%H%x00%an%x00%ae', '--', filePath]);
+  if (!output.trim()) return null;
+  const [commit, name, email] = output.trim().split('\0');
+  return { commit, name, email };
+}
+
+/**
+ * Path for a spec's first commit: `<directory>/<slug>.md`, unique in the repository
+ */
+function newSpecPath(spec: Spec, usedPaths: Set<string>): string {
+  const base = `${env.gitSync.directory}/${slugify(spec.title)}`;
+  let candidate = `${base}.md`;
+  for (let n = 2; usedPaths.has(candidate.toLowerCase()); n++) {
+    candidate = `${base}-${n}.md`;
+  }
+  usedPaths.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Parse and validate a spec file edited in git
+ */
+async function parseSpecFile(content: string): Promise<{ metadata: SpecMetadata; document: string }> {
+  const { frontmatter, content: body } = parseFrontmatter(content);
+
+  const workflow = await getWorkflowForSpecType(frontmatter.type);
+  if (!workflow.stages.includes(frontmatter.status)) {
+    throw new Error(
+      `status: "${frontmatter.status}" is not a stage of workflow "${workflow.name}" (${workflow.stages.join(', ')})`
+    );
+  }
+
+  return { metadata: frontmatter, document: combineMarkdown(frontmatter, body) };
+}
+
+/**
+ * Map the author of the last commit to a file to a user
+ * Authors without an account are recorded by email.
+ */
+async function commitActor(
+  workDir: string,
+  filePath: string
+): Promise<{ userId: string; actor?: SessionPayload; commit?: string }> {
+  const last = await lastCommit(workDir, filePath);
+  if (!last) return { userId: env.gitSync.committerEmail };
+
+  const user = await new UserRepository().findByEmail(last.email);
+  return user
+    ? { userId: user._id, actor: { userId: user._id, email: user.email, role: user.role }, commit: last.commit }
+    : { userId: last.email, commit: last.commit };
+}
+
+/**
+ * Pull edits made in git into the app as new spec versions
+ * A file is pulled when it changed since the last sync and the spec did not;
+ * when both changed, a conflict is recorded. New files become new specs.
+ * Returns the IDs of specs that must not be pushed in this run.
+ */
+async function pullChanges(
+  workDir: string,
+  files: Set<string>,
+  specs: Map<string, Spec>,
+  states: Map<string, GitSyncState>,
+  changes: GitSyncChange[]
+): Promise<Set<string>> {
+  const specRepo = new SpecRepository();
+  const revisionRepo = new RevisionRepository();
+  const stateRepo = new GitSyncStateRepository();
+  const skipPush = new Set<string>();
+  const trackedPaths = new Set([...states.values()].map((state) => state.path));
+
+  for (const state of states.values()) {
+    const spec = specs.get(state.specId);
+    if (state.conflict) {
+      skipPush.add(state.specId);
+      changes.push({ path: state.path, specId: state.specId, action: 'conflict' });
+      continue;
+    }
+    // Specs deleted in the app and files deleted in git are handled when pushing
+    if (!spec || !files.has(state.path)) continue;
+
+    const fileContent = await readSpecFile(workDir, state.path);
+    const fileHash = hashDocument(fileContent);
+    if (fileHash === state.fileHash) continue;
+
+    skipPush.add(spec._id);
+    const appDocument = specDocument(spec);
+    const appHash = hashDocument(appDocument);
+
+    try {
+      if (appHash !== state.appHash || spec.currentVersion !== state.version) {
+        if (fileContents(appDocument) === fileContents(fileContent)) {
+          // Both sides made the same change
+          await stateRepo.saveSynced(spec._id, {
+            path: state.path,
+            version: spec.currentVersion,
+            appHash,
+            fileHash,
+            commit: state.commit,
+          });
+          continue;
+        }
+
+        const last = await lastCommit(workDir, state.path);
+        await stateRepo.setConflict(spec._id, {
+          detectedAt: new Date(),
+          specVersion: spec.currentVersion,
+          fileCommit: last?.commit ?? '',
+          fileContent,
+        });
+        changes.push({ path: state.path, specId: spec._id, action: 'conflict' });
+        continue;
+      }
+
+      const { metadata, document } = await parseSpecFile(fileContent);
+      assertStageUnchanged(spec.metadata, metadata);
+      const { userId, actor, commit } = await commitActor(workDir, state.path);
+
+      // A spec saved in the meantime is compared again on the next sync
+      const updated = await specRepo.updateSpec(spec._id, document, metadata, userId, spec.currentVersion);
+      if (!updated) continue;
+      await revisionRepo.createRevision(
+        spec._id,
+        spec.currentVersion,
+        spec.content,
+        spec.metadata,
+        userId,
+        spec.restoredFrom
+      );
+      await syncCollabDocument(updated);
+
+      await stateRepo.saveSynced(spec._id, {
+        path: state.path,
+        version: updated.currentVersion,
+        appHash: hashDocument(specDocument(updated)),
+        fileHash,
+        commit,
+      });
+      changes.push({ path: state.path, specId: spec._id, action: 'pulled', versions: [updated.currentVersion] });
+
+      if (actor) {
+        await emitWebhookEvent(
+          'spec.updated',
+          { spec: webhookSpecData(updated), previousVersion: spec.currentVersion },
+          actor
+        );
+      }
+    } catch (error) {
+      changes.push({
+        path: state.path,
+        specId: spec._id,
+        action: 'error',
+        error: error instanceof Error ? error.message : 'Failed to pull file',
+      });
+    }
+  }
+
+  // Files added in git
+  const untracked = new Map<string, Spec>();
+  for (const spec of specs.values()) {
+    if (!states.has(spec._id)) untracked.set(spec.title.toLowerCase(), spec);
+  }
+
+  for (const filePath of files) {
+    if (trackedPaths.has(filePath)) continue;
+
+    try {
+      const fileContent = await readSpecFile(workDir, filePath);
+      const fileHash = hashDocument(fileContent);
+      const { metadata, document } = await parseSpecFile(fileContent);
+      const { userId, actor, commit } = await commitActor(workDir, filePath);
+
+      // A spec that was never synced but has the same title is adopted, not duplicated
+      const existing = untracked.get(metadata.title.toLowerCase());
+      if (existing) {
+        untracked.delete(metadata.title.toLowerCase());
+        skipPush.add(existing._id);
+        const appDocument = specDocument(existing);
+        const input = { path: filePath, version: existing.currentVersion, appHash: hashDocument(appDocument), fileHash, commit };
+        await stateRepo.saveSynced(existing._id, input);
+
+        if (fileContents(appDocument) !== fileContents(fileContent)) {
+          await stateRepo.setConflict(existing._id, {
+            detectedAt: new Date(),
+            specVersion: existing.currentVersion,
+            fileCommit: commit ?? '',
+            fileContent,
+          });
+          changes.push({ path: filePath, specId: existing._id, action: 'conflict' });
+        }
+        continue;
+      }
+
+      const spec = await specRepo.createSpec(metadata.title, document, metadata, userId);
+      skipPush.add(spec._id);
+      await stateRepo.saveSynced(spec._id, {
+        path: filePath,
+        version: spec.currentVersion,
+        appHash: hashDocument(specDocument(spec)),
+        fileHash,
+        commit,
+      });
+      changes.push({ path: filePath, specId: spec._id, action: 'created', versions: [spec.currentVersion] });
+
+      if (actor) {
+        await emitWebhookEvent('spec.created', { spec: webhookSpecData(spec) }, actor);
+      }
+    } catch (error) {
+      changes.push({
+        path: filePath,
+        action: 'error',
+        error: error instanceof Error ? error.message : 'Failed to import file',
+      });
+    }
+  }
+
+  return skipPush;
+}
+
+/**
+ * Commits for the versions of a spec from `fromVersion` on
+ * A revision holds the content of its version and the author and time of the
+ * edit that replaced it, so authorship comes from the previous revision.
+ * A metadata-only change (e.g. a stage transition) yields one commit of the
+ * current document.
+ */
+async function versionCommits(spec: Spec, filePath: string, fromVersion: number): Promise<PendingCommit[]> {
+  const revisions = new Map(
+    (await new RevisionRepository().findBySpecId(spec._id)).map((revision) => [revision.version, revision])
+  );
+  const commits: PendingCommit[] = [];
+
+  for (let version = Math.max(fromVersion, 1); version <= spec.currentVersion; version++) {
+    const revision = revisions.get(version);
+    const previous = revisions.get(version - 1);
+
+    let document: string;
+    if (version === spec.currentVersion) {
+      document = specDocument(spec);
+    } else if (revision) {
+      document = combineMarkdown(revision.metadata, stripFrontmatter(revision.content));
+    } else {
+      continue;
+    }
+
+    commits.push({
+      specId: spec._id,
+      path: filePath,
+      document,
+      version,
+      message: version === 1 ? `Add ${spec.title}` : `Update ${spec.title} to v${version}`,
+      authorId: version === 1 ? spec.createdBy : previous?.author ?? spec.updatedBy,
+      date: new Date(version === 1 ? spec.createdAt : previous?.timestamp ?? spec.updatedAt),
+    });
+  }
+
+  if (commits.length === 0) {
+    commits.push({
+      specId: spec._id,
+      path: filePath,
+      document: specDocument(spec),
+      version: spec.currentVersion,
+      message: `Update ${spec.title} metadata`,
+      authorId: spec.updatedBy,
+      date: new Date(spec.updatedAt),
+    });
+  }
+
+  // Keep a spec's commits in version order when interleaved with other specs
+  for (let i = 1; i < commits.length; i++) {
+    if (commits[i].date < commits[i - 1].date) commits[i].date = commits[i - 1].date;
+  }
+
+  return commits;
+}
+
+/**
+ * Git authors for the users of pending commits
+ * Authors recorded by email (edits pulled from git) are kept as they are.
+ */
+async function resolveAuthors(commits: PendingCommit[]): Promise<Map<string, GitAuthor>> {
+  const ids = [...new Set(commits.map((commit) => commit.authorId).filter((id): id is string => Boolean(id)))];
+  const users = await new UserRepository().findByIds(ids);
+  const authors = new Map<string, GitAuthor>();
+
+  for (const id of ids) {
+    const user = users.find((candidate) => candidate._id.toString() === id);
+    authors.set(
+      id,
+      user
+        ? { name: user.name, email: user.email }
+        : { name: id, email: id.includes('@') ? id : env.gitSync.committerEmail }
+    );
+  }
+
+  return authors;
+}
+
+/**
+ * Commit spec versions not yet in git, oldest first, and push them
+ * Sync state is only recorded once the push succeeds; a rejected push is
+ * retried on the next run.
+ */
+async function pushChanges(
+  workDir: string,
+  files: Set<string>,
+  specs: Map<string, Spec>,
+  states: Map<string, GitSyncState>,
+  skip: Set<string>,
+  changes: GitSyncChange[]
+): Promise<void> {
+  const stateRepo = new GitSyncStateRepository();
+  const usedPaths = new Set([...files, ...[...states.values()].map((state) => state.path)].map((p) => p.toLowerCase()));
+  const pending: PendingCommit[] = [];
+
+  for (const spec of specs.values()) {
+    if (skip.has(spec._id)) continue;
+    const state = states.get(spec._id);
+
+    if (!state) {
+      pending.push(...(await versionCommits(spec, newSpecPath(spec, usedPaths), 1)));
+    } else if (hashDocument(specDocument(spec)) !== state.appHash || spec.currentVersion !== state.version) {
+      pending.push(...(await versionCommits(spec, state.path, state.version + 1)));
+    } else if (!files.has(state.path)) {
+      // Deleted in git: restore it, the spec still exists
+      pending.push({
+        specId: spec._id,
+        path: state.path,
+        document: specDocument(spec),
+        version: spec.currentVersion,
+        message: `Restore ${spec.title}`,
+        date: new Date(),
+      });
+    }
+  }
+
+  // Specs deleted in the app
+  const removed: GitSyncState[] = [];
+  for (const state of states.values()) {
+    if (specs.has(state.specId) || state.conflict) continue;
+    removed.push(state);
+    if (files.has(state.path)) {
+      pending.push({
+        specId: state.specId,
+        path: state.path,
+        document: null,
+        message: `Remove ${state.path}`,
+        date: new Date(),
+      });
+    }
+  }
+
+  pending.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const authors = await resolveAuthors(pending);
+  const committed = new Map<string, { path: string; versions: number[]; fileHash: string; commit?: string }>();
+
+  for (const commit of pending) {
+    const fullPath = path.join(workDir, commit.path);
+    if (commit.document === null) {
+      await runGit(workDir, ['rm', '--quiet', '--', commit.path]);
+    } else {
+      await mkdir(path.dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, fileContents(commit.document), 'utf8');
+      await runGit(workDir, ['add', '--', commit.path]);
+    }
+
+    const entry = committed.get(commit.specId) || { path: commit.path, versions: [], fileHash: '' };
+    committed.set(commit.specId, entry);
+    if (commit.document !== null) entry.fileHash = hashDocument(fileContents(commit.document));
+    if (!(await hasStagedChanges(workDir))) continue;
+
+    const author = commit.authorId ? authors.get(commit.authorId) : undefined;
+    const trailers = [`SpecCraft-Spec: ${commit.specId}`];
+    if (commit.version) trailers.push(`SpecCraft-Version: ${commit.version}`);
+
+    await runGit(workDir, ['commit', '--quiet', '-m', commit.message, '-m', trailers.join('\n')], {
+      env: {
+        ...committerEnv(),
+        ...authorEnv({
+          name: author?.name ?? env.gitSync.committerName,
+          email: author?.email ?? env.gitSync.committerEmail,
+          date: commit.date,
+        }),
+      },
+    });
+    entry.commit = (await resolveRef(workDir, 'HEAD')) ?? undefined;
+    if (commit.version) entry.versions.push(commit.version);
+  }
+
+  const localHead = await resolveRef(workDir, 'HEAD');
+  const remoteHead = await resolveRef(workDir, `refs/remotes/origin/${env.gitSync.branch}`);
+  if (localHead && localHead !== remoteHead) {
+    try {
+      await runGit(workDir, ['push', '--quiet', 'origin', `HEAD:refs/heads/${env.gitSync.branch}`]);
+    } catch (error) {
+      const message = `Push failed, will retry on the next sync: ${error instanceof Error ? error.message : error}`;
+      for (const [specId, entry] of committed) {
+        changes.push({ path: entry.path, specId, action: 'error', error: message });
+      }
+      return;
+    }
+  }
+
+  for (const [specId, entry] of committed) {
+    const spec = specs.get(specId);
+    if (!spec) {
+      await stateRepo.deleteBySpecId(specId);
+      changes.push({ path: entry.path, specId, action: 'removed' });
+      continue;
+    }
+
+    await stateRepo.saveSynced(specId, {
+      path: entry.path,
+      version: spec.currentVersion,
+      appHash: hashDocument(specDocument(spec)),
+      fileHash: entry.fileHash,
+      commit: entry.commit ?? states.get(specId)?.commit,
+    });
+    changes.push({ path: entry.path, specId, action: 'pushed', versions: entry.versions });
+  }
+
+  // Removed specs whose file was already gone
+  for (const state of removed) {
+    if (!committed.has(state.specId)) await stateRepo.deleteBySpecId(state.specId);
+  }
+}
+
+async function runSync(): Promise<GitSyncReport> {
+  if (!isGitSyncConfigured()) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, 'Git sync is not configured (set GIT_SYNC_REMOTE)', undefined, 400);
+  }
+
+  const startedAt = new Date();
+  const workDir = await prepareWorkingCopy();
+  const changes: GitSyncChange[] = [];
+
+  const specs = new Map((await new SpecRepository().find({})).map((spec) => [spec._id, spec]));
+  const states = new Map((await new GitSyncStateRepository().findAll()).map((state) => [state.specId, state]));
+  const files = await listSpecFiles(workDir);
+
+  const skip = await pullChanges(workDir, files, specs, states, changes);
+
+  // Pulled and created specs changed; push from fresh copies of everything else
+  await pushChanges(workDir, files, specs, states, skip, changes);
+
+  const summary = Object.fromEntries(
+    (['pushed', 'pulled', 'created', 'removed', 'conflict', 'error'] as GitSyncChangeAction[]).map((action) => [
+      action,
+      changes.filter((change) => change.action === action).length,
+    ])
+  ) as Record<GitSyncChangeAction, number>;
+
+  return {
+    startedAt,
+    completedAt: new Date(),
+    head: await resolveRef(workDir, 'HEAD'),
+    changes,
+    summary,
+  };
+}
+
+/**
+ * Synchronize specs with the configured git repository
+ *
+ * 1. Files edited in git since the last sync are pulled in as new spec
+ *    versions (attributed to the commit author), and new files become specs.
+ * 2. Spec versions not yet in git are committed one per version with the
+ *    author and time of the revision, then pushed.
+ *
+ * When a spec and its file both changed since the last sync, a conflict is
+ * recorded and the spec is left alone until `resolveGitSyncConflict`.
+ * Concurrent calls share one run.
+ */
+export function syncSpecs(): Promise<GitSyncReport> {
+  if (!running) {
+    running = runSync().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+/**
+ * Resolve a sync conflict by keeping one side, then run a sync
+ * `app` overwrites the file with the spec's versions; `git` pulls the file in
+ * as a new version on top of the app's changes.
+ */
+export async function resolveGitSyncConflict(
+  specId: string,
+  resolution: GitSyncResolution
+): Promise<GitSyncReport> {
+  if (running) await running.catch(() => undefined);
+
+  const stateRepo = new GitSyncStateRepository();
+  const state = await stateRepo.findBySpecId(specId);
+  if (!state?.conflict) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'No sync conflict for this spec', undefined, 404);
+  }
+
+  const spec = await new SpecRepository().findById(specId);
+  if (!spec) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'Spec not found', undefined, 404);
+  }
+
+  if (resolution === 'app') {
+    // The file counts as synced and the spec as changed, so the spec is pushed
+    await stateRepo.saveSynced(specId, {
+      path: state.path,
+      version: state.version,
+      appHash: '',
+      fileHash: hashDocument(state.conflict.fileContent),
+      commit: state.conflict.fileCommit || state.commit,
+    });
+  } else {
+    // The spec counts as synced and the file as changed, so the file is pulled
+    await stateRepo.saveSynced(specId, {
+      path: state.path,
+      version: spec.currentVersion,
+      appHash: hashDocument(specDocument(spec)),
+      fileHash: state.fileHash,
+      commit: state.commit,
+    });
+  }
+
+  return syncSpecs();
+}
@@ -0,0 +1,98 @@
+// Thin wrapper around the git command line
+import { execFile } from 'child_process';
+
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+  date?: Date;
+}
+
+/**
+ * Error for a failed git command, with its arguments and stderr
+ */
+export class GitError extends Error {
+  constructor(
+    message: string,
+    public args: string[],
+    public exitCode: number | null,
+    public stderr: string
+  ) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Run git in a directory and return its stdout
+ * Prompts are disabled so a missing credential fails instead of hanging.
+ */
+export function runGit(
+  cwd: string,
+  args: string[],
+  options: { env?: Record<string, string> } = {}
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      {
+        cwd,
+        maxBuffer: MAX_OUTPUT,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...options.env },
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          const exitCode = typeof error.code === 'number' ? error.code : null;
+          reject(
+            new GitError(
+              `git ${args[0]} failed: ${stderr.trim() || error.message}`,
+              args,
+              exitCode,
+              stderr
+            )
+          );
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Environment that sets the author (and date) of a commit
+ */
+export function authorEnv(author: GitAuthor): Record<string, string> {
+  return {
+    GIT_AUTHOR_NAME: author.name,
+    GIT_AUTHOR_EMAIL: author.email,
+    ...(author.date ? { GIT_AUTHOR_DATE: author.date.toISOString() } : {}),
+  };
+}
+
+/**
+ * Resolve a revision to a commit hash, or null if it does not exist
+ */
+export async function resolveRef(cwd: string, ref: string): Promise<string | null> {
+  try {
+    return (await runGit(cwd, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+  } catch (error) {
+    if (error instanceof GitError && error.exitCode === 1) return null;
+    throw error;
+  }
+}
+
+/**
+ * Whether the index differs from HEAD (or has entries, before the first commit)
+ */
+export async function hasStagedChanges(cwd: string): Promise<boolean> {
+  try {
+    await runGit(cwd, ['diff', '--cached', '--quiet']);
+    return false;
+  } catch (error) {
+    if (error instanceof GitError && error.exitCode === 1) return true;
+    throw error;
+  }
+}
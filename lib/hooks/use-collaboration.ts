@@ -0,0 +1,74 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Monaco } from '@monaco-editor/react';
+import { CollabClient, CollabStatus, collabUrl } from '@/lib/collab/client';
+import { MonacoCollabBinding, MonacoEditor } from '@/lib/collab/monaco-binding';
+import { CollabParticipant } from '@/types/collab';
+import { SpecMetadata } from '@/types/spec';
+
+/**
+ * Hook joining a spec's real-time editing session once the editor is mounted
+ *
+ * Status stays 'unavailable' when the collaboration server cannot be
+ * reached, in which case the editor keeps saving through the API.
+ */
+export function useCollaboration(specId: string, editor: MonacoEditor | null, monaco: Monaco | null) {
+  const [status, setStatus] = useState<CollabStatus>('connecting');
+  const [participants, setParticipants] = useState<CollabParticipant[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [lastSaved, setLastSaved] = useState<{ version: number; at: Date } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<CollabClient | null>(null);
+
+  useEffect(() => {
+    if (!editor || !monaco) return;
+
+    const token = localStorage.getItem('auth_token');
+    if (!token) {
+      setStatus('unavailable');
+      return;
+    }
+
+    // Offsets must count line breaks the same way as the server's document
+    editor.getModel()?.setEOL(monaco.editor.EndOfLineSequence.LF);
+
+    let binding: MonacoCollabBinding | null = null;
+    const client = new CollabClient(collabUrl(specId, token), editor.getValue(), {
+      onRemoteOperation: (operation) => binding?.applyRemote(operation),
+      onParticipants: (remote) => {
+        setParticipants(remote);
+        binding?.renderParticipants(remote);
+      },
+      onStatus: (next) => {
+        setStatus(next);
+        setCanEdit(client.canEdit);
+      },
+      onSaved: (version, at) => {
+        setLastSaved({ version, at });
+        setError(null);
+      },
+      onError: (message) => {
+        console.error('Collaboration error:', message);
+        setError(message);
+      },
+    });
+    binding = new MonacoCollabBinding(editor, client);
+    clientRef.current = client;
+    setStatus('connecting');
+    client.connect();
+
+    return () => {
+      client.close();
+      binding?.dispose();
+      clientRef.current = null;
+    };
+  }, [specId, editor, monaco]);
+
+  const save = useCallback((metadata?: SpecMetadata) => {
+    setError(null);
+    clientRef.current?.save(metadata);
+  }, []);
+
+  return { status, participants, canEdit, lastSaved, error, save };
+}
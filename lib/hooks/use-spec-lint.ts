@@ -0,0 +1,125 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Monaco } from '@monaco-editor/react';
+import type { MonacoEditor } from '@/lib/collab/monaco-binding';
+import { lintSpec } from '@/lib/spec-lint';
+import { SpecType } from '@/types/spec';
+import { SpecDiagnostic, SpecLintResult, SpecLintSeverity } from '@/types/lint';
+
+// Marker owners, so each pass replaces only its own markers
+const RULES_OWNER = 'spec-lint';
+const AI_OWNER = 'spec-lint-ai';
+
+// Delay after the last edit before the rules run again
+const LINT_DELAY_MS = 500;
+
+// monaco.MarkerSeverity values
+const MARKER_SEVERITY: Record<SpecLintSeverity, number> = {
+  error: 8,
+  warning: 4,
+  info: 2,
+};
+
+function setMarkers(editor: MonacoEditor, monaco: Monaco, owner: string, diagnostics: SpecDiagnostic[]) {
+  const model = editor.getModel();
+  if (!model) return;
+  monaco.editor.setModelMarkers(
+    model,
+    owner,
+    diagnostics.map((diagnostic) => ({
+      severity: MARKER_SEVERITY[diagnostic.severity],
+      message: diagnostic.message,
+      source: diagnostic.source === 'ai' ? 'AI review' : 'Spec lint',
+      code: diagnostic.rule,
+      startLineNumber: diagnostic.line,
+      startColumn: diagnostic.column,
+      endLineNumber: diagnostic.endLine,
+      endColumn: diagnostic.endColumn,
+    }))
+  );
+}
+
+/**
+ * Hook showing spec quality diagnostics as editor markers
+ *
+ * The rule-based checks run in the browser as the content changes. The AI
+ * review runs on request and its markers stay until the next review.
+ */
+export function useSpecLint(
+  specId: string,
+  content: string,
+  type: SpecType,
+  editor: MonacoEditor | null,
+  monaco: Monaco | null
+) {
+  const [diagnostics, setDiagnostics] = useState<SpecDiagnostic[]>([]);
+  const [aiDiagnostics, setAIDiagnostics] = useState<SpecDiagnostic[]>([]);
+  const [reviewing, setReviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!editor || !monaco) return;
+
+    const timer = setTimeout(() => {
+      const found = lintSpec(content, type);
+      setDiagnostics(found);
+      setMarkers(editor, monaco, RULES_OWNER, found);
+    }, LINT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [content, type, editor, monaco]);
+
+  useEffect(() => {
+    if (!editor || !monaco) return;
+    return () => {
+      const model = editor.getModel();
+      if (model) {
+        monaco.editor.setModelMarkers(model, RULES_OWNER, []);
+        monaco.editor.setModelMarkers(model, AI_OWNER, []);
+      }
+    };
+  }, [editor, monaco]);
+
+  const reviewWithAI = useCallback(async () => {
+    if (!editor || !monaco) return;
+    setReviewing(true);
+    setError(null);
+
+    try {
+      const token = localStorage.getItem('auth_token');
+      const response = await fetch(`/api/specs/${specId}/lint`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ content: editor.getValue(), type, ai: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to review spec');
+      }
+
+      const result = data as SpecLintResult;
+      const found = result.diagnostics.filter((diagnostic) => diagnostic.source === 'ai');
+      setAIDiagnostics(found);
+      setMarkers(editor, monaco, AI_OWNER, found);
+      if (result.ai.status === 'unavailable') {
+        setError(result.ai.message || 'AI review is unavailable');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review spec');
+    } finally {
+      setReviewing(false);
+    }
+  }, [specId, type, editor, monaco]);
+
+  return {
+    diagnostics,
+    aiDiagnostics,
+    issueCount: diagnostics.length + aiDiagnostics.length,
+    reviewing,
+    error,
+    reviewWithAI,
+  };
+}
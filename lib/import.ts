@@ -0,0 +1,359 @@
+// Bulk import of markdown specs with YAML frontmatter
+import path from 'path';
+import { SpecRepository } from './repositories/spec-repository';
+import { RevisionRepository } from './repositories/revision-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { parseFrontmatter, combineMarkdown, FrontmatterError } from './yaml-parser';
+import { assertStageUnchanged, invalidStageMessage } from './workflows';
+import { hasPermission } from './permissions';
+import { EXPORT_ATTACHMENTS_SUFFIX, specDocument } from './export';
+import { emitWebhookEvent, webhookSpecData } from './webhooks';
+import { syncCollabDocument } from './collab/rooms';
+import { SessionPayload } from '../types/auth';
+import { Spec, SpecMetadata } from '../types/spec';
+import { ImportFileResult, ImportReport } from '../types/import';
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+export interface ImportSourceFile {
+  path: string;
+  content: string;
+}
+
+interface ImportItem {
+  result: ImportFileResult;
+  metadata?: SpecMetadata;
+  content?: string;
+  existing?: Spec;
+  // Import item of the parent when the reference points inside the batch
+  parentItem?: ImportItem;
+}
+
+/**
+ * Normalize an archive or upload path, or return null for files to ignore
+ * (non-markdown files, hidden files, macOS metadata, paths escaping the root,
+ * attachment folders of an export).
+ */
+export function normalizeImportPath(filePath: string): string | null {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+  const segments = normalized.split('/');
+
+  if (segments[0] === '..' || segments.some((segment) => segment.startsWith('.'))) return null;
+  if (segments[0] === '__MACOSX') return null;
+  if (segments.slice(0, -1).some((segment) => segment.endsWith(EXPORT_ATTACHMENTS_SUFFIX))) return null;
+  if (!MARKDOWN_EXTENSIONS.includes(path.posix.extname(normalized).toLowerCase())) return null;
+
+  return normalized;
+}
+
+/**
+ * Find the import item a parent reference points to, by path or by title
+ * Paths are tried relative to the referencing file, then to the import root,
+ * with and without a markdown extension.
+ */
+function findBatchParent(
+  item: ImportItem,
+  reference: string,
+  byPath: Map<string, ImportItem>,
+  byTitle: Map<string, ImportItem[]>
+): ImportItem | ImportItem[] | undefined {
+  const directory = path.posix.dirname(item.result.path);
+  const candidates = [path.posix.join(directory, reference), path.posix.normalize(reference)];
+
+  for (const candidate of candidates) {
+    for (const extension of ['', ...MARKDOWN_EXTENSIONS]) {
+      const match = byPath.get(`${candidate}${extension}`);
+      if (match) return match;
+    }
+  }
+
+  return byTitle.get(reference.toLowerCase());
+}
+
+/**
+ * Order items so parents inside the batch come before their children
+ * Items in a parent cycle are marked as errors.
+ */
+function orderByParent(items: ImportItem[]): ImportItem[] {
+  const ordered: ImportItem[] = [];
+  const state = new Map<ImportItem, 'visiting' | 'done'>();
+
+  const visit = (item: ImportItem, chain: ImportItem[]): boolean => {
+    if (state.get(item) === 'done') return true;
+    if (state.get(item) === 'visiting') {
+      for (const member of chain.slice(chain.indexOf(item))) {
+        member.result.errors.push('Parent references form a cycle');
+      }
+      return false;
+    }
+
+    state.set(item, 'visiting');
+    const ok = item.parentItem ? visit(item.parentItem, [...chain, item]) : true;
+    state.set(item, 'done');
+    ordered.push(item);
+    return ok;
+  };
+
+  items.forEach((item) => visit(item, []));
+  return ordered;
+}
+
+/**
+ * Document an import item would be stored as, with its resolved parent ID
+ */
+function importedDocument(item: ImportItem, parentId: string | undefined): { metadata: SpecMetadata; document: string } {
+  const metadata: SpecMetadata = { ...item.metadata!, parentId };
+  if (!parentId) delete metadata.parentId;
+  return { metadata, document: combineMarkdown(metadata, item.content!) };
+}
+
+function summarize(dryRun: boolean, files: ImportFileResult[]): ImportReport {
+  return {
+    dryRun,
+    summary: {
+      files: files.length,
+      created: files.filter((file) => file.action === 'create').length,
+      updated: files.filter((file) => file.action === 'update').length,
+      unchanged: files.filter((file) => file.action === 'unchanged').length,
+      errors: files.filter((file) => file.action === 'error').length,
+      linked: files.filter((file) => file.parent?.linked).length,
+    },
+    files,
+  };
+}
+
+/**
+ * Validate and plan the import of each file
+ * Files match existing specs by title (case-insensitive): a match is updated
+ * when its content differs, anything else is created.
+ */
+async function planImport(
+  files: ImportSourceFile[],
+  user: SessionPayload
+): Promise<ImportItem[]> {
+  const items: ImportItem[] = [];
+
+  for (const file of files) {
+    const result: ImportFileResult = { path: file.path, action: 'create', errors: [] };
+    const item: ImportItem = { result };
+    items.push(item);
+
+    try {
+      const parsed = parseFrontmatter(file.content.replace(/\r\n/g, '\n'));
+      item.metadata = parsed.frontmatter;
+      item.content = parsed.content;
+      result.title = parsed.frontmatter.title;
+      result.type = parsed.frontmatter.type;
+    } catch (error) {
+      if (error instanceof FrontmatterError && error.issues.length > 0) {
+        result.errors.push(...error.issues);
+      } else {
+        result.errors.push(error instanceof Error ? error.message : 'Failed to parse file');
+      }
+      continue;
+    }
+
+    const stageError = await invalidStageMessage(item.metadata.type, item.metadata.status);
+    if (stageError) {
+      result.errors.push(`status: ${stageError}`);
+    }
+  }
+
+  const parsedItems = items.filter((item) => item.metadata);
+
+  // Titles identify specs, so they must be unique within the batch
+  const byTitle = new Map<string, ImportItem[]>();
+  for (const item of parsedItems) {
+    const key = item.metadata!.title.toLowerCase();
+    byTitle.set(key, [...(byTitle.get(key) || []), item]);
+  }
+  for (const group of byTitle.values()) {
+    if (group.length > 1) {
+      group.forEach((item) =>
+        item.result.errors.push(
+          `Duplicate title in import (also in ${group
+            .filter((other) => other !== item)
+            .map((other) => other.result.path)
+            .join(', ')})`
+        )
+      );
+    }
+  }
+
+  // Match existing specs by title
+  const specRepo = new SpecRepository();
+  const existingSpecs = await specRepo.findByTitles(parsedItems.map((item) => item.metadata!.title));
+  for (const item of parsedItems) {
+    const matches = existingSpecs.filter(
+      (spec) => spec.title.toLowerCase() === item.metadata!.title.toLowerCase()
+    );
+    if (matches.length > 1) {
+      item.result.errors.push(`${matches.length} existing specs have this title`);
+    } else if (matches.length === 1) {
+      item.existing = matches[0];
+      item.result.specId = matches[0]._id;
+      item.result.action = 'update';
+      if (!hasPermission(user.role, 'spec:update')) {
+        item.result.errors.push('Insufficient permissions to update the existing spec');
+      }
+      try {
+        assertStageUnchanged(matches[0].metadata, item.metadata!);
+      } catch (error) {
+        item.result.errors.push(`status: ${error instanceof Error ? error.message : 'Invalid stage'}`);
+      }
+    }
+  }
+
+  // Resolve parent references: import path or title, then existing spec ID or title
+  const byPath = new Map(parsedItems.map((item) => [item.result.path, item]));
+  for (const item of parsedItems) {
+    const reference = item.metadata!.parentId?.trim();
+    if (!reference) continue;
+
+    const parent: ImportFileResult['parent'] = { reference };
+    item.result.parent = parent;
+
+    const batchMatch = findBatchParent(item, reference, byPath, byTitle);
+    if (Array.isArray(batchMatch) ? batchMatch.length > 1 : false) {
+      parent.error = 'Reference matches several files in the import';
+    } else if (batchMatch) {
+      const parentItem = Array.isArray(batchMatch) ? batchMatch[0] : batchMatch;
+      if (parentItem === item) {
+        parent.error = 'A spec cannot be its own parent';
+      } else {
+        item.parentItem = parentItem;
+        parent.resolvedPath = parentItem.result.path;
+        parent.resolvedId = parentItem.existing?._id;
+      }
+    } else {
+      const existingParent =
+        (await specRepo.findById(reference)) ||
+        (await specRepo.findByTitles([reference])).find(
+          (spec) => spec.title.toLowerCase() === reference.toLowerCase()
+        );
+      if (existingParent) {
+        parent.resolvedId = existingParent._id;
+      } else {
+        parent.error = 'Parent not found in the import or among existing specs';
+      }
+    }
+
+    if (parent.error) item.result.errors.push(`parentId: ${parent.error}`);
+  }
+
+  const ordered = orderByParent(parsedItems);
+
+  // Children of invalid parents cannot be linked
+  for (const item of ordered) {
+    if (item.parentItem && item.parentItem.result.errors.length > 0 && item.result.errors.length === 0) {
+      item.result.errors.push(`parentId: ${item.parentItem.result.path} has errors`);
+    }
+  }
+
+  for (const item of items) {
+    if (item.result.errors.length > 0) {
+      item.result.action = 'error';
+    } else if (item.existing && (!item.parentItem || item.parentItem.existing)) {
+      // A new parent in the batch always changes the parent ID
+      const parentId = item.parentItem ? item.parentItem.existing!._id : item.result.parent?.resolvedId;
+      if (importedDocument(item, parentId).document === specDocument(item.existing)) {
+        item.result.action = 'unchanged';
+      }
+    }
+  }
+
+  // Keep parents first so their IDs are known when children are written
+  return [...ordered, ...items.filter((item) => !item.metadata)];
+}
+
+/**
+ * Import markdown specs
+ * With `dryRun` nothing is written and the report shows what would happen.
+ * Otherwise valid files are created or updated (with a revision, like an
+ * edit) and parent references become traceability links. Files with errors
+ * are skipped without affecting the others.
+ */
+export async function importSpecs(
+  files: ImportSourceFile[],
+  user: SessionPayload,
+  options: { dryRun: boolean }
+): Promise<ImportReport> {
+  const items = await planImport(files, user);
+  const report = () =>
+    summarize(
+      options.dryRun,
+      [...items].sort((a, b) => a.result.path.localeCompare(b.result.path)).map((item) => item.result)
+    );
+
+  if (options.dryRun) return report();
+
+  const specRepo = new SpecRepository();
+  const revisionRepo = new RevisionRepository();
+  const traceabilityRepo = new TraceabilityRepository();
+
+  for (const item of items) {
+    const { result } = item;
+    if (result.action === 'error') continue;
+
+    const parentId = item.parentItem ? item.parentItem.result.specId : result.parent?.resolvedId;
+    const { metadata, document: fullContent } = importedDocument(item, parentId);
+
+    try {
+      let spec: Spec | null = item.existing || null;
+
+      if (result.action === 'create') {
+        spec = await specRepo.createSpec(metadata.title, fullContent, metadata, user.userId);
+        result.specId = spec._id;
+        await emitWebhookEvent('spec.created', { spec: webhookSpecData(spec) }, user);
+      } else if (result.action === 'update' && item.existing) {
+        if (fullContent === specDocument(item.existing)) {
+          result.action = 'unchanged';
+        } else {
+          spec = await specRepo.updateSpec(
+            item.existing._id,
+            fullContent,
+            metadata,
+            user.userId,
+            item.existing.currentVersion
+          );
+          if (!spec) {
+            throw new Error('The spec was changed during the import');
+          }
+          await revisionRepo.createRevision(
+            item.existing._id,
+            item.existing.currentVersion,
+            item.existing.content,
+            item.existing.metadata,
+            user.userId,
+            item.existing.restoredFrom
+          );
+          await syncCollabDocument(spec);
+          await emitWebhookEvent(
+            'spec.updated',
+            { spec: webhookSpecData(spec), previousVersion: item.existing.currentVersion },
+            user
+          );
+        }
+      }
+
+      if (spec && parentId && result.parent) {
+        result.parent.resolvedId = parentId;
+        if (!(await traceabilityRepo.findLink(parentId, spec._id))) {
+          try {
+            const link = await traceabilityRepo.createLink(parentId, spec._id, user.email);
+            result.parent.linked = true;
+            await emitWebhookEvent('traceability.linked', { link }, user);
+          } catch (error) {
+            result.parent.error = error instanceof Error ? error.message : 'Failed to link parent';
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Error importing ${result.path}:`, error);
+      result.action = 'error';
+      result.errors.push(error instanceof Error ? error.message : 'Failed to write spec');
+    }
+  }
+
+  return report();
+}
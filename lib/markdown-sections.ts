@@ -0,0 +1,68 @@
+// Markdown section parsing utilities
+
+export interface MarkdownSection {
+  heading: string;
+  level: number;
+  // 1-based line numbers within the full document, heading line included
+  startLine: number;
+  endLine: number;
+  body: string;
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Split a markdown document into heading-delimited sections
+ * Skips YAML frontmatter and headings inside fenced code blocks.
+ * A section runs until the next heading of the same or a higher level.
+ */
+export function parseSections(markdown: string): MarkdownSection[] {
+  const lines = markdown.split('\n');
+  const headings: { heading: string; level: number; line: number }[] = [];
+
+  let index = 0;
+  // Skip frontmatter block
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end > 0) index = end + 1;
+  }
+
+  let inFence = false;
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const match = line.match(HEADING_REGEX);
+    if (match) {
+      headings.push({ heading: match[2], level: match[1].length, line: index + 1 });
+    }
+  }
+
+  return headings.map((current, i) => {
+    const next = headings.slice(i + 1).find((h) => h.level <= current.level);
+    const endLine = next ? next.line - 1 : lines.length;
+
+    return {
+      heading: current.heading,
+      level: current.level,
+      startLine: current.line,
+      endLine,
+      body: lines.slice(current.line, endLine).join('\n').trim(),
+    };
+  });
+}
+
+/**
+ * Find a section by heading text (case-insensitive)
+ */
+export function findSection(markdown: string, heading: string): MarkdownSection | null {
+  const normalized = heading.trim().toLowerCase();
+  return (
+    parseSections(markdown).find((section) => section.heading.toLowerCase() === normalized) ||
+    null
+  );
+}
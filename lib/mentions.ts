@@ -0,0 +1,46 @@
+// @mention extraction and resolution
+import { UserRepository } from './repositories/user-repository';
+import { User } from '../types/auth';
+
+// "@jane", "@jane.doe" or "@jane.doe@example.com"
+const MENTION_REGEX = /(?:^|[^\w@])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+/**
+ * Extract @mention handles from comment text
+ * Trailing punctuation ("@jane.") is not part of the handle.
+ */
+export function extractMentionHandles(text: string): string[] {
+  const handles = [...text.matchAll(MENTION_REGEX)].map((match) =>
+    match[1].replace(/[.+-]+$/, '').toLowerCase()
+  );
+  return [...new Set(handles.filter(Boolean))];
+}
+
+/**
+ * Resolve handles from comment text and explicit mentions to registered users
+ * Handles that match no user are dropped.
+ */
+export async function resolveMentions(
+  text: string,
+  explicitMentions: string[] = []
+): Promise<{ users: User[]; handles: string[] }> {
+  const candidates = [
+    ...new Set([
+      ...explicitMentions.map((mention) => mention.replace(/^@/, '').toLowerCase()),
+      ...extractMentionHandles(text),
+    ]),
+  ];
+
+  const userRepo = new UserRepository();
+  const users = await userRepo.findByMentionHandles(candidates);
+
+  // Keep only the handles that resolved to someone
+  const handles = candidates.filter((handle) =>
+    users.some((user) => {
+      const email = user.email.toLowerCase();
+      return email === handle || email.startsWith(`${handle}@`);
+    })
+  );
+
+  return { users, handles };
+}
@@ -0,0 +1,144 @@
+// Notification delivery: in-app inbox plus email, per user preferences
+import { NotificationRepository } from './repositories/notification-repository';
+import { NotificationPreferenceRepository } from './repositories/notification-preference-repository';
+import { DigestEntryRepository } from './repositories/digest-entry-repository';
+import { sendEmail } from './email';
+import { env } from './env';
+import { User } from '../types/auth';
+import { Comment, Spec } from '../types/spec';
+import { Notification, NotificationType } from '../types/notification';
+import {
+  NotificationPreferences,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+} from '../types/subscription';
+
+interface NotificationInput {
+  type: NotificationType;
+  spec: Pick<Spec, '_id' | 'title'>;
+  // Email of the user whose action caused the notification
+  actor: string;
+  recipients: User[];
+  title: string;
+  message: string;
+  commentId?: string;
+}
+
+interface CommentNotificationInput {
+  type: 'mention' | 'reply';
+  spec: Pick<Spec, '_id' | 'title'>;
+  comment: Comment;
+  actor: string;
+  recipients: User[];
+}
+
+const COMMENT_TITLES: Record<
+  CommentNotificationInput['type'],
+  (actor: string, specTitle: string) => string
+> = {
+  mention: (actor, specTitle) => `${actor} mentioned you on "${specTitle}"`,
+  reply: (actor, specTitle) => `${actor} replied to your comment on "${specTitle}"`,
+};
+
+/**
+ * Get a user's notification preferences, falling back to the defaults
+ */
+export async function getNotificationPreferences(
+  userId: string
+): Promise<Pick<NotificationPreferences, 'channels' | 'emailFrequency'>> {
+  const preferenceRepo = new NotificationPreferenceRepository();
+  const stored = await preferenceRepo.findByUserId(userId);
+  return stored
+    ? { channels: stored.channels, emailFrequency: stored.emailFrequency }
+    : DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+/**
+ * Deliver a notification to each recipient on the channels they enabled
+ * Email goes out immediately or is queued for the recipient's digest. The
+ * actor is never notified about their own action, and email failures are
+ * logged without affecting the in-app notification.
+ */
+export async function deliverNotification(input: NotificationInput): Promise<Notification[]> {
+  const { type, spec, actor, title, message, commentId } = input;
+
+  // De-duplicate recipients and skip the actor
+  const recipients = [
+    ...new Map(input.recipients.map((user) => [user._id.toString(), user])).values(),
+  ].filter((user) => user.email !== actor);
+  if (recipients.length === 0) return [];
+
+  const preferenceRepo = new NotificationPreferenceRepository();
+  const stored = await preferenceRepo.findByUserIds(recipients.map((user) => user._id.toString()));
+  const preferencesFor = (user: User) =>
+    stored.find((preferences) => preferences.userId === user._id.toString()) ||
+    DEFAULT_NOTIFICATION_PREFERENCES;
+
+  const link = `/specs/${spec._id}`;
+  const notificationRepo = new NotificationRepository();
+  const digestRepo = new DigestEntryRepository();
+  const notifications: Notification[] = [];
+
+  await Promise.all(
+    recipients.map(async (user) => {
+      const userId = user._id.toString();
+      const preferences = preferencesFor(user);
+
+      if (preferences.channels.inApp) {
+        notifications.push(
+          await notificationRepo.createNotification({
+            userId,
+            type,
+            specId: spec._id,
+            commentId,
+            actor,
+            title,
+            message,
+            link,
+          })
+        );
+      }
+
+      if (!preferences.channels.email) return;
+
+      if (preferences.emailFrequency !== 'immediate') {
+        await digestRepo.enqueue({
+          userId,
+          frequency: preferences.emailFrequency,
+          specId: spec._id,
+          title,
+          message,
+          link,
+        });
+        return;
+      }
+
+      await sendEmail({
+        to: [user.email],
+        subject: title,
+        text: `${title}\n\n${message}\n\nOpen: ${env.nextAuth.url}${link}\n`,
+      }).catch((error) => {
+        console.error(`Failed to email notification to ${user.email}:`, error);
+      });
+    })
+  );
+
+  return notifications;
+}
+
+/**
+ * Notify users mentioned in, or replied to by, a comment
+ */
+export async function notifyComment(input: CommentNotificationInput): Promise<Notification[]> {
+  const { comment } = input;
+  const excerpt = comment.text.length > 280 ? `${comment.text.slice(0, 277)}...` : comment.text;
+
+  return deliverNotification({
+    type: input.type,
+    spec: input.spec,
+    actor: input.actor,
+    recipients: input.recipients,
+    title: COMMENT_TITLES[input.type](input.actor, input.spec.title),
+    message: excerpt,
+    commentId: comment._id,
+  });
+}
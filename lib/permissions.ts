@@ -2,10 +2,12 @@
 import { UserRole } from '@/types/auth';
 import {
   Permission,
-  WorkflowStage,
   ROLE_PERMISSIONS,
-  WORKFLOW_TRANSITIONS,
 } from '@/types/permissions';
+import { WorkflowStage } from '@/types/spec';
+import { WorkflowDefinition, DEFAULT_WORKFLOW } from '@/types/workflow';
+
+type WorkflowTransitions = Pick<WorkflowDefinition, 'transitions'>;
 
 /**
  * Check if a role has a specific permission
@@ -41,9 +43,10 @@ export function hasAnyPermission(
 export function canTransitionWorkflow(
   role: UserRole,
   from: WorkflowStage,
-  to: WorkflowStage
+  to: WorkflowStage,
+  workflow: WorkflowTransitions = DEFAULT_WORKFLOW
 ): boolean {
-  const transition = WORKFLOW_TRANSITIONS.find(
+  const transition = workflow.transitions.find(
     (t) => t.from === from && t.to === to
   );
 
@@ -59,9 +62,10 @@ export function canTransitionWorkflow(
  */
 export function getValidTransitions(
   role: UserRole,
-  currentStage: WorkflowStage
+  currentStage: WorkflowStage,
+  workflow: WorkflowTransitions = DEFAULT_WORKFLOW
 ): WorkflowStage[] {
-  return WORKFLOW_TRANSITIONS.filter(
+  return workflow.transitions.filter(
     (t) => t.from === currentStage && t.allowedRoles.includes(role)
   ).map((t) => t.to);
 }
@@ -71,7 +75,8 @@ export function getValidTransitions(
  */
 export function isValidTransition(
   from: WorkflowStage,
-  to: WorkflowStage
+  to: WorkflowStage,
+  workflow: WorkflowTransitions = DEFAULT_WORKFLOW
 ): boolean {
-  return WORKFLOW_TRANSITIONS.some((t) => t.from === from && t.to === to);
+  return workflow.transitions.some((t) => t.from === from && t.to === to);
 }
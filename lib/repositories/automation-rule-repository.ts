@@ -0,0 +1,61 @@
+// Automation rule repository for workflow side-effect rules
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { AutomationRule, AutomationTrigger } from '../../types';
+
+export type AutomationRuleInput = Pick<
+  AutomationRule,
+  'name' | 'enabled' | 'trigger' | 'conditions' | 'actions'
+>;
+
+export class AutomationRuleRepository extends BaseRepository<AutomationRule> {
+  protected collectionName = 'automationRules';
+
+  /**
+   * Create a new automation rule
+   */
+  async createRule(input: AutomationRuleInput, createdBy: string): Promise<AutomationRule> {
+    const now = new Date();
+
+    return this.create({
+      ...input,
+      createdBy,
+      createdAt: now,
+      updatedBy: createdBy,
+      updatedAt: now,
+    } as AutomationRule);
+  }
+
+  /**
+   * Replace the definition of an existing rule
+   */
+  async updateRule(
+    id: string,
+    input: AutomationRuleInput,
+    updatedBy: string
+  ): Promise<AutomationRule | null> {
+    return this.updateById(id, {
+      ...input,
+      updatedBy,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Find all rules (sorted by name)
+   */
+  async findAll(): Promise<AutomationRule[]> {
+    const collection = await this.getCollection();
+    const rules = await collection.find({}).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return rules.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find enabled rules listening to a trigger
+   */
+  async findEnabledByTrigger(trigger: AutomationTrigger): Promise<AutomationRule[]> {
+    return this.find({ trigger, enabled: true } as Filter<AutomationRule>);
+  }
+}
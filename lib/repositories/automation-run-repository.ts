@@ -0,0 +1,45 @@
+// Automation run repository for the audit trail of rule executions
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { AutomationRun } from '../../types';
+
+export class AutomationRunRepository extends BaseRepository<AutomationRun> {
+  protected collectionName = 'automationRuns';
+
+  /**
+   * Record the outcome of a rule firing
+   */
+  async createRun(run: Omit<AutomationRun, '_id' | 'timestamp'>): Promise<AutomationRun> {
+    return this.create({ ...run, timestamp: new Date() } as AutomationRun);
+  }
+
+  /**
+   * Find rule runs triggered by or affecting a spec (newest first)
+   */
+  async findBySpecId(specId: string): Promise<AutomationRun[]> {
+    const collection = await this.getCollection();
+    const runs = await collection
+      .find({
+        $or: [{ specId }, { 'results.targetSpecId': specId }],
+      } as Filter<AutomationRun>)
+      .toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return runs.sort(
+      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+  }
+
+  /**
+   * Find runs of a rule (newest first)
+   */
+  async findByRuleId(ruleId: string, limit: number = 50): Promise<AutomationRun[]> {
+    const collection = await this.getCollection();
+    const runs = await collection.find({ ruleId } as Filter<AutomationRun>).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return runs
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
+  }
+}
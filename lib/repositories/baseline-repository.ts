@@ -0,0 +1,41 @@
+// Baseline repository for named snapshots of spec versions
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { Baseline } from '../../types';
+
+export type BaselineInput = Pick<Baseline, 'name' | 'description' | 'rootId' | 'entries'>;
+
+export class BaselineRepository extends BaseRepository<Baseline> {
+  protected collectionName = 'baselines';
+
+  /**
+   * Record a new baseline
+   */
+  async createBaseline(input: BaselineInput, createdBy: string): Promise<Baseline> {
+    return this.create({
+      ...input,
+      createdBy,
+      createdAt: new Date(),
+    } as Baseline);
+  }
+
+  /**
+   * Find a baseline by name (case-insensitive)
+   */
+  async findByName(name: string): Promise<Baseline | null> {
+    const collection = await this.getCollection();
+    const baselines = await collection.find({} as Filter<Baseline>).toArray();
+    return baselines.find((baseline) => baseline.name.toLowerCase() === name.toLowerCase()) || null;
+  }
+
+  /**
+   * Find all baselines (newest first)
+   */
+  async findAll(): Promise<Baseline[]> {
+    const collection = await this.getCollection();
+    const baselines = await collection.find({} as Filter<Baseline>).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return baselines.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+}
@@ -1,7 +1,7 @@
 // Comment repository for managing spec comments and discussions
 import { Filter } from 'mongodb';
 import { BaseRepository } from './base-repository';
-import { Comment, LineRange } from '../../types';
+import { Comment, CommentStatus, LineRange } from '../../types';
 
 export class CommentRepository extends BaseRepository<Comment> {
   protected collectionName = 'comments';
@@ -25,16 +25,20 @@ export class CommentRepository extends BaseRepository<Comment> {
       mentions,
       parentCommentId,
       timestamp: new Date(),
+      ...(parentCommentId ? {} : { status: 'open' }),
     } as Comment);
   }
   
   /**
-   * Find all comments for a spec (top-level only)
+   * Find all comments for a spec (top-level only), optionally by thread status
    */
-  async findBySpecId(specId: string): Promise<Comment[]> {
+  async findBySpecId(specId: string, status?: CommentStatus): Promise<Comment[]> {
     const collection = await this.getCollection();
+    // Threads created before statuses existed have no status and count as open
+    const statusFilter =
+      status === 'open' ? { status: { $in: ['open', null] } } : status ? { status } : {};
     const comments = await collection
-      .find({ specId, parentCommentId: { $exists: false } } as Filter<Comment>)
+      .find({ specId, parentCommentId: { $exists: false }, ...statusFilter } as Filter<Comment>)
       .toArray();
     // Sort in memory instead of in database (Cosmos DB indexing limitation)
     return comments.sort((a, b) => 
@@ -42,6 +46,24 @@ export class CommentRepository extends BaseRepository<Comment> {
     );
   }
   
+  /**
+   * Find the IDs of specs that have at least one open comment thread
+   */
+  async findSpecIdsWithOpenThreads(): Promise<string[]> {
+    const collection = await this.getCollection();
+    return collection.distinct('specId', {
+      parentCommentId: { $exists: false },
+      status: { $in: ['open', null] },
+    } as Filter<Comment>);
+  }
+  
+  /**
+   * Find comments (including replies) whose text matches a pattern
+   */
+  async findByTextPattern(pattern: RegExp, limit?: number): Promise<Comment[]> {
+    return this.find({ text: pattern } as Filter<Comment>, limit);
+  }
+  
   /**
    * Find all comments for a spec (including replies)
    */
@@ -70,6 +92,35 @@ export class CommentRepository extends BaseRepository<Comment> {
     );
   }
   
+  /**
+   * Set the status of a thread, recording who resolved it
+   */
+  async updateStatus(
+    id: string,
+    status: CommentStatus,
+    resolvedBy: string
+  ): Promise<Comment | null> {
+    if (status === 'open') {
+      return this.updateById(id, {
+        $set: { status },
+        $unset: { resolvedBy: '', resolvedAt: '' },
+      } as any);
+    }
+
+    return this.updateById(id, {
+      status,
+      resolvedBy,
+      resolvedAt: new Date(),
+    });
+  }
+  
+  /**
+   * Move a comment's anchor, or mark it outdated when its text is gone
+   */
+  async updateAnchor(id: string, lineRange: LineRange, outdated: boolean): Promise<Comment | null> {
+    return this.updateById(id, { lineRange, outdated });
+  }
+  
   /**
    * Find comments by author
    */
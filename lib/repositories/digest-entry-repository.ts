@@ -0,0 +1,41 @@
+// Digest entry repository for notifications queued for email digests
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { DigestEntry, NotificationFrequency } from '../../types';
+
+export class DigestEntryRepository extends BaseRepository<DigestEntry> {
+  protected collectionName = 'digestEntries';
+
+  /**
+   * Queue a notification for the recipient's next digest
+   */
+  async enqueue(entry: Omit<DigestEntry, '_id' | 'createdAt' | 'sentAt'>): Promise<DigestEntry> {
+    return this.create({ ...entry, createdAt: new Date() } as DigestEntry);
+  }
+
+  /**
+   * Find unsent entries for a digest frequency (oldest first)
+   */
+  async findUnsent(frequency: Exclude<NotificationFrequency, 'immediate'>): Promise<DigestEntry[]> {
+    const collection = await this.getCollection();
+    const entries = await collection
+      .find({ frequency, sentAt: { $exists: false } } as Filter<DigestEntry>)
+      .toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return entries.sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  }
+
+  /**
+   * Mark entries as sent
+   */
+  async markSent(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const collection = await this.getCollection();
+    await collection.updateMany({ _id: { $in: ids } } as Filter<DigestEntry>, {
+      $set: { sentAt: new Date() },
+    } as any);
+  }
+}
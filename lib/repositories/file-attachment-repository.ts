@@ -39,6 +39,25 @@ export class FileAttachmentRepository extends BaseRepository<FileAttachment> {
       .toArray();
   }
   
+  /**
+   * Find all attachments for several specs
+   */
+  async findBySpecIds(specIds: string[]): Promise<FileAttachment[]> {
+    if (specIds.length === 0) return [];
+    const collection = await this.getCollection();
+    return collection
+      .find({ specId: { $in: specIds } } as Filter<FileAttachment>)
+      .sort({ uploadedAt: 1 })
+      .toArray();
+  }
+  
+  /**
+   * Find attachments whose file name matches a pattern
+   */
+  async findByFileNamePattern(pattern: RegExp, limit?: number): Promise<FileAttachment[]> {
+    return this.find({ fileName: pattern } as Filter<FileAttachment>, limit);
+  }
+  
   /**
    * Find attachments by uploader
    */
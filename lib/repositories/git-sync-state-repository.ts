@@ -0,0 +1,61 @@
+// Git sync state repository: last synced version and documents per spec
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { GitSyncConflict, GitSyncState } from '../../types';
+
+export type GitSyncStateInput = Pick<GitSyncState, 'path' | 'version' | 'appHash' | 'fileHash' | 'commit'>;
+
+export class GitSyncStateRepository extends BaseRepository<GitSyncState> {
+  protected collectionName = 'gitSyncState';
+
+  async findAll(): Promise<GitSyncState[]> {
+    return this.find({});
+  }
+
+  async findBySpecId(specId: string): Promise<GitSyncState | null> {
+    return this.findOne({ specId } as Filter<GitSyncState>);
+  }
+
+  async findConflicts(): Promise<GitSyncState[]> {
+    return this.find({ conflict: { $exists: true } } as Filter<GitSyncState>);
+  }
+
+  /**
+   * Record a successful sync of a spec, clearing any conflict
+   */
+  async saveSynced(specId: string, input: GitSyncStateInput): Promise<GitSyncState> {
+    const existing = await this.findBySpecId(specId);
+    if (existing) {
+      return (await this.updateById(existing._id, {
+        $set: { ...input, syncedAt: new Date() },
+        $unset: { conflict: '' },
+      })) as GitSyncState;
+    }
+
+    return this.create({
+      specId,
+      ...input,
+      syncedAt: new Date(),
+    } as GitSyncState);
+  }
+
+  /**
+   * Update the recorded state of a spec without clearing a conflict
+   */
+  async updateState(specId: string, update: Partial<GitSyncStateInput>): Promise<GitSyncState | null> {
+    const existing = await this.findBySpecId(specId);
+    if (!existing) return null;
+    return this.updateById(existing._id, update);
+  }
+
+  async setConflict(specId: string, conflict: GitSyncConflict): Promise<GitSyncState | null> {
+    const existing = await this.findBySpecId(specId);
+    if (!existing) return null;
+    return this.updateById(existing._id, { conflict });
+  }
+
+  async deleteBySpecId(specId: string): Promise<boolean> {
+    const existing = await this.findBySpecId(specId);
+    return existing ? this.deleteById(existing._id) : false;
+  }
+}
@@ -7,6 +7,20 @@ export { UserRepository } from './user-repository';
 export { TraceabilityRepository } from './traceability-repository';
 export { AIUsageRepository } from './ai-usage-repository';
 export { FileAttachmentRepository } from './file-attachment-repository';
+export { WorkflowDefinitionRepository } from './workflow-definition-repository';
+export { WorkflowEventRepository } from './workflow-event-repository';
+export { ReviewRepository } from './review-repository';
+export { AutomationRuleRepository } from './automation-rule-repository';
+export { AutomationRunRepository } from './automation-run-repository';
+export { NotificationRepository } from './notification-repository';
+export { SubscriptionRepository } from './subscription-repository';
+export { NotificationPreferenceRepository } from './notification-preference-repository';
+export { DigestEntryRepository } from './digest-entry-repository';
+export { WebhookRepository } from './webhook-repository';
+export { WebhookDeliveryRepository } from './webhook-delivery-repository';
+export { SavedViewRepository } from './saved-view-repository';
+export { GitSyncStateRepository } from './git-sync-state-repository';
+export { BaselineRepository } from './baseline-repository';
 
 // Import classes for singleton instances
 import { SpecRepository } from './spec-repository';
@@ -16,6 +30,20 @@ import { UserRepository } from './user-repository';
 import { TraceabilityRepository } from './traceability-repository';
 import { AIUsageRepository } from './ai-usage-repository';
 import { FileAttachmentRepository } from './file-attachment-repository';
+import { WorkflowDefinitionRepository } from './workflow-definition-repository';
+import { WorkflowEventRepository } from './workflow-event-repository';
+import { ReviewRepository } from './review-repository';
+import { AutomationRuleRepository } from './automation-rule-repository';
+import { AutomationRunRepository } from './automation-run-repository';
+import { NotificationRepository } from './notification-repository';
+import { SubscriptionRepository } from './subscription-repository';
+import { NotificationPreferenceRepository } from './notification-preference-repository';
+import { DigestEntryRepository } from './digest-entry-repository';
+import { WebhookRepository } from './webhook-repository';
+import { WebhookDeliveryRepository } from './webhook-delivery-repository';
+import { SavedViewRepository } from './saved-view-repository';
+import { GitSyncStateRepository } from './git-sync-state-repository';
+import { BaselineRepository } from './baseline-repository';
 
 // Singleton instances for easy access
 export const specRepository = new SpecRepository();
@@ -25,3 +53,17 @@ export const userRepository = new UserRepository();
 export const traceabilityRepository = new TraceabilityRepository();
 export const aiUsageRepository = new AIUsageRepository();
 export const fileAttachmentRepository = new FileAttachmentRepository();
+export const workflowDefinitionRepository = new WorkflowDefinitionRepository();
+export const workflowEventRepository = new WorkflowEventRepository();
+export const reviewRepository = new ReviewRepository();
+export const automationRuleRepository = new AutomationRuleRepository();
+export const automationRunRepository = new AutomationRunRepository();
+export const notificationRepository = new NotificationRepository();
+export const subscriptionRepository = new SubscriptionRepository();
+export const notificationPreferenceRepository = new NotificationPreferenceRepository();
+export const digestEntryRepository = new DigestEntryRepository();
+export const webhookRepository = new WebhookRepository();
+export const webhookDeliveryRepository = new WebhookDeliveryRepository();
+export const savedViewRepository = new SavedViewRepository();
+export const gitSyncStateRepository = new GitSyncStateRepository();
+export const baselineRepository = new BaselineRepository();
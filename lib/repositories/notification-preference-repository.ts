@@ -0,0 +1,50 @@
+// Notification preference repository for per-user delivery settings
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { NotificationPreferences } from '../../types';
+
+export type NotificationPreferencesInput = Pick<
+  NotificationPreferences,
+  'channels' | 'emailFrequency'
+>;
+
+export class NotificationPreferenceRepository extends BaseRepository<NotificationPreferences> {
+  protected collectionName = 'notificationPreferences';
+
+  /**
+   * Find a user's stored preferences
+   */
+  async findByUserId(userId: string): Promise<NotificationPreferences | null> {
+    return this.findOne({ userId } as Filter<NotificationPreferences>);
+  }
+
+  /**
+   * Find stored preferences for several users
+   */
+  async findByUserIds(userIds: string[]): Promise<NotificationPreferences[]> {
+    if (userIds.length === 0) return [];
+    return this.find({ userId: { $in: userIds } } as Filter<NotificationPreferences>);
+  }
+
+  /**
+   * Create or replace a user's preferences
+   */
+  async upsert(
+    userId: string,
+    input: NotificationPreferencesInput
+  ): Promise<NotificationPreferences> {
+    const existing = await this.findByUserId(userId);
+    if (existing) {
+      return (await this.updateById(existing._id, {
+        ...input,
+        updatedAt: new Date(),
+      })) as NotificationPreferences;
+    }
+
+    return this.create({
+      userId,
+      ...input,
+      updatedAt: new Date(),
+    } as NotificationPreferences);
+  }
+}
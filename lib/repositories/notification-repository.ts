@@ -0,0 +1,61 @@
+// Notification repository for the per-user in-app inbox
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { Notification } from '../../types';
+
+export class NotificationRepository extends BaseRepository<Notification> {
+  protected collectionName = 'notifications';
+
+  /**
+   * Create an unread notification
+   */
+  async createNotification(
+    notification: Omit<Notification, '_id' | 'read' | 'readAt' | 'createdAt'>
+  ): Promise<Notification> {
+    return this.create({
+      ...notification,
+      read: false,
+      createdAt: new Date(),
+    } as Notification);
+  }
+
+  /**
+   * Find a user's notifications (newest first)
+   */
+  async findByUser(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<Notification[]> {
+    const collection = await this.getCollection();
+    const filter = options.unreadOnly ? { userId, read: false } : { userId };
+    const notifications = await collection.find(filter as Filter<Notification>).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return notifications
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, options.limit ?? 50);
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async countUnread(userId: string): Promise<number> {
+    return this.count({ userId, read: false } as Filter<Notification>);
+  }
+
+  /**
+   * Mark notifications as read
+   * Only notifications belonging to the user are touched; omit ids to mark all.
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const collection = await this.getCollection();
+    const filter = ids
+      ? { userId, read: false, _id: { $in: ids } }
+      : { userId, read: false };
+
+    const result = await collection.updateMany(filter as Filter<Notification>, {
+      $set: { read: true, readAt: new Date() },
+    } as any);
+    return result.modifiedCount;
+  }
+}
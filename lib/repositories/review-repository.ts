@@ -0,0 +1,90 @@
+// Review repository for managing review requests and sign-offs
+import { Filter, UpdateFilter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { Review, ReviewVerdict, UserRole } from '../../types';
+
+export class ReviewRepository extends BaseRepository<Review> {
+  protected collectionName = 'reviews';
+
+  /**
+   * Request a review from a user or from anyone holding a role
+   */
+  async createRequest(
+    specId: string,
+    reviewer: { reviewerId?: string; reviewerRole?: UserRole },
+    requestedVersion: number,
+    requestedBy: string,
+    note?: string
+  ): Promise<Review> {
+    return this.create({
+      specId,
+      ...reviewer,
+      requestedBy,
+      requestedAt: new Date(),
+      requestedVersion,
+      note,
+      status: 'pending',
+      verdicts: [],
+    });
+  }
+
+  /**
+   * Find all reviews for a spec (newest first)
+   */
+  async findBySpecId(specId: string, includeCancelled: boolean = false): Promise<Review[]> {
+    const collection = await this.getCollection();
+    const filter = includeCancelled
+      ? { specId }
+      : { specId, status: { $ne: 'cancelled' } };
+    const reviews = await collection.find(filter as Filter<Review>).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return reviews.sort(
+      (a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime()
+    );
+  }
+
+  /**
+   * Find open review requests addressed to a user, directly or through their role
+   */
+  async findPendingForReviewer(userId: string, role: UserRole): Promise<Review[]> {
+    return this.find({
+      status: 'pending',
+      $or: [{ reviewerId: userId }, { reviewerRole: role, reviewerId: { $exists: false } }],
+    } as Filter<Review>);
+  }
+
+  /**
+   * Record a decision on a review in a single update
+   * Role-addressed reviews are claimed by the first user who decides on them.
+   * Returns null if the review does not exist, was cancelled or was claimed
+   * by someone else.
+   */
+  async addVerdict(reviewId: string, verdict: ReviewVerdict): Promise<Review | null> {
+    const collection = await this.getCollection();
+    const update: UpdateFilter<Review> = {
+      $set: {
+        reviewerId: verdict.reviewerId,
+        status: 'completed',
+      },
+      $push: { verdicts: verdict },
+    };
+
+    return collection.findOneAndUpdate(
+      {
+        _id: reviewId,
+        status: { $ne: 'cancelled' },
+        $or: [{ reviewerId: { $exists: false } }, { reviewerId: verdict.reviewerId }],
+      } as Filter<Review>,
+      update,
+      { returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * Cancel a review request
+   */
+  async cancel(reviewId: string): Promise<Review | null> {
+    return this.updateById(reviewId, { status: 'cancelled' });
+  }
+}
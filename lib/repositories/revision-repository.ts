@@ -14,7 +14,8 @@ export class RevisionRepository extends BaseRepository<Revision> {
     version: number,
     content: string,
     metadata: SpecMetadata,
-    author: string
+    author: string,
+    restoredFrom?: number
   ): Promise<Revision> {
     return this.create({
       specId,
@@ -23,6 +24,7 @@ export class RevisionRepository extends BaseRepository<Revision> {
       metadata,
       author,
       timestamp: new Date(),
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
     } as Revision);
   }
   
@@ -0,0 +1,53 @@
+// Saved view repository for named dashboard filters
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { SavedView, UserRole } from '../../types';
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'query' | 'visibility' | 'sharedRoles'>;
+
+export class SavedViewRepository extends BaseRepository<SavedView> {
+  protected collectionName = 'savedViews';
+
+  /**
+   * Create a new view owned by a user
+   */
+  async createView(input: SavedViewInput, ownerId: string): Promise<SavedView> {
+    const now = new Date();
+
+    return this.create({
+      ...input,
+      ownerId,
+      createdAt: now,
+      updatedAt: now,
+    } as SavedView);
+  }
+
+  /**
+   * Replace the definition of an existing view
+   */
+  async updateView(id: string, input: SavedViewInput): Promise<SavedView | null> {
+    return this.updateById(id, {
+      ...input,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Find the views a user owns or that are shared with them (sorted by name)
+   */
+  async findVisibleTo(userId: string, role: UserRole): Promise<SavedView[]> {
+    const collection = await this.getCollection();
+    const views = await collection
+      .find({
+        $or: [
+          { ownerId: userId },
+          { visibility: 'everyone' },
+          { visibility: 'roles', sharedRoles: role },
+        ],
+      } as Filter<SavedView>)
+      .toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return views.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -1,7 +1,8 @@
 // Spec repository for managing specification documents
-import { Filter } from 'mongodb';
+import { Filter, ObjectId, UpdateFilter } from 'mongodb';
 import { BaseRepository } from './base-repository';
-import { Spec, SpecMetadata, WorkflowStage, SpecType } from '../../types';
+import { WorkflowEventRepository } from './workflow-event-repository';
+import { Spec, SpecMetadata, WorkflowStage, SpecType, WorkflowDefinition } from '../../types';
 import { queryCache, generateQueryKey } from '../query-cache';
 import { PaginatedResult, normalizePaginationParams, createPaginatedResult } from '../pagination';
 
@@ -36,32 +37,75 @@ export class SpecRepository extends BaseRepository<Spec> {
   }
   
   /**
-   * Update spec content and metadata
-   * Invalidates caches
+   * Update spec content and metadata as a new version
+   * The write only succeeds if the spec is still at `expectedVersion`
+   * (by default, the version read here), so concurrent saves cannot both
+   * claim the next version number. Returns null if the spec no longer exists
+   * or its version changed concurrently.
+   *
+   * `restoredFrom` marks the new version as a restore of an earlier one.
    */
   async updateSpec(
     id: string,
     content: string,
     metadata: SpecMetadata,
-    updatedBy: string
+    updatedBy: string,
+    expectedVersion?: number,
+    restoredFrom?: number
   ): Promise<Spec | null> {
     // Invalidate caches
     queryCache.deletePattern(`specs:.*`);
     queryCache.delete(`spec:${id}`);
     
-    const spec = await this.findById(id);
-    if (!spec) return null;
+    let version = expectedVersion;
+    if (version === undefined) {
+      const spec = await this.findById(id);
+      if (!spec) return null;
+      version = spec.currentVersion;
+    }
     
-    return this.updateById(id, {
-      content,
-      metadata,
-      title: metadata.title,
-      updatedBy,
-      updatedAt: new Date(),
-      currentVersion: spec.currentVersion + 1,
-    });
+    const collection = await this.getCollection();
+    const updated = await collection.findOneAndUpdate(
+      { _id: id, currentVersion: version } as Filter<Spec>,
+      {
+        $set: {
+          content,
+          metadata,
+          title: metadata.title,
+          updatedBy,
+          updatedAt: new Date(),
+          currentVersion: version + 1,
+          ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+        },
+        ...(restoredFrom === undefined ? { $unset: { restoredFrom: '' } } : {}),
+      } as any,
+      { returnDocument: 'after' }
+    );
+    
+    return updated as Spec | null;
   }
   
+  /**
+   * Update individual metadata fields without creating a new version
+   * Used for bookkeeping changes such as automated assignment or tagging
+   */
+  async updateMetadata(
+    id: string,
+    changes: Partial<Pick<SpecMetadata, 'assignee' | 'tags'>>,
+    updatedBy: string
+  ): Promise<Spec | null> {
+    // Invalidate caches
+    queryCache.deletePattern(`specs:.*`);
+    queryCache.delete(`spec:${id}`);
+
+    const $set: Record<string, unknown> = { updatedBy, updatedAt: new Date() };
+    for (const [field, value] of Object.entries(changes)) {
+      $set[`metadata.${field}`] = value;
+    }
+
+    return this.updateById(id, { $set } as any);
+  }
+
   /**
    * Find specs by creator
    */
@@ -100,21 +144,158 @@ export class SpecRepository extends BaseRepository<Spec> {
     );
   }
   
+  /**
+   * Find specs whose title equals any of the given titles (case-insensitive)
+   */
+  async findByTitles(titles: string[]): Promise<Spec[]> {
+    if (titles.length === 0) return [];
+    const patterns = titles.map(
+      (title) => new RegExp(`^${title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
+    );
+    return this.find({ title: { $in: patterns } } as Filter<Spec>);
+  }
+  
+  /**
+   * Find specs matching a prebuilt query, most recently updated first
+   * Not cached: filter queries can contain relative dates and regexes.
+   */
+  async findByQueryPaginated(
+    query: Filter<Spec>,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<PaginatedResult<Spec>> {
+    const { page: normalizedPage, limit: normalizedLimit } = normalizePaginationParams({ page, limit });
+    
+    const result = await this.findPaginated(
+      query,
+      normalizedPage,
+      normalizedLimit,
+      'updatedAt' as keyof Spec,
+      -1
+    );
+    
+    return createPaginatedResult(result.data, result.total, normalizedPage, normalizedLimit);
+  }
+  
+  /**
+   * Find candidate specs for a full-text search
+   * Each metadata filter is a list of alternative regexes. When a text pattern
+   * is given, a spec must match it in its title, content or tags, or be one of
+   * `matchedIds` (specs matched through comments or attachments).
+   */
+  async findSearchCandidates(
+    filters: {
+      status?: RegExp[];
+      type?: RegExp[];
+      tag?: RegExp[];
+      assignee?: RegExp[];
+    },
+    textPattern?: RegExp,
+    matchedIds: string[] = [],
+    limit?: number
+  ): Promise<Spec[]> {
+    const filter: Record<string, unknown> = {};
+    if (filters.status) filter['metadata.status'] = { $in: filters.status };
+    if (filters.type) filter['metadata.type'] = { $in: filters.type };
+    if (filters.tag) filter['metadata.tags'] = { $in: filters.tag };
+    if (filters.assignee) filter['metadata.assignee'] = { $in: filters.assignee };
+    
+    if (textPattern) {
+      filter.$or = [
+        { title: textPattern },
+        { content: textPattern },
+        { 'metadata.tags': textPattern },
+        ...(matchedIds.length > 0 ? [{ _id: { $in: matchedIds } }] : []),
+      ];
+    }
+    
+    return this.find(filter as Filter<Spec>, limit);
+  }
+  
   /**
    * Transition spec to new workflow stage
+   * The workflow event is recorded after the stage change; if it cannot be
+   * recorded, the stage is changed back and the error is thrown.
+   * Returns null if the spec no longer exists or its stage changed concurrently.
    */
-  async transitionStage(id: string, newStage: WorkflowStage, updatedBy: string): Promise<Spec | null> {
+  async transitionStage(
+    id: string,
+    newStage: WorkflowStage,
+    updatedBy: string,
+    options: {
+      workflow?: Pick<WorkflowDefinition, 'key' | 'version'>;
+      comment?: string;
+    } = {}
+  ): Promise<Spec | null> {
     const spec = await this.findById(id);
     if (!spec) return null;
     
     // Invalidate caches when updating
     queryCache.deletePattern(`specs:.*`);
     
-    return this.updateById(id, {
-      'metadata.status': newStage,
-      updatedBy,
-      updatedAt: new Date(),
-    });
+    const fromStage = spec.metadata.status;
+    const eventRepo = new WorkflowEventRepository();
+    const collection = await this.getCollection();
+    const eventId = new ObjectId().toString();
+    
+    // Only update if the stage is unchanged since it was read
+    const updated = await collection.findOneAndUpdate(
+      { _id: id, 'metadata.status': fromStage } as Filter<Spec>,
+      {
+        $set: {
+          'metadata.status': newStage,
+          updatedBy,
+          updatedAt: new Date(),
+        },
+      } as any,
+      { returnDocument: 'after' }
+    );
+    
+    if (!updated) return null;
+    
+    // Cosmos DB cannot write the spec and the event in one transaction, so the
+    // event follows the update; its ID is fixed so a retry records it once
+    const recordEvent = () =>
+      eventRepo.createEvent(
+        {
+          specId: id,
+          fromStage,
+          toStage: newStage,
+          actor: updatedBy,
+          comment: options.comment,
+          workflowKey: options.workflow?.key ?? 'default',
+          workflowVersion: options.workflow?.version ?? 0,
+        },
+        eventId
+      );
+    try {
+      await recordEvent().catch((error) => {
+        console.error(`Error recording workflow event for spec ${id}, retrying:`, error);
+        return recordEvent();
+      });
+    } catch (error) {
+      // No stage change without its event: move the spec back, unless it has moved on since
+      const revert: UpdateFilter<Spec> = {
+        $set: {
+          'metadata.status': fromStage,
+          updatedBy: spec.updatedBy,
+          updatedAt: spec.updatedAt,
+        },
+      };
+      try {
+        await collection.updateOne({ _id: id, 'metadata.status': newStage } as Filter<Spec>, revert);
+        await eventRepo.deleteById(eventId);
+      } catch (revertError) {
+        console.error(
+          `Error reverting spec ${id} to ${fromStage}; it is in ${newStage} without its workflow event:`,
+          revertError
+        );
+      }
+      queryCache.deletePattern(`specs:.*`);
+      throw error;
+    }
+    
+    return updated as Spec;
   }
 
   /**
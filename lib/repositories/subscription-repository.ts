@@ -0,0 +1,63 @@
+// Subscription repository for users watching specs
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { Subscription, SubscriptionScope } from '../../types';
+
+export class SubscriptionRepository extends BaseRepository<Subscription> {
+  protected collectionName = 'subscriptions';
+
+  /**
+   * Watch a spec, or change the scope of an existing watch
+   */
+  async subscribe(userId: string, specId: string, scope: SubscriptionScope): Promise<Subscription> {
+    const existing = await this.findByUserAndSpec(userId, specId);
+    if (existing) {
+      if (existing.scope === scope) return existing;
+      return (await this.updateById(existing._id, { scope })) as Subscription;
+    }
+
+    return this.create({
+      userId,
+      specId,
+      scope,
+      createdAt: new Date(),
+    } as Subscription);
+  }
+
+  /**
+   * Stop watching a spec
+   */
+  async unsubscribe(userId: string, specId: string): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteOne({ userId, specId } as Filter<Subscription>);
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Find a user's subscription to a spec
+   */
+  async findByUserAndSpec(userId: string, specId: string): Promise<Subscription | null> {
+    return this.findOne({ userId, specId } as Filter<Subscription>);
+  }
+
+  /**
+   * Find all specs a user watches (newest first)
+   */
+  async findByUser(userId: string): Promise<Subscription[]> {
+    const collection = await this.getCollection();
+    const subscriptions = await collection.find({ userId } as Filter<Subscription>).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return subscriptions.sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  /**
+   * Find subscriptions on any of the given specs
+   */
+  async findBySpecIds(specIds: string[]): Promise<Subscription[]> {
+    if (specIds.length === 0) return [];
+    return this.find({ specId: { $in: specIds } } as Filter<Subscription>);
+  }
+}
@@ -41,6 +41,14 @@ export class TraceabilityRepository extends BaseRepository<TraceabilityLink> {
     return this.find({ childId } as Filter<TraceabilityLink>);
   }
   
+  /**
+   * Find the parent links of several specs
+   */
+  async findByChildIds(childIds: string[]): Promise<TraceabilityLink[]> {
+    if (childIds.length === 0) return [];
+    return this.find({ childId: { $in: childIds } } as Filter<TraceabilityLink>);
+  }
+  
   /**
    * Find link between two specs
    */
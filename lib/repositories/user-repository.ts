@@ -1,5 +1,5 @@
 // User repository for managing user accounts
-import { Filter } from 'mongodb';
+import { Filter, ObjectId } from 'mongodb';
 import { BaseRepository } from './base-repository';
 import { User, UserRole } from '../../types';
 
@@ -31,6 +31,27 @@ export class UserRepository extends BaseRepository<User> {
     return this.findOne({ email } as Filter<User>);
   }
   
+  /**
+   * Find users by ID
+   * Users created at registration are keyed by ObjectId, so both forms are matched
+   */
+  async findByIds(ids: string[]): Promise<User[]> {
+    const objectIds = ids.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+    return this.find({ _id: { $in: [...ids, ...objectIds] } } as Filter<User>);
+  }
+  
+  /**
+   * Find users matching @mention handles
+   * A handle matches a full email address or the part before the @ (case-insensitive)
+   */
+  async findByMentionHandles(handles: string[]): Promise<User[]> {
+    if (handles.length === 0) return [];
+
+    const escaped = handles.map((handle) => handle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = `^(${escaped.join('|')})(@|$)`;
+    return this.find({ email: { $regex: pattern, $options: 'i' } } as Filter<User>);
+  }
+  
   /**
    * Find users by role
    */
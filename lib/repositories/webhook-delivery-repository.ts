@@ -0,0 +1,59 @@
+// Webhook delivery repository for the persisted delivery log
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { WebhookDelivery } from '../../types';
+
+export type WebhookDeliveryResult = Pick<
+  WebhookDelivery,
+  'status' | 'attempts' | 'responseStatus' | 'responseBody' | 'error' | 'durationMs'
+>;
+
+export class WebhookDeliveryRepository extends BaseRepository<WebhookDelivery> {
+  protected collectionName = 'webhookDeliveries';
+
+  /**
+   * Log a delivery before it is attempted
+   */
+  async createDelivery(
+    delivery: Pick<WebhookDelivery, 'webhookId' | 'event' | 'payload' | 'redeliveryOf'>
+  ): Promise<WebhookDelivery> {
+    return this.create({
+      ...delivery,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date(),
+    } as WebhookDelivery);
+  }
+
+  /**
+   * Record the outcome of a delivery
+   */
+  async complete(id: string, result: WebhookDeliveryResult): Promise<WebhookDelivery | null> {
+    return this.updateById(id, {
+      ...result,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Find the deliveries of a webhook (newest first)
+   */
+  async findByWebhookId(webhookId: string, limit = 50): Promise<WebhookDelivery[]> {
+    const collection = await this.getCollection();
+    const deliveries = await collection.find({ webhookId } as Filter<WebhookDelivery>).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return deliveries
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Remove the delivery log of a deleted webhook
+   */
+  async deleteByWebhookId(webhookId: string): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({ webhookId } as Filter<WebhookDelivery>);
+    return result.deletedCount;
+  }
+}
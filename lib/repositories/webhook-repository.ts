@@ -0,0 +1,56 @@
+// Webhook repository for outbound webhook subscriptions
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { Webhook, WebhookEventType } from '../../types';
+
+export type WebhookInput = Pick<Webhook, 'name' | 'url' | 'events' | 'active'>;
+
+export class WebhookRepository extends BaseRepository<Webhook> {
+  protected collectionName = 'webhooks';
+
+  /**
+   * Create a new webhook with its signing secret
+   */
+  async createWebhook(input: WebhookInput, secret: string, createdBy: string): Promise<Webhook> {
+    const now = new Date();
+
+    return this.create({
+      ...input,
+      secret,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    } as Webhook);
+  }
+
+  /**
+   * Update the definition or secret of an existing webhook
+   */
+  async updateWebhook(
+    id: string,
+    input: Partial<WebhookInput & Pick<Webhook, 'secret'>>
+  ): Promise<Webhook | null> {
+    return this.updateById(id, {
+      ...input,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Find all webhooks (sorted by name)
+   */
+  async findAll(): Promise<Webhook[]> {
+    const collection = await this.getCollection();
+    const webhooks = await collection.find({}).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return webhooks.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find active webhooks subscribed to an event
+   */
+  async findActiveByEvent(event: WebhookEventType): Promise<Webhook[]> {
+    return this.find({ active: true, events: event } as Filter<Webhook>);
+  }
+}
@@ -0,0 +1,87 @@
+// Workflow definition repository for managing per-spec-type workflows
+import { Filter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { WorkflowDefinition, SpecType } from '../../types';
+
+export type WorkflowDefinitionInput = Pick<
+  WorkflowDefinition,
+  'name' | 'specTypes' | 'stages' | 'initialStage' | 'transitions' | 'lockedStages'
+>;
+
+export class WorkflowDefinitionRepository extends BaseRepository<WorkflowDefinition> {
+  protected collectionName = 'workflowDefinitions';
+
+  /**
+   * Create a new version of a workflow definition
+   * The first version of a key is version 1
+   */
+  async createVersion(
+    key: string,
+    input: WorkflowDefinitionInput,
+    createdBy: string
+  ): Promise<WorkflowDefinition> {
+    const latest = await this.findLatestByKey(key);
+
+    return this.create({
+      key,
+      ...input,
+      version: latest ? latest.version + 1 : 1,
+      createdBy,
+      createdAt: new Date(),
+    } as WorkflowDefinition);
+  }
+
+  /**
+   * Find all versions of a workflow definition (newest first)
+   */
+  async findVersions(key: string): Promise<WorkflowDefinition[]> {
+    const collection = await this.getCollection();
+    const versions = await collection
+      .find({ key } as Filter<WorkflowDefinition>)
+      .toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return versions.sort((a, b) => b.version - a.version);
+  }
+
+  /**
+   * Find the latest version of a workflow definition
+   */
+  async findLatestByKey(key: string): Promise<WorkflowDefinition | null> {
+    const versions = await this.findVersions(key);
+    return versions[0] || null;
+  }
+
+  /**
+   * Find a specific version of a workflow definition
+   */
+  async findByVersion(key: string, version: number): Promise<WorkflowDefinition | null> {
+    return this.findOne({ key, version } as Filter<WorkflowDefinition>);
+  }
+
+  /**
+   * Find the latest version of every workflow definition
+   */
+  async findAllLatest(): Promise<WorkflowDefinition[]> {
+    const collection = await this.getCollection();
+    const all = await collection.find({}).toArray();
+
+    const latestByKey = new Map<string, WorkflowDefinition>();
+    for (const definition of all) {
+      const current = latestByKey.get(definition.key);
+      if (!current || definition.version > current.version) {
+        latestByKey.set(definition.key, definition);
+      }
+    }
+
+    return Array.from(latestByKey.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Find the latest workflow definition that applies to a spec type
+   */
+  async findLatestForSpecType(specType: SpecType): Promise<WorkflowDefinition | null> {
+    const definitions = await this.findAllLatest();
+    return definitions.find((definition) => definition.specTypes.includes(specType)) || null;
+  }
+}
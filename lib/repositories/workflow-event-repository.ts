@@ -0,0 +1,48 @@
+// Workflow event repository for the audit trail of stage transitions
+import { Filter, ObjectId, UpdateFilter } from 'mongodb';
+import { BaseRepository } from './base-repository';
+import { WorkflowEvent } from '../../types';
+
+export class WorkflowEventRepository extends BaseRepository<WorkflowEvent> {
+  protected collectionName = 'workflowEvents';
+
+  /**
+   * Record a workflow transition
+   * Recording again with the same ID leaves the first record in place.
+   */
+  async createEvent(
+    event: Omit<WorkflowEvent, '_id' | 'timestamp'>,
+    id: string = new ObjectId().toString()
+  ): Promise<WorkflowEvent> {
+    const collection = await this.getCollection();
+    const update: UpdateFilter<WorkflowEvent> = {
+      $setOnInsert: { ...event, timestamp: new Date() },
+    };
+
+    const result = await collection.findOneAndUpdate({ _id: id } as Filter<WorkflowEvent>, update, {
+      upsert: true,
+      returnDocument: 'after',
+    });
+    return result as WorkflowEvent;
+  }
+
+  /**
+   * Find the transition history of a spec (oldest first)
+   */
+  async findBySpecId(specId: string): Promise<WorkflowEvent[]> {
+    const collection = await this.getCollection();
+    const events = await collection.find({ specId } as Filter<WorkflowEvent>).toArray();
+
+    // Sort in memory (Cosmos DB indexing limitation)
+    return events.sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  /**
+   * Find transitions performed by a user
+   */
+  async findByActor(actor: string, limit?: number): Promise<WorkflowEvent[]> {
+    return this.find({ actor } as Filter<WorkflowEvent>, limit);
+  }
+}
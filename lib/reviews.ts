@@ -0,0 +1,109 @@
+// Review state helpers
+import { Review, ReviewVerdict, ReviewDecision } from '../types/review';
+import { SessionPayload, UserRole } from '../types/auth';
+
+export interface ReviewSummary {
+  approvals: number;
+  changesRequested: number;
+  abstentions: number;
+  stale: number;
+  pending: number;
+}
+
+/**
+ * Get the most recent decision on a review
+ */
+export function getLatestVerdict(review: Review): ReviewVerdict | null {
+  return review.verdicts.length > 0 ? review.verdicts[review.verdicts.length - 1] : null;
+}
+
+/**
+ * A verdict goes stale once the spec has been edited after it was made
+ */
+export function isVerdictStale(verdict: ReviewVerdict, currentVersion: number): boolean {
+  return verdict.version < currentVersion;
+}
+
+/**
+ * Check if a user is the addressee of a review request
+ */
+export function isReviewer(review: Review, user: SessionPayload): boolean {
+  if (review.reviewerId) {
+    return review.reviewerId === user.userId;
+  }
+  return review.reviewerRole === user.role;
+}
+
+/**
+ * Check if a user requested the review or wrote the spec, and so cannot
+ * decide on it; their approval would count towards their own sign-off
+ */
+export function isOwnReview(review: Review, specAuthorId: string, userId: string): boolean {
+  return userId === review.requestedBy || userId === specAuthorId;
+}
+
+/**
+ * Get the current (non-stale) decision of each distinct reviewer
+ * Only the latest decision per reviewer counts
+ */
+export function getCurrentVerdicts(
+  reviews: Review[],
+  currentVersion: number
+): Map<string, ReviewVerdict> {
+  const latestByReviewer = new Map<string, ReviewVerdict>();
+
+  for (const review of reviews) {
+    if (review.status === 'cancelled') continue;
+
+    for (const verdict of review.verdicts) {
+      const existing = latestByReviewer.get(verdict.reviewerId);
+      if (!existing || new Date(verdict.timestamp) > new Date(existing.timestamp)) {
+        latestByReviewer.set(verdict.reviewerId, verdict);
+      }
+    }
+  }
+
+  for (const [reviewerId, verdict] of latestByReviewer) {
+    if (isVerdictStale(verdict, currentVersion)) {
+      latestByReviewer.delete(reviewerId);
+    }
+  }
+
+  return latestByReviewer;
+}
+
+/**
+ * Count distinct reviewers whose current decision matches, optionally limited to roles
+ */
+export function countCurrentDecisions(
+  reviews: Review[],
+  currentVersion: number,
+  decision: ReviewDecision,
+  roles?: UserRole[]
+): number {
+  let count = 0;
+  for (const verdict of getCurrentVerdicts(reviews, currentVersion).values()) {
+    if (verdict.decision === decision && (!roles || roles.includes(verdict.reviewerRole))) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Summarize review state for a spec version
+ */
+export function summarizeReviews(reviews: Review[], currentVersion: number): ReviewSummary {
+  const active = reviews.filter((review) => review.status !== 'cancelled');
+
+  return {
+    approvals: countCurrentDecisions(active, currentVersion, 'approve'),
+    changesRequested: countCurrentDecisions(active, currentVersion, 'request-changes'),
+    abstentions: countCurrentDecisions(active, currentVersion, 'abstain'),
+    stale: active.filter((review) => {
+      const verdict = getLatestVerdict(review);
+      return verdict !== null && isVerdictStale(verdict, currentVersion);
+    }).length,
+    pending: active.filter((review) => review.status === 'pending').length,
+  };
+}
@@ -0,0 +1,117 @@
+// Restoring an earlier version of a spec as a new version
+import { SpecRepository } from './repositories/spec-repository';
+import { RevisionRepository } from './repositories/revision-repository';
+import { combineMarkdown, stripFrontmatter } from './yaml-parser';
+import { getWorkflowForSpecType, invalidStageMessage } from './workflows';
+import { remapCommentAnchors } from './comment-anchors';
+import { notifyWatchers } from './subscriptions';
+import { emitWebhookEvent, webhookSpecData } from './webhooks';
+import { runAutomationRules } from './automation';
+import { syncCollabDocument } from './collab/rooms';
+import { AppError, ErrorCode } from './errors';
+import { SessionPayload } from '../types/auth';
+import { AutomationRun } from '../types/automation';
+import { Spec } from '../types/spec';
+
+export interface RestoreResult {
+  spec: Spec;
+  automation: AutomationRun[];
+}
+
+/**
+ * Save the content and metadata of an earlier version as a new version
+ * marked with `restoredFrom`, with the same revision, comment anchor,
+ * notification, webhook and automation handling as an edit through
+ * PUT /api/specs/:id
+ *
+ * The workflow stage is not restored: stages only change through
+ * transitions. Refused while the spec is in one of its workflow's locked
+ * stages, and when the version's spec type has no such stage.
+ */
+export async function restoreRevision(
+  specId: string,
+  version: number,
+  user: SessionPayload
+): Promise<RestoreResult> {
+  const specRepo = new SpecRepository();
+  const existingSpec = await specRepo.findById(specId);
+  if (!existingSpec) {
+    throw new AppError(ErrorCode.NOT_FOUND, 'Spec not found', undefined, 404);
+  }
+
+  const workflow = await getWorkflowForSpecType(existingSpec.metadata.type);
+  if (workflow.lockedStages?.includes(existingSpec.metadata.status)) {
+    throw new AppError(
+      ErrorCode.CONFLICT,
+      `Versions cannot be restored while the spec is in the locked stage '${existingSpec.metadata.status}'`,
+      { stage: existingSpec.metadata.status },
+      409
+    );
+  }
+
+  const revisionRepo = new RevisionRepository();
+  const revision = await revisionRepo.findByVersion(specId, version);
+  if (!revision) {
+    throw new AppError(ErrorCode.NOT_FOUND, `Version ${version} not found`, undefined, 404);
+  }
+
+  const metadata = { ...revision.metadata, status: existingSpec.metadata.status };
+  if (metadata.type !== existingSpec.metadata.type) {
+    const stageError = await invalidStageMessage(metadata.type, metadata.status);
+    if (stageError) {
+      throw new AppError(
+        ErrorCode.VALIDATION_ERROR,
+        `Version ${version} is a ${metadata.type} and cannot be restored in the current stage: ${stageError}`,
+        { stage: metadata.status },
+        400
+      );
+    }
+  }
+  const updatedSpec = await specRepo.updateSpec(
+    specId,
+    combineMarkdown(metadata, stripFrontmatter(revision.content)),
+    metadata,
+    user.userId,
+    existingSpec.currentVersion,
+    version
+  );
+  if (!updatedSpec) {
+    throw new AppError(ErrorCode.CONFLICT, 'The spec was changed while restoring', undefined, 409);
+  }
+
+  // Keep the replaced version in the history
+  await revisionRepo.createRevision(
+    existingSpec._id,
+    existingSpec.currentVersion,
+    existingSpec.content,
+    existingSpec.metadata,
+    user.userId,
+    existingSpec.restoredFrom
+  );
+
+  await remapCommentAnchors(specId, existingSpec.content, updatedSpec.content);
+
+  // Bring anyone editing the spec live onto the restored version
+  await syncCollabDocument(updatedSpec);
+
+  await notifyWatchers({
+    type: 'edit',
+    spec: updatedSpec,
+    actor: user,
+    message: `Version ${updatedSpec.currentVersion} restored from version ${version}`,
+  });
+
+  await emitWebhookEvent(
+    'spec.updated',
+    {
+      spec: webhookSpecData(updatedSpec),
+      previousVersion: existingSpec.currentVersion,
+      restoredFrom: version,
+    },
+    user
+  );
+
+  const automation = await runAutomationRules({ trigger: 'edit', spec: updatedSpec, user });
+
+  return { spec: updatedSpec, automation };
+}
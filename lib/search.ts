@@ -0,0 +1,366 @@
+// Full-text search over specs, their comments and attachment names
+import { SpecRepository } from './repositories/spec-repository';
+import { CommentRepository } from './repositories/comment-repository';
+import { FileAttachmentRepository } from './repositories/file-attachment-repository';
+import { Comment, FileAttachment, Spec } from '../types/spec';
+import {
+  ParsedSearchQuery,
+  SearchFacetBucket,
+  SearchFacets,
+  SearchFilterField,
+  SearchHighlight,
+  SearchMatchSource,
+  SearchResponse,
+  SearchResult,
+  SearchSnippet,
+} from '../types/search';
+
+// Upper bound on specs scored per query; ranking and facets run in memory,
+// so beyond it results are reported as truncated
+const MAX_CANDIDATES = 1000;
+
+// Characters of context kept before and after the first match in a snippet
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+const MAX_TAG_FACETS = 20;
+
+// Points per needle by where it matched
+const SOURCE_WEIGHTS: Record<SearchMatchSource, number> = {
+  title: 10,
+  tag: 6,
+  attachment: 3,
+  comment: 2,
+  content: 1,
+};
+
+// Phrases are more specific than single terms
+const PHRASE_BOOST = 1.5;
+
+const FIELD_ALIASES: Record<string, SearchFilterField> = {
+  status: 'status',
+  stage: 'status',
+  type: 'type',
+  tag: 'tag',
+  tags: 'tag',
+  assignee: 'assignee',
+};
+
+const TOKEN_PATTERN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse a search query
+ * `field:value` and `field:"quoted value"` filter on status, type, tag or
+ * assignee (comma-separated values are alternatives), `"..."` is an exact
+ * phrase and anything else is a term. Unknown fields are searched as text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], filters: {} };
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, quotedField, quotedValue, field, value, phrase, term] = match;
+    const fieldName = (quotedField || field)?.toLowerCase();
+
+    if (fieldName) {
+      const filterField = FIELD_ALIASES[fieldName];
+      if (!filterField) {
+        parsed.terms.push(token.replace(/"/g, ''));
+        continue;
+      }
+      const values = quotedField ? [quotedValue] : value.split(',');
+      parsed.filters[filterField] = [
+        ...(parsed.filters[filterField] || []),
+        ...values.map((v) => v.trim()).filter(Boolean),
+      ];
+    } else if (phrase !== undefined) {
+      if (phrase.trim()) parsed.phrases.push(phrase.trim());
+    } else if (term) {
+      parsed.terms.push(term);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Build the candidate filters for parsed field filters
+ * Status, type and tag match whole values case-insensitively; assignee also
+ * matches the part of an email before the @, and `assignee:me` is the searcher.
+ */
+function buildFilterPatterns(
+  filters: ParsedSearchQuery['filters'],
+  userEmail: string
+): Partial<Record<SearchFilterField, RegExp[]>> {
+  const patterns: Partial<Record<SearchFilterField, RegExp[]>> = {};
+
+  for (const [field, values] of Object.entries(filters) as [SearchFilterField, string[]][]) {
+    if (values.length === 0) continue;
+    patterns[field] = values.map((value) => {
+      if (field === 'assignee') {
+        const resolved = value.toLowerCase() === 'me' ? userEmail : value;
+        return new RegExp(`^${escapeRegex(resolved)}(@|$)`, 'i');
+      }
+      return new RegExp(`^${escapeRegex(value)}$`, 'i');
+    });
+  }
+
+  return patterns;
+}
+
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\s*\n[\s\S]*?\n---\s*\n?/, '');
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+/**
+ * Find every occurrence of the needles in a text as merged, sorted ranges
+ */
+export function findHighlights(text: string, needles: string[]): SearchHighlight[] {
+  const lower = text.toLowerCase();
+  const ranges: SearchHighlight[] = [];
+
+  for (const needle of needles) {
+    const lowerNeedle = needle.toLowerCase();
+    let index = lower.indexOf(lowerNeedle);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + lowerNeedle.length });
+      index = lower.indexOf(lowerNeedle, index + lowerNeedle.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: SearchHighlight[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cut an excerpt around the first match, on word boundaries
+ */
+function buildSnippet(
+  source: SearchMatchSource,
+  text: string,
+  needles: string[]
+): SearchSnippet | null {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const first = findHighlights(flat, needles)[0];
+  if (!first) return null;
+
+  let start = Math.max(0, first.start - SNIPPET_BEFORE);
+  let end = Math.min(flat.length, first.end + SNIPPET_AFTER);
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    if (space !== -1 && space < first.start) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > first.end) end = space;
+  }
+
+  const excerpt = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+  return { source, text: excerpt, highlights: findHighlights(excerpt, needles) };
+}
+
+interface SearchDocument {
+  title: string;
+  tags: string[];
+  content: string;
+  comments: Comment[];
+  attachments: FileAttachment[];
+}
+
+/**
+ * Score a spec against the needles, or return null if any needle is missing
+ * Every needle must appear somewhere; each contributes the weight of its best
+ * source, with extra points for repeated content matches.
+ */
+function scoreDocument(
+  doc: SearchDocument,
+  terms: string[],
+  phrases: string[]
+): { score: number; matchedIn: SearchMatchSource[] } | null {
+  const title = doc.title.toLowerCase();
+  const content = doc.content.toLowerCase();
+  const tags = doc.tags.map((tag) => tag.toLowerCase());
+  const comments = doc.comments.map((comment) => comment.text.toLowerCase());
+  const attachments = doc.attachments.map((attachment) => attachment.fileName.toLowerCase());
+
+  const matchedIn = new Set<SearchMatchSource>();
+  let score = 0;
+
+  const needles = [
+    ...terms.map((needle) => ({ needle, boost: 1 })),
+    ...phrases.map((needle) => ({ needle, boost: PHRASE_BOOST })),
+  ];
+
+  for (const { needle, boost } of needles) {
+    const lowerNeedle = needle.toLowerCase();
+    const sources: SearchMatchSource[] = [];
+
+    if (title.includes(lowerNeedle)) sources.push('title');
+    if (tags.some((tag) => tag.includes(lowerNeedle))) sources.push('tag');
+    if (attachments.some((name) => name.includes(lowerNeedle))) sources.push('attachment');
+    if (comments.some((text) => text.includes(lowerNeedle))) sources.push('comment');
+    const contentHits = countOccurrences(content, lowerNeedle);
+    if (contentHits > 0) sources.push('content');
+
+    if (sources.length === 0) return null;
+
+    sources.forEach((source) => matchedIn.add(source));
+    const best = Math.max(...sources.map((source) => SOURCE_WEIGHTS[source]));
+    const repetition = contentHits > 1 ? Math.log2(contentHits) : 0;
+    // Exact tag and whole-title matches outrank partial ones
+    const exact =
+      (tags.includes(lowerNeedle) ? SOURCE_WEIGHTS.tag : 0) +
+      (title === lowerNeedle ? SOURCE_WEIGHTS.title : 0);
+
+    score += (best + repetition + exact) * boost;
+  }
+
+  return { score, matchedIn: Array.from(matchedIn) };
+}
+
+function countFacet(values: (string | undefined)[], limit?: number): SearchFacetBucket[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  const buckets = Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+  return limit ? buckets.slice(0, limit) : buckets;
+}
+
+/**
+ * Count matching specs by status, type, assignee and tag
+ */
+function buildFacets(specs: Spec[]): SearchFacets {
+  return {
+    status: countFacet(specs.map((spec) => spec.metadata.status)),
+    type: countFacet(specs.map((spec) => spec.metadata.type)),
+    assignee: countFacet(specs.map((spec) => spec.metadata.assignee)),
+    tag: countFacet(
+      specs.flatMap((spec) => spec.metadata.tags || []),
+      MAX_TAG_FACETS
+    ),
+  };
+}
+
+function groupBySpec<T extends { specId: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(item.specId, [...(groups.get(item.specId) || []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Search specs by title, content, tags, comments and attachment names
+ * Results are ranked by relevance (most recently updated first on ties);
+ * facets count all matches, not just the returned page. When a candidate
+ * query reaches MAX_CANDIDATES, only part of the matches are seen and the
+ * response is marked `truncated`.
+ */
+export async function searchSpecs(
+  query: string,
+  options: { userEmail: string; limit?: number; offset?: number }
+): Promise<SearchResponse> {
+  const { userEmail, limit = 20, offset = 0 } = options;
+  const parsed = parseSearchQuery(query);
+  const needles = [...parsed.terms, ...parsed.phrases];
+
+  const textPattern =
+    needles.length > 0 ? new RegExp(needles.map(escapeRegex).join('|'), 'i') : undefined;
+
+  let comments: Comment[] = [];
+  let attachments: FileAttachment[] = [];
+  if (textPattern) {
+    [comments, attachments] = await Promise.all([
+      new CommentRepository().findByTextPattern(textPattern, MAX_CANDIDATES),
+      new FileAttachmentRepository().findByFileNamePattern(textPattern, MAX_CANDIDATES),
+    ]);
+  }
+
+  const commentsBySpec = groupBySpec(comments);
+  const attachmentsBySpec = groupBySpec(attachments);
+
+  const specRepo = new SpecRepository();
+  const candidates = await specRepo.findSearchCandidates(
+    buildFilterPatterns(parsed.filters, userEmail),
+    textPattern,
+    [...new Set([...commentsBySpec.keys(), ...attachmentsBySpec.keys()])],
+    MAX_CANDIDATES
+  );
+
+  const matches: { spec: Spec; result: SearchResult }[] = [];
+  for (const spec of candidates) {
+    const doc: SearchDocument = {
+      title: spec.title,
+      tags: spec.metadata.tags || [],
+      content: stripFrontmatter(spec.content),
+      comments: commentsBySpec.get(spec._id) || [],
+      attachments: attachmentsBySpec.get(spec._id) || [],
+    };
+
+    const scored = needles.length > 0 ? scoreDocument(doc, parsed.terms, parsed.phrases) : null;
+    if (needles.length > 0 && !scored) continue;
+
+    const snippets = [
+      buildSnippet('content', doc.content, needles),
+      ...doc.comments.slice(0, 1).map((comment) => buildSnippet('comment', comment.text, needles)),
+      ...doc.attachments
+        .slice(0, 1)
+        .map((attachment) => buildSnippet('attachment', attachment.fileName, needles)),
+    ].filter((snippet): snippet is SearchSnippet => snippet !== null);
+
+    matches.push({
+      spec,
+      result: {
+        id: spec._id,
+        title: spec.title,
+        titleHighlights: findHighlights(spec.title, needles),
+        metadata: spec.metadata,
+        updatedAt: spec.updatedAt,
+        currentVersion: spec.currentVersion,
+        score: scored ? Math.round(scored.score * 100) / 100 : 0,
+        matchedIn: scored?.matchedIn || [],
+        snippets,
+      },
+    });
+  }
+
+  matches.sort(
+    (a, b) =>
+      b.result.score - a.result.score ||
+      new Date(b.spec.updatedAt).getTime() - new Date(a.spec.updatedAt).getTime()
+  );
+
+  return {
+    query: parsed,
+    total: matches.length,
+    results: matches.slice(offset, offset + limit).map((match) => match.result),
+    facets: buildFacets(matches.map((match) => match.spec)),
+    truncated: [candidates, comments, attachments].some((items) => items.length >= MAX_CANDIDATES),
+  };
+}
@@ -0,0 +1,285 @@
+// Markdown-aware diffs of spec versions: metadata fields, sections and words
+import * as Diff from 'diff';
+import { parseSections } from './markdown-sections';
+import { stripFrontmatter } from './yaml-parser';
+import { DiffFormat } from './text-diff';
+import { SpecMetadata } from '../types/spec';
+
+// Formats of GET /api/specs/:id/revisions/compare
+export type CompareFormat = DiffFormat | 'semantic';
+
+export interface WordChange {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+export interface SemanticLine {
+  // A modified line was edited in place; its changes are in `words`
+  type: 'added' | 'removed' | 'unchanged' | 'modified';
+  // New text, or the removed text for removed lines
+  content: string;
+  // 1-based line numbers within the document body, without frontmatter
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  words?: WordChange[];
+}
+
+export interface SemanticSection {
+  // Null for text before the first heading
+  heading: string | null;
+  level: number;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  // Kept but reordered relative to the other sections
+  moved: boolean;
+  lines: SemanticLine[];
+}
+
+export interface MetadataChange {
+  field: keyof SpecMetadata;
+  oldValue?: string | string[];
+  newValue?: string | string[];
+  // List fields only
+  added?: string[];
+  removed?: string[];
+}
+
+export interface SemanticDiff {
+  metadata: MetadataChange[];
+  sections: SemanticSection[];
+}
+
+interface Version {
+  content: string;
+  metadata: SpecMetadata;
+}
+
+interface Section {
+  heading: string | null;
+  level: number;
+  key: string;
+  // 1-based line number of the first body line
+  firstLine: number;
+  lines: string[];
+}
+
+const METADATA_FIELDS: (keyof SpecMetadata)[] = ['title', 'status', 'type', 'assignee', 'tags', 'parentId'];
+
+// Edited lines sharing less than this share of their text are shown as removed and added
+const MODIFIED_LINE_SIMILARITY = 0.5;
+
+/**
+ * Changed metadata fields, with added and removed entries for tags
+ */
+export function diffMetadata(oldMetadata: SpecMetadata, newMetadata: SpecMetadata): MetadataChange[] {
+  const changes: MetadataChange[] = [];
+
+  for (const field of METADATA_FIELDS) {
+    const oldValue = oldMetadata[field];
+    const newValue = newMetadata[field];
+
+    if (Array.isArray(oldValue) || Array.isArray(newValue)) {
+      const before = (oldValue as string[] | undefined) || [];
+      const after = (newValue as string[] | undefined) || [];
+      const added = after.filter((item) => !before.includes(item));
+      const removed = before.filter((item) => !after.includes(item));
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({ field, oldValue: before, newValue: after, added, removed });
+      }
+    } else if ((oldValue || '') !== (newValue || '')) {
+      changes.push({ field, oldValue: oldValue || undefined, newValue: newValue || undefined });
+    }
+  }
+
+  return changes;
+}
+
+// Flat sections, each running from its heading to the next heading of any level
+function splitSections(body: string): Section[] {
+  const lines = body.split('\n');
+  const headings = parseSections(body);
+  const sections: Section[] = [];
+  const occurrences = new Map<string, number>();
+
+  const firstHeading = headings.length > 0 ? headings[0].startLine : lines.length + 1;
+  if (lines.slice(0, firstHeading - 1).some((line) => line.trim() !== '')) {
+    sections.push({ heading: null, level: 0, key: '', firstLine: 1, lines: lines.slice(0, firstHeading - 1) });
+  }
+
+  headings.forEach((section, index) => {
+    const end = index + 1 < headings.length ? headings[index + 1].startLine - 1 : lines.length;
+    // Repeated headings are matched in order of appearance
+    const name = `${section.level}:${section.heading.trim().toLowerCase()}`;
+    const occurrence = occurrences.get(name) || 0;
+    occurrences.set(name, occurrence + 1);
+
+    sections.push({
+      heading: section.heading,
+      level: section.level,
+      key: `${name}:${occurrence}`,
+      firstLine: section.startLine + 1,
+      lines: lines.slice(section.startLine, end),
+    });
+  });
+
+  return sections;
+}
+
+function diffWords(oldLine: string, newLine: string): WordChange[] {
+  return Diff.diffWordsWithSpace(oldLine, newLine).map((change) => ({
+    type: change.added ? 'added' : change.removed ? 'removed' : 'unchanged',
+    text: change.value,
+  }));
+}
+
+function similarity(words: WordChange[]): number {
+  const total = words.reduce((sum, word) => sum + word.text.length, 0);
+  const kept = words.filter((word) => word.type === 'unchanged').reduce((sum, word) => sum + word.text.length, 0);
+  return total === 0 ? 1 : (2 * kept) / (total + kept);
+}
+
+// Line diff of a section, pairing replaced lines into word-level edits
+function diffSectionLines(oldSection: Section, newSection: Section): SemanticLine[] {
+  const result: SemanticLine[] = [];
+  let oldLine = oldSection.firstLine;
+  let newLine = newSection.firstLine;
+  let removed: string[] = [];
+
+  const flushRemoved = (added: string[]) => {
+    added.forEach((line, index) => {
+      const words = index < removed.length ? diffWords(removed[index], line) : null;
+      if (words && similarity(words) >= MODIFIED_LINE_SIMILARITY) {
+        result.push({ type: 'modified', content: line, oldLineNumber: oldLine++, newLineNumber: newLine++, words });
+        return;
+      }
+      if (index < removed.length) {
+        result.push({ type: 'removed', content: removed[index], oldLineNumber: oldLine++ });
+      }
+      result.push({ type: 'added', content: line, newLineNumber: newLine++ });
+    });
+    for (const line of removed.slice(added.length)) {
+      result.push({ type: 'removed', content: line, oldLineNumber: oldLine++ });
+    }
+    removed = [];
+  };
+
+  for (const change of Diff.diffArrays(oldSection.lines, newSection.lines)) {
+    if (change.removed) {
+      removed.push(...change.value);
+    } else if (change.added) {
+      flushRemoved(change.value);
+    } else {
+      flushRemoved([]);
+      for (const line of change.value) {
+        result.push({ type: 'unchanged', content: line, oldLineNumber: oldLine++, newLineNumber: newLine++ });
+      }
+    }
+  }
+  flushRemoved([]);
+
+  return result;
+}
+
+// Positions (in `sequence`) of a longest increasing subsequence
+function longestIncreasing(sequence: number[]): Set<number> {
+  const lengths = sequence.map(() => 1);
+  const previous = sequence.map(() => -1);
+
+  for (let i = 0; i < sequence.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (sequence[j] < sequence[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  const positions = new Set<number>();
+  let index = lengths.indexOf(Math.max(0, ...lengths));
+  while (index >= 0) {
+    positions.add(index);
+    index = previous[index];
+  }
+  return positions;
+}
+
+/**
+ * Diff two versions of a spec section by section
+ *
+ * Sections are matched by heading, so a section that moved shows its own
+ * edits instead of a removal and an addition. Lines edited in place carry
+ * word-level changes. Sections are listed in the order of the new version,
+ * with removed sections where they used to be.
+ */
+export function generateSemanticDiff(oldVersion: Version, newVersion: Version): SemanticDiff {
+  const oldSections = splitSections(stripFrontmatter(oldVersion.content));
+  const newSections = splitSections(stripFrontmatter(newVersion.content));
+
+  const oldIndexByKey = new Map(oldSections.map((section, index) => [section.key, index]));
+  const matches = newSections.map((section) => oldIndexByKey.get(section.key));
+
+  // Matched sections outside the longest run kept in order have moved
+  const matchedPositions = matches.flatMap((match, index) => (match === undefined ? [] : [index]));
+  const inOrder = longestIncreasing(matchedPositions.map((index) => matches[index] as number));
+  const moved = new Set(matchedPositions.filter((_, position) => !inOrder.has(position)));
+  const matchedOld = new Set(matches.filter((match): match is number => match !== undefined));
+
+  const sections: SemanticSection[] = [];
+  let nextOld = 0;
+
+  const emitRemoved = (until: number) => {
+    for (; nextOld < until; nextOld++) {
+      if (matchedOld.has(nextOld)) continue;
+      const section = oldSections[nextOld];
+      sections.push({
+        heading: section.heading,
+        level: section.level,
+        status: 'removed',
+        moved: false,
+        lines: section.lines.map((line, index) => ({
+          type: 'removed',
+          content: line,
+          oldLineNumber: section.firstLine + index,
+        })),
+      });
+    }
+  };
+
+  newSections.forEach((section, index) => {
+    const match = matches[index];
+
+    if (match === undefined) {
+      sections.push({
+        heading: section.heading,
+        level: section.level,
+        status: 'added',
+        moved: false,
+        lines: section.lines.map((line, lineIndex) => ({
+          type: 'added',
+          content: line,
+          newLineNumber: section.firstLine + lineIndex,
+        })),
+      });
+      return;
+    }
+
+    if (!moved.has(index)) {
+      emitRemoved(match);
+      nextOld = Math.max(nextOld, match + 1);
+    }
+
+    const lines = diffSectionLines(oldSections[match], section);
+    sections.push({
+      heading: section.heading,
+      level: section.level,
+      status: lines.every((line) => line.type === 'unchanged') ? 'unchanged' : 'modified',
+      moved: moved.has(index),
+      lines,
+    });
+  });
+  emitRemoved(oldSections.length);
+
+  return {
+    metadata: diffMetadata(oldVersion.metadata, newVersion.metadata),
+    sections,
+  };
+}
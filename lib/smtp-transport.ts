@@ -0,0 +1,173 @@
+// Minimal SMTP client transport (RFC 5321 with STARTTLS and AUTH PLAIN)
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { EmailMessage, EmailTransport, buildMimeMessage, parseAddress } from './email-message';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Connect over TLS directly (port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * A single SMTP session over a socket
+ */
+class SmtpConnection {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private pendingLines: string[] = [];
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, timeoutMs: number) {
+    this.attach(socket, timeoutMs);
+  }
+
+  private attach(socket: net.Socket, timeoutMs: number): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs);
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pendingLines.push(line);
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines };
+        this.pendingLines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  /**
+   * Upgrade the plain connection to TLS after STARTTLS
+   */
+  async upgrade(host: string, timeoutMs: number): Promise<void> {
+    this.socket.removeAllListeners();
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+
+    this.socket = secureSocket;
+    this.buffer = '';
+    this.attach(secureSocket, timeoutMs);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * Sends mail through an SMTP relay
+ */
+export class SmtpTransport implements EmailTransport {
+  constructor(private options: SmtpOptions) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: EmailMessage, from: string): Promise<void> {
+    const { host, secure, user, password } = this.options;
+    const timeoutMs = this.options.timeoutMs ?? 30000;
+    const connection = new SmtpConnection(await this.connect(), timeoutMs);
+
+    try {
+      await connection.expect([220]);
+      const ehlo = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+      if (!secure && ehlo.lines.some((line) => /STARTTLS/i.test(line))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host, timeoutMs);
+        // Capabilities must be re-negotiated over the encrypted channel
+        await connection.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${password ?? ''}`, 'utf8').toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${parseAddress(from)}>`, [250]);
+      for (const recipient of message.to) {
+        await connection.command(`RCPT TO:<${parseAddress(recipient)}>`, [250, 251]);
+      }
+
+      await connection.command('DATA', [354]);
+      // Lines starting with a dot are escaped by doubling it
+      const body = buildMimeMessage(message, from).replace(/^\./gm, '..');
+      await connection.command(`${body}\r\n.`, [250]);
+
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
@@ -0,0 +1,55 @@
+// Optimistic concurrency for spec saves: version ETags and conflict responses
+import { RevisionRepository } from './repositories/revision-repository';
+import { stripFrontmatter } from './yaml-parser';
+import { mergeText } from './three-way-merge';
+import { Spec, SpecConflict } from '../types/spec';
+
+/**
+ * ETag of a spec version, for If-Match on PUT /api/specs/:id
+ */
+export function specETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Spec version required by an If-Match header
+ * Returns undefined when any version is accepted (no header or `*`) and null
+ * when the header names no spec version.
+ */
+export function parseIfMatch(header: string | null): number | undefined | null {
+  if (!header || header.trim() === '*') return undefined;
+  // A list of ETags cannot name a single version to merge against
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Describe a save based on `expectedVersion` that lost to later versions,
+ * with a merge of the submitted document into the current one
+ *
+ * The merge base is the document of `expectedVersion` from the revision
+ * history. If that version is unknown, everything counts as changed on both
+ * sides, so the whole document becomes one conflict.
+ */
+export async function buildSpecConflict(spec: Spec, expectedVersion: number, content: string): Promise<SpecConflict> {
+  const base =
+    expectedVersion < spec.currentVersion
+      ? await new RevisionRepository().findByVersion(spec._id, expectedVersion)
+      : null;
+
+  const current = stripFrontmatter(spec.content);
+  const merge = mergeText(base ? stripFrontmatter(base.content) : '', stripFrontmatter(content), current, {
+    ours: 'your changes',
+    theirs: `version ${spec.currentVersion}`,
+  });
+
+  return {
+    expectedVersion,
+    currentVersion: spec.currentVersion,
+    content: current,
+    metadata: spec.metadata,
+    updatedBy: spec.updatedBy,
+    updatedAt: spec.updatedAt,
+    merge,
+  };
+}
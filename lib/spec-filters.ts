@@ -0,0 +1,260 @@
+// Spec filter language for dashboard lists and saved views
+import { Filter } from 'mongodb';
+import { z } from 'zod';
+import { CommentRepository } from './repositories/comment-repository';
+import { UserRepository } from './repositories/user-repository';
+import { AppError, ErrorCode } from './errors';
+import { SessionPayload } from '../types/auth';
+import { Spec } from '../types/spec';
+import {
+  SpecFilterClause,
+  SpecFilterField,
+  SpecFilterOperator,
+} from '../types/saved-view';
+
+const FIELD_ALIASES: Record<string, SpecFilterField> = {
+  status: 'status',
+  stage: 'status',
+  type: 'type',
+  assignee: 'assignee',
+  tag: 'tag',
+  tags: 'tag',
+  parent: 'parent',
+  author: 'author',
+  title: 'title',
+  created: 'created',
+  updated: 'updated',
+  has: 'has',
+};
+
+const DATE_FIELDS: Partial<Record<SpecFilterField, 'createdAt' | 'updatedAt'>> = {
+  created: 'createdAt',
+  updated: 'updatedAt',
+};
+
+// Values accepted by `has:`
+const HAS_VALUES = ['unresolved-comments', 'assignee', 'parent', 'tags'] as const;
+
+const RELATIVE_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const TOKEN_PATTERN = /(-?)(\w+):(<=|>=|<|>|=)?(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+)/g;
+
+// Zod schema for saved view payloads; the query must parse
+export const SavedViewSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    query: z.string().trim().max(1000),
+    visibility: z.enum(['private', 'roles', 'everyone']).default('private'),
+    sharedRoles: z.array(z.enum(['PM', 'TA', 'Dev', 'QA', 'Stakeholder'])).default([]),
+  })
+  .superRefine((view, ctx) => {
+    try {
+      parseSpecFilter(view.query);
+    } catch (error) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['query'],
+        message: error instanceof Error ? error.message : 'Invalid filter query',
+      });
+    }
+    if (view.visibility === 'roles' && view.sharedRoles.length === 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['sharedRoles'],
+        message: 'Select at least one role to share with',
+      });
+    }
+  });
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function invalid(message: string): AppError {
+  return new AppError(ErrorCode.VALIDATION_ERROR, message, undefined, 400);
+}
+
+/**
+ * Parse a filter query into clauses
+ *
+ * - `status:Draft,Review` - any of the values; `-status:Done` negates
+ * - `type:`, `assignee:`, `tag:`, `parent:`, `author:` and `title:` work alike;
+ *   people are emails or the part before the @, `me` is the current user and
+ *   `none` means unset (assignee, parent)
+ * - `created:` and `updated:` take `<`, `<=`, `>`, `>=` and an ISO date or an
+ *   age like `14d`, `12h` or `2w`: `updated:<14d` is "last updated over 14 days ago"
+ * - `has:unresolved-comments`, `has:assignee`, `has:parent`, `has:tags`
+ * - Bare words and "quoted text" match the title
+ *
+ * Throws a VALIDATION_ERROR AppError for unknown fields or malformed values.
+ */
+export function parseSpecFilter(query: string): SpecFilterClause[] {
+  const clauses: SpecFilterClause[] = [];
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, negation, rawField, rawOperator, quotedValue, value, phrase, word] = match;
+
+    if (!rawField) {
+      const text = (phrase ?? word).trim();
+      if (text) clauses.push({ field: 'title', operator: '=', values: [text], negate: false });
+      continue;
+    }
+
+    const field = FIELD_ALIASES[rawField.toLowerCase()];
+    if (!field) {
+      throw invalid(`Unknown filter field "${rawField}" in "${token}"`);
+    }
+
+    const values = (quotedValue !== undefined ? [quotedValue] : value.split(','))
+      .map((v) => v.trim())
+      .filter(Boolean);
+    if (values.length === 0) {
+      throw invalid(`Missing value in "${token}"`);
+    }
+
+    const operator = (rawOperator || '=') as SpecFilterOperator;
+    if (DATE_FIELDS[field]) {
+      if (values.length !== 1) throw invalid(`"${token}" takes a single date`);
+      parseFilterDate(values[0]);
+    } else if (operator !== '=') {
+      throw invalid(`"${rawField}" does not support "${operator}"`);
+    }
+
+    if (field === 'has') {
+      const unknown = values.find((v) => !(HAS_VALUES as readonly string[]).includes(v));
+      if (unknown) {
+        throw invalid(`Unknown value "${unknown}" for has: (expected ${HAS_VALUES.join(', ')})`);
+      }
+    }
+
+    clauses.push({ field, operator, values, negate: negation === '-' });
+  }
+
+  return clauses;
+}
+
+/**
+ * Parse an ISO date or an age relative to now (e.g. `14d`)
+ */
+function parseFilterDate(value: string, now = Date.now()): Date {
+  const relative = value.match(/^(\d+)([hdw])$/i);
+  if (relative) {
+    return new Date(now - parseInt(relative[1], 10) * RELATIVE_UNITS[relative[2].toLowerCase()]);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw invalid(`Invalid date "${value}" (use YYYY-MM-DD or an age like 14d)`);
+  }
+  return date;
+}
+
+function dateCondition(
+  field: 'createdAt' | 'updatedAt',
+  operator: SpecFilterOperator,
+  value: string
+): Record<string, unknown> {
+  const date = parseFilterDate(value);
+
+  if (operator === '=') {
+    // Same calendar day (UTC)
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const end = new Date(start.getTime() + RELATIVE_UNITS.d);
+    return { [field]: { $gte: start, $lt: end } };
+  }
+
+  const mongoOperator = { '<': '$lt', '<=': '$lte', '>': '$gt', '>=': '$gte' }[operator];
+  return { [field]: { [mongoOperator]: date } };
+}
+
+function exactPatterns(values: string[]): RegExp[] {
+  return values.map((value) => new RegExp(`^${escapeRegex(value)}$`, 'i'));
+}
+
+/**
+ * Build the positive condition of a clause; negation is applied by the caller
+ */
+async function clauseCondition(
+  clause: SpecFilterClause,
+  user: SessionPayload
+): Promise<Record<string, unknown>> {
+  const { field, operator, values } = clause;
+  const unset = { $in: [null, ''] };
+
+  switch (field) {
+    case 'status':
+      return { 'metadata.status': { $in: exactPatterns(values) } };
+    case 'type':
+      return { 'metadata.type': { $in: exactPatterns(values) } };
+    case 'tag':
+      return { 'metadata.tags': { $in: exactPatterns(values) } };
+    case 'title':
+      return { title: { $in: values.map((value) => new RegExp(escapeRegex(value), 'i')) } };
+    case 'assignee': {
+      const patterns = values
+        .filter((value) => value.toLowerCase() !== 'none')
+        .map((value) => (value.toLowerCase() === 'me' ? user.email : value))
+        .map((value) => new RegExp(`^${escapeRegex(value)}(@|$)`, 'i'));
+      const conditions: Record<string, unknown>[] = [];
+      if (patterns.length > 0) conditions.push({ 'metadata.assignee': { $in: patterns } });
+      if (patterns.length < values.length) conditions.push({ 'metadata.assignee': unset });
+      return conditions.length === 1 ? conditions[0] : { $or: conditions };
+    }
+    case 'parent': {
+      const ids = values.filter((value) => value.toLowerCase() !== 'none');
+      const conditions: Record<string, unknown>[] = [];
+      if (ids.length > 0) conditions.push({ 'metadata.parentId': { $in: ids } });
+      if (ids.length < values.length) conditions.push({ 'metadata.parentId': unset });
+      return conditions.length === 1 ? conditions[0] : { $or: conditions };
+    }
+    case 'author': {
+      // Specs record the creator's user ID; resolve `me`, emails and handles
+      const handles = values.filter((value) => value.toLowerCase() !== 'me');
+      const authors = handles.length > 0 ? await new UserRepository().findByMentionHandles(handles) : [];
+      const ids = authors.map((author) => author._id.toString());
+      if (handles.length < values.length) ids.push(user.userId);
+      return { createdBy: { $in: ids } };
+    }
+    case 'created':
+    case 'updated':
+      return dateCondition(DATE_FIELDS[field]!, operator, values[0]);
+    case 'has': {
+      const conditions: Record<string, unknown>[] = [];
+      for (const value of values) {
+        if (value === 'unresolved-comments') {
+          const specIds = await new CommentRepository().findSpecIdsWithOpenThreads();
+          conditions.push({ _id: { $in: specIds } });
+        } else if (value === 'assignee') {
+          conditions.push({ 'metadata.assignee': { $nin: [null, ''] } });
+        } else if (value === 'parent') {
+          conditions.push({ 'metadata.parentId': { $nin: [null, ''] } });
+        } else {
+          conditions.push({ 'metadata.tags.0': { $exists: true } });
+        }
+      }
+      return conditions.length === 1 ? conditions[0] : { $or: conditions };
+    }
+  }
+}
+
+/**
+ * Build a MongoDB query from a filter query string for the given user
+ * Clauses are AND-ed together.
+ */
+export async function buildSpecQuery(query: string, user: SessionPayload): Promise<Filter<Spec>> {
+  const clauses = parseSpecFilter(query);
+  if (clauses.length === 0) return {};
+
+  const conditions = await Promise.all(
+    clauses.map(async (clause) => {
+      const condition = await clauseCondition(clause, user);
+      return clause.negate ? { $nor: [condition] } : condition;
+    })
+  );
+
+  return (conditions.length === 1 ? conditions[0] : { $and: conditions }) as Filter<Spec>;
+}
@@ -0,0 +1,275 @@
+// Rule-based spec quality checks; no I/O, so they also run in the editor
+import { getTemplateById } from './templates';
+import { parseSections } from './markdown-sections';
+import { SpecType } from '../types/spec';
+import { SpecDiagnostic, SpecLintRule, SpecLintSeverity } from '../types/lint';
+
+export interface EarsPattern {
+  name: string;
+  // As shown to writers and in AI prompts
+  template: string;
+  pattern: RegExp;
+}
+
+/**
+ * EARS (Easy Approach to Requirements Syntax) patterns for acceptance criteria
+ * A criterion may combine them, e.g. `WHILE ..., WHEN ..., THE ... SHALL ...`.
+ */
+export const EARS_PATTERNS: EarsPattern[] = [
+  {
+    name: 'event-driven',
+    template: 'WHEN <trigger>, THE <system> SHALL <response>',
+    pattern: /^when\b.+,\s*the\b.+\bshall\b/i,
+  },
+  {
+    name: 'state-driven',
+    template: 'WHILE <condition>, THE <system> SHALL <response>',
+    pattern: /^while\b.+,\s*the\b.+\bshall\b/i,
+  },
+  {
+    name: 'unwanted behaviour',
+    template: 'IF <condition>, THEN THE <system> SHALL <response>',
+    pattern: /^if\b.+,\s*then\s+the\b.+\bshall\b/i,
+  },
+  {
+    name: 'optional feature',
+    template: 'WHERE <option>, THE <system> SHALL <response>',
+    pattern: /^where\b.+,\s*the\b.+\bshall\b/i,
+  },
+];
+
+// Ubiquitous requirements (`THE <system> SHALL <response>`) need no keyword
+const UBIQUITOUS_PATTERN = /^the\b.+\bshall\b/i;
+
+// Words that cannot be measured or verified as written
+const VAGUE_TERMS =
+  /(?<![\w-])(fast|quick|quickly|slow|user[- ]friendly|easy|easily|simple|simply|intuitive|flexible|robust|efficient|efficiently|scalable|seamless|seamlessly|adequate|reasonable|appropriate|sufficient|optimal|several|various|normally|usually|approximately|etc\.|and so on|TBD)(?![\w-])/gi;
+
+const UNTESTABLE_PHRASES: { pattern: RegExp; message: (match: string) => string; severity: SpecLintSeverity }[] = [
+  {
+    pattern: /(?<![\w-])(as (?:much|soon|fast|quickly|far|many) as possible|where possible|if possible|to the extent possible)(?![\w-])/gi,
+    message: (match) => `"${match}" sets no threshold a test can check; state the required value`,
+    severity: 'warning',
+  },
+  {
+    pattern: /(?<![\w-])and\/or(?![\w-])/gi,
+    message: () => '"and/or" leaves open which of the alternatives is required',
+    severity: 'warning',
+  },
+  {
+    pattern: /(?<![\w-])(never|always)(?![\w-])/gi,
+    message: (match) => `"${match}" cannot be verified by a finite test; state the condition and a measurable limit`,
+    severity: 'info',
+  },
+];
+
+// Weak modal verbs in acceptance criteria
+const WEAK_MODALS = /(?<![\w-])(should|may|might|could)(?![\w-])/gi;
+
+const LIST_ITEM = /^(\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)(.*)$/;
+const HEADING = /^\s*#{1,6}\s/;
+
+interface Line {
+  number: number;
+  text: string;
+}
+
+function diagnostic(
+  rule: SpecLintRule,
+  severity: SpecLintSeverity,
+  message: string,
+  line: number,
+  column: number,
+  endColumn: number
+): SpecDiagnostic {
+  return { rule, severity, message, line, column, endLine: line, endColumn, source: 'rules' };
+}
+
+// Document lines outside frontmatter and fenced code
+function proseLines(lines: string[]): Line[] {
+  let index = 0;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end > 0) index = end + 1;
+  }
+
+  const result: Line[] = [];
+  let inFence = false;
+  for (; index < lines.length; index++) {
+    if (/^\s*(```|~~~)/.test(lines[index])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (!inFence) result.push({ number: index + 1, text: lines[index] });
+  }
+  return result;
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.trim().toLowerCase();
+}
+
+function checkTemplateSections(content: string, lines: string[], type: SpecType): SpecDiagnostic[] {
+  const template = getTemplateById(type);
+  if (!template) return [];
+
+  const diagnostics: SpecDiagnostic[] = [];
+  const sections = parseSections(content);
+  const byHeading = new Map(sections.map((section) => [normalizeHeading(section.heading), section]));
+
+  // Anchor missing sections to the title, or the first line of the body
+  const title = sections.find((section) => section.level === 1);
+  const anchor = title?.startLine ?? (proseLines(lines)[0]?.number || 1);
+
+  for (const expected of parseSections(template.content).filter((section) => section.level === 2)) {
+    const section = byHeading.get(normalizeHeading(expected.heading));
+    if (!section) {
+      diagnostics.push(
+        diagnostic(
+          'missing-section',
+          'warning',
+          `Missing section "${expected.heading}" of the ${template.name} template`,
+          anchor,
+          1,
+          (lines[anchor - 1]?.length || 0) + 1
+        )
+      );
+      continue;
+    }
+
+    const headingEnd = lines[section.startLine - 1].length + 1;
+    if (!section.body) {
+      diagnostics.push(
+        diagnostic('empty-section', 'warning', `Section "${section.heading}" is empty`, section.startLine, 1, headingEnd)
+      );
+    } else if (section.body === expected.body.trim()) {
+      diagnostics.push(
+        diagnostic(
+          'placeholder-section',
+          'warning',
+          `Section "${section.heading}" still has the template's placeholder text`,
+          section.startLine,
+          1,
+          headingEnd
+        )
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+function checkVagueTerms(lines: Line[]): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+  for (const line of lines) {
+    if (HEADING.test(line.text)) continue;
+    for (const match of line.text.matchAll(VAGUE_TERMS)) {
+      diagnostics.push(
+        diagnostic(
+          'vague-term',
+          'warning',
+          `"${match[0]}" is vague; replace it with something measurable or specific`,
+          line.number,
+          match.index! + 1,
+          match.index! + match[0].length + 1
+        )
+      );
+    }
+  }
+  return diagnostics;
+}
+
+function checkUntestable(lines: Line[]): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+  for (const line of lines) {
+    if (HEADING.test(line.text)) continue;
+    for (const phrase of UNTESTABLE_PHRASES) {
+      for (const match of line.text.matchAll(phrase.pattern)) {
+        diagnostics.push(
+          diagnostic(
+            'untestable',
+            phrase.severity,
+            phrase.message(match[0]),
+            line.number,
+            match.index! + 1,
+            match.index! + match[0].length + 1
+          )
+        );
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Acceptance criteria are the list items of sections whose heading mentions
+ * acceptance criteria
+ */
+function checkAcceptanceCriteria(content: string, lines: string[], type: SpecType): SpecDiagnostic[] {
+  const diagnostics: SpecDiagnostic[] = [];
+  const placeholders = new Set(
+    parseSections(getTemplateById(type)?.content || '')
+      .filter((section) => /acceptance criteria/i.test(section.heading))
+      .flatMap((section) => section.body.split('\n').map((line) => line.trim()))
+  );
+  const patterns = EARS_PATTERNS.map((pattern) => pattern.template).join('; ');
+
+  for (const section of parseSections(content).filter((item) => /acceptance criteria/i.test(item.heading))) {
+    const sectionLines = proseLines(lines).filter(
+      (line) => line.number > section.startLine && line.number <= section.endLine
+    );
+    for (const line of sectionLines) {
+      const item = LIST_ITEM.exec(line.text);
+      if (!item || placeholders.has(line.text.trim())) continue;
+
+      const start = item[1].length + 1;
+      const text = item[2].replace(/[*_`]/g, '').trim();
+      if (!text) continue;
+
+      if (!UBIQUITOUS_PATTERN.test(text) && !EARS_PATTERNS.some((pattern) => pattern.pattern.test(text))) {
+        diagnostics.push(
+          diagnostic(
+            'ears',
+            'warning',
+            `Acceptance criterion does not follow an EARS pattern: ${patterns}`,
+            line.number,
+            start,
+            line.text.length + 1
+          )
+        );
+      }
+
+      for (const match of line.text.matchAll(WEAK_MODALS)) {
+        diagnostics.push(
+          diagnostic(
+            'untestable',
+            'info',
+            `"${match[0]}" makes the criterion optional; use SHALL for what is required`,
+            line.number,
+            match.index! + 1,
+            match.index! + match[0].length + 1
+          )
+        );
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check a spec against its type's template sections, for vague terms, for
+ * acceptance criteria outside the EARS patterns and for untestable wording
+ * Diagnostics are sorted by position.
+ */
+export function lintSpec(content: string, type: SpecType): SpecDiagnostic[] {
+  const lines = content.split('\n');
+  const prose = proseLines(lines);
+
+  return [
+    ...checkTemplateSections(content, lines, type),
+    ...checkAcceptanceCriteria(content, lines, type),
+    ...checkVagueTerms(prose),
+    ...checkUntestable(prose),
+  ].sort((a, b) => a.line - b.line || a.column - b.column);
+}
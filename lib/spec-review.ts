@@ -0,0 +1,145 @@
+// Spec quality review: the rule-based lint, plus an AI pass when requested
+import { z } from 'zod';
+import { generateWithAI, estimateTokenCost } from './ai-client';
+import { enforceQuota, recordUsage } from './ai-quota';
+import { AIProviderError } from './ai';
+import { EARS_PATTERNS, lintSpec } from './spec-lint';
+import { getTemplateById } from './templates';
+import { AppError, ErrorCode } from './errors';
+import { SessionPayload } from '../types/auth';
+import { SpecType } from '../types/spec';
+import { SpecDiagnostic, SpecLintResult } from '../types/lint';
+
+// Most AI issues kept for one review
+const MAX_AI_ISSUES = 20;
+
+const ReviewResponseSchema = z.object({
+  issues: z.array(
+    z.object({
+      line: z.coerce.number().int(),
+      severity: z.enum(['error', 'warning', 'info']).catch('warning'),
+      message: z.string().min(1),
+      quote: z.string().optional(),
+    })
+  ),
+});
+
+export interface ReviewSpecOptions {
+  specId: string;
+  content: string;
+  type: SpecType;
+  // Run the AI pass after the rules
+  ai?: boolean;
+}
+
+function reviewContext(type: SpecType, diagnostics: SpecDiagnostic[]): string {
+  const template = getTemplateById(type);
+  return [
+    `Spec type: ${type}`,
+    template ? `Template:\n${template.content}` : '',
+    `Acceptance criteria should follow one of these EARS patterns:\n${EARS_PATTERNS.map((pattern) => `- ${pattern.template}`).join('\n')}`,
+    diagnostics.length
+      ? `Already found:\n${diagnostics.map((item) => `- Line ${item.line}: ${item.message}`).join('\n')}`
+      : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// The JSON object in a model response, which may be wrapped in prose or code fences
+function parseReviewResponse(text: string): z.infer<typeof ReviewResponseSchema> | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) return null;
+  try {
+    return ReviewResponseSchema.parse(JSON.parse(text.slice(start, end + 1)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Diagnostics for the AI's issues, anchored to the quoted text when it is
+ * found on the line and to the whole line otherwise
+ * Issues on lines outside the document are dropped.
+ */
+function aiDiagnostics(issues: z.infer<typeof ReviewResponseSchema>['issues'], lines: string[]): SpecDiagnostic[] {
+  return issues
+    .filter((issue) => issue.line >= 1 && issue.line <= lines.length)
+    .slice(0, MAX_AI_ISSUES)
+    .map((issue) => {
+      const text = lines[issue.line - 1];
+      const index = issue.quote?.trim() ? text.indexOf(issue.quote.trim()) : -1;
+      const column = index === -1 ? 1 : index + 1;
+      const endColumn = index === -1 ? text.length + 1 : column + issue.quote!.trim().length;
+      return {
+        rule: 'ai' as const,
+        severity: issue.severity,
+        message: issue.message,
+        line: issue.line,
+        column,
+        endLine: issue.line,
+        endColumn,
+        source: 'ai' as const,
+      };
+    });
+}
+
+/**
+ * Review spec content against its type's template, for vague terms, EARS
+ * acceptance criteria and untestable statements
+ * The rule-based diagnostics are always returned. With `ai`, the AI's issues
+ * are added to them; if the AI is unavailable or its response cannot be read,
+ * `ai.status` is `unavailable` and only the rules' diagnostics are returned.
+ * AI usage counts towards the user's quota.
+ */
+export async function reviewSpec(options: ReviewSpecOptions, user: SessionPayload): Promise<SpecLintResult> {
+  const diagnostics = lintSpec(options.content, options.type);
+  if (!options.ai) {
+    return { diagnostics, ai: { status: 'skipped' } };
+  }
+
+  const lines = options.content.split('\n');
+  const width = String(lines.length).length;
+  const request = {
+    action: 'review-spec' as const,
+    selectedText: lines.map((line, index) => `${String(index + 1).padStart(width)} | ${line}`).join('\n'),
+    context: reviewContext(options.type, diagnostics),
+  };
+  try {
+    await enforceQuota(user.userId, estimateTokenCost(request));
+  } catch (error) {
+    throw new AppError(
+      ErrorCode.QUOTA_EXCEEDED,
+      error instanceof Error ? error.message : 'Daily quota exceeded',
+      undefined,
+      429
+    );
+  }
+
+  let result;
+  try {
+    result = await generateWithAI(request);
+  } catch (error) {
+    if (!(error instanceof AIProviderError)) throw error;
+    console.error('AI spec review failed:', error);
+    return { diagnostics, ai: { status: 'unavailable', message: 'AI service is temporarily unavailable' } };
+  }
+  await recordUsage(user.userId, options.specId, request.action, result.model, result.tokensUsed);
+
+  const ai = { model: result.model, tokensUsed: result.tokensUsed };
+  const response = parseReviewResponse(result.generatedText);
+  if (!response) {
+    return {
+      diagnostics,
+      ai: { status: 'unavailable', message: 'The AI response could not be read as review issues', ...ai },
+    };
+  }
+
+  return {
+    diagnostics: [...diagnostics, ...aiDiagnostics(response.issues, lines)].sort(
+      (a, b) => a.line - b.line || a.column - b.column
+    ),
+    ai: { status: 'ok', ...ai },
+  };
+}
@@ -0,0 +1,70 @@
+// Spec watching: fan activity out to subscribers
+import { SubscriptionRepository } from './repositories/subscription-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { UserRepository } from './repositories/user-repository';
+import { deliverNotification } from './notifications';
+import { SessionPayload } from '../types/auth';
+import { Spec } from '../types/spec';
+import { SpecActivityType } from '../types/subscription';
+
+interface SpecActivity {
+  type: SpecActivityType;
+  spec: Pick<Spec, '_id' | 'title'>;
+  actor: SessionPayload;
+  // Short description of what happened, e.g. "Draft → Review"
+  message: string;
+}
+
+const ACTIVITY_TITLES: Record<SpecActivityType, (actor: string, specTitle: string) => string> = {
+  edit: (actor, specTitle) => `${actor} edited "${specTitle}"`,
+  transition: (actor, specTitle) => `${actor} moved "${specTitle}"`,
+  comment: (actor, specTitle) => `${actor} commented on "${specTitle}"`,
+  attachment: (actor, specTitle) => `${actor} attached a file to "${specTitle}"`,
+  link: (actor, specTitle) => `${actor} changed the links of "${specTitle}"`,
+};
+
+/**
+ * Find the users watching a spec directly or through a watched ancestor subtree
+ */
+export async function findWatcherIds(specId: string): Promise<string[]> {
+  const traceabilityRepo = new TraceabilityRepository();
+  const subscriptionRepo = new SubscriptionRepository();
+
+  const ancestors = await traceabilityRepo.getAncestors(specId);
+  const subscriptions = await subscriptionRepo.findBySpecIds([specId, ...ancestors]);
+
+  return [
+    ...new Set(
+      subscriptions
+        .filter((subscription) => subscription.specId === specId || subscription.scope === 'subtree')
+        .map((subscription) => subscription.userId)
+    ),
+  ];
+}
+
+/**
+ * Notify everyone watching a spec about activity on it
+ * Never throws: failures are logged and never fail the triggering request.
+ */
+export async function notifyWatchers(activity: SpecActivity): Promise<void> {
+  try {
+    const watcherIds = (await findWatcherIds(activity.spec._id)).filter(
+      (userId) => userId !== activity.actor.userId
+    );
+    if (watcherIds.length === 0) return;
+
+    const userRepo = new UserRepository();
+    const watchers = await userRepo.findByIds(watcherIds);
+
+    await deliverNotification({
+      type: activity.type,
+      spec: activity.spec,
+      actor: activity.actor.email,
+      recipients: watchers,
+      title: ACTIVITY_TITLES[activity.type](activity.actor.email, activity.spec.title),
+      message: activity.message,
+    });
+  } catch (error) {
+    console.error(`Error notifying watchers of spec ${activity.spec._id}:`, error);
+  }
+}
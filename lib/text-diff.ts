@@ -0,0 +1,71 @@
+// Line diffs of spec documents, shared by the API and the editor
+import * as Diff from 'diff';
+
+export interface DiffBlock {
+  type: 'added' | 'removed' | 'unchanged';
+  content: string;
+  lineNumber: number;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export type DiffFormat = 'inline' | 'side-by-side';
+
+/**
+ * Generate diff between two content strings
+ */
+export function generateDiff(
+  oldContent: string,
+  newContent: string,
+  format: DiffFormat
+): DiffBlock[] {
+  const changes = Diff.diffLines(oldContent, newContent);
+  const diffBlocks: DiffBlock[] = [];
+  
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+  let lineNumber = 1;
+  
+  for (const change of changes) {
+    const lines = change.value.split('\n');
+    // Remove empty last line if it exists
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    
+    if (change.added) {
+      // Added lines
+      for (const line of lines) {
+        diffBlocks.push({
+          type: 'added',
+          content: line,
+          lineNumber: format === 'inline' ? lineNumber++ : newLineNumber,
+          newLineNumber: newLineNumber++,
+        });
+      }
+    } else if (change.removed) {
+      // Removed lines
+      for (const line of lines) {
+        diffBlocks.push({
+          type: 'removed',
+          content: line,
+          lineNumber: format === 'inline' ? lineNumber++ : oldLineNumber,
+          oldLineNumber: oldLineNumber++,
+        });
+      }
+    } else {
+      // Unchanged lines
+      for (const line of lines) {
+        diffBlocks.push({
+          type: 'unchanged',
+          content: line,
+          lineNumber: format === 'inline' ? lineNumber++ : oldLineNumber,
+          oldLineNumber: oldLineNumber++,
+          newLineNumber: newLineNumber++,
+        });
+      }
+    }
+  }
+  
+  return diffBlocks;
+}
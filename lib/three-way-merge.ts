@@ -0,0 +1,116 @@
+// Line-based three-way merge of spec documents
+import * as Diff from 'diff';
+
+export interface MergeResult {
+  content: string;
+  // Sections changed differently on both sides, marked up in `content`
+  conflicts: number;
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+// Replacement of base lines [start, end) by `lines`
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function hunks(base: string[], side: string[]): Hunk[] {
+  const result: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+
+  for (const change of Diff.diffArrays(base, side)) {
+    if (!change.added && !change.removed) {
+      index += change.value.length;
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { start: index, end: index, lines: [] };
+      result.push(current);
+    }
+    if (change.removed) {
+      index += change.value.length;
+      current.end = index;
+    } else {
+      current.lines.push(...change.value);
+    }
+  }
+
+  return result;
+}
+
+// One side's version of base lines [start, end), given its hunks in that range
+function applyHunks(base: string[], start: number, end: number, changes: Hunk[]): string[] {
+  const lines: string[] = [];
+  let index = start;
+  for (const hunk of changes) {
+    lines.push(...base.slice(index, hunk.start), ...hunk.lines);
+    index = hunk.end;
+  }
+  lines.push(...base.slice(index, end));
+  return lines;
+}
+
+/**
+ * Merge two edits of the same base document
+ *
+ * Changes to different lines are combined. Where both sides changed the same
+ * or adjacent lines differently, both versions are kept between git-style
+ * conflict markers for the user to resolve.
+ */
+export function mergeText(base: string, ours: string, theirs: string, labels: MergeLabels): MergeResult {
+  const baseLines = base.split('\n');
+  const ourHunks = hunks(baseLines, ours.split('\n'));
+  const theirHunks = hunks(baseLines, theirs.split('\n'));
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let index = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < ourHunks.length || j < theirHunks.length) {
+    // Start a group with the earliest hunk, then pull in every hunk that overlaps or touches it
+    const takeOurs = j >= theirHunks.length || (i < ourHunks.length && ourHunks[i].start <= theirHunks[j].start);
+    const first = takeOurs ? ourHunks[i++] : theirHunks[j++];
+    const ourGroup = takeOurs ? [first] : [];
+    const theirGroup = takeOurs ? [] : [first];
+    const start = first.start;
+    let end = first.end;
+
+    for (;;) {
+      if (i < ourHunks.length && ourHunks[i].start <= end) {
+        end = Math.max(end, ourHunks[i].end);
+        ourGroup.push(ourHunks[i++]);
+      } else if (j < theirHunks.length && theirHunks[j].start <= end) {
+        end = Math.max(end, theirHunks[j].end);
+        theirGroup.push(theirHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    output.push(...baseLines.slice(index, start));
+    const ourLines = applyHunks(baseLines, start, end, ourGroup);
+    const theirLines = applyHunks(baseLines, start, end, theirGroup);
+
+    if (theirGroup.length === 0 || ourLines.join('\n') === theirLines.join('\n')) {
+      output.push(...ourLines);
+    } else if (ourGroup.length === 0) {
+      output.push(...theirLines);
+    } else {
+      conflicts++;
+      output.push(`<<<<<<< ${labels.ours}`, ...ourLines, '=======', ...theirLines, `>>>>>>> ${labels.theirs}`);
+    }
+    index = end;
+  }
+
+  output.push(...baseLines.slice(index));
+  return { content: output.join('\n'), conflicts };
+}
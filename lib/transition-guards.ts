@@ -0,0 +1,128 @@
+// Transition guard evaluation
+import { SpecRepository } from './repositories/spec-repository';
+import { TraceabilityRepository } from './repositories/traceability-repository';
+import { ReviewRepository } from './repositories/review-repository';
+import { CommentRepository } from './repositories/comment-repository';
+import { countCurrentDecisions } from './reviews';
+import { findSection } from './markdown-sections';
+import { Spec } from '../types/spec';
+import { SessionPayload } from '../types/auth';
+import { WorkflowTransition } from '../types/permissions';
+import {
+  TransitionGuardConfig,
+  TransitionGuardResult,
+  TransitionGuardType,
+} from '../types/workflow';
+
+export interface GuardContext {
+  spec: Spec;
+  transition: WorkflowTransition;
+  user: SessionPayload;
+}
+
+type GuardEvaluator<T extends TransitionGuardType> = (
+  config: Extract<TransitionGuardConfig, { type: T }>,
+  context: GuardContext
+) => Promise<Omit<TransitionGuardResult, 'type'>>;
+
+// Registry of guard evaluators, one per guard type
+const GUARD_EVALUATORS: { [T in TransitionGuardType]: GuardEvaluator<T> } = {
+  'children-in-stage': async (config, { spec }) => {
+    const traceabilityRepo = new TraceabilityRepository();
+    const specRepo = new SpecRepository();
+
+    const links = await traceabilityRepo.findChildren(spec._id);
+    const children = (await Promise.all(links.map((link) => specRepo.findById(link.childId))))
+      .filter((child): child is Spec => child !== null)
+      .filter((child) => !config.childTypes || config.childTypes.includes(child.metadata.type));
+
+    const pending = children.filter((child) => !config.stages.includes(child.metadata.status));
+    if (pending.length === 0) {
+      return { passed: true, message: `All child specs are ${config.stages.join(' or ')}` };
+    }
+
+    return {
+      passed: false,
+      message: `${pending.length} child spec(s) not yet ${config.stages.join(' or ')}: ${pending
+        .map((child) => `${child.title} (${child.metadata.status})`)
+        .join(', ')}`,
+    };
+  },
+
+  'section-not-empty': async (config, { spec }) => {
+    const section = findSection(spec.content, config.section);
+    if (!section) {
+      return { passed: false, message: `Section "${config.section}" is missing` };
+    }
+    if (!section.body) {
+      return { passed: false, message: `Section "${config.section}" is empty` };
+    }
+    return { passed: true, message: `Section "${config.section}" is filled in` };
+  },
+
+  'min-approvals': async (config, { spec }) => {
+    const reviewRepo = new ReviewRepository();
+    const reviews = await reviewRepo.findBySpecId(spec._id);
+    const approvals = countCurrentDecisions(reviews, spec.currentVersion, 'approve', config.roles);
+    const from = config.roles ? ` from ${config.roles.join('/')}` : '';
+
+    return {
+      passed: approvals >= config.count,
+      message: `${approvals} of ${config.count} required approval(s)${from} on version ${spec.currentVersion}`,
+    };
+  },
+
+  'no-changes-requested': async (_config, { spec }) => {
+    const reviewRepo = new ReviewRepository();
+    const reviews = await reviewRepo.findBySpecId(spec._id);
+    const requests = countCurrentDecisions(reviews, spec.currentVersion, 'request-changes');
+
+    return {
+      passed: requests === 0,
+      message:
+        requests === 0
+          ? 'No outstanding change requests'
+          : `${requests} reviewer(s) requested changes on version ${spec.currentVersion}`,
+    };
+  },
+
+  'comments-resolved': async (_config, { spec }) => {
+    const commentRepo = new CommentRepository();
+    const openThreads = await commentRepo.findBySpecId(spec._id, 'open');
+
+    return {
+      passed: openThreads.length === 0,
+      message:
+        openThreads.length === 0
+          ? 'All comment threads are resolved'
+          : `${openThreads.length} comment thread(s) still open`,
+    };
+  },
+};
+
+/**
+ * Evaluate every guard configured on a transition
+ * Returns one result per guard, in configuration order
+ */
+export async function evaluateTransitionGuards(
+  context: GuardContext
+): Promise<TransitionGuardResult[]> {
+  const guards = context.transition.guards || [];
+
+  return Promise.all(
+    guards.map(async (guard) => {
+      const evaluate = GUARD_EVALUATORS[guard.type] as GuardEvaluator<typeof guard.type>;
+      try {
+        const result = await evaluate(guard as never, context);
+        return { type: guard.type, ...result };
+      } catch (error) {
+        console.error(`Error evaluating ${guard.type} guard:`, error);
+        return {
+          type: guard.type,
+          passed: false,
+          message: `Guard "${guard.type}" could not be evaluated`,
+        };
+      }
+    })
+  );
+}
@@ -0,0 +1,296 @@
+// Outbound webhooks: signed delivery of spec lifecycle events
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { after } from 'next/server';
+import { z } from 'zod';
+import { WebhookRepository } from './repositories/webhook-repository';
+import {
+  WebhookDeliveryRepository,
+  WebhookDeliveryResult,
+} from './repositories/webhook-delivery-repository';
+import { retryWithBackoff } from './retry';
+import { env } from './env';
+import { SessionPayload } from '../types/auth';
+import { Spec } from '../types/spec';
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookPayload,
+  WEBHOOK_EVENT_TYPES,
+} from '../types/webhook';
+
+// Response bodies are truncated before they are stored in the delivery log
+const MAX_RESPONSE_BODY = 2000;
+
+// Receivers should reject signatures older than this to prevent replays
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export const WEBHOOK_HEADERS = {
+  event: 'X-SpecCraft-Event',
+  delivery: 'X-SpecCraft-Delivery',
+  timestamp: 'X-SpecCraft-Timestamp',
+  signature: 'X-SpecCraft-Signature',
+} as const;
+
+// Zod schema for webhook payloads
+export const WebhookSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  url: z
+    .string()
+    .url('Invalid URL')
+    .refine((url) => /^https?:\/\//.test(url), 'URL must use http or https'),
+  events: z
+    .array(z.enum(WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]]))
+    .min(1, 'At least one event is required'),
+  active: z.boolean().default(true),
+});
+
+/**
+ * Error thrown for a failed delivery attempt
+ * `code` and `status` follow the shape `retryWithBackoff` inspects.
+ */
+class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    public code?: string,
+    public status?: number,
+    public responseBody?: string
+  ) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Generate a new signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Hide a secret in API responses, keeping a short suffix for identification
+ */
+export function maskWebhook(webhook: Webhook): Webhook {
+  return { ...webhook, secret: `whsec_...${webhook.secret.slice(-4)}` };
+}
+
+/**
+ * Sign a payload: HMAC-SHA256 over "<timestamp>.<body>"
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Verify a signature produced by `signPayload`
+ * Intended for receivers; rejects timestamps outside the tolerance window.
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now = Date.now()
+): boolean {
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Summarize a spec for event payloads (content is left out to keep payloads small)
+ */
+export function webhookSpecData(spec: Spec): Record<string, unknown> {
+  return {
+    id: spec._id.toString(),
+    title: spec.title,
+    type: spec.metadata.type,
+    stage: spec.metadata.status,
+    tags: spec.metadata.tags,
+    assignee: spec.metadata.assignee,
+    parentId: spec.metadata.parentId,
+    version: spec.currentVersion,
+    updatedAt: spec.updatedAt,
+  };
+}
+
+/**
+ * POST a payload to a webhook once, throwing on network errors and non-2xx responses
+ */
+async function postPayload(
+  webhook: Webhook,
+  delivery: WebhookDelivery
+): Promise<{ status: number; body: string }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let response: Response;
+  try {
+    response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SpecCraft-Webhooks/1.0',
+        [WEBHOOK_HEADERS.event]: delivery.event,
+        [WEBHOOK_HEADERS.delivery]: delivery._id.toString(),
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(env.webhooks.timeoutMs),
+    });
+  } catch (error) {
+    if (!(error instanceof Error)) {
+      throw new WebhookDeliveryError('Request failed');
+    }
+    if (error.name === 'TimeoutError') {
+      throw new WebhookDeliveryError(
+        `Timed out after ${env.webhooks.timeoutMs}ms`,
+        'ETIMEDOUT'
+      );
+    }
+    // Node's fetch reports socket errors as a TypeError with the system error as cause
+    const cause = error.cause instanceof Error ? (error.cause as NodeJS.ErrnoException) : undefined;
+    const code = cause?.code || (error as NodeJS.ErrnoException).code;
+    throw new WebhookDeliveryError(cause?.message || error.message || 'Request failed', code);
+  }
+
+  const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+
+  if (!response.ok) {
+    throw new WebhookDeliveryError(
+      `Receiver responded with HTTP ${response.status}`,
+      response.status === 429 ? 'RATE_LIMITED' : undefined,
+      response.status,
+      responseBody
+    );
+  }
+
+  return { status: response.status, body: responseBody };
+}
+
+/**
+ * Attempt a logged delivery, retrying transient failures, and record the outcome
+ */
+export async function deliverWebhook(
+  webhook: Webhook,
+  delivery: WebhookDelivery
+): Promise<WebhookDelivery | null> {
+  const deliveryRepo = new WebhookDeliveryRepository();
+  const startedAt = Date.now();
+  let attempts = 0;
+  let result: WebhookDeliveryResult;
+
+  try {
+    const response = await retryWithBackoff(
+      () => {
+        attempts++;
+        return postPayload(webhook, delivery);
+      },
+      {
+        maxAttempts: env.webhooks.maxAttempts,
+        retryableErrors: ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'RATE_LIMITED'],
+      }
+    );
+
+    result = {
+      status: 'succeeded',
+      attempts,
+      responseStatus: response.status,
+      responseBody: response.body,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    const failure = error instanceof WebhookDeliveryError ? error : null;
+    result = {
+      status: 'failed',
+      attempts,
+      responseStatus: failure?.status,
+      responseBody: failure?.responseBody,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  return deliveryRepo.complete(delivery._id.toString(), result);
+}
+
+/**
+ * Emit an event to every active webhook subscribed to it
+ * Deliveries are logged as pending right away and sent after the response,
+ * so slow receivers never hold up the triggering request. Outside a request,
+ * as in the collaboration server, they are sent in the background instead.
+ * Never throws.
+ */
+export async function emitWebhookEvent(
+  event: WebhookEventType,
+  data: Record<string, unknown>,
+  actor: SessionPayload
+): Promise<void> {
+  try {
+    const webhookRepo = new WebhookRepository();
+    const webhooks = await webhookRepo.findActiveByEvent(event);
+    if (webhooks.length === 0) return;
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      occurredAt: new Date().toISOString(),
+      actor: { userId: actor.userId, email: actor.email },
+      data,
+    };
+
+    const deliveryRepo = new WebhookDeliveryRepository();
+    const deliveries = await Promise.all(
+      webhooks.map(async (webhook) => ({
+        webhook,
+        delivery: await deliveryRepo.createDelivery({
+          webhookId: webhook._id.toString(),
+          event,
+          payload,
+        }),
+      }))
+    );
+
+    const deliver = async () => {
+      await Promise.all(
+        deliveries.map(({ webhook, delivery }) =>
+          deliverWebhook(webhook, delivery).catch((error) => {
+            console.error(`Error delivering webhook ${webhook._id} (${event}):`, error);
+          })
+        )
+      );
+    };
+
+    // after() throws outside a request scope
+    try {
+      after(deliver);
+    } catch {
+      void deliver();
+    }
+  } catch (error) {
+    console.error(`Error emitting webhook event ${event}:`, error);
+  }
+}
+
+/**
+ * Send a logged delivery again as a new delivery, reusing its original payload
+ */
+export async function redeliverWebhook(
+  webhook: Webhook,
+  original: WebhookDelivery
+): Promise<WebhookDelivery | null> {
+  const deliveryRepo = new WebhookDeliveryRepository();
+  const delivery = await deliveryRepo.createDelivery({
+    webhookId: webhook._id.toString(),
+    event: original.event,
+    payload: original.payload,
+    redeliveryOf: original._id.toString(),
+  });
+
+  return deliverWebhook(webhook, delivery);
+}
@@ -0,0 +1,159 @@
+// Workflow definition resolution and validation
+import { z } from 'zod';
+import { WorkflowDefinitionRepository } from './repositories/workflow-definition-repository';
+import { queryCache } from './query-cache';
+import { AppError, ErrorCode } from './errors';
+import { SpecMetadata, SpecType } from '../types/spec';
+import { WorkflowDefinition, DEFAULT_WORKFLOW } from '../types/workflow';
+
+const SpecTypeSchema = z.enum(['epic', 'user-story', 'technical-spec', 'test-case']);
+const UserRoleSchema = z.enum(['PM', 'TA', 'Dev', 'QA', 'Stakeholder']);
+
+// Zod schema for transition guard configuration
+const TransitionGuardSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('children-in-stage'),
+    stages: z.array(z.string().min(1)).min(1),
+    childTypes: z.array(SpecTypeSchema).optional(),
+  }),
+  z.object({
+    type: z.literal('section-not-empty'),
+    section: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('min-approvals'),
+    count: z.number().int().min(1),
+    roles: z.array(UserRoleSchema).optional(),
+  }),
+  z.object({
+    type: z.literal('no-changes-requested'),
+  }),
+  z.object({
+    type: z.literal('comments-resolved'),
+  }),
+]);
+
+// Zod schema for workflow definition payloads
+export const WorkflowDefinitionSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required'),
+    specTypes: z
+      .array(SpecTypeSchema)
+      .min(1, 'At least one spec type is required'),
+    stages: z.array(z.string().min(1)).min(1, 'At least one stage is required'),
+    initialStage: z.string().min(1, 'Initial stage is required'),
+    transitions: z.array(
+      z.object({
+        from: z.string().min(1),
+        to: z.string().min(1),
+        allowedRoles: z.array(UserRoleSchema).min(1),
+        requiresComment: z.boolean().optional(),
+        guards: z.array(TransitionGuardSchema).optional(),
+      })
+    ),
+    lockedStages: z.array(z.string().min(1)).optional(),
+  })
+  .superRefine((definition, ctx) => {
+    const stages = new Set(definition.stages);
+
+    if (stages.size !== definition.stages.length) {
+      ctx.addIssue({ code: 'custom', path: ['stages'], message: 'Stage names must be unique' });
+    }
+
+    if (!stages.has(definition.initialStage)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['initialStage'],
+        message: `Initial stage '${definition.initialStage}' is not one of the stages`,
+      });
+    }
+
+    definition.lockedStages?.forEach((stage, index) => {
+      if (!stages.has(stage)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['lockedStages', index],
+          message: `Unknown stage '${stage}'`,
+        });
+      }
+    });
+
+    definition.transitions.forEach((transition, index) => {
+      for (const field of ['from', 'to'] as const) {
+        if (!stages.has(transition[field])) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['transitions', index, field],
+            message: `Unknown stage '${transition[field]}'`,
+          });
+        }
+      }
+    });
+  });
+
+/**
+ * Get the workflow that applies to a spec type
+ * Falls back to the built-in default workflow when no definition is stored
+ */
+export async function getWorkflowForSpecType(specType: SpecType): Promise<WorkflowDefinition> {
+  return queryCache.cached(
+    `workflows:specType:${specType}`,
+    async () => {
+      const workflowRepo = new WorkflowDefinitionRepository();
+      const definition = await workflowRepo.findLatestForSpecType(specType);
+      return definition || DEFAULT_WORKFLOW;
+    },
+    300 // Cache for 5 minutes
+  );
+}
+
+/**
+ * Why a stage cannot be used for a spec type, or null if it is a stage of
+ * the type's workflow
+ */
+export async function invalidStageMessage(specType: SpecType, stage: string): Promise<string | null> {
+  const workflow = await getWorkflowForSpecType(specType);
+  if (workflow.stages.includes(stage)) return null;
+  return `"${stage}" is not a stage of workflow "${workflow.name}" (${workflow.stages.join(', ')})`;
+}
+
+/**
+ * Reject a change of stage made outside a transition
+ * Stages only change through transitions, with their role, guard and comment
+ * checks and their workflow event, so edits, imports and git sync must keep
+ * the stored stage.
+ */
+export function assertStageUnchanged(existing: SpecMetadata, next: SpecMetadata): void {
+  if (next.status !== existing.status) {
+    throw new AppError(
+      ErrorCode.VALIDATION_ERROR,
+      `The stage cannot be changed from "${existing.status}" to "${next.status}" here; use a workflow transition`,
+      { stage: existing.status },
+      400
+    );
+  }
+}
+
+/**
+ * Find spec types already claimed by workflow definitions other than the given key
+ */
+export async function findConflictingSpecTypes(
+  key: string,
+  specTypes: SpecType[]
+): Promise<SpecType[]> {
+  const workflowRepo = new WorkflowDefinitionRepository();
+  const definitions = await workflowRepo.findAllLatest();
+
+  return specTypes.filter((specType) =>
+    definitions.some(
+      (definition) => definition.key !== key && definition.specTypes.includes(specType)
+    )
+  );
+}
+
+/**
+ * Invalidate cached workflow lookups after a definition changes
+ */
+export function invalidateWorkflowCache(): void {
+  queryCache.deletePattern(`workflows:.*`);
+}
@@ -5,7 +5,7 @@ import { SpecMetadata, WorkflowStage, SpecType } from '../types';
 // Zod schema for spec metadata validation
 const SpecMetadataSchema = z.object({
   title: z.string().min(1, 'Title is required'),
-  status: z.enum(['Idea', 'Draft', 'Review', 'Ready', 'InProgress', 'Done']),
+  status: z.string().min(1, 'Status is required'),
   type: z.enum(['epic', 'user-story', 'technical-spec', 'test-case']),
   assignee: z.string().optional(),
   tags: z.array(z.string()).default([]),
@@ -17,6 +17,17 @@ export interface ParsedSpec {
   content: string;
 }
 
+/**
+ * Error thrown for missing or invalid frontmatter
+ * `issues` lists each schema violation as "path: message".
+ */
+export class FrontmatterError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'FrontmatterError';
+  }
+}
+
 /**
  * Parse YAML frontmatter from markdown content
  * Expects format:
@@ -30,7 +41,7 @@ export function parseFrontmatter(markdown: string): ParsedSpec {
   const match = markdown.match(frontmatterRegex);
   
   if (!match) {
-    throw new Error('Invalid frontmatter format. Expected YAML frontmatter enclosed in ---');
+    throw new FrontmatterError('Invalid frontmatter format. Expected YAML frontmatter enclosed in ---');
   }
   
   const [, frontmatterStr, content] = match;
@@ -45,8 +56,8 @@ export function parseFrontmatter(markdown: string): ParsedSpec {
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
-      const issues = error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
-      throw new Error(`Frontmatter validation failed: ${issues}`);
+      const issues = error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+      throw new FrontmatterError(`Frontmatter validation failed: ${issues.join(', ')}`, issues);
     }
     throw error;
   }
@@ -108,7 +119,7 @@ function parseYAML(yamlStr: string): Record<string, any> {
 }
 
 /**
- * Parse a YAML value (string, number, boolean, null)
+ * Parse a YAML value (string, number, boolean, null, flow sequence)
  */
 function parseValue(value: string): any {
   if (value === 'null' || value === '~') return null;
@@ -116,11 +127,19 @@ function parseValue(value: string): any {
   if (value === 'false') return false;
   
   // Remove quotes if present
-  if ((value.startsWith('"') && value.endsWith('"')) || 
-      (value.startsWith("'") && value.endsWith("'"))) {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\"/g, '"');
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
     return value.slice(1, -1);
   }
   
+  // Flow sequence, e.g. [] or [api, backend]
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(',').map(item => parseValue(item.trim())) : [];
+  }
+  
   // Try to parse as number
   const num = Number(value);
   if (!isNaN(num)) return num;
@@ -163,8 +182,14 @@ function serializeValue(value: any): string {
   if (typeof value === 'boolean') return value.toString();
   if (typeof value === 'number') return value.toString();
   if (typeof value === 'string') {
-    // Quote strings with special characters
-    if (value.includes(':') || value.includes('#') || value.includes('\n')) {
+    // Quote strings with special characters or that would parse as another type
+    if (
+      value.includes(':') ||
+      value.includes('#') ||
+      value.includes('\n') ||
+      /^(null|~|true|false|\[.*\]|["'].*)$/.test(value) ||
+      !isNaN(Number(value))
+    ) {
       return `"${value.replace(/"/g, '\\"')}"`;
     }
     return value;
@@ -172,6 +197,15 @@ function serializeValue(value: any): string {
   return String(value);
 }
 
+/**
+ * Get the markdown body of a stored spec document without validating its
+ * frontmatter (which can lag behind metadata changed outside the editor)
+ */
+export function stripFrontmatter(markdown: string): string {
+  const match = markdown.match(/^---\s*\n[\s\S]*?\n---\s*\n([\s\S]*)$/);
+  return (match ? match[1] : markdown).trim();
+}
+
 /**
  * Combine frontmatter and content into full markdown document
  */
@@ -0,0 +1,218 @@
+// Minimal ZIP archive support built on zlib (stored and deflated entries)
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// The EOCD record is 22 bytes plus a comment of up to 64 KB
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+export interface ZipEntry {
+  path: string;
+  data: Buffer;
+}
+
+export interface ZipWriteEntry extends ZipEntry {
+  modifiedAt?: Date;
+}
+
+export interface ZipReadOptions {
+  maxEntries?: number;
+  // Limit on the total uncompressed size, to guard against zip bombs
+  maxTotalSize?: number;
+}
+
+/**
+ * Error for archives that are malformed or exceed the read limits
+ */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_EOCD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new ZipError('Not a zip archive (end of central directory not found)');
+}
+
+/**
+ * Read the file entries of a ZIP archive (directories are skipped)
+ * ZIP64 archives and encrypted entries are not supported.
+ */
+export function readZip(buffer: Buffer, options: ZipReadOptions = {}): ZipEntry[] {
+  const { maxEntries = 1000, maxTotalSize = 50 * 1024 * 1024 } = options;
+
+  if (buffer.length < 22) throw new ZipError('Not a zip archive (too small)');
+  const eocd = findEndOfCentralDirectory(buffer);
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+  if (entryCount > maxEntries) {
+    throw new ZipError(`Archive has ${entryCount} entries (limit ${maxEntries})`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError('Corrupt central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    // Bit 11: file name is UTF-8, otherwise CP437 (treated as latin1)
+    const path = buffer
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString(flags & 0x800 ? 'utf8' : 'latin1');
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & 0x1) throw new ZipError(`Encrypted entry not supported: ${path}`);
+
+    totalSize += size;
+    if (totalSize > maxTotalSize) {
+      throw new ZipError(`Archive contents exceed ${maxTotalSize} bytes`);
+    }
+
+    if (
+      localHeaderOffset + 30 > buffer.length ||
+      buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER
+    ) {
+      throw new ZipError(`Corrupt local header for ${path}`);
+    }
+    const dataStart =
+      localHeaderOffset +
+      30 +
+      buffer.readUInt16LE(localHeaderOffset + 26) +
+      buffer.readUInt16LE(localHeaderOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(compressed);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new ZipError(`Failed to decompress ${path}`);
+      }
+    } else {
+      throw new ZipError(`Unsupported compression method ${method} for ${path}`);
+    }
+
+    if (data.length !== size) {
+      throw new ZipError(`Size mismatch for ${path}`);
+    }
+
+    entries.push({ path, data });
+  }
+
+  return entries;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields (local time, 2-second resolution, from 1980)
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Write entries to a ZIP archive
+ * Entries are deflated unless that does not make them smaller; names are UTF-8.
+ */
+export function writeZip(entries: ZipWriteEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8');
+    const deflated = deflateRawSync(entry.data);
+    const stored = deflated.length >= entry.data.length;
+    const body = stored ? entry.data : deflated;
+    const crc = crc32(entry.data);
+    const { time, date } = dosDateTime(entry.modifiedAt || new Date());
+
+    if (offset + 30 + name.length + body.length > 0xffffffff) {
+      throw new ZipError('Archive exceeds 4 GB (ZIP64 is not supported)');
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x800, 6); // UTF-8 names
+    local.writeUInt16LE(stored ? METHOD_STORED : METHOD_DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    local.copy(central, 6, 4, 26); // version needed through uncompressed size
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  if (entries.length >= 0xffff) {
+    throw new ZipError('Too many entries (ZIP64 is not supported)');
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+}
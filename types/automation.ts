@@ -0,0 +1,72 @@
+// Workflow automation rule types
+import { SpecType, WorkflowStage } from './spec';
+
+export type AutomationTrigger = 'transition' | 'edit' | 'comment';
+
+/**
+ * Filters that decide whether a rule applies to the spec that fired the trigger.
+ * Every listed filter must match; omitted filters match anything.
+ */
+export interface AutomationCondition {
+  specTypes?: SpecType[];
+  // Spec carries at least one of these tags
+  tags?: string[];
+  // Stage the spec is in after the triggering change
+  stages?: WorkflowStage[];
+  // Transition triggers only
+  fromStages?: WorkflowStage[];
+}
+
+/**
+ * Which specs an action operates on, relative to the triggering spec
+ */
+export interface AutomationTarget {
+  relation: 'self' | 'children' | 'parents';
+  specTypes?: SpecType[];
+  stages?: WorkflowStage[];
+}
+
+export type AutomationAction =
+  | { type: 'transition'; toStage: WorkflowStage; target?: AutomationTarget }
+  | { type: 'assign'; assignee: string; target?: AutomationTarget }
+  | { type: 'add-tag'; tag: string; target?: AutomationTarget }
+  | { type: 'post-comment'; text: string; target?: AutomationTarget };
+
+export type AutomationActionType = AutomationAction['type'];
+
+export interface AutomationRule {
+  _id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition;
+  actions: AutomationAction[];
+  createdBy: string;
+  createdAt: Date;
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+/**
+ * Outcome of one action against one target spec
+ */
+export interface AutomationActionResult {
+  type: AutomationActionType;
+  targetSpecId: string;
+  status: 'applied' | 'skipped' | 'failed';
+  message: string;
+}
+
+/**
+ * Audit record of a rule firing
+ */
+export interface AutomationRun {
+  _id: string;
+  ruleId: string;
+  ruleName: string;
+  trigger: AutomationTrigger;
+  specId: string;
+  actor: string;
+  results: AutomationActionResult[];
+  timestamp: Date;
+}
@@ -0,0 +1,25 @@
+// Named baselines: frozen sets of spec versions
+import { SpecMetadata } from './spec';
+
+/**
+ * A spec as captured in a baseline
+ * Metadata is stored because stage transitions change it without creating a
+ * new version.
+ */
+export interface BaselineEntry {
+  specId: string;
+  version: number;
+  metadata: SpecMetadata;
+  updatedAt: Date;
+}
+
+export interface Baseline {
+  _id: string;
+  name: string;
+  description?: string;
+  // Spec whose traceability subtree was captured; absent for a selection of specs
+  rootId?: string;
+  entries: BaselineEntry[];
+  createdBy: string;
+  createdAt: Date;
+}
@@ -0,0 +1,64 @@
+// Real-time collaborative editing types (see docs/COLLABORATION.md)
+import { SpecMetadata } from './spec';
+
+/**
+ * Text operation over a document, as a list of components:
+ * a positive number retains that many characters, a negative number deletes
+ * that many, and a string inserts it
+ */
+export type TextOperation = Array<number | string>;
+
+// Selection as character offsets; anchor === head is a plain cursor
+export interface CollabSelection {
+  anchor: number;
+  head: number;
+}
+
+export interface CollabParticipant {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  canEdit: boolean;
+  selection: CollabSelection | null;
+}
+
+// Messages sent by the editor
+export type CollabClientMessage =
+  | {
+      type: 'operation';
+      // Server revision the operation was made against
+      revision: number;
+      operation: TextOperation;
+      selection?: CollabSelection | null;
+    }
+  | { type: 'selection'; selection: CollabSelection | null }
+  // Snapshot the document as a new spec version now
+  | { type: 'save'; metadata?: SpecMetadata };
+
+// Messages sent by the collaboration server
+export type CollabServerMessage =
+  | {
+      type: 'init';
+      clientId: string;
+      document: string;
+      revision: number;
+      // Spec version the document was last saved as
+      version: number;
+      canEdit: boolean;
+      participants: CollabParticipant[];
+    }
+  // The client's pending operation was applied as this revision
+  | { type: 'ack'; revision: number }
+  | {
+      type: 'operation';
+      // Null for changes made outside the editor, e.g. a git sync
+      clientId: string | null;
+      revision: number;
+      operation: TextOperation;
+      selection?: CollabSelection | null;
+    }
+  | { type: 'selection'; clientId: string; selection: CollabSelection | null }
+  | { type: 'presence'; participants: CollabParticipant[] }
+  | { type: 'saved'; version: number; savedAt: Date; savedBy: string }
+  | { type: 'error'; code: string; message: string };
@@ -0,0 +1,41 @@
+// Bulk spec export types
+import { SpecType, WorkflowStage } from './spec';
+
+export interface ExportManifestAttachment {
+  id: string;
+  fileName: string;
+  // Path of the file within the archive
+  path: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ExportManifestSpec {
+  id: string;
+  // Path of the markdown file within the archive
+  path: string;
+  title: string;
+  type: SpecType;
+  status: WorkflowStage;
+  currentVersion: number;
+  // All traceability parents, including ones outside the export
+  parentIds: string[];
+  updatedAt: Date;
+  attachments: ExportManifestAttachment[];
+}
+
+/**
+ * Contents of `manifest.json` at the root of an export archive
+ */
+export interface ExportManifest {
+  version: 1;
+  exportedAt: Date;
+  exportedBy: string;
+  scope: {
+    filter?: string;
+    rootId?: string;
+    baselineId?: string;
+    attachments: boolean;
+  };
+  specs: ExportManifestSpec[];
+}
@@ -0,0 +1,54 @@
+// Git synchronization types
+
+/**
+ * Both the spec and its file changed since the last sync
+ * The spec is skipped in both directions until the conflict is resolved.
+ */
+export interface GitSyncConflict {
+  detectedAt: Date;
+  // Spec version in the app when the conflict was detected
+  specVersion: number;
+  // Last commit that changed the file
+  fileCommit: string;
+  fileContent: string;
+}
+
+/**
+ * Sync state of one spec: the spec version and documents last seen on both
+ * sides, used to tell which side changed
+ */
+export interface GitSyncState {
+  _id: string;
+  specId: string;
+  // File path within the working copy
+  path: string;
+  version: number;
+  // SHA-256 of the spec document in the app and of the file in git
+  appHash: string;
+  fileHash: string;
+  commit?: string;
+  conflict?: GitSyncConflict;
+  syncedAt: Date;
+}
+
+export type GitSyncChangeAction = 'pushed' | 'pulled' | 'created' | 'removed' | 'conflict' | 'error';
+
+export interface GitSyncChange {
+  path: string;
+  specId?: string;
+  action: GitSyncChangeAction;
+  // Spec versions committed (pushed) or created (pulled)
+  versions?: number[];
+  error?: string;
+}
+
+export interface GitSyncReport {
+  startedAt: Date;
+  completedAt: Date;
+  // Branch head after the run
+  head: string | null;
+  changes: GitSyncChange[];
+  summary: Record<GitSyncChangeAction, number>;
+}
+
+export type GitSyncResolution = 'app' | 'git';
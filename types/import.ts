@@ -0,0 +1,44 @@
+// Bulk spec import types
+import { SpecType } from './spec';
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+/**
+ * How a file's `parentId` reference was resolved
+ * References may be a path within the import, a title, or an existing spec ID.
+ */
+export interface ImportParentResult {
+  reference: string;
+  // Import file the reference resolved to, if any
+  resolvedPath?: string;
+  // Spec ID of the parent; unknown in dry runs when the parent is new
+  resolvedId?: string;
+  linked?: boolean;
+  error?: string;
+}
+
+export interface ImportFileResult {
+  path: string;
+  action: ImportAction;
+  title?: string;
+  type?: SpecType;
+  // Existing spec for updates, or the created spec after a real run
+  specId?: string;
+  errors: string[];
+  parent?: ImportParentResult;
+}
+
+export interface ImportSummary {
+  files: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  errors: number;
+  linked: number;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: ImportSummary;
+  files: ImportFileResult[];
+}
@@ -1,6 +1,8 @@
 // Core type definitions for SpecCraft
 
-export type WorkflowStage = 'Idea' | 'Draft' | 'Review' | 'Ready' | 'InProgress' | 'Done';
+// Stages of the built-in default workflow; custom workflows may define their own
+export type DefaultWorkflowStage = 'Idea' | 'Draft' | 'Review' | 'Ready' | 'InProgress' | 'Done';
+export type WorkflowStage = DefaultWorkflowStage | (string & {});
 
 export type SpecType = 'epic' | 'user-story' | 'technical-spec' | 'test-case';
 
@@ -17,6 +19,20 @@ export interface SpecMetadata {
 
 // Re-export all types
 export * from './auth';
+export * from './automation';
+export * from './baseline';
+export * from './collab';
+export * from './export';
+export * from './git-sync';
+export * from './import';
+export * from './lint';
+export * from './notification';
 export * from './permissions';
+export * from './review';
+export * from './saved-view';
+export * from './search';
 export * from './spec';
+export * from './subscription';
 export * from './template';
+export * from './webhook';
+export * from './workflow';
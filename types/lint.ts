@@ -0,0 +1,43 @@
+// Spec quality review types
+
+export type SpecLintRule =
+  | 'missing-section'
+  | 'placeholder-section'
+  | 'empty-section'
+  | 'vague-term'
+  | 'ears'
+  | 'untestable'
+  | 'ai';
+
+export type SpecLintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found in a spec, anchored to a range of the reviewed text
+ * Lines and columns are 1-based and include the frontmatter; `endColumn` is
+ * exclusive, as in Monaco.
+ */
+export interface SpecDiagnostic {
+  rule: SpecLintRule;
+  severity: SpecLintSeverity;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  // The deterministic rules, or the AI review
+  source: 'rules' | 'ai';
+}
+
+/**
+ * Result of POST /api/specs/:id/lint
+ */
+export interface SpecLintResult {
+  diagnostics: SpecDiagnostic[];
+  ai: {
+    // Skipped when not requested; unavailable when the AI backend failed
+    status: 'ok' | 'skipped' | 'unavailable';
+    message?: string;
+    model?: string;
+    tokensUsed?: number;
+  };
+}
@@ -0,0 +1,23 @@
+// In-app notification types
+import { SpecActivityType } from './subscription';
+
+// Activity types are sent to watchers of the spec
+export type NotificationType = 'mention' | 'reply' | SpecActivityType;
+
+export interface Notification {
+  _id: string;
+  // Recipient
+  userId: string;
+  type: NotificationType;
+  specId: string;
+  commentId?: string;
+  // Email of the user whose action caused the notification
+  actor: string;
+  title: string;
+  message: string;
+  // In-app path to open when the notification is clicked
+  link: string;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+}
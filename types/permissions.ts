@@ -1,7 +1,7 @@
 // Permission types and definitions
 import { UserRole } from './auth';
-
-export type WorkflowStage = 'Idea' | 'Draft' | 'Review' | 'Ready' | 'InProgress' | 'Done';
+import { WorkflowStage } from './spec';
+import type { TransitionGuardConfig } from './workflow';
 
 export type Permission =
   | 'spec:create'
@@ -18,20 +18,34 @@ export type Permission =
   | 'traceability:delete'
   | 'file:upload'
   | 'file:read'
-  | 'ai:use';
+  | 'ai:use'
+  | 'workflow:manage'
+  | 'review:request'
+  | 'review:submit'
+  | 'webhook:manage'
+  | 'sync:manage'
+  | 'baseline:manage';
 
 export interface WorkflowTransition {
   from: WorkflowStage;
   to: WorkflowStage;
   allowedRoles: UserRole[];
+  requiresComment?: boolean;
+  guards?: TransitionGuardConfig[];
 }
 
-// Define workflow transitions and allowed roles
+// Transitions of the built-in default workflow (see DEFAULT_WORKFLOW in ./workflow)
 export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
   { from: 'Idea', to: 'Draft', allowedRoles: ['PM', 'TA'] },
   { from: 'Draft', to: 'Review', allowedRoles: ['PM', 'TA'] },
-  { from: 'Review', to: 'Draft', allowedRoles: ['PM'] }, // Reject
-  { from: 'Review', to: 'Ready', allowedRoles: ['PM', 'Stakeholder'] },
+  { from: 'Review', to: 'Draft', allowedRoles: ['PM'], requiresComment: true }, // Reject
+  {
+    from: 'Review',
+    to: 'Ready',
+    allowedRoles: ['PM', 'Stakeholder'],
+    // Approved and with every discussion settled
+    guards: [{ type: 'min-approvals', count: 1 }, { type: 'comments-resolved' }],
+  },
   { from: 'Ready', to: 'InProgress', allowedRoles: ['Dev'] },
   { from: 'InProgress', to: 'Done', allowedRoles: ['QA'] },
 ];
@@ -54,6 +68,12 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'file:upload',
     'file:read',
     'ai:use',
+    'workflow:manage',
+    'review:request',
+    'review:submit',
+    'webhook:manage',
+    'sync:manage',
+    'baseline:manage',
   ],
   TA: [
     'spec:create',
@@ -68,6 +88,10 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'file:upload',
     'file:read',
     'ai:use',
+    'review:request',
+    'review:submit',
+    'webhook:manage',
+    'baseline:manage',
   ],
   Dev: [
     'spec:read',
@@ -79,6 +103,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'file:upload',
     'file:read',
     'ai:use',
+    'review:submit',
   ],
   QA: [
     'spec:read',
@@ -88,6 +113,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'traceability:read',
     'file:read',
     'ai:use',
+    'review:submit',
   ],
   Stakeholder: [
     'spec:read',
@@ -96,5 +122,6 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'comment:read',
     'traceability:read',
     'file:read',
+    'review:submit',
   ],
 };
@@ -0,0 +1,35 @@
+// Review and approval types
+import { UserRole } from './auth';
+
+export type ReviewDecision = 'approve' | 'request-changes' | 'abstain';
+
+export type ReviewStatus = 'pending' | 'completed' | 'cancelled';
+
+/**
+ * A reviewer's decision, pinned to the spec version it was made on
+ */
+export interface ReviewVerdict {
+  decision: ReviewDecision;
+  version: number;
+  reviewerId: string;
+  reviewerRole: UserRole;
+  comment?: string;
+  timestamp: Date;
+}
+
+/**
+ * A review requested from a specific user or from anyone holding a role
+ */
+export interface Review {
+  _id: string;
+  specId: string;
+  reviewerId?: string;
+  reviewerRole?: UserRole;
+  requestedBy: string;
+  requestedAt: Date;
+  requestedVersion: number;
+  note?: string;
+  status: ReviewStatus;
+  // Every decision made on this review, oldest first
+  verdicts: ReviewVerdict[];
+}
@@ -0,0 +1,42 @@
+// Saved dashboard views and the spec filter language they store
+import { UserRole } from './auth';
+
+export type SpecFilterField =
+  | 'status'
+  | 'type'
+  | 'assignee'
+  | 'tag'
+  | 'parent'
+  | 'author'
+  | 'title'
+  | 'created'
+  | 'updated'
+  | 'has';
+
+export type SpecFilterOperator = '=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * One `field:value` clause of a filter query
+ * Values are alternatives; date fields use a single value with an operator.
+ */
+export interface SpecFilterClause {
+  field: SpecFilterField;
+  operator: SpecFilterOperator;
+  values: string[];
+  negate: boolean;
+}
+
+export type SavedViewVisibility = 'private' | 'roles' | 'everyone';
+
+export interface SavedView {
+  _id: string;
+  name: string;
+  // Filter query, e.g. `status:Draft updated:<14d`
+  query: string;
+  ownerId: string;
+  visibility: SavedViewVisibility;
+  // Roles the view is shared with when visibility is 'roles'
+  sharedRoles: UserRole[];
+  createdAt: Date;
+  updatedAt: Date;
+}
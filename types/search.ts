@@ -0,0 +1,65 @@
+// Full-text search types
+import { SpecMetadata } from './spec';
+
+// Fields usable as `field:value` filters in a search query
+export type SearchFilterField = 'status' | 'type' | 'tag' | 'assignee';
+
+/**
+ * A search query split into free text and field filters
+ * e.g. `status:Review tag:payments "exact phrase" refund`
+ */
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  // Values of the same field are OR-ed, different fields are AND-ed
+  filters: Partial<Record<SearchFilterField, string[]>>;
+}
+
+export type SearchMatchSource = 'title' | 'tag' | 'content' | 'comment' | 'attachment';
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * Excerpt around a match; highlights are character offsets into `text`
+ */
+export interface SearchSnippet {
+  source: SearchMatchSource;
+  text: string;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  titleHighlights: SearchHighlight[];
+  metadata: SpecMetadata;
+  updatedAt: Date;
+  currentVersion: number;
+  score: number;
+  matchedIn: SearchMatchSource[];
+  snippets: SearchSnippet[];
+}
+
+export interface SearchFacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  status: SearchFacetBucket[];
+  type: SearchFacetBucket[];
+  assignee: SearchFacetBucket[];
+  tag: SearchFacetBucket[];
+}
+
+export interface SearchResponse {
+  query: ParsedSearchQuery;
+  total: number;
+  results: SearchResult[];
+  facets: SearchFacets;
+  // More specs may match than were scored, so total and facets are lower bounds
+  truncated: boolean;
+}
@@ -1,6 +1,8 @@
 // Spec document types and interfaces
 
-export type WorkflowStage = 'Idea' | 'Draft' | 'Review' | 'Ready' | 'InProgress' | 'Done';
+// Stages of the built-in default workflow; custom workflows may define their own
+export type DefaultWorkflowStage = 'Idea' | 'Draft' | 'Review' | 'Ready' | 'InProgress' | 'Done';
+export type WorkflowStage = DefaultWorkflowStage | (string & {});
 export type SpecType = 'epic' | 'user-story' | 'technical-spec' | 'test-case';
 
 export interface SpecMetadata {
@@ -22,6 +24,8 @@ export interface Spec {
   updatedBy: string;
   updatedAt: Date;
   currentVersion: number;
+  // Set when the current version restored an earlier one
+  restoredFrom?: number;
 }
 
 export interface Revision {
@@ -32,6 +36,28 @@ export interface Revision {
   metadata: SpecMetadata;
   author: string;
   timestamp: Date;
+  // Version this one restored, if it was created by a restore
+  restoredFrom?: number;
+}
+
+/**
+ * Save rejected because the spec changed since the version it was based on
+ * Returned in the details of a 409 response from PUT /api/specs/:id.
+ */
+export interface SpecConflict {
+  // Version the save was based on
+  expectedVersion: number;
+  currentVersion: number;
+  // Latest document on the server, without frontmatter
+  content: string;
+  metadata: SpecMetadata;
+  updatedBy: string;
+  updatedAt: Date;
+  // Both edits combined; sections changed on both sides are between conflict markers
+  merge: {
+    content: string;
+    conflicts: number;
+  };
 }
 
 export interface LineRange {
@@ -39,6 +65,8 @@ export interface LineRange {
   end: number;
 }
 
+export type CommentStatus = 'open' | 'resolved' | 'wont-fix';
+
 export interface Comment {
   _id: string;
   specId: string;
@@ -48,6 +76,12 @@ export interface Comment {
   lineRange: LineRange;
   mentions: string[];
   timestamp: Date;
+  // Thread status lives on the top-level comment; missing means open
+  status?: CommentStatus;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  // Set when the anchored lines were deleted by a later edit
+  outdated?: boolean;
 }
 
 export interface TraceabilityLink {
@@ -0,0 +1,53 @@
+// Spec watch subscriptions and notification preferences
+
+export type SubscriptionScope = 'spec' | 'subtree';
+
+/**
+ * A user watching a spec, or a spec and all of its traceability descendants
+ */
+export interface Subscription {
+  _id: string;
+  userId: string;
+  specId: string;
+  scope: SubscriptionScope;
+  createdAt: Date;
+}
+
+export type SpecActivityType = 'edit' | 'transition' | 'comment' | 'attachment' | 'link';
+
+export type NotificationFrequency = 'immediate' | 'hourly' | 'daily';
+
+export interface NotificationPreferences {
+  _id: string;
+  userId: string;
+  channels: {
+    inApp: boolean;
+    email: boolean;
+  };
+  // How often email is sent; digests batch everything since the last one
+  emailFrequency: NotificationFrequency;
+  updatedAt: Date;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Pick<
+  NotificationPreferences,
+  'channels' | 'emailFrequency'
+> = {
+  channels: { inApp: true, email: true },
+  emailFrequency: 'immediate',
+};
+
+/**
+ * A notification waiting to go out in the recipient's next email digest
+ */
+export interface DigestEntry {
+  _id: string;
+  userId: string;
+  frequency: Exclude<NotificationFrequency, 'immediate'>;
+  specId: string;
+  title: string;
+  message: string;
+  link: string;
+  createdAt: Date;
+  sentAt?: Date;
+}
@@ -0,0 +1,65 @@
+// Outbound webhook types
+
+export type WebhookEventType =
+  | 'spec.created'
+  | 'spec.updated'
+  | 'spec.transitioned'
+  | 'comment.created'
+  | 'traceability.linked'
+  | 'file.uploaded';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'spec.created',
+  'spec.updated',
+  'spec.transitioned',
+  'comment.created',
+  'traceability.linked',
+  'file.uploaded',
+];
+
+export interface Webhook {
+  _id: string;
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  // HMAC-SHA256 signing secret; only returned when the webhook is created
+  secret: string;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Body POSTed to webhook endpoints
+ */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType;
+  occurredAt: string;
+  actor: { userId: string; email: string };
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Log entry of one delivery of a payload to one webhook
+ */
+export interface WebhookDelivery {
+  _id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  // Truncated response body, for debugging receivers
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  // Set on manual redeliveries
+  redeliveryOf?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
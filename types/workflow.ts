@@ -0,0 +1,97 @@
+// Workflow definition types
+import { SpecType, WorkflowStage } from './spec';
+import { UserRole } from './auth';
+import { WorkflowTransition, WORKFLOW_TRANSITIONS } from './permissions';
+
+/**
+ * Conditions that must hold before a transition is allowed
+ */
+export type TransitionGuardConfig =
+  | {
+      // Every linked child (optionally of the given types) is in one of the stages
+      type: 'children-in-stage';
+      stages: WorkflowStage[];
+      childTypes?: SpecType[];
+    }
+  | {
+      // The named markdown section exists and has content
+      type: 'section-not-empty';
+      section: string;
+    }
+  | {
+      // At least `count` distinct reviewers (optionally of the given roles)
+      // approved the current version
+      type: 'min-approvals';
+      count: number;
+      roles?: UserRole[];
+    }
+  | {
+      // No reviewer currently requests changes on the current version
+      type: 'no-changes-requested';
+    }
+  | {
+      // Every comment thread on the spec is resolved or won't fix
+      type: 'comments-resolved';
+    };
+
+export type TransitionGuardType = TransitionGuardConfig['type'];
+
+/**
+ * Outcome of evaluating a transition guard
+ */
+export interface TransitionGuardResult {
+  type: TransitionGuardType;
+  passed: boolean;
+  message: string;
+}
+
+/**
+ * A stored, versioned workflow definition.
+ * Every edit creates a new document with the same key and an incremented version.
+ */
+export interface WorkflowDefinition {
+  _id: string;
+  key: string;
+  name: string;
+  version: number;
+  specTypes: SpecType[];
+  stages: WorkflowStage[];
+  initialStage: WorkflowStage;
+  transitions: WorkflowTransition[];
+  // Stages in which earlier versions of a spec cannot be restored
+  lockedStages?: WorkflowStage[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Built-in workflow used for spec types without a stored definition
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  _id: 'default',
+  key: 'default',
+  name: 'Default Workflow',
+  version: 0,
+  specTypes: ['epic', 'user-story', 'technical-spec', 'test-case'],
+  stages: ['Idea', 'Draft', 'Review', 'Ready', 'InProgress', 'Done'],
+  initialStage: 'Idea',
+  transitions: WORKFLOW_TRANSITIONS,
+  lockedStages: ['Done'],
+  createdBy: 'system',
+  createdAt: new Date(0),
+};
+
+/**
+ * A recorded workflow stage transition
+ */
+export interface WorkflowEvent {
+  _id: string;
+  specId: string;
+  fromStage: WorkflowStage;
+  toStage: WorkflowStage;
+  actor: string;
+  comment?: string;
+  workflowKey: string;
+  workflowVersion: number;
+  timestamp: Date;
+}